@@ -1,6 +1,7 @@
-import { Module } from '@nestjs/common';
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { MongooseModule } from '@nestjs/mongoose';
+import { Connection } from 'mongoose';
 import { WinstonModule } from 'nest-winston';
 
 import { AppController } from './app.controller';
@@ -14,6 +15,10 @@ import { UsersModule } from '@app/modules/users/users.module';
 import { OrganizationsModule } from '@app/modules/organizations/organizations.module';
 import { MeasurementPlansModule } from '@modules/measurement-plans/measurement-plans.module';
 import { OrganizationInvitationsModule } from '@app/modules/organization-invitations/organization-invitations.module';
+import { CommentsModule } from '@modules/comments/comments.module';
+import { AuditModule } from '@modules/audit/audit.module';
+import { auditPlugin } from '@infrastructure/audit/audit.plugin';
+import { AuditContextMiddleware } from '@infrastructure/audit/audit-context.middleware';
 
 // Controller Modules
 import { EstimatesModule } from '@controllers/fpa/estimates.module';
@@ -41,6 +46,11 @@ import { Organization, OrganizationSchema } from '@domain/organizations/entities
     MongooseModule.forRootAsync({
       useFactory: (configService: ConfigService) => ({
         uri: configService.get<string>('app.mongodb.uri'),
+        // Applied to the models compiled on this connection
+        connectionFactory: (connection: Connection) => {
+          connection.plugin(auditPlugin);
+          return connection;
+        },
       }),
       inject: [ConfigService],
     }),
@@ -59,6 +69,8 @@ import { Organization, OrganizationSchema } from '@domain/organizations/entities
     OrganizationsModule,
     MeasurementPlansModule,
     OrganizationInvitationsModule,
+    CommentsModule,
+    AuditModule,
 
     // Controller Modules
     EstimatesModule,
@@ -70,4 +82,8 @@ import { Organization, OrganizationSchema } from '@domain/organizations/entities
   controllers: [AppController, FilesController],
   providers: [MigrateOrganizationalObjectivesService],
 })
-export class AppModule {}
+export class AppModule implements NestModule {
+  configure(consumer: MiddlewareConsumer): void {
+    consumer.apply(AuditContextMiddleware).forRoutes('*');
+  }
+}
@@ -0,0 +1,62 @@
+import { Injectable, Inject, Logger, OnModuleInit } from '@nestjs/common';
+import {
+  AUDIT_EVENT_REPOSITORY,
+  IAuditEventRepository,
+  AuditEventFilters,
+} from '@domain/audit/interfaces/audit-event.repository.interface';
+import { AuditEvent } from '@domain/audit/entities/audit-event.entity';
+import {
+  AuditRecorder,
+  setAuditRecorder,
+} from '@infrastructure/audit/audit.plugin';
+
+export interface AuditEventPage {
+  data: AuditEvent[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+@Injectable()
+export class AuditService implements AuditRecorder, OnModuleInit {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(
+    @Inject(AUDIT_EVENT_REPOSITORY)
+    private readonly auditEventRepository: IAuditEventRepository,
+  ) {}
+
+  // Writes of the audited models are recorded through this service
+  onModuleInit(): void {
+    setAuditRecorder(this);
+  }
+
+  /**
+   * The change is already saved when it is recorded, so a failure to write
+   * the trail is logged rather than failing the request
+   */
+  async record(events: Partial<AuditEvent>[]): Promise<void> {
+    try {
+      await this.auditEventRepository.createMany(events);
+    } catch (error) {
+      this.logger.error(
+        `Failed to record ${events.length} audit event(s): ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  findByOrganization(
+    organizationId: string,
+    page: number,
+    limit: number,
+    filters: AuditEventFilters = {},
+  ): Promise<AuditEventPage> {
+    return this.auditEventRepository.findWithPagination(
+      organizationId,
+      page,
+      limit,
+      filters,
+    );
+  }
+}
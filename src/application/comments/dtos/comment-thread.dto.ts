@@ -0,0 +1,82 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsMongoId,
+  IsNotEmpty,
+  IsString,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { CommentTargetType } from '@domain/comments/entities/comment-thread.entity';
+
+const ESTIMATE_TARGETS = [
+  CommentTargetType.ESTIMATE,
+  CommentTargetType.COMPONENT,
+];
+
+export class CreateCommentThreadDto {
+  @ApiProperty({
+    description: 'The kind of element the thread is about',
+    enum: CommentTargetType,
+    example: CommentTargetType.COMPONENT,
+  })
+  @IsEnum(CommentTargetType)
+  targetType: CommentTargetType;
+
+  @ApiProperty({
+    description: 'The estimate, for estimate and component threads',
+    example: '507f1f77bcf86cd799439011',
+    required: false,
+  })
+  @ValidateIf((dto: CreateCommentThreadDto) =>
+    ESTIMATE_TARGETS.includes(dto.targetType),
+  )
+  @IsMongoId()
+  estimateId?: string;
+
+  @ApiProperty({
+    description:
+      'The measurement plan, for objective, question and metric threads',
+    example: '507f1f77bcf86cd799439012',
+    required: false,
+  })
+  @ValidateIf(
+    (dto: CreateCommentThreadDto) => !ESTIMATE_TARGETS.includes(dto.targetType),
+  )
+  @IsMongoId()
+  measurementPlanId?: string;
+
+  @ApiProperty({
+    description:
+      'The component, objective, question or metric; not used for estimate threads',
+    example: '507f1f77bcf86cd799439013',
+    required: false,
+  })
+  @ValidateIf(
+    (dto: CreateCommentThreadDto) =>
+      dto.targetType !== CommentTargetType.ESTIMATE,
+  )
+  @IsMongoId()
+  targetId?: string;
+
+  @ApiProperty({
+    description:
+      'The first comment; mention organization members with @username',
+    example: '@ana.silva should the address be a RET of Customer?',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(4000)
+  text: string;
+}
+
+export class AddCommentDto {
+  @ApiProperty({
+    description: 'The reply; mention organization members with @username',
+    example: 'Yes, it has no meaning without the customer',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(4000)
+  text: string;
+}
@@ -0,0 +1,333 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Types } from 'mongoose';
+import {
+  COMMENT_THREAD_REPOSITORY,
+  ICommentThreadRepository,
+  CommentThreadFilters,
+} from '@domain/comments/interfaces/comment-thread.repository.interface';
+import {
+  CommentThread,
+  CommentTargetType,
+  ThreadComment,
+} from '@domain/comments/entities/comment-thread.entity';
+import { MentionParser } from '@domain/comments/services/mention-parser.service';
+import {
+  ESTIMATE_REPOSITORY,
+  IEstimateRepository,
+} from '@domain/fpa/interfaces/estimate.repository.interface';
+import {
+  MEASUREMENT_PLAN_REPOSITORY,
+  IMeasurementPlanRepository,
+} from '@domain/measurement-plans/interfaces/measurement-plan.repository.interface';
+import {
+  USER_REPOSITORY,
+  IUserRepository,
+} from '@domain/users/interfaces/user.repository.interface';
+import { User } from '@domain/users/entities/user.entity';
+import { EmailService } from '@infrastructure/external-services/email/email.service';
+import { HtmlUtils } from '@shared/utils/html.utils';
+import {
+  CreateCommentThreadDto,
+  AddCommentDto,
+} from '@application/comments/dtos/comment-thread.dto';
+
+// Where a new thread is attached, once its target is checked
+type ThreadTarget = Pick<
+  CommentThread,
+  | 'targetType'
+  | 'targetId'
+  | 'estimateId'
+  | 'componentType'
+  | 'measurementPlanId'
+>;
+
+@Injectable()
+export class CommentThreadService {
+  private readonly logger = new Logger(CommentThreadService.name);
+
+  constructor(
+    @Inject(COMMENT_THREAD_REPOSITORY)
+    private readonly commentThreadRepository: ICommentThreadRepository,
+    @Inject(ESTIMATE_REPOSITORY)
+    private readonly estimateRepository: IEstimateRepository,
+    @Inject(MEASUREMENT_PLAN_REPOSITORY)
+    private readonly measurementPlanRepository: IMeasurementPlanRepository,
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    private readonly emailService: EmailService,
+  ) {}
+
+  async create(
+    createDto: CreateCommentThreadDto,
+    organizationId: string,
+    authorId: string,
+  ): Promise<CommentThread> {
+    const target = await this.resolveTarget(createDto, organizationId);
+    const comment = await this.buildComment(
+      createDto.text,
+      organizationId,
+      authorId,
+    );
+
+    const thread = await this.commentThreadRepository.create({
+      ...target,
+      organizationId: new Types.ObjectId(organizationId),
+      comments: [comment.comment],
+      resolved: false,
+      createdBy: new Types.ObjectId(authorId),
+    });
+    await this.notifyMentioned(thread, comment.mentioned, authorId);
+    return thread;
+  }
+
+  findAll(
+    organizationId: string,
+    filters: CommentThreadFilters = {},
+  ): Promise<CommentThread[]> {
+    return this.commentThreadRepository.findByOrganization(
+      organizationId,
+      filters,
+    );
+  }
+
+  async findOne(id: string, organizationId: string): Promise<CommentThread> {
+    const thread = await this.commentThreadRepository.findById(id);
+    if (!thread) {
+      throw new NotFoundException(`Comment thread with ID ${id} not found`);
+    }
+    if (thread.organizationId.toString() !== organizationId) {
+      throw new ForbiddenException('Access denied to this comment thread');
+    }
+    return thread;
+  }
+
+  /**
+   * @throws BadRequestException if the thread is resolved; it has to be
+   * reopened to continue the discussion
+   */
+  async addComment(
+    id: string,
+    addDto: AddCommentDto,
+    organizationId: string,
+    authorId: string,
+  ): Promise<CommentThread> {
+    const thread = await this.findOne(id, organizationId);
+    if (thread.resolved) {
+      throw new BadRequestException(
+        'The thread is resolved; unresolve it to reply',
+      );
+    }
+
+    const comment = await this.buildComment(
+      addDto.text,
+      organizationId,
+      authorId,
+    );
+    const updatedThread = await this.commentThreadRepository.addComment(
+      id,
+      comment.comment,
+    );
+    if (!updatedThread) {
+      throw new NotFoundException(`Comment thread with ID ${id} not found`);
+    }
+    await this.notifyMentioned(updatedThread, comment.mentioned, authorId);
+    return updatedThread;
+  }
+
+  async resolve(
+    id: string,
+    organizationId: string,
+    resolvedBy: string,
+  ): Promise<CommentThread> {
+    const thread = await this.findOne(id, organizationId);
+    if (thread.resolved) {
+      return thread;
+    }
+    return this.setResolution(id, resolvedBy);
+  }
+
+  async unresolve(id: string, organizationId: string): Promise<CommentThread> {
+    const thread = await this.findOne(id, organizationId);
+    if (!thread.resolved) {
+      return thread;
+    }
+    return this.setResolution(id, null);
+  }
+
+  /**
+   * Check the element a new thread is about exists in the organization: the
+   * estimate or one of its components, or an objective, question or metric
+   * of a measurement plan
+   */
+  private async resolveTarget(
+    createDto: CreateCommentThreadDto,
+    organizationId: string,
+  ): Promise<ThreadTarget> {
+    const { targetType } = createDto;
+
+    if (
+      targetType === CommentTargetType.ESTIMATE ||
+      targetType === CommentTargetType.COMPONENT
+    ) {
+      if (!createDto.estimateId) {
+        throw new BadRequestException(`${targetType} threads need an estimate`);
+      }
+      const estimateId = createDto.estimateId;
+      const estimate = await this.estimateRepository.findById(estimateId);
+      if (!estimate) {
+        throw new NotFoundException(`Estimate with ID ${estimateId} not found`);
+      }
+      if (estimate.organizationId.toString() !== organizationId) {
+        throw new ForbiddenException('Access denied to this estimate');
+      }
+      if (targetType === CommentTargetType.ESTIMATE) {
+        return {
+          targetType,
+          targetId: estimate._id,
+          estimateId: estimate._id,
+        };
+      }
+
+      const components =
+        await this.estimateRepository.findComponentSummaries(estimateId);
+      const component = components.find(
+        (summary) => summary._id.toString() === createDto.targetId,
+      );
+      if (!component) {
+        throw new NotFoundException(
+          `Component ${createDto.targetId} is not part of the estimate`,
+        );
+      }
+      return {
+        targetType,
+        targetId: component._id,
+        estimateId: estimate._id,
+        componentType: component.componentType,
+      };
+    }
+
+    if (!createDto.measurementPlanId || !createDto.targetId) {
+      throw new BadRequestException(
+        `${targetType} threads need a measurement plan and a target`,
+      );
+    }
+    const planId = createDto.measurementPlanId;
+    const plan = await this.measurementPlanRepository.findById(planId);
+    if (!plan) {
+      throw new NotFoundException(
+        `Measurement plan with ID ${planId} not found`,
+      );
+    }
+    if (plan.organizationId.toString() !== organizationId) {
+      throw new ForbiddenException('Access denied to this measurement plan');
+    }
+
+    const objectives = plan.objectives || [];
+    const questions = objectives.flatMap(
+      (objective) => objective.questions || [],
+    );
+    const candidates = {
+      [CommentTargetType.OBJECTIVE]: objectives,
+      [CommentTargetType.QUESTION]: questions,
+      [CommentTargetType.METRIC]: questions.flatMap(
+        (question) => question.metrics || [],
+      ),
+    }[targetType];
+    const element = candidates.find(
+      (candidate) => candidate._id.toString() === createDto.targetId,
+    );
+    if (!element) {
+      throw new NotFoundException(
+        `${targetType} ${createDto.targetId} is not part of the measurement plan`,
+      );
+    }
+    return {
+      targetType,
+      targetId: new Types.ObjectId(createDto.targetId),
+      measurementPlanId: plan._id,
+    };
+  }
+
+  /**
+   * Mentions of usernames that are not members of the organization are kept
+   * as plain text
+   */
+  private async buildComment(
+    text: string,
+    organizationId: string,
+    authorId: string,
+  ): Promise<{ comment: ThreadComment; mentioned: User[] }> {
+    const usernames = MentionParser.usernames(text);
+    const members =
+      usernames.length > 0
+        ? await this.userRepository.findByOrganizationId(organizationId)
+        : [];
+    const mentioned = members.filter((member) =>
+      usernames.includes(member.username.toLowerCase()),
+    );
+
+    return {
+      comment: {
+        _id: new Types.ObjectId(),
+        authorId: new Types.ObjectId(authorId),
+        text,
+        mentions: mentioned.map((member) => member._id),
+        createdAt: new Date(),
+      },
+      mentioned,
+    };
+  }
+
+  // E-mail failures must not lose the comment, so they are only logged
+  private async notifyMentioned(
+    thread: CommentThread,
+    mentioned: User[],
+    authorId: string,
+  ): Promise<void> {
+    const recipients = mentioned.filter(
+      (member) => member._id.toString() !== authorId,
+    );
+    const comment = thread.comments[thread.comments.length - 1];
+
+    for (const recipient of recipients) {
+      try {
+        await this.emailService.sendEmail(
+          recipient.email,
+          'You were mentioned in a comment',
+          `
+            <div style="font-family: Arial, sans-serif;">
+              <h2>You were mentioned in a comment</h2>
+              <p>A ${thread.targetType.toLowerCase()} discussion mentions you:</p>
+              <blockquote>${HtmlUtils.escape(comment.text)}</blockquote>
+            </div>
+          `,
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Failed to notify mentioned user ${recipient._id.toString()}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        );
+      }
+    }
+  }
+
+  private async setResolution(
+    id: string,
+    resolvedBy: string | null,
+  ): Promise<CommentThread> {
+    const updatedThread = await this.commentThreadRepository.setResolution(
+      id,
+      resolvedBy,
+    );
+    if (!updatedThread) {
+      throw new NotFoundException(`Comment thread with ID ${id} not found`);
+    }
+    return updatedThread;
+  }
+}
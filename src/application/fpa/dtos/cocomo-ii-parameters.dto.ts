@@ -0,0 +1,62 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsOptional,
+  IsString,
+  IsNumber,
+  IsObject,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import {
+  CocomoRating,
+  CocomoScaleFactor,
+  CocomoEffortMultiplier,
+} from '@domain/fpa/services/cocomo-ii.service';
+
+export class CocomoIIParametersDto {
+  @ApiProperty({
+    description:
+      'Implementation language, used to backfire function points into source lines',
+    example: 'Java',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  language?: string;
+
+  @ApiProperty({
+    description:
+      'Source lines per unadjusted function point (overrides the language ratio)',
+    example: 53,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  slocPerFunctionPoint?: number;
+
+  @ApiProperty({
+    description: 'Scale factor ratings; factors left out are nominal',
+    example: {
+      [CocomoScaleFactor.PREC]: CocomoRating.HIGH,
+      [CocomoScaleFactor.PMAT]: CocomoRating.LOW,
+    },
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  scaleFactors?: Partial<Record<CocomoScaleFactor, CocomoRating>>;
+
+  @ApiProperty({
+    description: 'Effort multiplier ratings; multipliers left out are nominal',
+    example: {
+      [CocomoEffortMultiplier.RELY]: CocomoRating.HIGH,
+      [CocomoEffortMultiplier.ACAP]: CocomoRating.VERY_HIGH,
+    },
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  effortMultipliers?: Partial<Record<CocomoEffortMultiplier, CocomoRating>>;
+}
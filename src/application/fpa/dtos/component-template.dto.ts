@@ -0,0 +1,210 @@
+import { ApiProperty, OmitType, PartialType } from '@nestjs/swagger';
+import {
+  IsNotEmpty,
+  IsString,
+  MaxLength,
+  IsOptional,
+  IsNumber,
+  IsEnum,
+  IsIn,
+  IsArray,
+  IsBoolean,
+  IsMongoId,
+  ArrayMaxSize,
+  Min,
+} from 'class-validator';
+import {
+  COMPONENT_TEMPLATE_TYPES,
+  ComponentTemplateType,
+} from '@domain/fpa/entities/component-template.entity';
+import { FunctionChangeType } from '@domain/fpa/entities/base-fpa-component.entity';
+
+export class CreateComponentTemplateDto {
+  @ApiProperty({
+    description: 'The function type (ALI = ILF, AIE = EIF)',
+    enum: COMPONENT_TEMPLATE_TYPES,
+    example: 'AIE',
+  })
+  @IsIn(COMPONENT_TEMPLATE_TYPES)
+  componentType: ComponentTemplateType;
+
+  @ApiProperty({
+    description: 'Name of the component, used when instantiating it',
+    example: 'Customer Master',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description: 'Description of the component',
+    example: 'Customer master data maintained by the CRM application',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(1000)
+  description: string;
+
+  @ApiProperty({
+    description: 'Primary purpose and business function of the component',
+    example: 'Provides customer identification and contact data',
+  })
+  @IsNotEmpty()
+  @IsString()
+  primaryIntent: string;
+
+  @ApiProperty({
+    description: 'Number of Data Element Types (DETs/TDs)',
+    example: 12,
+    minimum: 1,
+  })
+  @IsNumber()
+  @Min(1)
+  dataElementTypes: number;
+
+  @ApiProperty({
+    description: 'Number of Record Element Types (RETs/TRs), for ALI and AIE',
+    example: 2,
+    minimum: 1,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  recordElementTypes?: number;
+
+  @ApiProperty({
+    description:
+      'Number of File Types Referenced (FTRs/ARs), for EI, EO and EQ',
+    example: 2,
+    minimum: 0,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  fileTypesReferenced?: number;
+
+  @ApiProperty({
+    description: 'External system that maintains the data (required for AIE)',
+    example: 'CRM',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  externalSystem?: string;
+
+  @ApiProperty({
+    description: 'Processing logic (EI); defaults to the primary intent',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  processingLogic?: string;
+
+  @ApiProperty({
+    description: 'Output format (required for EO, optional for EQ)',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  outputFormat?: string;
+
+  @ApiProperty({
+    description: 'Whether the output produces derived data (EO)',
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  derivedData?: boolean;
+
+  @ApiProperty({ description: 'Retrieval logic (EQ)', required: false })
+  @IsOptional()
+  @IsString()
+  retrievalLogic?: string;
+
+  @ApiProperty({ description: 'Additional technical notes', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  notes?: string;
+
+  @ApiProperty({
+    description: 'Labels used to find the template',
+    example: ['customer', 'crm'],
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  tags?: string[];
+}
+
+// The function type of a template is fixed once created
+export class UpdateComponentTemplateDto extends PartialType(
+  OmitType(CreateComponentTemplateDto, ['componentType'] as const),
+) {}
+
+export class SaveComponentAsTemplateDto {
+  @ApiProperty({
+    description: 'The estimate holding the component',
+    example: '60c72b2f9b1e8b3b4c8d6e1a',
+  })
+  @IsMongoId()
+  estimateId: string;
+
+  @ApiProperty({
+    description: 'The component to save to the library',
+    example: '60c72b2f9b1e8b3b4c8d6e1b',
+  })
+  @IsMongoId()
+  componentId: string;
+
+  @ApiProperty({
+    description: 'The function type of the component',
+    enum: COMPONENT_TEMPLATE_TYPES,
+  })
+  @IsIn(COMPONENT_TEMPLATE_TYPES)
+  componentType: ComponentTemplateType;
+
+  @ApiProperty({
+    description: 'Labels used to find the template',
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  tags?: string[];
+}
+
+export class InstantiateComponentTemplateDto {
+  @ApiProperty({
+    description: 'The estimate the component is added to',
+    example: '60c72b2f9b1e8b3b4c8d6e1a',
+  })
+  @IsMongoId()
+  estimateId: string;
+
+  @ApiProperty({
+    description: "Name of the new component. Defaults to the template's name",
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiProperty({
+    description: 'How the function is affected by an enhancement project',
+    enum: FunctionChangeType,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(FunctionChangeType)
+  changeType?: FunctionChangeType;
+}
@@ -5,7 +5,17 @@ import {
   IsOptional,
   Min,
   MaxLength,
+  IsEnum,
+  IsArray,
+  ArrayMaxSize,
+  ValidateNested,
 } from 'class-validator';
+import { FunctionChangeType } from '@domain/fpa/entities/base-fpa-component.entity';
+import { Type } from 'class-transformer';
+import {
+  RecordElementGroupDto,
+  MAX_LISTED_ELEMENTS,
+} from '@application/fpa/dtos/element-detail.dto';
 
 export class UpdateAIEDto {
   @ApiProperty({
@@ -49,6 +59,32 @@ export class UpdateAIEDto {
   @Min(1)
   dataElementTypes?: number;
 
+  @ApiProperty({
+    description:
+      'Names of the DETs. When given, the DET count is derived from these and the DETs of the RETs',
+    example: ['Customer ID', 'Name', 'Email'],
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_LISTED_ELEMENTS)
+  @IsString({ each: true })
+  dataElements?: string[];
+
+  @ApiProperty({
+    description:
+      'RET subgroups with their DETs. When given, the RET count is derived from them',
+    type: [RecordElementGroupDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_LISTED_ELEMENTS)
+  @ValidateNested({ each: true })
+  @Type(() => RecordElementGroupDto)
+  recordElements?: RecordElementGroupDto[];
+
   @ApiProperty({
     description:
       'Name or identifier of the external system that maintains this data',
@@ -81,4 +117,15 @@ export class UpdateAIEDto {
   @IsOptional()
   @MaxLength(2000)
   notes?: string;
+
+  @ApiProperty({
+    description:
+      'How this function is affected by an enhancement project (defaults to ADDED in enhancement counts)',
+    enum: FunctionChangeType,
+    example: FunctionChangeType.CHANGED,
+    required: false,
+  })
+  @IsEnum(FunctionChangeType)
+  @IsOptional()
+  changeType?: FunctionChangeType;
 }
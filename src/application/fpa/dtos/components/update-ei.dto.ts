@@ -5,7 +5,13 @@ import {
   IsOptional,
   Min,
   MaxLength,
+  IsEnum,
+  IsArray,
+  ArrayMaxSize,
+  IsMongoId,
 } from 'class-validator';
+import { FunctionChangeType } from '@domain/fpa/entities/base-fpa-component.entity';
+import { MAX_LISTED_ELEMENTS } from '@application/fpa/dtos/element-detail.dto';
 
 export class UpdateEIDto {
   @ApiProperty({
@@ -50,6 +56,32 @@ export class UpdateEIDto {
   @Min(1)
   dataElementTypes?: number;
 
+  @ApiProperty({
+    description:
+      'Names of the DETs. When given, the DET count is derived from them',
+    example: ['Customer ID', 'Name', 'Email'],
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_LISTED_ELEMENTS)
+  @IsString({ each: true })
+  dataElements?: string[];
+
+  @ApiProperty({
+    description:
+      'IDs of the ALI/AIE components of the estimate referenced by the transaction. When given, the FTR count is derived from them',
+    example: ['60c72b2f9b1e8b3b4c8d6e1a'],
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_LISTED_ELEMENTS)
+  @IsMongoId({ each: true })
+  referencedFiles?: string[];
+
   @ApiProperty({
     description: 'Primary business purpose of this External Input transaction',
     example:
@@ -82,4 +114,15 @@ export class UpdateEIDto {
   @IsOptional()
   @MaxLength(2000)
   notes?: string;
+
+  @ApiProperty({
+    description:
+      'How this function is affected by an enhancement project (defaults to ADDED in enhancement counts)',
+    enum: FunctionChangeType,
+    example: FunctionChangeType.CHANGED,
+    required: false,
+  })
+  @IsEnum(FunctionChangeType)
+  @IsOptional()
+  changeType?: FunctionChangeType;
 }
@@ -0,0 +1,71 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsArray, IsEnum, IsIn, IsMongoId, IsOptional } from 'class-validator';
+import { FunctionChangeType } from '@domain/fpa/entities/base-fpa-component.entity';
+
+// What to do with a copied component whose type and name already exist in the target
+export enum DuplicateComponentStrategy {
+  SKIP = 'SKIP',
+  RENAME = 'RENAME',
+  OVERWRITE = 'OVERWRITE',
+}
+
+export const COPYABLE_COMPONENT_TYPES = [
+  'ALI',
+  'AIE',
+  'EI',
+  'EO',
+  'EQ',
+] as const;
+
+export class CopyComponentsDto {
+  @ApiProperty({
+    description: 'The estimate the components are copied from',
+    example: '60c72b2f9b1e8b3b4c8d6e1a',
+  })
+  @IsMongoId()
+  sourceEstimateId: string;
+
+  @ApiProperty({
+    description:
+      'Components of the source estimate to copy. Leave out to copy all of them',
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsMongoId({ each: true })
+  componentIds?: string[];
+
+  @ApiProperty({
+    description:
+      'Only copy components of these types (ALI = ILF, AIE = EIF). Leave out for every type',
+    enum: COPYABLE_COMPONENT_TYPES,
+    isArray: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsIn(COPYABLE_COMPONENT_TYPES, { each: true })
+  componentTypes?: (typeof COPYABLE_COMPONENT_TYPES)[number][];
+
+  @ApiProperty({
+    description:
+      'How to handle components whose type and name already exist in the target estimate',
+    enum: DuplicateComponentStrategy,
+    default: DuplicateComponentStrategy.SKIP,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(DuplicateComponentStrategy)
+  duplicateStrategy?: DuplicateComponentStrategy;
+
+  @ApiProperty({
+    description:
+      'Change type given to the copies, e.g. CHANGED when an enhancement count starts from the previous release',
+    enum: FunctionChangeType,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(FunctionChangeType)
+  changeType?: FunctionChangeType;
+}
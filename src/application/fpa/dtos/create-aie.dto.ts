@@ -6,7 +6,18 @@ import {
   Min,
   IsOptional,
   MaxLength,
+  IsEnum,
+  IsArray,
+  ArrayMaxSize,
+  ValidateNested,
+  ValidateIf,
 } from 'class-validator';
+import { FunctionChangeType } from '@domain/fpa/entities/base-fpa-component.entity';
+import { Type } from 'class-transformer';
+import {
+  RecordElementGroupDto,
+  MAX_LISTED_ELEMENTS,
+} from '@application/fpa/dtos/element-detail.dto';
 
 export class CreateAIEDto {
   @ApiProperty({
@@ -31,20 +42,53 @@ export class CreateAIEDto {
     example: 1,
     minimum: 1,
   })
+  @ValidateIf(
+    (dto: { recordElements?: unknown[] }) => !dto.recordElements?.length,
+  )
   @IsNotEmpty()
   @IsNumber()
   @Min(1)
-  recordElementTypes: number;
+  recordElementTypes?: number;
 
   @ApiProperty({
     description: 'Number of Data Element Types (DETs/TDs) - Types of Data',
     example: 8,
     minimum: 1,
   })
+  @ValidateIf(
+    (dto: { dataElements?: unknown[]; recordElements?: unknown[] }) =>
+      !dto.dataElements?.length && !dto.recordElements?.length,
+  )
   @IsNotEmpty()
   @IsNumber()
   @Min(1)
-  dataElementTypes: number;
+  dataElementTypes?: number;
+
+  @ApiProperty({
+    description:
+      'Names of the DETs. When given, the DET count is derived from these and the DETs of the RETs',
+    example: ['Customer ID', 'Name', 'Email'],
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_LISTED_ELEMENTS)
+  @IsString({ each: true })
+  dataElements?: string[];
+
+  @ApiProperty({
+    description:
+      'RET subgroups with their DETs. When given, the RET count is derived from them',
+    type: [RecordElementGroupDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_LISTED_ELEMENTS)
+  @ValidateNested({ each: true })
+  @Type(() => RecordElementGroupDto)
+  recordElements?: RecordElementGroupDto[];
 
   @ApiProperty({
     description:
@@ -76,4 +120,15 @@ export class CreateAIEDto {
   @IsString()
   @MaxLength(2000)
   notes?: string;
+
+  @ApiProperty({
+    description:
+      'How this function is affected by an enhancement project (defaults to ADDED in enhancement counts)',
+    enum: FunctionChangeType,
+    example: FunctionChangeType.ADDED,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(FunctionChangeType)
+  changeType?: FunctionChangeType;
 }
@@ -6,7 +6,14 @@ import {
   Min,
   IsOptional,
   MaxLength,
+  IsEnum,
+  IsArray,
+  ArrayMaxSize,
+  IsMongoId,
+  ValidateIf,
 } from 'class-validator';
+import { FunctionChangeType } from '@domain/fpa/entities/base-fpa-component.entity';
+import { MAX_LISTED_ELEMENTS } from '@application/fpa/dtos/element-detail.dto';
 
 export class CreateEIDto {
   @ApiProperty({
@@ -32,20 +39,50 @@ export class CreateEIDto {
     example: 2,
     minimum: 0,
   })
+  @ValidateIf(
+    (dto: { referencedFiles?: unknown[] }) => !dto.referencedFiles?.length,
+  )
   @IsNotEmpty()
   @IsNumber()
   @Min(0)
-  fileTypesReferenced: number;
+  fileTypesReferenced?: number;
 
   @ApiProperty({
     description: 'Number of Data Element Types (DETs/TDs) - Types of Data',
     example: 12,
     minimum: 1,
   })
+  @ValidateIf((dto: { dataElements?: unknown[] }) => !dto.dataElements?.length)
   @IsNotEmpty()
   @IsNumber()
   @Min(1)
-  dataElementTypes: number;
+  dataElementTypes?: number;
+
+  @ApiProperty({
+    description:
+      'Names of the DETs. When given, the DET count is derived from them',
+    example: ['Customer ID', 'Name', 'Email'],
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_LISTED_ELEMENTS)
+  @IsString({ each: true })
+  dataElements?: string[];
+
+  @ApiProperty({
+    description:
+      'IDs of the ALI/AIE components of the estimate referenced by the transaction. When given, the FTR count is derived from them',
+    example: ['60c72b2f9b1e8b3b4c8d6e1a'],
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_LISTED_ELEMENTS)
+  @IsMongoId({ each: true })
+  referencedFiles?: string[];
 
   @ApiProperty({
     description: 'Primary business purpose of this External Input transaction',
@@ -77,4 +114,15 @@ export class CreateEIDto {
   @IsString()
   @MaxLength(2000)
   notes?: string;
+
+  @ApiProperty({
+    description:
+      'How this function is affected by an enhancement project (defaults to ADDED in enhancement counts)',
+    enum: FunctionChangeType,
+    example: FunctionChangeType.ADDED,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(FunctionChangeType)
+  changeType?: FunctionChangeType;
 }
@@ -6,7 +6,14 @@ import {
   Min,
   IsOptional,
   MaxLength,
+  IsEnum,
+  IsArray,
+  ArrayMaxSize,
+  IsMongoId,
+  IsBoolean,
 } from 'class-validator';
+import { FunctionChangeType } from '@domain/fpa/entities/base-fpa-component.entity';
+import { MAX_LISTED_ELEMENTS } from '@application/fpa/dtos/element-detail.dto';
 
 export class CreateEQDto {
   @ApiProperty({
@@ -49,6 +56,32 @@ export class CreateEQDto {
   @Min(1)
   dataElementTypes?: number;
 
+  @ApiProperty({
+    description:
+      'Names of the DETs. When given, the DET count is derived from them',
+    example: ['Customer ID', 'Name', 'Email'],
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_LISTED_ELEMENTS)
+  @IsString({ each: true })
+  dataElements?: string[];
+
+  @ApiProperty({
+    description:
+      'IDs of the ALI/AIE components of the estimate referenced by the transaction. When given, the FTR count is derived from them',
+    example: ['60c72b2f9b1e8b3b4c8d6e1a'],
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_LISTED_ELEMENTS)
+  @IsMongoId({ each: true })
+  referencedFiles?: string[];
+
   // Special EQ calculation fields
   @ApiProperty({
     description:
@@ -127,6 +160,16 @@ export class CreateEQDto {
   @IsString()
   outputFormat?: string;
 
+  @ApiProperty({
+    description:
+      'Indicates whether the query produces derived data; an EQ does not, so such a query should be counted as an EO',
+    example: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  derivedData?: boolean;
+
   @ApiProperty({
     description:
       'Additional technical notes about query performance, caching, or special requirements',
@@ -138,4 +181,15 @@ export class CreateEQDto {
   @IsString()
   @MaxLength(2000)
   notes?: string;
+
+  @ApiProperty({
+    description:
+      'How this function is affected by an enhancement project (defaults to ADDED in enhancement counts)',
+    enum: FunctionChangeType,
+    example: FunctionChangeType.ADDED,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(FunctionChangeType)
+  changeType?: FunctionChangeType;
 }
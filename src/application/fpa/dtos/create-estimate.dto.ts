@@ -13,8 +13,15 @@ import {
   ArrayMinSize,
   IsEnum,
   IsPositive,
+  IsMongoId,
+  ValidateNested,
 } from 'class-validator';
-import { CountType } from '@domain/fpa/entities/estimate.entity';
+import { Type } from 'class-transformer';
+import {
+  CountType,
+  EstimationModel,
+} from '@domain/fpa/entities/estimate.entity';
+import { CocomoIIParametersDto } from './cocomo-ii-parameters.dto';
 
 export class CreateEstimateDto {
   @ApiProperty({
@@ -136,6 +143,36 @@ export class CreateEstimateDto {
   @Max(100)
   productivityFactor?: number;
 
+  @ApiProperty({
+    description:
+      'Organization productivity model to take effort from (overrides productivityFactor)',
+    example: '60a1e2c7b9b5a50d944b1e39',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  productivityModelId?: string;
+
+  @ApiProperty({
+    description: 'The model effort is estimated with',
+    enum: EstimationModel,
+    default: EstimationModel.LINEAR,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(EstimationModel)
+  estimationModel?: EstimationModel;
+
+  @ApiProperty({
+    description: 'COCOMO II parameters, required for the COCOMO_II model',
+    type: CocomoIIParametersDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CocomoIIParametersDto)
+  cocomoParameters?: CocomoIIParametersDto;
+
   @ApiProperty({
     description:
       'Array of Internal Logical File identifiers to include in estimate',
@@ -209,6 +246,22 @@ export class CreateEstimateDto {
   @Max(5, { each: true })
   generalSystemCharacteristics?: number[];
 
+  @ApiProperty({
+    description:
+      'General System Characteristics values before the enhancement (14 values, each 0-5 range). Only used for enhancement counts; defaults to the current values',
+    example: [3, 2, 3, 1, 3, 2, 3, 1, 2, 3, 2, 1, 2, 3],
+    type: [Number],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(14)
+  @ArrayMaxSize(14)
+  @IsNumber({}, { each: true })
+  @Min(0, { each: true })
+  @Max(5, { each: true })
+  generalSystemCharacteristicsBefore?: number[];
+
   @ApiProperty({
     description: 'Additional notes and comments about the estimate',
     example:
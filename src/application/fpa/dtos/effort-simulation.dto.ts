@@ -0,0 +1,136 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsNumber,
+  IsInt,
+  IsOptional,
+  ValidateNested,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class ThreePointEstimateDto {
+  @ApiProperty({ description: 'Best case value', example: 6 })
+  @IsNumber()
+  @Min(0)
+  optimistic: number;
+
+  @ApiProperty({ description: 'Most likely value', example: 8 })
+  @IsNumber()
+  @Min(0)
+  mostLikely: number;
+
+  @ApiProperty({ description: 'Worst case value', example: 14 })
+  @IsNumber()
+  @Min(0)
+  pessimistic: number;
+}
+
+export class SimulationComponentCountsDto {
+  @ApiProperty({
+    description: 'Internal Logical Files (ILF) count range',
+    type: ThreePointEstimateDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ThreePointEstimateDto)
+  ALI?: ThreePointEstimateDto;
+
+  @ApiProperty({
+    description: 'External Interface Files (EIF) count range',
+    type: ThreePointEstimateDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ThreePointEstimateDto)
+  AIE?: ThreePointEstimateDto;
+
+  @ApiProperty({
+    description: 'External Inputs (EI) count range',
+    type: ThreePointEstimateDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ThreePointEstimateDto)
+  EI?: ThreePointEstimateDto;
+
+  @ApiProperty({
+    description: 'External Outputs (EO) count range',
+    type: ThreePointEstimateDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ThreePointEstimateDto)
+  EO?: ThreePointEstimateDto;
+
+  @ApiProperty({
+    description: 'External Queries (EQ) count range',
+    type: ThreePointEstimateDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ThreePointEstimateDto)
+  EQ?: ThreePointEstimateDto;
+}
+
+export class EffortSimulationDto {
+  @ApiProperty({
+    description:
+      'Hours per function point range (defaults to the estimate productivity factor)',
+    type: ThreePointEstimateDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ThreePointEstimateDto)
+  productivityFactor?: ThreePointEstimateDto;
+
+  @ApiProperty({
+    description:
+      'Component count ranges by type (types left out keep their current count)',
+    type: SimulationComponentCountsDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SimulationComponentCountsDto)
+  componentCounts?: SimulationComponentCountsDto;
+
+  @ApiProperty({
+    description: 'Number of simulation runs',
+    example: 10000,
+    default: 10000,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(100)
+  @Max(50000)
+  iterations?: number;
+
+  @ApiProperty({
+    description: 'Number of histogram buckets',
+    example: 20,
+    default: 20,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(2)
+  @Max(100)
+  histogramBuckets?: number;
+
+  @ApiProperty({
+    description: 'Random seed, to reproduce a previous simulation',
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  seed?: number;
+}
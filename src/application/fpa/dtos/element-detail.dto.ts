@@ -0,0 +1,31 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsNotEmpty,
+  IsString,
+  IsArray,
+  ArrayMaxSize,
+  MaxLength,
+} from 'class-validator';
+
+export const MAX_LISTED_ELEMENTS = 500;
+
+export class RecordElementGroupDto {
+  @ApiProperty({
+    description: 'Name of the RET subgroup',
+    example: 'Address',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description: 'Names of the DETs of the subgroup',
+    example: ['Street', 'City', 'Postal code'],
+    type: [String],
+  })
+  @IsArray()
+  @ArrayMaxSize(MAX_LISTED_ELEMENTS)
+  @IsString({ each: true })
+  dataElements: string[];
+}
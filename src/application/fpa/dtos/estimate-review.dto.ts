@@ -0,0 +1,58 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ArrayMinSize,
+  ArrayUnique,
+} from 'class-validator';
+
+export class AssignReviewersDto {
+  @ApiProperty({
+    description:
+      'Users of the organization reviewing the count; replaces the current reviewers',
+    type: [String],
+    example: ['507f1f77bcf86cd799439011'],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsMongoId({ each: true })
+  reviewerIds: string[];
+}
+
+export class ReviewCommentDto {
+  @ApiProperty({
+    description:
+      'Component of the estimate the remark is about; omitted for the whole count',
+    example: '507f1f77bcf86cd799439012',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  componentId?: string;
+
+  @ApiProperty({
+    description: 'The review remark',
+    example: 'The customer address is a RET of Customer, not a separate ILF',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  text: string;
+}
+
+export class ReviewDecisionDto {
+  @ApiProperty({
+    description: 'Remarks about the decision; required when requesting changes',
+    example: 'Counted against the approved requirements baseline',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  comment?: string;
+}
@@ -1,5 +1,8 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { EstimateStatus } from '@domain/fpa/entities/estimate.entity';
+import {
+  EstimateStatus,
+  EstimateMilestoneActuals,
+} from '@domain/fpa/entities/estimate.entity';
 import { Type } from 'class-transformer';
 import { UserDto } from '@application/users/dtos/user.dto';
 import { ProjectDto } from '@application/projects/dtos/project.dto';
@@ -80,6 +83,14 @@ export class EstimateDto {
   })
   productivityFactor: number;
 
+  @ApiProperty({
+    description:
+      'The organization productivity model effort is taken from (overrides productivityFactor)',
+    example: '60a1e2c7b9b5a50d944b1e39',
+    required: false,
+  })
+  productivityModelId?: string;
+
   @ApiProperty({
     description: 'References to Internal Logical Files (ILFs)',
     example: ['60a1e2c7b9b5a50d944b1e38', '60a1e2c7b9b5a50d944b1e39'],
@@ -123,6 +134,15 @@ export class EstimateDto {
   })
   generalSystemCharacteristics: number[];
 
+  @ApiProperty({
+    description:
+      'The General System Characteristics values before the enhancement (0-5 for each of the 14 GSCs)',
+    example: [3, 4, 2, 3, 3, 3, 3, 3, 2, 4, 3, 3, 2, 4],
+    type: [Number],
+    required: false,
+  })
+  generalSystemCharacteristicsBefore?: number[];
+
   @ApiProperty({
     description: 'The date when the estimate was created',
     example: '2023-01-01T00:00:00.000Z',
@@ -147,6 +167,47 @@ export class EstimateDto {
   })
   version: number;
 
+  @ApiProperty({
+    description: 'The ID of the first version of this estimate',
+    example: '60a1e2c7b9b5a50d944b1e38',
+    required: false,
+  })
+  rootEstimateId?: string;
+
+  @ApiProperty({
+    description: 'The ID of the version this estimate was created from',
+    example: '60a1e2c7b9b5a50d944b1e38',
+    required: false,
+  })
+  previousVersionId?: string;
+
+  @ApiProperty({
+    description: 'Effort actually spent delivering the estimated scope',
+    example: 1250,
+    required: false,
+  })
+  actualEffortHours?: number;
+
+  @ApiProperty({
+    description: 'Function points actually delivered',
+    example: 132,
+    required: false,
+  })
+  actualFunctionPoints?: number;
+
+  @ApiProperty({
+    description: 'When the actuals were recorded',
+    required: false,
+  })
+  actualsRecordedAt?: Date;
+
+  @ApiProperty({
+    description: 'Actuals recorded at each milestone, oldest first',
+    type: [Object],
+    required: false,
+  })
+  milestoneActuals?: EstimateMilestoneActuals[];
+
   constructor(partial: Partial<EstimateDto>) {
     Object.assign(this, partial);
   }
@@ -0,0 +1,132 @@
+import { ApiProperty, PartialType } from '@nestjs/swagger';
+import {
+  IsNotEmpty,
+  IsString,
+  MaxLength,
+  MinLength,
+  IsOptional,
+  IsNumber,
+  IsEnum,
+  IsArray,
+  IsBoolean,
+  ArrayMaxSize,
+  ValidateNested,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ProductivityCurveType } from '@domain/fpa/entities/productivity-model.entity';
+
+export class ProductivitySizeBandDto {
+  @ApiProperty({
+    description:
+      'Largest size (in adjusted FP) the band applies to; null for the last, open-ended band',
+    example: 100,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  upToFunctionPoints: number | null;
+
+  @ApiProperty({
+    description: 'Hours per function point within the band',
+    example: 8,
+  })
+  @IsNumber()
+  @Min(0.01)
+  @Max(100)
+  hoursPerFunctionPoint: number;
+}
+
+export class CreateProductivityModelDto {
+  @ApiProperty({
+    description: 'Name of the productivity model',
+    example: 'Java web - in-house team',
+    minLength: 3,
+    maxLength: 100,
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MinLength(3)
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description: 'Technology or platform the model applies to',
+    example: 'Java / Spring',
+    maxLength: 100,
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  technology: string;
+
+  @ApiProperty({
+    description: 'Optional description of where the numbers come from',
+    example: 'Calibrated on 2023-2024 completed projects',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiProperty({
+    description:
+      'Hours per function point (the coefficient for power curves, the fallback for tables)',
+    example: 10,
+    minimum: 0.01,
+    maximum: 100,
+  })
+  @IsNumber()
+  @Min(0.01)
+  @Max(100)
+  hoursPerFunctionPoint: number;
+
+  @ApiProperty({
+    description: 'How effort scales with size',
+    enum: ProductivityCurveType,
+    default: ProductivityCurveType.LINEAR,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(ProductivityCurveType)
+  curveType?: ProductivityCurveType;
+
+  @ApiProperty({
+    description: 'Size bands of a piecewise model',
+    type: [ProductivitySizeBandDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => ProductivitySizeBandDto)
+  sizeBands?: ProductivitySizeBandDto[];
+
+  @ApiProperty({
+    description: 'Size exponent of a power model',
+    example: 1.05,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.5)
+  @Max(2)
+  exponent?: number;
+
+  @ApiProperty({
+    description: 'Whether new estimates can use the model',
+    default: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class UpdateProductivityModelDto extends PartialType(
+  CreateProductivityModelDto,
+) {}
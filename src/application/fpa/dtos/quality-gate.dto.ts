@@ -0,0 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsArray, IsEnum, ArrayUnique } from 'class-validator';
+import { QualityGate } from '@domain/fpa/entities/quality-gate-policy.entity';
+
+export class UpdateQualityGatePolicyDto {
+  @ApiProperty({
+    description:
+      'The gates estimates must pass to be finalized; an empty list disables them',
+    enum: QualityGate,
+    isArray: true,
+    example: [QualityGate.GSC_VALUES_SET, QualityGate.NO_VALIDATION_ERRORS],
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsEnum(QualityGate, { each: true })
+  gates: QualityGate[];
+}
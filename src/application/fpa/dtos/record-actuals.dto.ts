@@ -0,0 +1,118 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsNumber,
+  IsInt,
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsDate,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class RecordActualsDto {
+  @ApiProperty({
+    description: 'Effort actually spent delivering the estimated scope',
+    example: 1250,
+  })
+  @IsNumber()
+  @Min(0)
+  actualEffortHours: number;
+
+  @ApiProperty({
+    description: 'Function points actually delivered (recounted at delivery)',
+    example: 132,
+  })
+  @IsNumber()
+  @Min(1)
+  actualFunctionPoints: number;
+
+  @ApiProperty({
+    description: 'Final cost of the delivery, in BRL',
+    example: 125000,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  actualCostBRL?: number;
+
+  @ApiProperty({
+    description: 'Final duration of the delivery, in working days',
+    example: 60,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  actualDurationDays?: number;
+}
+
+export class RecordMilestoneActualsDto {
+  @ApiProperty({
+    description: 'The milestone the actuals were measured at',
+    example: 'Sprint 4 review',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  milestone: string;
+
+  @ApiProperty({
+    description: 'Effort spent so far, in hours',
+    example: 640,
+  })
+  @IsNumber()
+  @Min(0)
+  actualEffortHours: number;
+
+  @ApiProperty({
+    description: 'Cost so far, in BRL',
+    example: 48000,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  actualCostBRL?: number;
+
+  @ApiProperty({
+    description: 'Elapsed duration so far, in working days',
+    example: 40,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  actualDurationDays?: number;
+
+  @ApiProperty({
+    description: 'Number of people working on the project',
+    example: 4,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  actualTeamSize?: number;
+
+  @ApiProperty({
+    description: 'When the actuals were measured (defaults to now)',
+    example: '2024-03-15T00:00:00.000Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  recordedAt?: Date;
+
+  @ApiProperty({
+    description: 'Notes about the milestone',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  notes?: string;
+}
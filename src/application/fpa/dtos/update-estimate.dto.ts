@@ -12,8 +12,15 @@ import {
   ArrayMinSize,
   IsEnum,
   IsPositive,
+  IsMongoId,
+  ValidateNested,
 } from 'class-validator';
-import { EstimateStatus } from '@domain/fpa/entities/estimate.entity';
+import { Type } from 'class-transformer';
+import {
+  EstimateStatus,
+  EstimationModel,
+} from '@domain/fpa/entities/estimate.entity';
+import { CocomoIIParametersDto } from './cocomo-ii-parameters.dto';
 
 export class UpdateEstimateDto {
   @ApiProperty({
@@ -100,6 +107,36 @@ export class UpdateEstimateDto {
   @Max(100)
   productivityFactor?: number;
 
+  @ApiProperty({
+    description:
+      'Organization productivity model to take effort from (overrides productivityFactor)',
+    example: '60a1e2c7b9b5a50d944b1e39',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  productivityModelId?: string;
+
+  @ApiProperty({
+    description: 'The model effort is estimated with',
+    enum: EstimationModel,
+    default: EstimationModel.LINEAR,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(EstimationModel)
+  estimationModel?: EstimationModel;
+
+  @ApiProperty({
+    description: 'COCOMO II parameters, required for the COCOMO_II model',
+    type: CocomoIIParametersDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CocomoIIParametersDto)
+  cocomoParameters?: CocomoIIParametersDto;
+
   @ApiProperty({
     description: 'References to Internal Logical Files (ILFs)',
     example: ['60a1e2c7b9b5a50d944b1e38', '60a1e2c7b9b5a50d944b1e39'],
@@ -171,6 +208,22 @@ export class UpdateEstimateDto {
   @ArrayMaxSize(14)
   generalSystemCharacteristics?: number[];
 
+  @ApiProperty({
+    description:
+      'The General System Characteristics values before the enhancement (0-5 for each of the 14 GSCs)',
+    example: [3, 4, 2, 3, 3, 3, 3, 3, 2, 4, 3, 3, 2, 4],
+    required: false,
+    type: [Number],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsNumber({}, { each: true })
+  @Min(0, { each: true })
+  @Max(5, { each: true })
+  @ArrayMinSize(14)
+  @ArrayMaxSize(14)
+  generalSystemCharacteristicsBefore?: number[];
+
   @ApiProperty({
     description: 'Optional notes about the estimate',
     example: 'Updated with additional details from the business analyst',
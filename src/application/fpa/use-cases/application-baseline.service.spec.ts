@@ -0,0 +1,195 @@
+import { Types } from 'mongoose';
+import { ApplicationBaselineService } from './application-baseline.service';
+import { IApplicationBaselineRepository } from '@domain/fpa/interfaces/application-baseline.repository.interface';
+import { IALIRepository } from '@domain/fpa/interfaces/ali.repository.interface';
+import { IAIERepository } from '@domain/fpa/interfaces/aie.repository.interface';
+import { IEIRepository } from '@domain/fpa/interfaces/ei.repository.interface';
+import { IEORepository } from '@domain/fpa/interfaces/eo.repository.interface';
+import { IEQRepository } from '@domain/fpa/interfaces/eq.repository.interface';
+import { ApplicationBaseline } from '@domain/fpa/entities/application-baseline.entity';
+import { CountType, Estimate } from '@domain/fpa/entities/estimate.entity';
+import {
+  BaseFPAComponent,
+  ComplexityLevel,
+  FunctionChangeType,
+} from '@domain/fpa/entities/base-fpa-component.entity';
+
+const component = (
+  name: string,
+  functionPoints: number,
+  changeType?: FunctionChangeType,
+): BaseFPAComponent =>
+  ({
+    _id: new Types.ObjectId(),
+    name,
+    complexity: ComplexityLevel.LOW,
+    functionPoints,
+    changeType,
+  }) as BaseFPAComponent;
+
+describe('ApplicationBaselineService', () => {
+  const projectId = new Types.ObjectId();
+  const organizationId = new Types.ObjectId();
+  let stored: ApplicationBaseline | null;
+  let components: Map<string, BaseFPAComponent>;
+  let service: ApplicationBaselineService;
+
+  beforeEach(() => {
+    stored = null;
+    components = new Map();
+    const baselineRepository = {
+      findByProject: jest
+        .fn()
+        .mockImplementation(() => Promise.resolve(stored)),
+      create: jest
+        .fn()
+        .mockImplementation((baseline: Partial<ApplicationBaseline>) => {
+          stored = {
+            _id: new Types.ObjectId(),
+            ...baseline,
+          } as ApplicationBaseline;
+          return Promise.resolve(stored);
+        }),
+      update: jest
+        .fn()
+        .mockImplementation(
+          (_id: string, baseline: Partial<ApplicationBaseline>) => {
+            stored = { ...stored, ...baseline } as ApplicationBaseline;
+            return Promise.resolve(stored);
+          },
+        ),
+    };
+    const componentRepository = {
+      findByIds: jest
+        .fn()
+        .mockImplementation((ids: string[]) =>
+          Promise.resolve(ids.map((id) => components.get(id))),
+        ),
+    };
+    service = new ApplicationBaselineService(
+      baselineRepository as unknown as IApplicationBaselineRepository,
+      componentRepository as unknown as IALIRepository,
+      componentRepository as unknown as IAIERepository,
+      componentRepository as unknown as IEIRepository,
+      componentRepository as unknown as IEORepository,
+      componentRepository as unknown as IEQRepository,
+    );
+  });
+
+  const estimate = (
+    countType: CountType,
+    fields: { alis?: BaseFPAComponent[]; eis?: BaseFPAComponent[] },
+  ): Estimate => {
+    const ids = (list: BaseFPAComponent[] = []) =>
+      list.map((item) => {
+        components.set(item._id.toString(), item);
+        return item._id;
+      });
+    return {
+      _id: new Types.ObjectId(),
+      name: `${countType} count`,
+      projectId,
+      organizationId,
+      countType,
+      internalLogicalFiles: ids(fields.alis),
+      externalInputs: ids(fields.eis),
+    } as unknown as Estimate;
+  };
+
+  describe('applyFinalizedEstimate', () => {
+    it('should create the baseline from an application count', async () => {
+      const baseline = await service.applyFinalizedEstimate(
+        estimate(CountType.APPLICATION_PROJECT, {
+          alis: [component('Customer', 7)],
+          eis: [component('Register customer', 3)],
+        }),
+      );
+
+      expect(baseline).toMatchObject({
+        functionCount: 2,
+        unadjustedFunctionPoints: 10,
+      });
+      expect(baseline?.sizeHistory).toHaveLength(1);
+      expect(baseline?.sizeHistory[0]).toMatchObject({
+        addedCount: 2,
+        changedCount: 0,
+        deletedCount: 0,
+      });
+    });
+
+    it('should add, replace and remove functions from an enhancement count', async () => {
+      await service.applyFinalizedEstimate(
+        estimate(CountType.APPLICATION_PROJECT, {
+          alis: [component('Customer', 7), component('Legacy log', 7)],
+          eis: [component('Register customer', 3)],
+        }),
+      );
+
+      const baseline = await service.applyFinalizedEstimate(
+        estimate(CountType.ENHANCEMENT_PROJECT, {
+          alis: [component('legacy LOG ', 7, FunctionChangeType.DELETED)],
+          eis: [
+            component('Register customer', 4, FunctionChangeType.CHANGED),
+            component('Import customers', 6, FunctionChangeType.ADDED),
+            component('Load old data', 5, FunctionChangeType.CONVERSION),
+          ],
+        }),
+      );
+
+      expect(baseline?.functions.map((fn) => fn.name).sort()).toEqual([
+        'Customer',
+        'Import customers',
+        'Register customer',
+      ]);
+      expect(baseline?.unadjustedFunctionPoints).toBe(17);
+      expect(baseline?.sizeHistory).toHaveLength(2);
+      expect(baseline?.sizeHistory[1]).toMatchObject({
+        functionCount: 3,
+        addedCount: 1,
+        changedCount: 1,
+        deletedCount: 1,
+      });
+    });
+
+    it('should replace the installed functions with a new application count', async () => {
+      await service.applyFinalizedEstimate(
+        estimate(CountType.APPLICATION_PROJECT, {
+          alis: [component('Customer', 7)],
+        }),
+      );
+
+      const baseline = await service.applyFinalizedEstimate(
+        estimate(CountType.APPLICATION_PROJECT, {
+          eis: [component('Register customer', 3)],
+        }),
+      );
+
+      expect(baseline?.functions.map((fn) => fn.name)).toEqual([
+        'Register customer',
+      ]);
+      expect(baseline?.unadjustedFunctionPoints).toBe(3);
+    });
+
+    it('should merge an estimate only once', async () => {
+      const finalized = estimate(CountType.APPLICATION_PROJECT, {
+        alis: [component('Customer', 7)],
+      });
+
+      await service.applyFinalizedEstimate(finalized);
+      const baseline = await service.applyFinalizedEstimate(finalized);
+
+      expect(baseline?.sizeHistory).toHaveLength(1);
+    });
+
+    it('should ignore development counts', async () => {
+      const baseline = await service.applyFinalizedEstimate(
+        estimate(CountType.DEVELOPMENT_PROJECT, {
+          alis: [component('Customer', 7)],
+        }),
+      );
+
+      expect(baseline).toBeNull();
+      expect(stored).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,256 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Types } from 'mongoose';
+import {
+  APPLICATION_BASELINE_REPOSITORY,
+  IApplicationBaselineRepository,
+} from '@domain/fpa/interfaces/application-baseline.repository.interface';
+import {
+  ApplicationBaseline,
+  BaselineFunction,
+  BaselineFunctionType,
+  BaselineSizeSnapshot,
+} from '@domain/fpa/entities/application-baseline.entity';
+import { Estimate, CountType } from '@domain/fpa/entities/estimate.entity';
+import {
+  BaseFPAComponent,
+  FunctionChangeType,
+} from '@domain/fpa/entities/base-fpa-component.entity';
+import { IBaseFPAComponentRepository } from '@domain/fpa/interfaces/base-fpa-component.repository.interface';
+import {
+  ALI_REPOSITORY,
+  IALIRepository,
+} from '@domain/fpa/interfaces/ali.repository.interface';
+import {
+  AIE_REPOSITORY,
+  IAIERepository,
+} from '@domain/fpa/interfaces/aie.repository.interface';
+import {
+  EI_REPOSITORY,
+  IEIRepository,
+} from '@domain/fpa/interfaces/ei.repository.interface';
+import {
+  EO_REPOSITORY,
+  IEORepository,
+} from '@domain/fpa/interfaces/eo.repository.interface';
+import {
+  EQ_REPOSITORY,
+  IEQRepository,
+} from '@domain/fpa/interfaces/eq.repository.interface';
+
+interface CountedFunction {
+  componentType: BaselineFunctionType;
+  component: BaseFPAComponent;
+}
+
+@Injectable()
+export class ApplicationBaselineService {
+  private readonly logger = new Logger(ApplicationBaselineService.name);
+
+  constructor(
+    @Inject(APPLICATION_BASELINE_REPOSITORY)
+    private readonly baselineRepository: IApplicationBaselineRepository,
+    @Inject(ALI_REPOSITORY)
+    private readonly aliRepository: IALIRepository,
+    @Inject(AIE_REPOSITORY)
+    private readonly aieRepository: IAIERepository,
+    @Inject(EI_REPOSITORY)
+    private readonly eiRepository: IEIRepository,
+    @Inject(EO_REPOSITORY)
+    private readonly eoRepository: IEORepository,
+    @Inject(EQ_REPOSITORY)
+    private readonly eqRepository: IEQRepository,
+  ) {}
+
+  async findByProject(
+    projectId: string,
+    organizationId: string,
+  ): Promise<ApplicationBaseline> {
+    const baseline = await this.baselineRepository.findByProject(projectId);
+    if (!baseline) {
+      throw new NotFoundException(
+        `Application baseline for project ${projectId} not found`,
+      );
+    }
+
+    if (baseline.organizationId.toString() !== organizationId) {
+      throw new ForbiddenException('Access denied to this baseline');
+    }
+
+    return baseline;
+  }
+
+  async getSizeHistory(
+    projectId: string,
+    organizationId: string,
+  ): Promise<BaselineSizeSnapshot[]> {
+    const baseline = await this.findByProject(projectId, organizationId);
+    return [...baseline.sizeHistory].sort(
+      (a, b) =>
+        new Date(a.recordedAt).getTime() - new Date(b.recordedAt).getTime(),
+    );
+  }
+
+  /**
+   * Merge a finalized count into the project's application baseline.
+   * An application count replaces the installed functions; an enhancement
+   * count adds, replaces or removes functions according to their change type.
+   */
+  async applyFinalizedEstimate(
+    estimate: Estimate,
+  ): Promise<ApplicationBaseline | null> {
+    if (
+      estimate.countType !== CountType.APPLICATION_PROJECT &&
+      estimate.countType !== CountType.ENHANCEMENT_PROJECT
+    ) {
+      return null;
+    }
+
+    const estimateId = estimate._id.toString();
+    let baseline = await this.baselineRepository.findByProject(
+      estimate.projectId.toString(),
+    );
+
+    if (
+      baseline?.sizeHistory.some(
+        (snapshot) => snapshot.estimateId.toString() === estimateId,
+      )
+    ) {
+      this.logger.log(
+        `Estimate ${estimateId} already merged into the baseline, skipping`,
+      );
+      return baseline;
+    }
+
+    const counted = await this.loadCountedFunctions(estimate);
+    const functions = new Map<string, BaselineFunction>();
+
+    if (baseline && estimate.countType === CountType.ENHANCEMENT_PROJECT) {
+      baseline.functions.forEach((fn) =>
+        functions.set(this.functionKey(fn.componentType, fn.name), fn),
+      );
+    }
+
+    let addedCount = 0;
+    let changedCount = 0;
+    let deletedCount = 0;
+
+    counted.forEach(({ componentType, component }) => {
+      const key = this.functionKey(componentType, component.name);
+      const changeType =
+        estimate.countType === CountType.APPLICATION_PROJECT
+          ? FunctionChangeType.ADDED
+          : component.changeType || FunctionChangeType.ADDED;
+
+      switch (changeType) {
+        case FunctionChangeType.DELETED:
+          if (functions.delete(key)) {
+            deletedCount++;
+          }
+          break;
+        case FunctionChangeType.CONVERSION:
+          // Conversion functionality is not part of the installed application
+          break;
+        default:
+          if (changeType === FunctionChangeType.CHANGED) {
+            changedCount++;
+          } else {
+            addedCount++;
+          }
+          functions.set(key, {
+            componentType,
+            componentId: component._id,
+            estimateId: estimate._id,
+            name: component.name,
+            complexity: component.complexity,
+            functionPoints: component.functionPoints || 0,
+          });
+      }
+    });
+
+    const installedFunctions = Array.from(functions.values());
+    const unadjustedFunctionPoints = installedFunctions.reduce(
+      (sum, fn) => sum + fn.functionPoints,
+      0,
+    );
+    const snapshot: BaselineSizeSnapshot = {
+      estimateId: estimate._id,
+      estimateName: estimate.name,
+      countType: estimate.countType,
+      functionCount: installedFunctions.length,
+      unadjustedFunctionPoints,
+      addedCount,
+      changedCount,
+      deletedCount,
+      recordedAt: new Date(),
+    };
+
+    if (!baseline) {
+      baseline = await this.baselineRepository.create({
+        projectId: new Types.ObjectId(estimate.projectId.toString()),
+        organizationId: new Types.ObjectId(estimate.organizationId.toString()),
+        functions: installedFunctions,
+        functionCount: installedFunctions.length,
+        unadjustedFunctionPoints,
+        sizeHistory: [snapshot],
+      });
+    } else {
+      baseline = await this.baselineRepository.update(baseline._id.toString(), {
+        functions: installedFunctions,
+        functionCount: installedFunctions.length,
+        unadjustedFunctionPoints,
+        sizeHistory: [...baseline.sizeHistory, snapshot],
+      });
+    }
+
+    this.logger.log(
+      `Merged estimate ${estimateId} into baseline for project ${estimate.projectId.toString()}: ` +
+        `${snapshot.functionCount} functions, ${unadjustedFunctionPoints} FP`,
+    );
+
+    return baseline;
+  }
+
+  private async loadCountedFunctions(
+    estimate: Estimate,
+  ): Promise<CountedFunction[]> {
+    const load = <T extends BaseFPAComponent>(
+      repository: IBaseFPAComponentRepository<T>,
+      ids?: Types.ObjectId[],
+    ): Promise<T[]> =>
+      ids?.length
+        ? repository.findByIds(ids.map((id) => id.toString()))
+        : Promise.resolve([]);
+
+    const [alis, aies, eis, eos, eqs] = await Promise.all([
+      load(this.aliRepository, estimate.internalLogicalFiles),
+      load(this.aieRepository, estimate.externalInterfaceFiles),
+      load(this.eiRepository, estimate.externalInputs),
+      load(this.eoRepository, estimate.externalOutputs),
+      load(this.eqRepository, estimate.externalQueries),
+    ]);
+
+    return [
+      ...alis.map((component) => ({
+        componentType: 'ALI' as const,
+        component,
+      })),
+      ...aies.map((component) => ({
+        componentType: 'AIE' as const,
+        component,
+      })),
+      ...eis.map((component) => ({ componentType: 'EI' as const, component })),
+      ...eos.map((component) => ({ componentType: 'EO' as const, component })),
+      ...eqs.map((component) => ({ componentType: 'EQ' as const, component })),
+    ];
+  }
+
+  private functionKey(componentType: BaselineFunctionType, name: string) {
+    return `${componentType}:${name.trim().toLowerCase()}`;
+  }
+}
@@ -0,0 +1,288 @@
+import { Types } from 'mongoose';
+import { ComponentCopyService } from './component-copy.service';
+import {
+  EstimateComponentBatch,
+  EstimateComponentSummary,
+  IEstimateRepository,
+} from '@domain/fpa/interfaces/estimate.repository.interface';
+import { IALIRepository } from '@domain/fpa/interfaces/ali.repository.interface';
+import { IAIERepository } from '@domain/fpa/interfaces/aie.repository.interface';
+import { IEIRepository } from '@domain/fpa/interfaces/ei.repository.interface';
+import { IEORepository } from '@domain/fpa/interfaces/eo.repository.interface';
+import { IEQRepository } from '@domain/fpa/interfaces/eq.repository.interface';
+import { Estimate, EstimateStatus } from '@domain/fpa/entities/estimate.entity';
+import {
+  BaseFPAComponent,
+  ComplexityLevel,
+} from '@domain/fpa/entities/base-fpa-component.entity';
+import { DuplicateComponentStrategy } from '@application/fpa/dtos/copy-components.dto';
+
+const input = (name: string): BaseFPAComponent =>
+  ({
+    _id: new Types.ObjectId(),
+    name,
+    complexity: ComplexityLevel.LOW,
+    functionPoints: 3,
+  }) as BaseFPAComponent;
+
+const summary = (
+  name: string,
+  componentType: EstimateComponentSummary['componentType'] = 'EI',
+): EstimateComponentSummary => ({
+  _id: new Types.ObjectId(),
+  componentType,
+  name,
+  complexity: ComplexityLevel.LOW,
+  functionPoints: 3,
+});
+
+describe('ComponentCopyService', () => {
+  const organizationId = new Types.ObjectId();
+  const targetProjectId = new Types.ObjectId();
+  let source: Estimate;
+  let target: Estimate;
+  let targetComponents: EstimateComponentSummary[];
+  let inputs: Map<string, BaseFPAComponent>;
+  let files: Map<string, BaseFPAComponent>;
+  let estimateRepository: {
+    findById: jest.Mock;
+    findComponentSummaries: jest.Mock;
+    addComponents: jest.Mock;
+  };
+  let aliRepository: { findByIds: jest.Mock };
+  let eiRepository: {
+    findById: jest.Mock;
+    findByIds: jest.Mock;
+    update: jest.Mock;
+  };
+  let service: ComponentCopyService;
+
+  beforeEach(() => {
+    inputs = new Map();
+    files = new Map();
+    targetComponents = [];
+    source = {
+      _id: new Types.ObjectId(),
+      organizationId,
+      status: EstimateStatus.FINALIZED,
+      internalLogicalFiles: [],
+      externalInputs: [],
+    } as unknown as Estimate;
+    target = {
+      _id: new Types.ObjectId(),
+      organizationId,
+      projectId: targetProjectId,
+      status: EstimateStatus.DRAFT,
+    } as unknown as Estimate;
+
+    estimateRepository = {
+      findById: jest
+        .fn()
+        .mockImplementation((id: string) =>
+          Promise.resolve(id === source._id.toString() ? source : target),
+        ),
+      findComponentSummaries: jest
+        .fn()
+        .mockImplementation(() => Promise.resolve(targetComponents)),
+      addComponents: jest
+        .fn()
+        .mockImplementation((_id: string, batch: EstimateComponentBatch) =>
+          Promise.resolve({
+            ALI: (batch.ALI || []).map((component) => component._id),
+            AIE: [],
+            EI: (batch.EI || []).map((component) => component._id),
+            EO: [],
+            EQ: [],
+          }),
+        ),
+    };
+    aliRepository = {
+      findByIds: jest
+        .fn()
+        .mockImplementation((ids: string[]) =>
+          Promise.resolve(ids.map((id) => files.get(id))),
+        ),
+    };
+    eiRepository = {
+      findById: jest
+        .fn()
+        .mockImplementation((id: string) =>
+          Promise.resolve({ _id: new Types.ObjectId(id), name: 'Existing' }),
+        ),
+      findByIds: jest
+        .fn()
+        .mockImplementation((ids: string[]) =>
+          Promise.resolve(ids.map((id) => inputs.get(id))),
+        ),
+      update: jest
+        .fn()
+        .mockImplementation((id: string, data: Partial<BaseFPAComponent>) =>
+          Promise.resolve({ _id: id, ...data }),
+        ),
+    };
+    service = new ComponentCopyService(
+      estimateRepository as unknown as IEstimateRepository,
+      aliRepository as unknown as IALIRepository,
+      {} as IAIERepository,
+      eiRepository as unknown as IEIRepository,
+      {} as IEORepository,
+      {} as IEQRepository,
+    );
+  });
+
+  const addInputs = (...names: string[]) =>
+    names.forEach((name) => {
+      const component = input(name);
+      inputs.set(component._id.toString(), component);
+      source.externalInputs.push(component._id);
+    });
+
+  const addFile = (name: string) => {
+    const file = { ...input(name), functionPoints: 7 } as BaseFPAComponent;
+    files.set(file._id.toString(), file);
+    source.internalLogicalFiles.push(file._id);
+    return file;
+  };
+
+  const copy = (duplicateStrategy?: DuplicateComponentStrategy) =>
+    service.copyComponents(
+      target._id.toString(),
+      { sourceEstimateId: source._id.toString(), duplicateStrategy },
+      organizationId.toString(),
+    );
+
+  const addedBatch = (): EstimateComponentBatch =>
+    (
+      estimateRepository.addComponents.mock.calls[0] as [
+        string,
+        EstimateComponentBatch,
+      ]
+    )[1];
+
+  const addedNames = (): string[] =>
+    (addedBatch().EI || []).map((component) => component.name!);
+
+  describe('copyComponents', () => {
+    it('should skip components whose name is taken in the target by default', async () => {
+      addInputs('Register customer', 'Cancel order');
+      targetComponents = [summary('register CUSTOMER')];
+
+      const report = await copy();
+
+      expect(report).toMatchObject({
+        duplicateStrategy: DuplicateComponentStrategy.SKIP,
+        copied: 1,
+        skipped: 1,
+      });
+      expect(report.components.map((result) => result.action)).toEqual([
+        'skipped',
+        'copied',
+      ]);
+      expect(report.components[0].componentId).toBeUndefined();
+      expect(addedNames()).toEqual(['Cancel order']);
+      expect(eiRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should rename duplicates to the first free copy name', async () => {
+      addInputs('Register customer', 'Cancel order');
+      targetComponents = [
+        summary('Register customer'),
+        summary('Register customer (copy)'),
+      ];
+
+      const report = await copy(DuplicateComponentStrategy.RENAME);
+
+      expect(report).toMatchObject({ copied: 1, renamed: 1 });
+      expect(report.components[0]).toMatchObject({
+        action: 'renamed',
+        name: 'Register customer (copy 2)',
+      });
+      expect(addedNames()).toEqual([
+        'Register customer (copy 2)',
+        'Cancel order',
+      ]);
+      const ids = report.components.map((result) => result.componentId);
+      expect(ids.every(Boolean)).toBe(true);
+    });
+
+    it('should overwrite duplicates in place and skip repeated copies', async () => {
+      addInputs('Register customer', 'Cancel order', 'Cancel order');
+      const existing = summary('Register customer');
+      targetComponents = [existing];
+
+      const report = await copy(DuplicateComponentStrategy.OVERWRITE);
+
+      expect(report).toMatchObject({ copied: 1, overwritten: 1, skipped: 1 });
+      expect(report.components[0]).toMatchObject({
+        action: 'overwritten',
+        componentId: existing._id.toString(),
+      });
+      expect(eiRepository.update).toHaveBeenCalledTimes(1);
+      const [id, data] = eiRepository.update.mock.calls[0] as [
+        string,
+        Record<string, unknown>,
+      ];
+      expect(id).toBe(existing._id.toString());
+      expect(data).toMatchObject({
+        name: 'Register customer',
+        projectId: targetProjectId,
+        organizationId,
+      });
+      expect(data).not.toHaveProperty('_id');
+      expect(addedNames()).toEqual(['Cancel order']);
+    });
+
+    it('should point the FTRs of copied transactions to the copied files', async () => {
+      const customer = addFile('Customer');
+      const order = addFile('Order');
+      const existingOrder = summary('Order', 'ALI');
+      targetComponents = [existingOrder];
+      addInputs('Register customer', 'Cancel order');
+      const [register, cancel] = source.externalInputs.map(
+        (id) => inputs.get(id.toString())!,
+      );
+      Object.assign(register, { referencedFiles: [customer._id, order._id] });
+      // The file referenced by this input is not part of the copy
+      Object.assign(cancel, { referencedFiles: [new Types.ObjectId()] });
+
+      const report = await copy();
+
+      const [customerCopy] = addedBatch().ALI!;
+      const [registerCustomer, cancelOrder] = addedBatch().EI!;
+      expect(report.components[0].componentId).toBe(
+        customerCopy._id?.toString(),
+      );
+      expect(registerCustomer.referencedFiles).toEqual([
+        customerCopy._id,
+        existingOrder._id,
+      ]);
+      expect(cancelOrder).not.toHaveProperty('referencedFiles');
+    });
+
+    it('should restore overwritten components when adding the copies fails', async () => {
+      addInputs('Register customer', 'Cancel order');
+      const existing = summary('Register customer');
+      targetComponents = [existing];
+      estimateRepository.addComponents.mockRejectedValueOnce(
+        new Error('write failed'),
+      );
+
+      await expect(copy(DuplicateComponentStrategy.OVERWRITE)).rejects.toThrow(
+        'write failed',
+      );
+
+      expect(eiRepository.update).toHaveBeenCalledTimes(2);
+      const [id, previous] = eiRepository.update.mock.calls[1] as [
+        string,
+        Record<string, unknown>,
+      ];
+      expect(id).toBe(existing._id.toString());
+      expect(previous).toMatchObject({
+        name: 'Existing',
+        complexity: null,
+        projectId: null,
+      });
+      expect(previous).not.toHaveProperty('_id');
+    });
+  });
+});
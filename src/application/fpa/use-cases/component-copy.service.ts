@@ -0,0 +1,458 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Types } from 'mongoose';
+import {
+  ESTIMATE_REPOSITORY,
+  IEstimateRepository,
+  EstimateComponentBatch,
+} from '@domain/fpa/interfaces/estimate.repository.interface';
+import {
+  ALI_REPOSITORY,
+  IALIRepository,
+} from '@domain/fpa/interfaces/ali.repository.interface';
+import {
+  AIE_REPOSITORY,
+  IAIERepository,
+} from '@domain/fpa/interfaces/aie.repository.interface';
+import {
+  EI_REPOSITORY,
+  IEIRepository,
+} from '@domain/fpa/interfaces/ei.repository.interface';
+import {
+  EO_REPOSITORY,
+  IEORepository,
+} from '@domain/fpa/interfaces/eo.repository.interface';
+import {
+  EQ_REPOSITORY,
+  IEQRepository,
+} from '@domain/fpa/interfaces/eq.repository.interface';
+import { IBaseFPAComponentRepository } from '@domain/fpa/interfaces/base-fpa-component.repository.interface';
+import { BaseFPAComponent } from '@domain/fpa/entities/base-fpa-component.entity';
+import { Estimate } from '@domain/fpa/entities/estimate.entity';
+import { EstimateReviewWorkflow } from '@domain/fpa/services/estimate-review-workflow.service';
+import {
+  CopyComponentsDto,
+  DuplicateComponentStrategy,
+} from '@application/fpa/dtos/copy-components.dto';
+
+type CopiedComponentType = keyof EstimateComponentBatch;
+
+export type ComponentCopyAction =
+  | 'copied'
+  | 'renamed'
+  | 'overwritten'
+  | 'skipped';
+
+export interface ComponentCopyResult {
+  sourceComponentId: string;
+  componentType: CopiedComponentType;
+  name: string; // Name in the target estimate
+  action: ComponentCopyAction;
+  componentId?: string; // Target component, unless skipped
+}
+
+export interface ComponentCopyReport {
+  sourceEstimateId: string;
+  targetEstimateId: string;
+  duplicateStrategy: DuplicateComponentStrategy;
+  copied: number;
+  renamed: number;
+  overwritten: number;
+  skipped: number;
+  components: ComponentCopyResult[];
+}
+
+interface PendingCopy {
+  result: ComponentCopyResult;
+  data: Record<string, unknown>;
+}
+
+interface OverwrittenComponent {
+  result: ComponentCopyResult;
+  previous: Record<string, unknown>;
+}
+
+const COMPONENT_REFERENCES: {
+  type: CopiedComponentType;
+  field:
+    | 'internalLogicalFiles'
+    | 'externalInterfaceFiles'
+    | 'externalInputs'
+    | 'externalOutputs'
+    | 'externalQueries';
+}[] = [
+  { type: 'ALI', field: 'internalLogicalFiles' },
+  { type: 'AIE', field: 'externalInterfaceFiles' },
+  { type: 'EI', field: 'externalInputs' },
+  { type: 'EO', field: 'externalOutputs' },
+  { type: 'EQ', field: 'externalQueries' },
+];
+
+// Fields that belong to the stored document rather than to the count.
+// Referenced files point to the source estimate and are remapped separately
+const NON_COPIED_FIELDS = [
+  '_id',
+  '__v',
+  'createdAt',
+  'updatedAt',
+  'projectId',
+  'organizationId',
+  'referencedFiles',
+];
+
+@Injectable()
+export class ComponentCopyService {
+  constructor(
+    @Inject(ESTIMATE_REPOSITORY)
+    private readonly estimateRepository: IEstimateRepository,
+    @Inject(ALI_REPOSITORY)
+    private readonly aliRepository: IALIRepository,
+    @Inject(AIE_REPOSITORY)
+    private readonly aieRepository: IAIERepository,
+    @Inject(EI_REPOSITORY)
+    private readonly eiRepository: IEIRepository,
+    @Inject(EO_REPOSITORY)
+    private readonly eoRepository: IEORepository,
+    @Inject(EQ_REPOSITORY)
+    private readonly eqRepository: IEQRepository,
+  ) {}
+
+  /**
+   * Copy components of one estimate into another of the same organization,
+   * possibly in another project. Components whose type and name already
+   * exist in the target are skipped, renamed or overwritten.
+   * @throws NotFoundException if either estimate doesn't exist
+   * @throws ForbiddenException if the estimates belong to another organization
+   * than the user's or to different organizations
+   * @throws BadRequestException if a selected component isn't in the source
+   * estimate, or the target is in review or approved
+   */
+  async copyComponents(
+    targetEstimateId: string,
+    copyDto: CopyComponentsDto,
+    organizationId: string | null,
+  ): Promise<ComponentCopyReport> {
+    const duplicateStrategy =
+      copyDto.duplicateStrategy ?? DuplicateComponentStrategy.SKIP;
+
+    const [source, target] = await Promise.all([
+      this.estimateRepository.findById(copyDto.sourceEstimateId),
+      this.estimateRepository.findById(targetEstimateId),
+    ]);
+    if (!source) {
+      throw new NotFoundException(
+        `Estimate with ID ${copyDto.sourceEstimateId} not found`,
+      );
+    }
+    if (!target) {
+      throw new NotFoundException(
+        `Estimate with ID ${targetEstimateId} not found`,
+      );
+    }
+    if (target.organizationId.toString() !== organizationId) {
+      throw new ForbiddenException('Access denied to this estimate');
+    }
+    const lockReason = EstimateReviewWorkflow.contentLockReason(target.status);
+    if (lockReason) {
+      throw new BadRequestException(lockReason);
+    }
+    if (source.organizationId.toString() !== target.organizationId.toString()) {
+      throw new ForbiddenException(
+        'Components can only be copied between estimates of the same organization',
+      );
+    }
+
+    const sourceComponents = await this.findSourceComponents(source, copyDto);
+
+    // Target components by type and name, to detect duplicates
+    const targetComponents = new Map(
+      (
+        await this.estimateRepository.findComponentSummaries(targetEstimateId)
+      ).map((component) => [
+        this.componentKey(component.componentType, component.name),
+        component._id.toString(),
+      ]),
+    );
+    const takenKeys = new Set(targetComponents.keys());
+    // Copies by key, and the target component standing for each source data
+    // function, so the FTRs of copied transactions follow them
+    const copyIds = new Map<string, Types.ObjectId>();
+    const fileIds = new Map<string, Types.ObjectId>();
+
+    const pending: PendingCopy[] = [];
+    const overwrites: PendingCopy[] = [];
+    const results: ComponentCopyResult[] = [];
+
+    // Data functions come first, so their target ids are known to transactions
+    sourceComponents.forEach(({ type, component }) => {
+      const data = this.copyData(component, target, copyDto, fileIds);
+      const name = component.name;
+      const key = this.componentKey(type, name);
+      const result: ComponentCopyResult = {
+        sourceComponentId: component._id.toString(),
+        componentType: type,
+        name,
+        action: 'copied',
+      };
+      results.push(result);
+      const queueCopy = (copyName: string) => {
+        const id = new Types.ObjectId();
+        copyIds.set(this.componentKey(type, copyName), id);
+        result.componentId = id.toString();
+        pending.push({ result, data: { ...data, _id: id, name: copyName } });
+        return id;
+      };
+
+      let targetId: Types.ObjectId | undefined;
+      if (!takenKeys.has(key)) {
+        takenKeys.add(key);
+        targetId = queueCopy(name);
+      } else {
+        const existingId = targetComponents.get(key);
+        switch (duplicateStrategy) {
+          case DuplicateComponentStrategy.RENAME: {
+            const uniqueName = this.uniqueName(type, name, takenKeys);
+            takenKeys.add(this.componentKey(type, uniqueName));
+            result.name = uniqueName;
+            result.action = 'renamed';
+            targetId = queueCopy(uniqueName);
+            break;
+          }
+          case DuplicateComponentStrategy.OVERWRITE:
+            if (existingId) {
+              result.action = 'overwritten';
+              result.componentId = existingId;
+              overwrites.push({ result, data });
+              break;
+            }
+            // Repeated name among the copied components themselves
+            result.action = 'skipped';
+            break;
+          default:
+            result.action = 'skipped';
+        }
+        // A skipped duplicate stands for the component already there
+        targetId ??= existingId
+          ? new Types.ObjectId(existingId)
+          : copyIds.get(key);
+      }
+
+      if (targetId && (type === 'ALI' || type === 'AIE')) {
+        fileIds.set(component._id.toString(), targetId);
+      }
+    });
+
+    // Overwrites first: when one fails, or adding the copies does, the
+    // components already overwritten get their previous fields back
+    const overwritten: OverwrittenComponent[] = [];
+    try {
+      for (const { result, data } of overwrites) {
+        const repository = this.repositoryFor(result.componentType);
+        const existing = await repository.findById(result.componentId!);
+        const updated =
+          existing && (await repository.update(result.componentId!, data));
+        if (!updated) {
+          throw new NotFoundException(
+            `Component ${result.name} no longer exists in the target estimate`,
+          );
+        }
+        overwritten.push({
+          result,
+          previous: this.previousFields(existing, data),
+        });
+      }
+
+      if (pending.length > 0) {
+        await this.addCopies(targetEstimateId, pending);
+      }
+    } catch (error) {
+      await Promise.all(
+        overwritten.map(({ result, previous }) =>
+          this.repositoryFor(result.componentType).update(
+            result.componentId!,
+            previous,
+          ),
+        ),
+      );
+      throw error;
+    }
+
+    const count = (action: ComponentCopyAction) =>
+      results.filter((result) => result.action === action).length;
+
+    return {
+      sourceEstimateId: copyDto.sourceEstimateId,
+      targetEstimateId,
+      duplicateStrategy,
+      copied: count('copied'),
+      renamed: count('renamed'),
+      overwritten: count('overwritten'),
+      skipped: count('skipped'),
+      components: results,
+    };
+  }
+
+  private async findSourceComponents(
+    source: Estimate,
+    copyDto: CopyComponentsDto,
+  ): Promise<{ type: CopiedComponentType; component: BaseFPAComponent }[]> {
+    const selectedIds = copyDto.componentIds
+      ? new Set(copyDto.componentIds)
+      : null;
+    const references = COMPONENT_REFERENCES.filter(
+      ({ type }) =>
+        !copyDto.componentTypes || copyDto.componentTypes.includes(type),
+    );
+
+    const perType = await Promise.all(
+      references.map(async ({ type, field }) => {
+        const ids = (source[field] || [])
+          .map((id) => id.toString())
+          .filter((id) => !selectedIds || selectedIds.has(id));
+        const components =
+          ids.length > 0 ? await this.repositoryFor(type).findByIds(ids) : [];
+
+        // Keep the order of the source estimate
+        const byId = new Map(
+          components.map((component) => [component._id.toString(), component]),
+        );
+        return ids.flatMap((id) => {
+          const component = byId.get(id);
+          return component ? [{ type, component }] : [];
+        });
+      }),
+    );
+    const sourceComponents = perType.flat();
+
+    if (selectedIds) {
+      const found = new Set(
+        sourceComponents.map(({ component }) => component._id.toString()),
+      );
+      const missing = [...selectedIds].filter((id) => !found.has(id));
+      if (missing.length > 0) {
+        throw new BadRequestException(
+          `Components not found in the source estimate${
+            copyDto.componentTypes ? ' for the selected types' : ''
+          }: ${missing.join(', ')}`,
+        );
+      }
+    }
+
+    return sourceComponents;
+  }
+
+  private async addCopies(
+    targetEstimateId: string,
+    pending: PendingCopy[],
+  ): Promise<void> {
+    const batch: EstimateComponentBatch = {};
+    pending.forEach(({ result, data }) => {
+      const components = (batch[result.componentType] ??= []) as Record<
+        string,
+        unknown
+      >[];
+      components.push(data);
+    });
+
+    const ids = await this.estimateRepository.addComponents(
+      targetEstimateId,
+      batch,
+    );
+    if (!ids) {
+      throw new NotFoundException(
+        `Estimate with ID ${targetEstimateId} not found`,
+      );
+    }
+  }
+
+  private copyData(
+    component: BaseFPAComponent,
+    target: Estimate,
+    copyDto: CopyComponentsDto,
+    fileIds: Map<string, Types.ObjectId>,
+  ): Record<string, unknown> {
+    const fields = this.rawFields(component);
+
+    // FTRs point to the target copies of the referenced data functions, as
+    // in a new version; when one wasn't copied the FTR count is kept only
+    const referencedFiles = (
+      fields.referencedFiles as Types.ObjectId[] | undefined
+    )?.map((fileId) => fileIds.get(fileId.toString()));
+
+    NON_COPIED_FIELDS.forEach((field) => delete fields[field]);
+
+    return {
+      ...fields,
+      projectId: target.projectId,
+      organizationId: target.organizationId,
+      ...(copyDto.changeType && { changeType: copyDto.changeType }),
+      ...(referencedFiles?.length &&
+        referencedFiles.every(Boolean) && { referencedFiles }),
+    };
+  }
+
+  // The fields an overwrite replaced; those it added are cleared again
+  private previousFields(
+    existing: BaseFPAComponent,
+    overwrite: Record<string, unknown>,
+  ): Record<string, unknown> {
+    const fields = this.rawFields(existing);
+    ['_id', '__v', 'createdAt', 'updatedAt'].forEach(
+      (field) => delete fields[field],
+    );
+    Object.keys(overwrite)
+      .filter((field) => !(field in fields))
+      .forEach((field) => (fields[field] = null));
+    return fields;
+  }
+
+  // Repositories return Mongoose documents; copy their raw field values
+  private rawFields(component: BaseFPAComponent): Record<string, unknown> {
+    const document = component as { toObject?: () => Record<string, unknown> };
+    return typeof document.toObject === 'function'
+      ? document.toObject()
+      : { ...component };
+  }
+
+  // "Customer" -> "Customer (copy)", then "Customer (copy 2)", ...
+  private uniqueName(
+    type: CopiedComponentType,
+    name: string,
+    takenKeys: Set<string>,
+  ): string {
+    let candidate = `${name} (copy)`;
+    for (
+      let suffix = 2;
+      takenKeys.has(this.componentKey(type, candidate));
+      suffix++
+    ) {
+      candidate = `${name} (copy ${suffix})`;
+    }
+    return candidate;
+  }
+
+  private repositoryFor(
+    type: CopiedComponentType,
+  ): IBaseFPAComponentRepository<BaseFPAComponent> {
+    const repositories: Record<
+      CopiedComponentType,
+      IBaseFPAComponentRepository<BaseFPAComponent>
+    > = {
+      ALI: this.aliRepository,
+      AIE: this.aieRepository,
+      EI: this.eiRepository,
+      EO: this.eoRepository,
+      EQ: this.eqRepository,
+    };
+    return repositories[type];
+  }
+
+  private componentKey(type: string, name: string): string {
+    return `${type}:${name.trim().toLowerCase()}`;
+  }
+}
@@ -0,0 +1,141 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { Estimate } from '@domain/fpa/entities/estimate.entity';
+import { RecordElementGroup } from '@domain/fpa/entities/base-fpa-component.entity';
+import {
+  ElementDetailCounter,
+  ComponentElementDetail,
+} from '@domain/fpa/services/element-detail.service';
+import { FPAComponentValidator } from '@domain/fpa/validators/fpa-validation-chain';
+
+type DetailedComponentType = 'ALI' | 'AIE' | 'EI' | 'EO' | 'EQ';
+
+// Counts and named lists of a component, from a request or a stored component
+export interface ComponentCountSource {
+  dataElementTypes?: number;
+  recordElementTypes?: number;
+  fileTypesReferenced?: number;
+  dataElements?: string[];
+  recordElements?: RecordElementGroup[];
+  referencedFiles?: (string | Types.ObjectId)[];
+}
+
+// Fields to store on the component
+export interface ResolvedComponentCounts {
+  dataElementTypes?: number;
+  recordElementTypes?: number;
+  fileTypesReferenced?: number;
+  dataElements?: string[];
+  recordElements?: RecordElementGroup[];
+  referencedFiles?: Types.ObjectId[];
+}
+
+const COUNT_FIELDS: (keyof ComponentCountSource)[] = [
+  'dataElementTypes',
+  'recordElementTypes',
+  'fileTypesReferenced',
+  'dataElements',
+  'recordElements',
+  'referencedFiles',
+];
+
+@Injectable()
+export class ComponentElementDetailService {
+  private readonly validator = new FPAComponentValidator();
+
+  /**
+   * Resolve the DET/RET/FTR counts of a component being created or updated.
+   * Counts backed by a named list are derived from it, others keep the value
+   * entered (or stored, when updating). Lists are validated against the
+   * estimate: every referenced file must be one of its ALI/AIE components.
+   * Returns nothing to store when the changes touch no count or list
+   * @throws BadRequestException if the lists are invalid
+   */
+  async resolveCounts(
+    estimate: Estimate,
+    componentType: DetailedComponentType,
+    changes: ComponentCountSource,
+    current?: ComponentCountSource,
+  ): Promise<ResolvedComponentCounts> {
+    const touched = COUNT_FIELDS.some((field) => changes[field] !== undefined);
+    if (!touched) {
+      return {};
+    }
+
+    const isDataFunction = componentType === 'ALI' || componentType === 'AIE';
+    const dataElements = changes.dataElements ?? current?.dataElements;
+    const recordElements = changes.recordElements ?? current?.recordElements;
+    const referencedFiles = (
+      changes.referencedFiles ?? current?.referencedFiles
+    )?.map((id) => id.toString());
+
+    const detail: ComponentElementDetail = {
+      ...(dataElements && {
+        dataElements: ElementDetailCounter.normalizeNames(dataElements),
+      }),
+      ...(recordElements && {
+        recordElements:
+          ElementDetailCounter.normalizeRecordElements(recordElements),
+      }),
+      ...(referencedFiles && { referencedFiles }),
+    };
+
+    const resolved: ResolvedComponentCounts = {
+      dataElementTypes:
+        ElementDetailCounter.countDataElements(detail) ??
+        changes.dataElementTypes ??
+        current?.dataElementTypes,
+    };
+    if (isDataFunction) {
+      resolved.recordElementTypes =
+        ElementDetailCounter.countRecordElements(detail) ??
+        changes.recordElementTypes ??
+        current?.recordElementTypes;
+    } else {
+      resolved.fileTypesReferenced =
+        ElementDetailCounter.countReferencedFiles(detail) ??
+        changes.fileTypesReferenced ??
+        current?.fileTypesReferenced;
+    }
+
+    // Store the lists sent with the request, normalized
+    if (changes.dataElements) {
+      resolved.dataElements = detail.dataElements;
+    }
+    if (changes.recordElements) {
+      resolved.recordElements = detail.recordElements;
+    }
+    if (changes.referencedFiles) {
+      resolved.referencedFiles = detail.referencedFiles!.map(
+        (id) => new Types.ObjectId(id),
+      );
+    }
+
+    const hasLists =
+      !!detail.dataElements?.length ||
+      !!detail.recordElements?.length ||
+      !!detail.referencedFiles?.length;
+    if (!hasLists) {
+      return resolved;
+    }
+
+    const availableFiles = [
+      ...(estimate.internalLogicalFiles || []),
+      ...(estimate.externalInterfaceFiles || []),
+    ].map((id) => id.toString());
+    const validation = await this.validator.validateComponent(
+      componentType,
+      (isDataFunction
+        ? resolved.recordElementTypes
+        : resolved.fileTypesReferenced)!,
+      resolved.dataElementTypes!,
+      detail,
+      availableFiles,
+    );
+    if (!validation.isValid) {
+      throw new BadRequestException(validation.errors.join('; '));
+    }
+
+    return resolved;
+  }
+}
@@ -0,0 +1,489 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import {
+  ESTIMATE_REPOSITORY,
+  IEstimateRepository,
+  EstimateComponentBatch,
+} from '@domain/fpa/interfaces/estimate.repository.interface';
+import { Estimate } from '@domain/fpa/entities/estimate.entity';
+import {
+  ComplexityLevel,
+  FunctionChangeType,
+} from '@domain/fpa/entities/base-fpa-component.entity';
+import { ComplexityCalculator } from '@domain/fpa/services/complexity-calculator.service';
+import { EstimateReviewWorkflow } from '@domain/fpa/services/estimate-review-workflow.service';
+import { FPAComponentValidator } from '@domain/fpa/validators/fpa-validation-chain';
+import {
+  SpreadsheetUtils,
+  SpreadsheetRow,
+} from '@shared/utils/spreadsheet.utils';
+
+type ImportedComponentType = keyof EstimateComponentBatch;
+
+export type ComponentImportRowStatus = 'valid' | 'invalid';
+
+export interface ComponentImportRowResult {
+  row: number; // Line in the spreadsheet, the header being line 1
+  type: string;
+  name: string;
+  status: ComponentImportRowStatus;
+  errors: string[];
+  warnings: string[];
+  complexity?: ComplexityLevel;
+  functionPoints?: number;
+  componentId?: string; // Set once the row has been committed
+}
+
+export interface ComponentImportReport {
+  estimateId: string;
+  fileName: string;
+  dryRun: boolean;
+  committed: boolean;
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  totalFunctionPoints: number; // Of the valid rows
+  rows: ComponentImportRowResult[];
+}
+
+export interface ComponentImportFile {
+  originalname: string;
+  mimetype: string;
+  buffer: Buffer;
+}
+
+interface ParsedComponentRow {
+  result: ComponentImportRowResult;
+  type?: ImportedComponentType;
+  data?: Record<string, unknown>;
+}
+
+export const MAX_IMPORT_ROWS = 1000;
+
+// Spreadsheet names of the function types (IFPUG and the Portuguese acronyms)
+const COMPONENT_TYPE_ALIASES: Record<string, ImportedComponentType> = {
+  ILF: 'ALI',
+  ALI: 'ALI',
+  EIF: 'AIE',
+  AIE: 'AIE',
+  EI: 'EI',
+  EE: 'EI',
+  EO: 'EO',
+  SE: 'EO',
+  EQ: 'EQ',
+  CE: 'EQ',
+};
+
+// Accepted headers per field, compared without spaces, dashes or underscores
+const COLUMN_ALIASES = {
+  type: ['type', 'componenttype', 'functiontype'],
+  name: ['name', 'componentname'],
+  det: ['det', 'dets', 'td'],
+  retFtr: ['ret/ftr', 'rets/ftrs', 'ret', 'rets', 'ftr', 'ftrs', 'tr', 'ar'],
+  intent: ['intent', 'primaryintent'],
+  description: ['description'],
+  externalSystem: ['externalsystem'],
+  processingLogic: ['processinglogic'],
+  retrievalLogic: ['retrievallogic'],
+  outputFormat: ['outputformat'],
+  derivedData: ['deriveddata'],
+  changeType: ['changetype'],
+  notes: ['notes'],
+};
+
+type ImportColumn = keyof typeof COLUMN_ALIASES;
+
+const REQUIRED_COLUMNS: ImportColumn[] = [
+  'type',
+  'name',
+  'det',
+  'retFtr',
+  'intent',
+];
+
+const NOT_SPECIFIED = 'Not specified';
+
+@Injectable()
+export class ComponentImportService {
+  private readonly validator = new FPAComponentValidator();
+
+  constructor(
+    @Inject(ESTIMATE_REPOSITORY)
+    private readonly estimateRepository: IEstimateRepository,
+  ) {}
+
+  /**
+   * Validate every row of a CSV/XLSX component sheet and, unless this is a
+   * dry run, add the valid rows to the estimate in a single operation
+   * @throws NotFoundException if the estimate doesn't exist
+   * @throws ForbiddenException if the estimate belongs to another organization
+   * @throws BadRequestException if the file can't be read or lacks columns, or
+   * the estimate is in review or approved
+   */
+  async importComponents(
+    estimateId: string,
+    file: ComponentImportFile,
+    dryRun: boolean,
+    organizationId: string | null,
+  ): Promise<ComponentImportReport> {
+    const estimate = await this.estimateRepository.findById(estimateId);
+    if (!estimate) {
+      throw new NotFoundException(`Estimate with ID ${estimateId} not found`);
+    }
+    if (estimate.organizationId.toString() !== organizationId) {
+      throw new ForbiddenException('Access denied to this estimate');
+    }
+    const lockReason = EstimateReviewWorkflow.contentLockReason(
+      estimate.status,
+    );
+    if (lockReason && !dryRun) {
+      throw new BadRequestException(lockReason);
+    }
+
+    const sheetRows = this.readFile(file);
+    const existingKeys = new Set(
+      (await this.estimateRepository.findComponentSummaries(estimateId)).map(
+        (component) =>
+          this.componentKey(component.componentType, component.name),
+      ),
+    );
+
+    const parsedRows: ParsedComponentRow[] = [];
+    const seenKeys = new Map<string, number>();
+    for (const sheetRow of sheetRows) {
+      const parsed = await this.parseRow(sheetRow, estimate);
+      if (parsed.type) {
+        const key = this.componentKey(parsed.type, parsed.result.name);
+        if (existingKeys.has(key)) {
+          parsed.result.warnings.push(
+            `The estimate already has a ${parsed.type} named "${parsed.result.name}"`,
+          );
+        }
+        if (seenKeys.has(key)) {
+          parsed.result.warnings.push(
+            `Duplicates the ${parsed.type} on row ${seenKeys.get(key)}`,
+          );
+        } else {
+          seenKeys.set(key, sheetRow.rowNumber);
+        }
+      }
+      parsedRows.push(parsed);
+    }
+
+    const validRows = parsedRows.filter(
+      (parsed) => parsed.result.status === 'valid',
+    );
+    const report: ComponentImportReport = {
+      estimateId,
+      fileName: file.originalname,
+      dryRun,
+      committed: false,
+      totalRows: parsedRows.length,
+      validRows: validRows.length,
+      invalidRows: parsedRows.length - validRows.length,
+      totalFunctionPoints: validRows.reduce(
+        (sum, parsed) => sum + (parsed.result.functionPoints || 0),
+        0,
+      ),
+      rows: parsedRows.map((parsed) => parsed.result),
+    };
+
+    if (dryRun || validRows.length === 0) {
+      return report;
+    }
+
+    const batch: EstimateComponentBatch = {};
+    validRows.forEach(({ type, data }) => {
+      const components = (batch[type!] ??= []) as Record<string, unknown>[];
+      components.push(data!);
+    });
+
+    const ids = await this.estimateRepository.addComponents(estimateId, batch);
+    if (!ids) {
+      throw new NotFoundException(`Estimate with ID ${estimateId} not found`);
+    }
+
+    // Ids come back in batch order, which is the row order within each type
+    const positions: Partial<Record<ImportedComponentType, number>> = {};
+    validRows.forEach(({ type, result }) => {
+      const position = positions[type!] ?? 0;
+      result.componentId = ids[type!][position].toString();
+      positions[type!] = position + 1;
+    });
+
+    report.committed = true;
+    return report;
+  }
+
+  private readFile(file: ComponentImportFile): SpreadsheetRow[] {
+    const format = SpreadsheetUtils.detectFormat(
+      file.originalname,
+      file.mimetype,
+    );
+    if (!format) {
+      throw new BadRequestException(
+        'Unsupported file type. Upload a .csv or .xlsx file',
+      );
+    }
+
+    let rows: SpreadsheetRow[];
+    try {
+      rows = SpreadsheetUtils.parse(file.buffer, format);
+    } catch (error) {
+      throw new BadRequestException(
+        error instanceof Error ? error.message : 'Unable to read the file',
+      );
+    }
+
+    if (rows.length === 0) {
+      throw new BadRequestException('The file has no component rows');
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new BadRequestException(
+        `The file has ${rows.length} rows; at most ${MAX_IMPORT_ROWS} can be imported at once`,
+      );
+    }
+
+    const headers = Object.keys(rows[0].values).map((header) =>
+      this.normalizeHeader(header),
+    );
+    const missing = REQUIRED_COLUMNS.filter(
+      (column) =>
+        !COLUMN_ALIASES[column].some((alias) => headers.includes(alias)),
+    );
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `Missing required columns: ${missing
+          .map((column) => COLUMN_ALIASES[column][0])
+          .join(', ')}`,
+      );
+    }
+
+    return rows;
+  }
+
+  private async parseRow(
+    sheetRow: SpreadsheetRow,
+    estimate: Estimate,
+  ): Promise<ParsedComponentRow> {
+    const value = this.columnReader(sheetRow.values);
+    const rawType = value('type').toUpperCase();
+    const result: ComponentImportRowResult = {
+      row: sheetRow.rowNumber,
+      type: rawType,
+      name: value('name'),
+      status: 'invalid',
+      errors: [],
+      warnings: [],
+    };
+
+    const type = COMPONENT_TYPE_ALIASES[rawType];
+    if (!rawType) {
+      result.errors.push('Component type is required');
+    } else if (!type) {
+      result.errors.push(
+        `Invalid component type: ${rawType}. Must be one of: ILF, EIF, EI, EO, EQ`,
+      );
+    } else {
+      result.type = type;
+    }
+
+    if (!result.name) {
+      result.errors.push('Name is required');
+    }
+    const intent = value('intent');
+    if (!intent) {
+      result.errors.push('Intent is required');
+    }
+
+    const det = this.parseCount(value('det'), 'DET', result.errors);
+    const retFtr = this.parseCount(
+      value('retFtr'),
+      type === 'ALI' || type === 'AIE' ? 'RET' : 'FTR',
+      result.errors,
+    );
+
+    const changeType = value('changeType').toUpperCase();
+    if (
+      changeType &&
+      !Object.values(FunctionChangeType).includes(
+        changeType as FunctionChangeType,
+      )
+    ) {
+      result.errors.push(
+        `Invalid change type: ${changeType}. Must be one of: ${Object.values(FunctionChangeType).join(', ')}`,
+      );
+    }
+
+    const derivedData = this.parseBoolean(value('derivedData'));
+    if (type === 'EO' && derivedData === null) {
+      result.errors.push(
+        `Invalid derived data value: ${value('derivedData')}. Use yes or no`,
+      );
+    }
+
+    if (!type || det === undefined || retFtr === undefined) {
+      return { result };
+    }
+
+    // The validation chain checks the counts and their typical ranges
+    const validation = await this.validator.validateComponent(
+      type,
+      retFtr,
+      det,
+    );
+    result.errors.push(...validation.errors);
+    result.warnings.push(...validation.warnings);
+    if (result.errors.length > 0) {
+      return { result };
+    }
+
+    const { complexity, functionPoints } = this.calculateComplexity(
+      type,
+      retFtr,
+      det,
+    );
+    result.complexity = complexity;
+    result.functionPoints = functionPoints;
+    result.status = 'valid';
+
+    const data: Record<string, unknown> = {
+      name: result.name,
+      description: value('description') || intent,
+      primaryIntent: intent,
+      dataElementTypes: det,
+      projectId: estimate.projectId,
+      organizationId: estimate.organizationId,
+      complexity,
+      functionPoints,
+      ...(changeType && { changeType }),
+      ...(value('notes') && { notes: value('notes') }),
+    };
+
+    switch (type) {
+      case 'ALI':
+        data.recordElementTypes = retFtr;
+        break;
+      case 'AIE':
+        data.recordElementTypes = retFtr;
+        data.externalSystem = this.withDefault(
+          value('externalSystem'),
+          'External system',
+          result.warnings,
+        );
+        break;
+      case 'EI':
+        data.fileTypesReferenced = retFtr;
+        data.processingLogic = value('processingLogic') || intent;
+        break;
+      case 'EO':
+        data.fileTypesReferenced = retFtr;
+        data.outputFormat = this.withDefault(
+          value('outputFormat'),
+          'Output format',
+          result.warnings,
+        );
+        data.derivedData = derivedData ?? false;
+        break;
+      case 'EQ':
+        data.fileTypesReferenced = retFtr;
+        if (value('retrievalLogic')) {
+          data.retrievalLogic = value('retrievalLogic');
+        }
+        if (value('outputFormat')) {
+          data.outputFormat = value('outputFormat');
+        }
+        if (derivedData) {
+          data.derivedData = true;
+        }
+        break;
+    }
+
+    return { result, type, data };
+  }
+
+  private calculateComplexity(
+    type: ImportedComponentType,
+    retFtr: number,
+    det: number,
+  ): { complexity: ComplexityLevel; functionPoints: number } {
+    switch (type) {
+      case 'ALI':
+        return ComplexityCalculator.calculateILFComplexity(retFtr, det);
+      case 'AIE':
+        return ComplexityCalculator.calculateEIFComplexity(retFtr, det);
+      case 'EI':
+        return ComplexityCalculator.calculateEIComplexity(retFtr, det);
+      case 'EO':
+        return ComplexityCalculator.calculateEOComplexity(retFtr, det);
+      case 'EQ':
+        return ComplexityCalculator.calculateEQComplexity(retFtr, det);
+    }
+  }
+
+  // Reads a field through the first of its header aliases present in the row
+  private columnReader(
+    values: Record<string, string>,
+  ): (column: ImportColumn) => string {
+    const normalized = new Map(
+      Object.entries(values).map(([header, cell]) => [
+        this.normalizeHeader(header),
+        cell,
+      ]),
+    );
+    return (column) => {
+      const alias = COLUMN_ALIASES[column].find((name) => normalized.has(name));
+      return alias ? (normalized.get(alias) ?? '') : '';
+    };
+  }
+
+  private normalizeHeader(header: string): string {
+    return header.toLowerCase().replace(/[\s_-]/g, '');
+  }
+
+  private parseCount(
+    raw: string,
+    label: string,
+    errors: string[],
+  ): number | undefined {
+    if (raw === '') {
+      errors.push(`${label} is required`);
+      return undefined;
+    }
+    const count = Number(raw);
+    if (!Number.isInteger(count)) {
+      errors.push(`${label} must be a whole number, got "${raw}"`);
+      return undefined;
+    }
+    return count;
+  }
+
+  // Empty cells default to false; unrecognized values return null
+  private parseBoolean(raw: string): boolean | null {
+    const normalized = raw.toLowerCase();
+    if (['', 'no', 'n', 'false', '0', 'não', 'nao'].includes(normalized)) {
+      return false;
+    }
+    if (['yes', 'y', 'true', '1', 'sim', 's'].includes(normalized)) {
+      return true;
+    }
+    return null;
+  }
+
+  private withDefault(raw: string, label: string, warnings: string[]): string {
+    if (raw) {
+      return raw;
+    }
+    warnings.push(`${label} not provided; recorded as "${NOT_SPECIFIED}"`);
+    return NOT_SPECIFIED;
+  }
+
+  private componentKey(type: string, name: string): string {
+    return `${type}:${name.trim().toLowerCase()}`;
+  }
+}
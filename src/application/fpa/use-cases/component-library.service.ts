@@ -0,0 +1,545 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Types } from 'mongoose';
+import {
+  COMPONENT_TEMPLATE_REPOSITORY,
+  IComponentTemplateRepository,
+  ComponentTemplateSearch,
+  LinkedComponentSummary,
+} from '@domain/fpa/interfaces/component-template.repository.interface';
+import {
+  ESTIMATE_REPOSITORY,
+  IEstimateRepository,
+  EstimateComponentBatch,
+} from '@domain/fpa/interfaces/estimate.repository.interface';
+import {
+  ALI_REPOSITORY,
+  IALIRepository,
+} from '@domain/fpa/interfaces/ali.repository.interface';
+import {
+  AIE_REPOSITORY,
+  IAIERepository,
+} from '@domain/fpa/interfaces/aie.repository.interface';
+import {
+  EI_REPOSITORY,
+  IEIRepository,
+} from '@domain/fpa/interfaces/ei.repository.interface';
+import {
+  EO_REPOSITORY,
+  IEORepository,
+} from '@domain/fpa/interfaces/eo.repository.interface';
+import {
+  EQ_REPOSITORY,
+  IEQRepository,
+} from '@domain/fpa/interfaces/eq.repository.interface';
+import { IBaseFPAComponentRepository } from '@domain/fpa/interfaces/base-fpa-component.repository.interface';
+import {
+  ComponentTemplate,
+  ComponentTemplateType,
+} from '@domain/fpa/entities/component-template.entity';
+import {
+  BaseFPAComponent,
+  ComplexityLevel,
+} from '@domain/fpa/entities/base-fpa-component.entity';
+import { Estimate } from '@domain/fpa/entities/estimate.entity';
+import { ComplexityCalculator } from '@domain/fpa/services/complexity-calculator.service';
+import { EstimateReviewWorkflow } from '@domain/fpa/services/estimate-review-workflow.service';
+import { FPAComponentValidator } from '@domain/fpa/validators/fpa-validation-chain';
+import {
+  CreateComponentTemplateDto,
+  UpdateComponentTemplateDto,
+  SaveComponentAsTemplateDto,
+  InstantiateComponentTemplateDto,
+} from '@application/fpa/dtos/component-template.dto';
+
+export interface ComponentTemplateUpdateResult {
+  template: ComponentTemplate;
+  outdatedInstances: number; // Instances flagged by this update
+}
+
+export interface InstantiatedComponent {
+  templateId: string;
+  templateRevision: number;
+  estimateId: string;
+  componentType: ComponentTemplateType;
+  componentId: string;
+  name: string;
+  complexity: ComplexityLevel;
+  functionPoints: number;
+}
+
+const ESTIMATE_FIELDS: Record<
+  ComponentTemplateType,
+  | 'internalLogicalFiles'
+  | 'externalInterfaceFiles'
+  | 'externalInputs'
+  | 'externalOutputs'
+  | 'externalQueries'
+> = {
+  ALI: 'internalLogicalFiles',
+  AIE: 'externalInterfaceFiles',
+  EI: 'externalInputs',
+  EO: 'externalOutputs',
+  EQ: 'externalQueries',
+};
+
+// Template fields carried over to and from estimate components
+const TEMPLATE_CONTENT_FIELDS = [
+  'name',
+  'description',
+  'primaryIntent',
+  'dataElementTypes',
+  'recordElementTypes',
+  'fileTypesReferenced',
+  'externalSystem',
+  'processingLogic',
+  'outputFormat',
+  'derivedData',
+  'retrievalLogic',
+  'notes',
+] as const;
+
+@Injectable()
+export class ComponentLibraryService {
+  private readonly validator = new FPAComponentValidator();
+
+  constructor(
+    @Inject(COMPONENT_TEMPLATE_REPOSITORY)
+    private readonly componentTemplateRepository: IComponentTemplateRepository,
+    @Inject(ESTIMATE_REPOSITORY)
+    private readonly estimateRepository: IEstimateRepository,
+    @Inject(ALI_REPOSITORY)
+    private readonly aliRepository: IALIRepository,
+    @Inject(AIE_REPOSITORY)
+    private readonly aieRepository: IAIERepository,
+    @Inject(EI_REPOSITORY)
+    private readonly eiRepository: IEIRepository,
+    @Inject(EO_REPOSITORY)
+    private readonly eoRepository: IEORepository,
+    @Inject(EQ_REPOSITORY)
+    private readonly eqRepository: IEQRepository,
+  ) {}
+
+  async create(
+    createDto: CreateComponentTemplateDto,
+    organizationId: string,
+    createdBy: string,
+  ): Promise<ComponentTemplate> {
+    await this.ensureUniqueName(
+      organizationId,
+      createDto.componentType,
+      createDto.name,
+    );
+
+    const template: Partial<ComponentTemplate> = {
+      ...createDto,
+      tags: this.normalizeTags(createDto.tags),
+      revision: 1,
+      organizationId: new Types.ObjectId(organizationId),
+      createdBy: new Types.ObjectId(createdBy),
+    };
+    await this.validateContent(template);
+
+    return this.componentTemplateRepository.create(template);
+  }
+
+  /**
+   * Save a component of an estimate to the organization's library
+   * @throws NotFoundException if the estimate or component doesn't exist
+   * @throws ForbiddenException if the estimate belongs to another organization
+   * @throws ConflictException if a template of that type and name exists
+   */
+  async saveFromComponent(
+    saveDto: SaveComponentAsTemplateDto,
+    organizationId: string,
+    createdBy: string,
+  ): Promise<ComponentTemplate> {
+    const estimate = await this.findEstimate(
+      saveDto.estimateId,
+      organizationId,
+    );
+    const component = await this.findEstimateComponent(
+      estimate,
+      saveDto.componentType,
+      saveDto.componentId,
+    );
+
+    const fields = this.rawFields(component);
+    const content = Object.fromEntries(
+      TEMPLATE_CONTENT_FIELDS.filter(
+        (field) => fields[field] !== undefined && fields[field] !== null,
+      ).map((field) => [field, fields[field]]),
+    );
+
+    return this.create(
+      {
+        ...(content as Omit<
+          CreateComponentTemplateDto,
+          'componentType' | 'tags'
+        >),
+        componentType: saveDto.componentType,
+        tags: saveDto.tags,
+      },
+      organizationId,
+      createdBy,
+    );
+  }
+
+  async findAll(
+    organizationId: string,
+    filters?: ComponentTemplateSearch,
+  ): Promise<ComponentTemplate[]> {
+    return this.componentTemplateRepository.findByOrganization(organizationId, {
+      ...filters,
+      ...(filters?.tag && { tag: filters.tag.trim().toLowerCase() }),
+    });
+  }
+
+  async findOne(
+    id: string,
+    organizationId: string,
+  ): Promise<ComponentTemplate> {
+    const template = await this.componentTemplateRepository.findById(id);
+    if (!template) {
+      throw new NotFoundException(`Component template with ID ${id} not found`);
+    }
+
+    if (template.organizationId.toString() !== organizationId) {
+      throw new ForbiddenException('Access denied to this component template');
+    }
+
+    return template;
+  }
+
+  /**
+   * Update a template. Content changes start a new revision and flag the
+   * components instantiated from earlier revisions as outdated
+   */
+  async update(
+    id: string,
+    updateDto: UpdateComponentTemplateDto,
+    organizationId: string,
+  ): Promise<ComponentTemplateUpdateResult> {
+    const existing = await this.findOne(id, organizationId);
+
+    if (updateDto.name && updateDto.name !== existing.name) {
+      await this.ensureUniqueName(
+        organizationId,
+        existing.componentType,
+        updateDto.name,
+      );
+    }
+
+    const { tags, ...content } = updateDto;
+    const contentChanged = Object.entries(content).some(
+      ([field, value]) =>
+        value !== undefined &&
+        value !== existing[field as keyof ComponentTemplate],
+    );
+
+    const updateData: Partial<ComponentTemplate> = {
+      ...content,
+      ...(tags && { tags: this.normalizeTags(tags) }),
+      ...(contentChanged && { revision: existing.revision + 1 }),
+    };
+    await this.validateContent({
+      ...this.rawFields(existing),
+      ...updateData,
+    } as Partial<ComponentTemplate>);
+
+    const updated = await this.componentTemplateRepository.update(
+      id,
+      updateData,
+    );
+    if (!updated) {
+      throw new NotFoundException(
+        `Failed to update component template with ID ${id}`,
+      );
+    }
+
+    const outdatedInstances = contentChanged
+      ? await this.componentTemplateRepository.flagOutdatedComponents(
+          id,
+          updated.componentType,
+          updated.revision,
+        )
+      : 0;
+
+    return { template: updated, outdatedInstances };
+  }
+
+  // Components made from the template stay in their estimates, unlinked
+  async remove(id: string, organizationId: string): Promise<boolean> {
+    const template = await this.findOne(id, organizationId);
+
+    const result = await this.componentTemplateRepository.delete(id);
+    if (!result) {
+      throw new NotFoundException(
+        `Failed to delete component template with ID ${id}`,
+      );
+    }
+    await this.componentTemplateRepository.unlinkComponents(
+      id,
+      template.componentType,
+    );
+    return true;
+  }
+
+  async findInstances(
+    id: string,
+    organizationId: string,
+  ): Promise<LinkedComponentSummary[]> {
+    const template = await this.findOne(id, organizationId);
+    return this.componentTemplateRepository.findLinkedComponents(
+      id,
+      template.componentType,
+    );
+  }
+
+  /**
+   * Add a component built from the template to an estimate, linked to the
+   * template's current revision
+   * @throws NotFoundException if the template or estimate doesn't exist
+   * @throws ForbiddenException if either belongs to another organization
+   * @throws BadRequestException if the estimate is in review or approved
+   * @throws ConflictException if the estimate has a component of that type and name
+   */
+  async instantiate(
+    id: string,
+    instantiateDto: InstantiateComponentTemplateDto,
+    organizationId: string,
+  ): Promise<InstantiatedComponent> {
+    const template = await this.findOne(id, organizationId);
+    const estimate = await this.findEstimate(
+      instantiateDto.estimateId,
+      organizationId,
+    );
+    const lockReason = EstimateReviewWorkflow.contentLockReason(
+      estimate.status,
+    );
+    if (lockReason) {
+      throw new BadRequestException(lockReason);
+    }
+
+    const name = instantiateDto.name?.trim() || template.name;
+    const existing = await this.estimateRepository.findComponentSummaries(
+      instantiateDto.estimateId,
+    );
+    if (
+      existing.some(
+        (component) =>
+          component.componentType === template.componentType &&
+          component.name.trim().toLowerCase() === name.toLowerCase(),
+      )
+    ) {
+      throw new ConflictException(
+        `The estimate already has a ${template.componentType} named "${name}"`,
+      );
+    }
+
+    const { complexity, functionPoints } = this.calculateComplexity(
+      template.componentType,
+      this.retFtr(template)!,
+      template.dataElementTypes,
+    );
+    const fields = this.rawFields(template);
+    const data: Record<string, unknown> = {
+      ...Object.fromEntries(
+        TEMPLATE_CONTENT_FIELDS.filter(
+          (field) => fields[field] !== undefined && fields[field] !== null,
+        ).map((field) => [field, fields[field]]),
+      ),
+      name,
+      projectId: estimate.projectId,
+      organizationId: estimate.organizationId,
+      complexity,
+      functionPoints,
+      templateId: template._id,
+      templateRevision: template.revision,
+      templateOutdated: false,
+      ...(instantiateDto.changeType && {
+        changeType: instantiateDto.changeType,
+      }),
+    };
+    if (template.componentType === 'EI' && !data.processingLogic) {
+      data.processingLogic = template.primaryIntent;
+    }
+    if (template.componentType === 'EO' && data.derivedData === undefined) {
+      data.derivedData = false;
+    }
+
+    const ids = await this.estimateRepository.addComponents(
+      instantiateDto.estimateId,
+      { [template.componentType]: [data] } as EstimateComponentBatch,
+    );
+    if (!ids) {
+      throw new NotFoundException(
+        `Estimate with ID ${instantiateDto.estimateId} not found`,
+      );
+    }
+
+    return {
+      templateId: id,
+      templateRevision: template.revision,
+      estimateId: instantiateDto.estimateId,
+      componentType: template.componentType,
+      componentId: ids[template.componentType][0].toString(),
+      name,
+      complexity,
+      functionPoints,
+    };
+  }
+
+  private async findEstimate(
+    estimateId: string,
+    organizationId: string,
+  ): Promise<Estimate> {
+    const estimate = await this.estimateRepository.findById(estimateId);
+    if (!estimate) {
+      throw new NotFoundException(`Estimate with ID ${estimateId} not found`);
+    }
+    if (estimate.organizationId.toString() !== organizationId) {
+      throw new ForbiddenException('Access denied to this estimate');
+    }
+    return estimate;
+  }
+
+  private async findEstimateComponent(
+    estimate: Estimate,
+    componentType: ComponentTemplateType,
+    componentId: string,
+  ): Promise<BaseFPAComponent> {
+    const references = estimate[ESTIMATE_FIELDS[componentType]] || [];
+    if (!references.some((id) => id.toString() === componentId)) {
+      throw new NotFoundException(
+        `${componentType} with ID ${componentId} not found in estimate ${estimate._id.toString()}`,
+      );
+    }
+
+    const component =
+      await this.repositoryFor(componentType).findById(componentId);
+    if (!component) {
+      throw new NotFoundException(
+        `${componentType} with ID ${componentId} not found`,
+      );
+    }
+    return component;
+  }
+
+  // Validates the counts and the fields each function type requires
+  private async validateContent(
+    template: Partial<ComponentTemplate>,
+  ): Promise<void> {
+    const type = template.componentType!;
+    const isDataFunction = type === 'ALI' || type === 'AIE';
+    if (isDataFunction && template.fileTypesReferenced !== undefined) {
+      throw new BadRequestException(`${type} templates count RETs, not FTRs`);
+    }
+    if (!isDataFunction && template.recordElementTypes !== undefined) {
+      throw new BadRequestException(`${type} templates count FTRs, not RETs`);
+    }
+
+    const validation = await this.validator.validateComponent(
+      type,
+      this.retFtr(template)!,
+      template.dataElementTypes!,
+    );
+    if (!validation.isValid) {
+      throw new BadRequestException(validation.errors.join('; '));
+    }
+
+    if (type === 'AIE' && !template.externalSystem) {
+      throw new BadRequestException(
+        'AIE templates need the external system that maintains the data',
+      );
+    }
+    if (type === 'EO' && !template.outputFormat) {
+      throw new BadRequestException('EO templates need an output format');
+    }
+  }
+
+  private retFtr(
+    template: Pick<
+      Partial<ComponentTemplate>,
+      'componentType' | 'recordElementTypes' | 'fileTypesReferenced'
+    >,
+  ): number | undefined {
+    return template.componentType === 'ALI' || template.componentType === 'AIE'
+      ? template.recordElementTypes
+      : template.fileTypesReferenced;
+  }
+
+  private calculateComplexity(
+    type: ComponentTemplateType,
+    retFtr: number,
+    det: number,
+  ): { complexity: ComplexityLevel; functionPoints: number } {
+    switch (type) {
+      case 'ALI':
+        return ComplexityCalculator.calculateILFComplexity(retFtr, det);
+      case 'AIE':
+        return ComplexityCalculator.calculateEIFComplexity(retFtr, det);
+      case 'EI':
+        return ComplexityCalculator.calculateEIComplexity(retFtr, det);
+      case 'EO':
+        return ComplexityCalculator.calculateEOComplexity(retFtr, det);
+      case 'EQ':
+        return ComplexityCalculator.calculateEQComplexity(retFtr, det);
+    }
+  }
+
+  // Repositories return Mongoose documents; read their raw field values
+  private rawFields(value: object): Record<string, unknown> {
+    const document = value as { toObject?: () => Record<string, unknown> };
+    return typeof document.toObject === 'function'
+      ? document.toObject()
+      : { ...value };
+  }
+
+  private normalizeTags(tags: string[] = []): string[] {
+    return [
+      ...new Set(
+        tags.map((tag) => tag.trim().toLowerCase()).filter((tag) => tag),
+      ),
+    ];
+  }
+
+  private async ensureUniqueName(
+    organizationId: string,
+    componentType: ComponentTemplateType,
+    name: string,
+  ): Promise<void> {
+    const existing = await this.componentTemplateRepository.findByName(
+      organizationId,
+      componentType,
+      name,
+    );
+    if (existing) {
+      throw new ConflictException(
+        `A ${componentType} template named "${name}" already exists`,
+      );
+    }
+  }
+
+  private repositoryFor(
+    type: ComponentTemplateType,
+  ): IBaseFPAComponentRepository<BaseFPAComponent> {
+    const repositories: Record<
+      ComponentTemplateType,
+      IBaseFPAComponentRepository<BaseFPAComponent>
+    > = {
+      ALI: this.aliRepository,
+      AIE: this.aieRepository,
+      EI: this.eiRepository,
+      EO: this.eoRepository,
+      EQ: this.eqRepository,
+    };
+    return repositories[type];
+  }
+}
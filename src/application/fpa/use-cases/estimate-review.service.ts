@@ -0,0 +1,403 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Types } from 'mongoose';
+import {
+  ESTIMATE_REPOSITORY,
+  IEstimateRepository,
+} from '@domain/fpa/interfaces/estimate.repository.interface';
+import {
+  USER_REPOSITORY,
+  IUserRepository,
+} from '@domain/users/interfaces/user.repository.interface';
+import {
+  Estimate,
+  EstimateStatus,
+  EstimateReviewer,
+  EstimateReviewComment,
+  ReviewDecision,
+} from '@domain/fpa/entities/estimate.entity';
+import { UserRole } from '@domain/users/entities/user.entity';
+import { EstimateReviewWorkflow } from '@domain/fpa/services/estimate-review-workflow.service';
+import {
+  AssignReviewersDto,
+  ReviewCommentDto,
+  ReviewDecisionDto,
+} from '@application/fpa/dtos/estimate-review.dto';
+import { EstimateService } from './estimate.service';
+import { EstimateWithPatternsService } from './estimate-with-patterns.service';
+
+export interface EstimateReview {
+  estimateId: string;
+  status: EstimateStatus;
+  reviewers: EstimateReviewer[];
+  comments: EstimateReviewComment[];
+}
+
+@Injectable()
+export class EstimateReviewService {
+  constructor(
+    @Inject(ESTIMATE_REPOSITORY)
+    private readonly estimateRepository: IEstimateRepository,
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    private readonly estimateService: EstimateService,
+    private readonly estimateWithPatternsService: EstimateWithPatternsService,
+  ) {}
+
+  async getReview(id: string, organizationId: string): Promise<EstimateReview> {
+    const estimate = await this.findEstimate(id, organizationId);
+    return this.toReview(estimate);
+  }
+
+  /**
+   * Replace the reviewers of a count that is not in review. The author of
+   * the count cannot review it
+   * @throws BadRequestException if a user is not a member of the organization
+   */
+  async assignReviewers(
+    id: string,
+    assignDto: AssignReviewersDto,
+    organizationId: string,
+    assignedBy: string,
+  ): Promise<EstimateReview> {
+    const estimate = await this.findEstimate(id, organizationId);
+    if (
+      ![EstimateStatus.DRAFT, EstimateStatus.CHANGES_REQUESTED].includes(
+        estimate.status,
+      )
+    ) {
+      throw new BadRequestException(
+        'Reviewers can only be assigned to draft estimates or estimates with requested changes',
+      );
+    }
+    if (assignDto.reviewerIds.includes(estimate.createdBy.toString())) {
+      throw new BadRequestException(
+        'The author of the estimate cannot review it',
+      );
+    }
+
+    const users = await Promise.all(
+      assignDto.reviewerIds.map((userId) =>
+        this.userRepository.findById(userId),
+      ),
+    );
+    const outsiders = assignDto.reviewerIds.filter(
+      (_, index) => users[index]?.organizationId?.toString() !== organizationId,
+    );
+    if (outsiders.length > 0) {
+      throw new BadRequestException(
+        `Reviewers must be members of the organization: ${outsiders.join(', ')}`,
+      );
+    }
+
+    // Reviewers kept on the list keep their assignment
+    const current = estimate.reviewers || [];
+    const reviewers: EstimateReviewer[] = assignDto.reviewerIds.map(
+      (userId) =>
+        current.find((reviewer) => reviewer.userId.toString() === userId) || {
+          userId: new Types.ObjectId(userId),
+          assignedBy: new Types.ObjectId(assignedBy),
+          assignedAt: new Date(),
+        },
+    );
+
+    const updatedEstimate = await this.save(id, { reviewers });
+    return this.toReview(updatedEstimate);
+  }
+
+  /**
+   * Submit the count to its reviewers. Decisions and approvals of a previous
+   * round are cleared so every reviewer decides on the current count
+   */
+  async submit(
+    id: string,
+    organizationId: string,
+    submittedBy: string,
+  ): Promise<EstimateReview> {
+    const estimate = await this.findEstimate(id, organizationId);
+    this.assertTransition(estimate.status, EstimateStatus.IN_REVIEW);
+    if (!estimate.reviewers?.length) {
+      throw new BadRequestException(
+        'Assign at least one reviewer before submitting the estimate',
+      );
+    }
+
+    const reviewers = estimate.reviewers.map(
+      ({ userId, assignedBy, assignedAt }) => ({
+        userId,
+        assignedBy,
+        assignedAt,
+      }),
+    );
+    return this.transition(
+      estimate,
+      { reviewers, approvals: [] },
+      EstimateStatus.IN_REVIEW,
+      submittedBy,
+    );
+  }
+
+  /**
+   * Withdraw a count from review, back to draft, to change it before the
+   * reviewers decide. Approvals already given no longer hold
+   */
+  async withdraw(
+    id: string,
+    organizationId: string,
+    withdrawnBy: string,
+  ): Promise<EstimateReview> {
+    const estimate = await this.findEstimate(id, organizationId);
+    if (estimate.status !== EstimateStatus.IN_REVIEW) {
+      throw new BadRequestException('The estimate is not in review');
+    }
+    return this.transition(
+      estimate,
+      { approvals: [] },
+      EstimateStatus.DRAFT,
+      withdrawnBy,
+    );
+  }
+
+  /**
+   * Comment on the count or one of its components. Only the reviewers and
+   * the author take part in the review
+   */
+  async addComment(
+    id: string,
+    commentDto: ReviewCommentDto,
+    organizationId: string,
+    authorId: string,
+  ): Promise<EstimateReview> {
+    const estimate = await this.findEstimate(id, organizationId);
+    if (
+      [EstimateStatus.FINALIZED, EstimateStatus.ARCHIVED].includes(
+        estimate.status,
+      )
+    ) {
+      throw new BadRequestException(
+        'Finalized and archived estimates cannot be commented',
+      );
+    }
+    if (
+      estimate.createdBy.toString() !== authorId &&
+      !this.findReviewer(estimate, authorId)
+    ) {
+      throw new ForbiddenException(
+        'Only the reviewers and the author can comment on the estimate',
+      );
+    }
+
+    let componentType: EstimateReviewComment['componentType'];
+    if (commentDto.componentId) {
+      const components =
+        await this.estimateRepository.findComponentSummaries(id);
+      const component = components.find(
+        (summary) => summary._id.toString() === commentDto.componentId,
+      );
+      if (!component) {
+        throw new NotFoundException(
+          `Component ${commentDto.componentId} is not part of the estimate`,
+        );
+      }
+      componentType = component.componentType;
+    }
+
+    const comment: EstimateReviewComment = {
+      _id: new Types.ObjectId(),
+      authorId: new Types.ObjectId(authorId),
+      ...(componentType && {
+        componentType,
+        componentId: new Types.ObjectId(commentDto.componentId),
+      }),
+      text: commentDto.text,
+      createdAt: new Date(),
+    };
+
+    const updatedEstimate = await this.save(id, {
+      reviewComments: [...(estimate.reviewComments || []), comment],
+    });
+    return this.toReview(updatedEstimate);
+  }
+
+  async approve(
+    id: string,
+    decisionDto: ReviewDecisionDto,
+    organizationId: string,
+    reviewer: { _id: string; role: UserRole },
+  ): Promise<EstimateReview> {
+    return this.decide(
+      id,
+      ReviewDecision.APPROVED,
+      decisionDto,
+      organizationId,
+      reviewer,
+    );
+  }
+
+  async requestChanges(
+    id: string,
+    decisionDto: ReviewDecisionDto,
+    organizationId: string,
+    reviewer: { _id: string; role: UserRole },
+  ): Promise<EstimateReview> {
+    if (!decisionDto.comment?.trim()) {
+      throw new BadRequestException(
+        'Explain the changes requested in the comment',
+      );
+    }
+    return this.decide(
+      id,
+      ReviewDecision.CHANGES_REQUESTED,
+      decisionDto,
+      organizationId,
+      reviewer,
+    );
+  }
+
+  /**
+   * Record the decision of an assigned reviewer. The estimate moves out of
+   * review once the decisions settle it: approved by every reviewer, or
+   * sent back as soon as one requests changes. An approval also counts for
+   * the approval quality gates
+   * @throws ForbiddenException if the user is not a reviewer of the estimate
+   */
+  private async decide(
+    id: string,
+    decision: ReviewDecision,
+    decisionDto: ReviewDecisionDto,
+    organizationId: string,
+    user: { _id: string; role: UserRole },
+  ): Promise<EstimateReview> {
+    const estimate = await this.findEstimate(id, organizationId);
+    if (estimate.status !== EstimateStatus.IN_REVIEW) {
+      throw new BadRequestException('The estimate is not in review');
+    }
+    if (!this.findReviewer(estimate, user._id)) {
+      throw new ForbiddenException('Only assigned reviewers can decide');
+    }
+
+    const decidedAt = new Date();
+    const reviewers = (estimate.reviewers || []).map((reviewer) =>
+      reviewer.userId.toString() === user._id
+        ? {
+            ...reviewer,
+            decision,
+            decidedAt,
+            ...(decisionDto.comment && { comment: decisionDto.comment }),
+          }
+        : reviewer,
+    );
+    const changes: Partial<Estimate> = { reviewers };
+    if (decision === ReviewDecision.APPROVED) {
+      changes.approvals = [
+        ...(estimate.approvals || []).filter(
+          (approval) => approval.approvedBy.toString() !== user._id,
+        ),
+        {
+          approvedBy: new Types.ObjectId(user._id),
+          role: user.role,
+          approvedAt: decidedAt,
+          ...(decisionDto.comment && { comment: decisionDto.comment }),
+        },
+      ];
+    }
+
+    return this.transition(
+      estimate,
+      changes,
+      EstimateReviewWorkflow.reviewOutcome(reviewers),
+      user._id,
+      decisionDto.comment,
+    );
+  }
+
+  /**
+   * Save the review changes with the new status, then notify the status
+   * observers (notifications, audit) when the status changed
+   */
+  private async transition(
+    estimate: Estimate,
+    changes: Partial<Estimate>,
+    newStatus: EstimateStatus,
+    changedBy: string,
+    reason?: string,
+  ): Promise<EstimateReview> {
+    const previousStatus = estimate.status;
+    const id = estimate._id.toString();
+    const updatedEstimate = await this.save(id, {
+      ...changes,
+      status: newStatus,
+    });
+
+    if (newStatus !== previousStatus) {
+      updatedEstimate.status = previousStatus;
+      await this.estimateWithPatternsService.changeEstimateStatus(
+        updatedEstimate,
+        newStatus,
+        changedBy,
+        reason,
+        {
+          reviewerIds: (updatedEstimate.reviewers || []).map((reviewer) =>
+            reviewer.userId.toString(),
+          ),
+        },
+      );
+    }
+
+    return this.toReview(updatedEstimate);
+  }
+
+  private assertTransition(from: EstimateStatus, to: EstimateStatus): void {
+    if (!EstimateReviewWorkflow.canTransition(from, to)) {
+      throw new BadRequestException(
+        `Cannot change the estimate status from ${from} to ${to}`,
+      );
+    }
+  }
+
+  private findReviewer(
+    estimate: Estimate,
+    userId: string,
+  ): EstimateReviewer | undefined {
+    return (estimate.reviewers || []).find(
+      (reviewer) => reviewer.userId.toString() === userId,
+    );
+  }
+
+  private async findEstimate(
+    id: string,
+    organizationId: string,
+  ): Promise<Estimate> {
+    await this.estimateService.findOne(id, organizationId);
+    const estimate = await this.estimateRepository.findById(id);
+    if (!estimate) {
+      throw new NotFoundException(`Estimate with ID ${id} not found`);
+    }
+    return estimate;
+  }
+
+  private async save(
+    id: string,
+    changes: Partial<Estimate>,
+  ): Promise<Estimate> {
+    const updatedEstimate = await this.estimateRepository.update(id, changes);
+    if (!updatedEstimate) {
+      throw new NotFoundException(`Failed to update estimate with ID ${id}`);
+    }
+    return updatedEstimate;
+  }
+
+  private toReview(estimate: Estimate): EstimateReview {
+    return {
+      estimateId: estimate._id.toString(),
+      status: estimate.status,
+      reviewers: estimate.reviewers || [],
+      comments: estimate.reviewComments || [],
+    };
+  }
+}
@@ -32,6 +32,7 @@ import { PDFReportFactory } from '@domain/fpa/factories/pdf-report.factory';
 import { CSVReportFactory } from '@domain/fpa/factories/csv-report.factory';
 import { JSONReportFactory } from '@domain/fpa/factories/json-report.factory';
 import { FPAComponentValidator } from '@domain/fpa/validators/fpa-validation-chain';
+import { QualityGateService } from './quality-gate.service';
 
 /**
  * Service demonstrating pattern usage
@@ -46,6 +47,7 @@ export class EstimateWithPatternsService {
     private readonly emailNotificationObserver: EmailNotificationObserver,
     private readonly logObserver: LogObserver,
     private readonly auditObserver: AuditObserver,
+    private readonly qualityGateService: QualityGateService,
   ) {
     // OBSERVER PATTERN: Setup the subject and attach observers
     this.estimateSubject = new EstimateSubject();
@@ -147,12 +149,18 @@ export class EstimateWithPatternsService {
    *
    * Pattern: Observer (Behavioral)
    * Benefit: Decouples status change logic from notification logic
+   *
+   * Finalizing an estimate requires the quality gates of the organization,
+   * unless the caller already evaluated them (qualityGatesChecked)
+   * @throws UnprocessableEntityException listing the failed gates
    */
   async changeEstimateStatus(
     estimate: Estimate,
     newStatus: EstimateStatus,
     changedBy: string,
     reason?: string,
+    metadata?: Record<string, any>,
+    qualityGatesChecked = false,
   ): Promise<void> {
     this.logger.log(
       `Changing estimate status using OBSERVER PATTERN: ${estimate.status} → ${newStatus}`,
@@ -160,6 +168,14 @@ export class EstimateWithPatternsService {
 
     const previousStatus = estimate.status;
 
+    if (
+      !qualityGatesChecked &&
+      previousStatus !== EstimateStatus.FINALIZED &&
+      newStatus === EstimateStatus.FINALIZED
+    ) {
+      await this.qualityGateService.assertCanFinalize(estimate);
+    }
+
     // Update the estimate status
     estimate.status = newStatus;
     estimate.updatedAt = new Date();
@@ -172,6 +188,7 @@ export class EstimateWithPatternsService {
       changedBy,
       changedAt: new Date(),
       reason,
+      metadata,
     };
 
     await this.estimateSubject.notify(event);
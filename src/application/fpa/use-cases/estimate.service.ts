@@ -9,11 +9,100 @@ import { Types } from 'mongoose';
 import {
   ESTIMATE_REPOSITORY,
   IEstimateRepository,
+  EstimateComponentSummary,
 } from '@domain/fpa/interfaces/estimate.repository.interface';
-import { Estimate, EstimateStatus } from '@domain/fpa/entities/estimate.entity';
+import {
+  Estimate,
+  EstimateStatus,
+  EstimationModel,
+  CountType,
+} from '@domain/fpa/entities/estimate.entity';
 import { CreateEstimateDto } from '../dtos/create-estimate.dto';
 import { UpdateEstimateDto } from '../dtos/update-estimate.dto';
+import {
+  RecordActualsDto,
+  RecordMilestoneActualsDto,
+} from '../dtos/record-actuals.dto';
 import { ProjectService } from '@application/projects/use-cases/project.service';
+import { ProjectStatus } from '@domain/projects/entities/project.entity';
+import { EstimateWithPatternsService } from './estimate-with-patterns.service';
+import { ProductivityModelService } from './productivity-model.service';
+import {
+  QualityGateService,
+  QualityGateEvaluation,
+} from './quality-gate.service';
+import { ApplicationBaselineService } from './application-baseline.service';
+import { ProductivityModel } from '@domain/fpa/entities/productivity-model.entity';
+import {
+  FunctionPointCalculator,
+  EnhancementBreakdown,
+  EstimationMetrics,
+} from '@domain/fpa/services/function-point-calculator.service';
+import {
+  EstimateVersionComparator,
+  ComponentVersionChange,
+  MetricDelta,
+} from '@domain/fpa/services/estimate-version-comparator.service';
+import { EstimateReviewWorkflow } from '@domain/fpa/services/estimate-review-workflow.service';
+import {
+  EstimateConsistencyChecker,
+  ConsistencyFinding,
+} from '@domain/fpa/services/estimate-consistency-checker.service';
+import {
+  TrendAnalysisService,
+  ProductivitySample,
+  ProductivityStatistics,
+  ProductivityCalibrationGroup,
+} from '@domain/fpa/services/trend-analysis.service';
+import {
+  CocomoIICalculator,
+  CocomoIIParameters,
+} from '@domain/fpa/services/cocomo-ii.service';
+
+export interface EstimateVersionDiff {
+  from: { estimateId: string; version: number };
+  to: { estimateId: string; version: number };
+  components: ComponentVersionChange[];
+  totals: {
+    unadjustedFunctionPoints: MetricDelta;
+    adjustedFunctionPoints: MetricDelta;
+    effortHours: MetricDelta;
+    cost: MetricDelta;
+  };
+}
+
+export interface EstimateConsistencyReport {
+  estimateId: string;
+  isConsistent: boolean; // no error findings
+  errorCount: number;
+  warningCount: number;
+  findings: ConsistencyFinding[];
+}
+
+export interface EstimateRecalculation {
+  estimate: Estimate;
+  components: EstimateComponentSummary[];
+  enhancement?: EnhancementBreakdown;
+}
+
+// Size and effort saved on an estimate by recalculateTotals
+interface EstimateTotals {
+  unadjustedFunctionPoints: number;
+  valueAdjustmentFactor: number;
+  adjustedFunctionPoints: number; // EFP for enhancement counts
+  effortHours: number;
+  enhancement?: EnhancementBreakdown;
+}
+
+export interface ProductivityCalibration {
+  organizationId: string;
+  // Hours per FP over every sample: the calibrated productivityFactor
+  overall: ProductivityStatistics | null;
+  groups: ProductivityCalibrationGroup[];
+}
+
+// Technology of estimates that don't use a productivity model
+const UNSPECIFIED_TECHNOLOGY = 'Unspecified';
 
 @Injectable()
 export class EstimateService {
@@ -21,6 +110,11 @@ export class EstimateService {
     @Inject(ESTIMATE_REPOSITORY)
     private readonly estimateRepository: IEstimateRepository,
     private readonly projectService: ProjectService,
+    private readonly estimateWithPatternsService: EstimateWithPatternsService,
+    private readonly productivityModelService: ProductivityModelService,
+    private readonly trendAnalysisService: TrendAnalysisService,
+    private readonly qualityGateService: QualityGateService,
+    private readonly applicationBaselineService: ApplicationBaselineService,
   ) {}
 
   async create(
@@ -43,8 +137,22 @@ export class EstimateService {
       );
     }
 
+    if (createDto.productivityModelId) {
+      await this.productivityModelService.validateAssignable(
+        createDto.productivityModelId,
+        organizationId,
+      );
+    }
+    this.validateEstimationModel(
+      createDto.estimationModel,
+      createDto.cocomoParameters,
+    );
+
     const estimate: Partial<Estimate> = {
       ...createDto,
+      productivityModelId: createDto.productivityModelId
+        ? new Types.ObjectId(createDto.productivityModelId)
+        : undefined,
       createdBy: new Types.ObjectId(userId),
       organizationId: new Types.ObjectId(organizationId),
       projectId: new Types.ObjectId(createDto.projectId),
@@ -120,6 +228,14 @@ export class EstimateService {
     return this.formatEstimateDecimals(estimate);
   }
 
+  async findComponentSummaries(
+    id: string,
+    organizationId: string,
+  ): Promise<EstimateComponentSummary[]> {
+    await this.findOne(id, organizationId);
+    return this.estimateRepository.findComponentSummaries(id);
+  }
+
   private formatEstimateDecimals(estimate: Estimate): Estimate {
     return {
       ...estimate,
@@ -138,12 +254,41 @@ export class EstimateService {
     id: string,
     updateDto: UpdateEstimateDto,
     organizationId: string,
+    changedBy?: string,
   ): Promise<Estimate> {
-    await this.findOne(id, organizationId);
+    const existing = await this.findVersion(id, organizationId);
+    const previousStatus = existing.status;
+
+    if (updateDto.status && updateDto.status !== previousStatus) {
+      this.validateStatusChange(previousStatus, updateDto.status);
+    }
+    // Only the status of a count in review or approved can change
+    const lockReason = EstimateReviewWorkflow.contentLockReason(previousStatus);
+    if (
+      lockReason &&
+      Object.entries(updateDto).some(
+        ([field, value]) => field !== 'status' && value !== undefined,
+      )
+    ) {
+      throw new BadRequestException(lockReason);
+    }
+    if (updateDto.productivityModelId) {
+      await this.productivityModelService.validateAssignable(
+        updateDto.productivityModelId,
+        organizationId,
+      );
+    }
+    this.validateEstimationModel(
+      updateDto.estimationModel ?? existing.estimationModel,
+      updateDto.cocomoParameters ?? existing.cocomoParameters,
+    );
 
     // Convert string arrays to ObjectId arrays for update
     const updateData: Partial<Estimate> = {
       ...updateDto,
+      productivityModelId: updateDto.productivityModelId
+        ? new Types.ObjectId(updateDto.productivityModelId)
+        : undefined,
       internalLogicalFiles: updateDto.internalLogicalFiles?.map(
         (id) => new Types.ObjectId(id),
       ),
@@ -161,6 +306,23 @@ export class EstimateService {
       ),
     };
 
+    // Approvals were given to the reviewed content, which a reopened count changes
+    if (
+      updateDto.status === EstimateStatus.DRAFT &&
+      EstimateReviewWorkflow.isReviewStatus(previousStatus)
+    ) {
+      updateData.approvals = [];
+    }
+
+    // Checked before saving so a blocked finalization leaves the estimate as
+    // is, and not again when the status change is notified below
+    const finalizing =
+      previousStatus !== EstimateStatus.FINALIZED &&
+      updateDto.status === EstimateStatus.FINALIZED;
+    if (finalizing) {
+      await this.qualityGateService.assertCanFinalize(existing, updateData);
+    }
+
     const updatedEstimate = await this.estimateRepository.update(
       id,
       updateData,
@@ -169,6 +331,36 @@ export class EstimateService {
       throw new NotFoundException(`Failed to update estimate with ID ${id}`);
     }
 
+    // The baseline must include every finalized count, so a failed merge
+    // undoes the finalization rather than being only logged by an observer
+    if (finalizing) {
+      try {
+        await this.applicationBaselineService.applyFinalizedEstimate(
+          updatedEstimate,
+        );
+      } catch (error) {
+        await this.estimateRepository.update(id, { status: previousStatus });
+        throw error;
+      }
+    }
+
+    // Notify status change observers (audit, e-mail)
+    if (
+      previousStatus &&
+      updateDto.status &&
+      updateDto.status !== previousStatus
+    ) {
+      updatedEstimate.status = previousStatus;
+      await this.estimateWithPatternsService.changeEstimateStatus(
+        updatedEstimate,
+        updateDto.status,
+        changedBy || updatedEstimate.createdBy.toString(),
+        undefined,
+        undefined,
+        finalizing,
+      );
+    }
+
     return this.formatEstimateDecimals(updatedEstimate);
   }
 
@@ -211,4 +403,448 @@ export class EstimateService {
 
     return this.formatEstimateDecimals(newVersion);
   }
+
+  async getVersionHistory(
+    id: string,
+    organizationId: string,
+  ): Promise<Estimate[]> {
+    const estimate = await this.findVersion(id, organizationId);
+    const versions = await this.estimateRepository.findVersionLineage(
+      this.rootEstimateId(estimate),
+    );
+
+    return versions.map((version) => this.formatEstimateDecimals(version));
+  }
+
+  async diffVersions(
+    fromId: string,
+    toId: string,
+    organizationId: string,
+  ): Promise<EstimateVersionDiff> {
+    const [from, to] = await Promise.all([
+      this.findVersion(fromId, organizationId),
+      this.findVersion(toId, organizationId),
+    ]);
+
+    if (this.rootEstimateId(from) !== this.rootEstimateId(to)) {
+      throw new BadRequestException(
+        `Estimates ${fromId} and ${toId} are not versions of the same estimate`,
+      );
+    }
+
+    const [fromComponents, toComponents] = await Promise.all([
+      this.estimateRepository.findComponentSummaries(fromId),
+      this.estimateRepository.findComponentSummaries(toId),
+    ]);
+    const [fromModel, toModel] = await Promise.all([
+      this.productivityModelService.findForEstimate(from),
+      this.productivityModelService.findForEstimate(to),
+    ]);
+    const fromMetrics = this.calculateEstimationMetrics(
+      from,
+      fromComponents,
+      fromModel,
+    );
+    const toMetrics = this.calculateEstimationMetrics(
+      to,
+      toComponents,
+      toModel,
+    );
+    const delta = (before: number, after: number) =>
+      EstimateVersionComparator.metricDelta(
+        this.roundToTwo(before),
+        this.roundToTwo(after),
+      );
+
+    return {
+      from: { estimateId: fromId, version: from.version },
+      to: { estimateId: toId, version: to.version },
+      components: EstimateVersionComparator.compareComponents(
+        fromComponents,
+        toComponents,
+      ),
+      totals: {
+        unadjustedFunctionPoints: delta(fromMetrics.pfna, toMetrics.pfna),
+        adjustedFunctionPoints: delta(fromMetrics.pfa, toMetrics.pfa),
+        effortHours: delta(fromMetrics.effortHours, toMetrics.effortHours),
+        cost: delta(fromMetrics.totalCost, toMetrics.totalCost),
+      },
+    };
+  }
+
+  /**
+   * Check the components of an estimate against each other: unmaintained
+   * ALIs, AIEs duplicating an ALI, EQs with derived data, duplicate
+   * transactions and missing data functions
+   * @throws NotFoundException if the estimate doesn't exist
+   * @throws ForbiddenException if the estimate belongs to another organization
+   */
+  async validateConsistency(
+    id: string,
+    organizationId: string,
+  ): Promise<EstimateConsistencyReport> {
+    const estimate = await this.findOne(id, organizationId);
+    const components = await this.estimateRepository.findComponentSummaries(id);
+    const findings = EstimateConsistencyChecker.check(
+      components,
+      estimate.countType,
+    );
+    const errorCount = findings.filter(
+      (finding) => finding.severity === 'error',
+    ).length;
+
+    return {
+      estimateId: id,
+      isConsistent: errorCount === 0,
+      errorCount,
+      warningCount: findings.length - errorCount,
+      findings,
+    };
+  }
+
+  /**
+   * Recalculate PFNA, VAF, PFA (EFP for enhancement counts) and the effort
+   * from the components currently in the estimate. Access to the estimate is
+   * checked by the caller.
+   * @throws NotFoundException if the estimate doesn't exist
+   */
+  async recalculateTotals(id: string): Promise<EstimateRecalculation> {
+    const estimate = await this.estimateRepository.findById(id);
+    if (!estimate) {
+      throw new NotFoundException(`Estimate with ID ${id} not found`);
+    }
+
+    const components = await this.estimateRepository.findComponentSummaries(id);
+    const productivityModel =
+      await this.productivityModelService.findForEstimate(estimate);
+    const totals = this.calculateTotals(
+      estimate,
+      components,
+      productivityModel,
+    );
+
+    const updatedEstimate = await this.estimateRepository.update(id, {
+      unadjustedFunctionPoints: totals.unadjustedFunctionPoints,
+      valueAdjustmentFactor: totals.valueAdjustmentFactor,
+      adjustedFunctionPoints: totals.adjustedFunctionPoints,
+      estimatedEffortHours: totals.effortHours,
+    });
+    if (!updatedEstimate) {
+      throw new NotFoundException(`Failed to update estimate with ID ${id}`);
+    }
+
+    return {
+      estimate: updatedEstimate,
+      components,
+      enhancement: totals.enhancement,
+    };
+  }
+
+  /**
+   * The estimation metrics (duration, cost, productivity) of the given
+   * components, sized and effort-estimated as recalculateTotals does
+   */
+  calculateEstimationMetrics(
+    estimate: Estimate,
+    components: EstimateComponentSummary[],
+    productivityModel: ProductivityModel | null,
+  ): EstimationMetrics {
+    const totals = this.calculateTotals(
+      estimate,
+      components,
+      productivityModel,
+    );
+    return FunctionPointCalculator.calculateEstimationMetrics(
+      components.map((component) => component.functionPoints),
+      {
+        averageDailyWorkingHours: estimate.averageDailyWorkingHours || 8,
+        teamSize: estimate.teamSize || 1,
+        hourlyRateBRL: estimate.hourlyRateBRL || 0,
+        productivityFactor: estimate.productivityFactor || 10,
+        generalSystemCharacteristics: estimate.generalSystemCharacteristics,
+        productivityModel,
+        adjustedFunctionPoints: totals.adjustedFunctionPoints,
+        effortHours: totals.effortHours,
+      },
+    );
+  }
+
+  async evaluateQualityGates(
+    id: string,
+    organizationId: string,
+  ): Promise<QualityGateEvaluation> {
+    const estimate = await this.findVersion(id, organizationId);
+    return this.qualityGateService.evaluate(estimate);
+  }
+
+  async findProductivityModel(
+    id: string,
+    organizationId: string,
+  ): Promise<ProductivityModel | null> {
+    const estimate = await this.findVersion(id, organizationId);
+    return this.productivityModelService.findForEstimate(estimate);
+  }
+
+  /**
+   * Record the effort spent and the size delivered. Only finalized estimates
+   * of completed projects have actuals, so calibration uses final figures.
+   */
+  async recordActuals(
+    id: string,
+    actualsDto: RecordActualsDto,
+    organizationId: string,
+    recordedBy: string,
+  ): Promise<Estimate> {
+    const estimate = await this.findVersion(id, organizationId);
+    if (estimate.status !== EstimateStatus.FINALIZED) {
+      throw new BadRequestException(
+        'Actuals can only be recorded for finalized estimates',
+      );
+    }
+
+    const project = await this.projectService.findOne(
+      estimate.projectId.toString(),
+    );
+    if (project.status !== ProjectStatus.COMPLETED) {
+      throw new BadRequestException(
+        'Actuals can only be recorded once the project is completed',
+      );
+    }
+
+    const updatedEstimate = await this.estimateRepository.update(id, {
+      actualEffortHours: actualsDto.actualEffortHours,
+      actualFunctionPoints: actualsDto.actualFunctionPoints,
+      actualCostBRL: actualsDto.actualCostBRL,
+      actualDurationDays: actualsDto.actualDurationDays,
+      actualsRecordedAt: new Date(),
+      actualsRecordedBy: new Types.ObjectId(recordedBy),
+    });
+    if (!updatedEstimate) {
+      throw new NotFoundException(`Failed to update estimate with ID ${id}`);
+    }
+
+    return this.formatEstimateDecimals(updatedEstimate);
+  }
+
+  // Milestone actuals are cumulative to date; the latest one feeds the variance report
+  async recordMilestoneActuals(
+    id: string,
+    actualsDto: RecordMilestoneActualsDto,
+    organizationId: string,
+    recordedBy: string,
+  ): Promise<Estimate> {
+    const estimate = await this.findVersion(id, organizationId);
+    if (estimate.status !== EstimateStatus.FINALIZED) {
+      throw new BadRequestException(
+        'Actuals can only be recorded for finalized estimates',
+      );
+    }
+
+    const milestoneActuals = [
+      ...(estimate.milestoneActuals || []),
+      {
+        ...actualsDto,
+        recordedAt: actualsDto.recordedAt ?? new Date(),
+        recordedBy: new Types.ObjectId(recordedBy),
+      },
+    ].sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+
+    const updatedEstimate = await this.estimateRepository.update(id, {
+      milestoneActuals,
+    });
+    if (!updatedEstimate) {
+      throw new NotFoundException(`Failed to update estimate with ID ${id}`);
+    }
+
+    return this.formatEstimateDecimals(updatedEstimate);
+  }
+
+  /**
+   * Observed hours per FP of the organization's finalized estimates of
+   * completed projects, grouped by count type and technology
+   */
+  async getProductivityCalibration(
+    organizationId: string,
+  ): Promise<ProductivityCalibration> {
+    const [estimates, projects, models] = await Promise.all([
+      this.estimateRepository.findByOrganization(organizationId),
+      this.projectService.findByOrganization(organizationId),
+      this.productivityModelService.findAll(organizationId),
+    ]);
+
+    const completedProjectIds = new Set(
+      projects
+        .filter((project) => project.status === ProjectStatus.COMPLETED)
+        .map((project) => project._id.toString()),
+    );
+    const technologyByModel = new Map(
+      models.map((model) => [model._id.toString(), model.technology]),
+    );
+
+    const samples: ProductivitySample[] = estimates
+      .filter(
+        (estimate) =>
+          estimate.status === EstimateStatus.FINALIZED &&
+          completedProjectIds.has(estimate.projectId.toString()) &&
+          estimate.actualEffortHours !== undefined &&
+          !!estimate.actualFunctionPoints,
+      )
+      .map((estimate) => ({
+        estimateId: estimate._id.toString(),
+        countType: estimate.countType,
+        technology:
+          (estimate.productivityModelId &&
+            technologyByModel.get(estimate.productivityModelId.toString())) ||
+          UNSPECIFIED_TECHNOLOGY,
+        actualEffortHours: estimate.actualEffortHours as number,
+        actualFunctionPoints: estimate.actualFunctionPoints as number,
+      }));
+
+    return {
+      organizationId,
+      overall:
+        samples.length > 0
+          ? this.trendAnalysisService.calculateStatistics(
+              samples.map(
+                (sample) =>
+                  sample.actualEffortHours / sample.actualFunctionPoints,
+              ),
+            )
+          : null,
+      groups: this.trendAnalysisService.calibrateProductivity(samples),
+    };
+  }
+
+  // The repository document, which keeps fields the formatted copy drops
+  private async findVersion(
+    id: string,
+    organizationId: string,
+  ): Promise<Estimate> {
+    await this.findOne(id, organizationId);
+    const estimate = await this.estimateRepository.findById(id);
+    if (!estimate) {
+      throw new NotFoundException(`Estimate with ID ${id} not found`);
+    }
+    return estimate;
+  }
+
+  /**
+   * Status changes follow the review workflow: an estimate is finalized once
+   * approved, and the review statuses are only reached through the review
+   * @throws BadRequestException for a change the workflow does not allow
+   */
+  private validateStatusChange(from: EstimateStatus, to: EstimateStatus): void {
+    if (EstimateReviewWorkflow.isReviewStatus(to)) {
+      throw new BadRequestException(
+        `The ${to} status is set by the estimate review`,
+      );
+    }
+    if (!EstimateReviewWorkflow.canTransition(from, to)) {
+      throw new BadRequestException(
+        `Cannot change the estimate status from ${from} to ${to}; allowed: ${EstimateReviewWorkflow.allowedTransitions(from).join(', ')}`,
+      );
+    }
+  }
+
+  private validateEstimationModel(
+    estimationModel?: EstimationModel,
+    cocomoParameters?: CocomoIIParameters,
+  ): void {
+    if (estimationModel === EstimationModel.COCOMO_II && !cocomoParameters) {
+      throw new BadRequestException(
+        'COCOMO II estimates need cocomoParameters (at least a language)',
+      );
+    }
+
+    if (cocomoParameters) {
+      const errors = CocomoIICalculator.validateParameters(cocomoParameters);
+      if (errors.length > 0) {
+        throw new BadRequestException(
+          `Invalid COCOMO II parameters: ${errors.join('; ')}`,
+        );
+      }
+    }
+  }
+
+  private rootEstimateId(estimate: Estimate): string {
+    return (estimate.rootEstimateId ?? estimate._id).toString();
+  }
+
+  /**
+   * PFNA, VAF, PFA (EFP for enhancement counts) and the effort of the given
+   * components, as saved on the estimate by recalculateTotals
+   */
+  private calculateTotals(
+    estimate: Estimate,
+    components: EstimateComponentSummary[],
+    productivityModel: ProductivityModel | null,
+  ): EstimateTotals {
+    const pfna = FunctionPointCalculator.calculateUnadjustedFunctionPoints(
+      components.map((component) => component.functionPoints || 0),
+    );
+
+    // The VAF is only calculated from a complete set of 14 GSC values
+    const gscFactors = FunctionPointCalculator.getGSCFactors();
+    let vaf = 1.0;
+    if (estimate.generalSystemCharacteristics?.length === 14) {
+      vaf = FunctionPointCalculator.calculateValueAdjustmentFactor(
+        estimate.generalSystemCharacteristics.map((value, index) => ({
+          name: gscFactors[index].name,
+          description: gscFactors[index].description,
+          degreeOfInfluence: value,
+        })),
+      );
+    }
+
+    let adjustedFP = FunctionPointCalculator.calculateAdjustedFunctionPoints(
+      pfna,
+      vaf,
+    );
+
+    // Enhancement counts use EFP = (ADD + CHGA + CFP) × VAFA + DEL × VAFB
+    let enhancement: EnhancementBreakdown | undefined;
+    if (estimate.countType === CountType.ENHANCEMENT_PROJECT) {
+      const gscBefore = estimate.generalSystemCharacteristicsBefore;
+      const vafBefore =
+        gscBefore?.length === 14
+          ? FunctionPointCalculator.calculateAdjustmentFactor(
+              FunctionPointCalculator.calculateDegreeOfInfluence(gscBefore),
+            )
+          : vaf;
+
+      enhancement = FunctionPointCalculator.calculateEnhancementFunctionPoints(
+        components,
+        vaf,
+        vafBefore,
+      );
+      adjustedFP = enhancement.enhancementFunctionPoints;
+    }
+
+    // COCOMO II when selected, otherwise the productivity model when one is set
+    let effortHours: number;
+    if (
+      estimate.estimationModel === EstimationModel.COCOMO_II &&
+      estimate.cocomoParameters
+    ) {
+      effortHours = CocomoIICalculator.calculate(
+        pfna,
+        estimate.cocomoParameters,
+      ).effortHours;
+    } else if (productivityModel) {
+      effortHours = FunctionPointCalculator.calculateModelEffortHours(
+        adjustedFP,
+        productivityModel,
+      );
+    } else {
+      effortHours = adjustedFP * estimate.productivityFactor;
+    }
+
+    return {
+      unadjustedFunctionPoints: pfna,
+      valueAdjustmentFactor: vaf,
+      adjustedFunctionPoints: adjustedFP,
+      effortHours,
+      enhancement,
+    };
+  }
 }
@@ -0,0 +1,214 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Types } from 'mongoose';
+import {
+  PRODUCTIVITY_MODEL_REPOSITORY,
+  IProductivityModelRepository,
+} from '@domain/fpa/interfaces/productivity-model.repository.interface';
+import {
+  ProductivityModel,
+  ProductivityCurveType,
+  ProductivitySizeBand,
+} from '@domain/fpa/entities/productivity-model.entity';
+import { Estimate } from '@domain/fpa/entities/estimate.entity';
+import {
+  CreateProductivityModelDto,
+  UpdateProductivityModelDto,
+  ProductivitySizeBandDto,
+} from '@application/fpa/dtos/productivity-model.dto';
+
+@Injectable()
+export class ProductivityModelService {
+  constructor(
+    @Inject(PRODUCTIVITY_MODEL_REPOSITORY)
+    private readonly productivityModelRepository: IProductivityModelRepository,
+  ) {}
+
+  async create(
+    createDto: CreateProductivityModelDto,
+    organizationId: string,
+    createdBy: string,
+  ): Promise<ProductivityModel> {
+    await this.ensureUniqueName(organizationId, createDto.name);
+
+    const model: Partial<ProductivityModel> = {
+      ...createDto,
+      curveType: createDto.curveType || ProductivityCurveType.LINEAR,
+      sizeBands: this.normalizeSizeBands(createDto.sizeBands),
+      organizationId: new Types.ObjectId(organizationId),
+      createdBy: new Types.ObjectId(createdBy),
+    };
+    this.validateCurve(model);
+
+    return this.productivityModelRepository.create(model);
+  }
+
+  async findAll(organizationId: string): Promise<ProductivityModel[]> {
+    return this.productivityModelRepository.findByOrganization(organizationId);
+  }
+
+  async findOne(
+    id: string,
+    organizationId: string,
+  ): Promise<ProductivityModel> {
+    const model = await this.productivityModelRepository.findById(id);
+    if (!model) {
+      throw new NotFoundException(`Productivity model with ID ${id} not found`);
+    }
+
+    if (model.organizationId.toString() !== organizationId) {
+      throw new ForbiddenException('Access denied to this productivity model');
+    }
+
+    return model;
+  }
+
+  async update(
+    id: string,
+    updateDto: UpdateProductivityModelDto,
+    organizationId: string,
+  ): Promise<ProductivityModel> {
+    const existing = await this.findOne(id, organizationId);
+
+    if (updateDto.name && updateDto.name !== existing.name) {
+      await this.ensureUniqueName(organizationId, updateDto.name);
+    }
+
+    const { sizeBands, ...fields } = updateDto;
+    const updateData: Partial<ProductivityModel> = {
+      ...fields,
+      ...(sizeBands && { sizeBands: this.normalizeSizeBands(sizeBands) }),
+    };
+    this.validateCurve({
+      curveType: updateData.curveType ?? existing.curveType,
+      sizeBands: updateData.sizeBands ?? existing.sizeBands,
+      exponent: updateData.exponent ?? existing.exponent,
+    });
+
+    const updated = await this.productivityModelRepository.update(
+      id,
+      updateData,
+    );
+    if (!updated) {
+      throw new NotFoundException(
+        `Failed to update productivity model with ID ${id}`,
+      );
+    }
+
+    return updated;
+  }
+
+  async remove(id: string, organizationId: string): Promise<boolean> {
+    await this.findOne(id, organizationId);
+
+    const result = await this.productivityModelRepository.delete(id);
+    if (!result) {
+      throw new NotFoundException(
+        `Failed to delete productivity model with ID ${id}`,
+      );
+    }
+    return true;
+  }
+
+  /**
+   * Validates that a model can be assigned to an estimate of the organization
+   * @throws NotFoundException if the model doesn't exist
+   * @throws ForbiddenException if it belongs to another organization
+   * @throws BadRequestException if the model is inactive
+   */
+  async validateAssignable(
+    id: string,
+    organizationId: string,
+  ): Promise<ProductivityModel> {
+    const model = await this.findOne(id, organizationId);
+    if (!model.isActive) {
+      throw new BadRequestException(
+        `Productivity model "${model.name}" is inactive`,
+      );
+    }
+    return model;
+  }
+
+  // Estimates without a model (or whose model was deleted) use productivityFactor
+  async findForEstimate(estimate: Estimate): Promise<ProductivityModel | null> {
+    if (!estimate.productivityModelId) {
+      return null;
+    }
+    return this.productivityModelRepository.findById(
+      estimate.productivityModelId.toString(),
+    );
+  }
+
+  private async ensureUniqueName(
+    organizationId: string,
+    name: string,
+  ): Promise<void> {
+    const existing = await this.productivityModelRepository.findByName(
+      organizationId,
+      name,
+    );
+    if (existing) {
+      throw new ConflictException(
+        `A productivity model named "${name}" already exists`,
+      );
+    }
+  }
+
+  private normalizeSizeBands(
+    sizeBands: ProductivitySizeBandDto[] = [],
+  ): ProductivitySizeBand[] {
+    return sizeBands.map((band) => ({
+      upToFunctionPoints: band.upToFunctionPoints ?? null,
+      hoursPerFunctionPoint: band.hoursPerFunctionPoint,
+    }));
+  }
+
+  private validateCurve(
+    model: Pick<
+      Partial<ProductivityModel>,
+      'curveType' | 'sizeBands' | 'exponent'
+    >,
+  ): void {
+    if (model.curveType === ProductivityCurveType.PIECEWISE) {
+      const bands = model.sizeBands || [];
+      if (bands.length === 0) {
+        throw new BadRequestException(
+          'Piecewise productivity models need at least one size band',
+        );
+      }
+
+      const openBands = bands.filter(
+        (band) => band.upToFunctionPoints === null,
+      );
+      if (openBands.length > 1) {
+        throw new BadRequestException(
+          'Only one size band can be open-ended (upToFunctionPoints = null)',
+        );
+      }
+
+      const limits = bands
+        .map((band) => band.upToFunctionPoints)
+        .filter((limit): limit is number => limit !== null);
+      if (new Set(limits).size !== limits.length) {
+        throw new BadRequestException(
+          'Size bands must have distinct upper limits',
+        );
+      }
+    }
+
+    if (
+      model.curveType === ProductivityCurveType.POWER &&
+      model.exponent === undefined
+    ) {
+      throw new BadRequestException(
+        'Power productivity models need a size exponent',
+      );
+    }
+  }
+}
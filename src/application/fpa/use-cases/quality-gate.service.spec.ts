@@ -0,0 +1,89 @@
+import { Types } from 'mongoose';
+import { QualityGateService } from './quality-gate.service';
+import { IQualityGatePolicyRepository } from '@domain/fpa/interfaces/quality-gate-policy.repository.interface';
+import {
+  EstimateComponentSummary,
+  IEstimateRepository,
+} from '@domain/fpa/interfaces/estimate.repository.interface';
+import { IDocumentRepository } from '@domain/fpa/interfaces/document.repository.interface';
+import { QualityGate } from '@domain/fpa/entities/quality-gate-policy.entity';
+import { CountType, Estimate } from '@domain/fpa/entities/estimate.entity';
+import {
+  ComplexityLevel,
+  FunctionChangeType,
+} from '@domain/fpa/entities/base-fpa-component.entity';
+
+const component = (
+  overrides: Partial<EstimateComponentSummary>,
+): EstimateComponentSummary => ({
+  _id: new Types.ObjectId(),
+  componentType: 'EI',
+  name: 'Register customer',
+  complexity: ComplexityLevel.LOW,
+  functionPoints: 3,
+  ...overrides,
+});
+
+describe('QualityGateService', () => {
+  const organizationId = new Types.ObjectId();
+  let components: EstimateComponentSummary[];
+  let service: QualityGateService;
+
+  beforeEach(() => {
+    components = [];
+    const policyRepository = {
+      findByOrganization: jest.fn().mockResolvedValue({
+        gates: [QualityGate.NO_VALIDATION_ERRORS],
+      }),
+    };
+    const estimateRepository = {
+      findComponentSummaries: jest
+        .fn()
+        .mockImplementation(() => Promise.resolve(components)),
+    };
+    service = new QualityGateService(
+      policyRepository as unknown as IQualityGatePolicyRepository,
+      estimateRepository as unknown as IEstimateRepository,
+      {} as IDocumentRepository,
+    );
+  });
+
+  const estimate = (countType: CountType): Estimate =>
+    ({
+      _id: new Types.ObjectId(),
+      organizationId,
+      countType,
+    }) as Estimate;
+
+  describe('evaluate', () => {
+    it('should fail a development count with consistency errors', async () => {
+      components = [component({})];
+
+      const evaluation = await service.evaluate(
+        estimate(CountType.DEVELOPMENT_PROJECT),
+      );
+
+      expect(evaluation.passed).toBe(false);
+      expect(evaluation.failures[0].gate).toBe(
+        QualityGate.NO_VALIDATION_ERRORS,
+      );
+    });
+
+    it('should pass an enhancement count changing only transactions or deleting files', async () => {
+      components = [
+        component({ changeType: FunctionChangeType.CHANGED }),
+        component({
+          componentType: 'ALI',
+          name: 'Legacy log',
+          changeType: FunctionChangeType.DELETED,
+        }),
+      ];
+
+      const evaluation = await service.evaluate(
+        estimate(CountType.ENHANCEMENT_PROJECT),
+      );
+
+      expect(evaluation).toMatchObject({ passed: true, failures: [] });
+    });
+  });
+});
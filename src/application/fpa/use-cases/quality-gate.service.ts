@@ -0,0 +1,140 @@
+import {
+  Injectable,
+  Inject,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import {
+  QUALITY_GATE_POLICY_REPOSITORY,
+  IQualityGatePolicyRepository,
+} from '@domain/fpa/interfaces/quality-gate-policy.repository.interface';
+import {
+  ESTIMATE_REPOSITORY,
+  IEstimateRepository,
+} from '@domain/fpa/interfaces/estimate.repository.interface';
+import {
+  DOCUMENT_REPOSITORY,
+  IDocumentRepository,
+} from '@domain/fpa/interfaces/document.repository.interface';
+import { QualityGate } from '@domain/fpa/entities/quality-gate-policy.entity';
+import { Estimate } from '@domain/fpa/entities/estimate.entity';
+import {
+  QualityGateEvaluator,
+  QualityGateFailure,
+  QualityGateSubject,
+  QUALITY_GATE_FIELDS,
+} from '@domain/fpa/services/quality-gate-evaluator.service';
+import { EstimateConsistencyChecker } from '@domain/fpa/services/estimate-consistency-checker.service';
+import { UpdateQualityGatePolicyDto } from '@application/fpa/dtos/quality-gate.dto';
+
+export interface QualityGateSettings {
+  organizationId: string;
+  gates: QualityGate[];
+  updatedAt?: Date;
+}
+
+export interface QualityGateEvaluation {
+  estimateId: string;
+  gates: QualityGate[];
+  passed: boolean;
+  failures: QualityGateFailure[];
+}
+
+@Injectable()
+export class QualityGateService {
+  constructor(
+    @Inject(QUALITY_GATE_POLICY_REPOSITORY)
+    private readonly qualityGatePolicyRepository: IQualityGatePolicyRepository,
+    @Inject(ESTIMATE_REPOSITORY)
+    private readonly estimateRepository: IEstimateRepository,
+    @Inject(DOCUMENT_REPOSITORY)
+    private readonly documentRepository: IDocumentRepository,
+  ) {}
+
+  // Organizations without a policy have no gates
+  async findPolicy(organizationId: string): Promise<QualityGateSettings> {
+    const policy =
+      await this.qualityGatePolicyRepository.findByOrganization(organizationId);
+    return {
+      organizationId,
+      gates: policy?.gates || [],
+      updatedAt: policy?.updatedAt,
+    };
+  }
+
+  async updatePolicy(
+    organizationId: string,
+    updateDto: UpdateQualityGatePolicyDto,
+    updatedBy: string,
+  ): Promise<QualityGateSettings> {
+    const policy = await this.qualityGatePolicyRepository.upsert(
+      organizationId,
+      updateDto.gates,
+      updatedBy,
+    );
+    return {
+      organizationId,
+      gates: policy.gates,
+      updatedAt: policy.updatedAt,
+    };
+  }
+
+  /**
+   * Evaluate the gates of the estimate's organization without changing it,
+   * so a counter can see what still blocks finalization. Changes about to be
+   * saved with the status are evaluated in place of the stored values
+   */
+  async evaluate(
+    estimate: Estimate,
+    changes: Partial<Estimate> = {},
+  ): Promise<QualityGateEvaluation> {
+    const { gates } = await this.findPolicy(estimate.organizationId.toString());
+    const subject = Object.fromEntries(
+      QUALITY_GATE_FIELDS.map((field) => [
+        field,
+        changes[field] ?? estimate[field],
+      ]),
+    ) as QualityGateSubject;
+    const [documentCount, components] = await Promise.all([
+      gates.includes(QualityGate.DOCUMENT_REFERENCE)
+        ? this.documentRepository.countByEstimateId(estimate._id)
+        : 0,
+      gates.includes(QualityGate.NO_VALIDATION_ERRORS)
+        ? this.estimateRepository.findComponentSummaries(
+            estimate._id.toString(),
+          )
+        : null,
+    ]);
+    const failures = QualityGateEvaluator.evaluate(subject, gates, {
+      documentCount,
+      consistencyFindings: components
+        ? EstimateConsistencyChecker.check(
+            components,
+            changes.countType ?? estimate.countType,
+          )
+        : [],
+    });
+
+    return {
+      estimateId: estimate._id.toString(),
+      gates,
+      passed: failures.length === 0,
+      failures,
+    };
+  }
+
+  /**
+   * @throws UnprocessableEntityException listing the failed gates
+   */
+  async assertCanFinalize(
+    estimate: Estimate,
+    changes: Partial<Estimate> = {},
+  ): Promise<void> {
+    const { failures } = await this.evaluate(estimate, changes);
+    if (failures.length > 0) {
+      throw new UnprocessableEntityException({
+        message: 'The estimate does not pass the quality gates to be finalized',
+        failures,
+      });
+    }
+  }
+}
@@ -4,3 +4,5 @@ export * from './question.dto';
 export * from './objective.dto';
 export * from './measurement-plan.dto';
 export * from './export.dto';
+export * from './measurement-record.dto';
+export * from './metric-alert.dto';
@@ -0,0 +1,135 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsDate,
+  IsMongoId,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+
+export const MAX_BULK_RECORDS = 1000;
+
+export class CreateMeasurementRecordDto {
+  @ApiProperty({
+    description: 'The metric of the plan the value is collected for',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @IsMongoId({ message: 'Metric ID must be a valid ID' })
+  metricId: string;
+
+  @ApiProperty({
+    description: 'The measurement of the metric the value is collected for',
+    example: '507f1f77bcf86cd799439012',
+  })
+  @IsMongoId({ message: 'Measurement ID must be a valid ID' })
+  measurementId: string;
+
+  @ApiProperty({ description: 'The collected value', example: 87.5 })
+  @IsNumber(
+    { allowNaN: false, allowInfinity: false },
+    { message: 'Value must be a number' },
+  )
+  value: number;
+
+  @ApiProperty({
+    description: 'When the value was collected (defaults to now)',
+    example: '2024-03-15T00:00:00.000Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsDate({ message: 'Collection date must be a valid date' })
+  @Type(() => Date)
+  collectedAt?: Date;
+
+  @ApiProperty({
+    description: 'Where the value comes from (defaults to manual)',
+    example: 'SonarQube',
+    maxLength: 100,
+    required: false,
+  })
+  @IsOptional()
+  @IsNotEmpty({ message: 'Source must not be empty' })
+  @IsString({ message: 'Source must be a string' })
+  @MaxLength(100, { message: 'Source must not exceed 100 characters' })
+  source?: string;
+
+  @ApiProperty({
+    description: 'A note about the collected value',
+    example: 'Nightly build of the release branch',
+    maxLength: 1000,
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'Note must be a string' })
+  @MaxLength(1000, { message: 'Note must not exceed 1000 characters' })
+  note?: string;
+}
+
+// The metric and measurement of a record are fixed; record the value again to move it
+export class UpdateMeasurementRecordDto {
+  @ApiProperty({
+    description: 'The collected value',
+    example: 87.5,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber(
+    { allowNaN: false, allowInfinity: false },
+    { message: 'Value must be a number' },
+  )
+  value?: number;
+
+  @ApiProperty({
+    description: 'When the value was collected',
+    example: '2024-03-15T00:00:00.000Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsDate({ message: 'Collection date must be a valid date' })
+  @Type(() => Date)
+  collectedAt?: Date;
+
+  @ApiProperty({
+    description: 'Where the value comes from',
+    example: 'SonarQube',
+    maxLength: 100,
+    required: false,
+  })
+  @IsOptional()
+  @IsNotEmpty({ message: 'Source must not be empty' })
+  @IsString({ message: 'Source must be a string' })
+  @MaxLength(100, { message: 'Source must not exceed 100 characters' })
+  source?: string;
+
+  @ApiProperty({
+    description: 'A note about the collected value',
+    maxLength: 1000,
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'Note must be a string' })
+  @MaxLength(1000, { message: 'Note must not exceed 1000 characters' })
+  note?: string;
+}
+
+export class BulkCreateMeasurementRecordsDto {
+  @ApiProperty({
+    description: `The values to record, at most ${MAX_BULK_RECORDS}`,
+    type: [CreateMeasurementRecordDto],
+  })
+  @IsArray({ message: 'Records must be an array' })
+  @ArrayMinSize(1, { message: 'At least one record is required' })
+  @ArrayMaxSize(MAX_BULK_RECORDS, {
+    message: `At most ${MAX_BULK_RECORDS} records can be ingested at once`,
+  })
+  @ValidateNested({ each: true })
+  @Type(() => CreateMeasurementRecordDto)
+  records: CreateMeasurementRecordDto[];
+}
@@ -7,6 +7,7 @@ import {
   MaxLength,
   Min,
 } from 'class-validator';
+import { IsCollectionSchedule } from '@shared/utils/validators/collection-schedule.validator';
 
 export class CreateMeasurementDto {
   @ApiProperty({
@@ -74,8 +75,9 @@ export class CreateMeasurementDto {
   measurementProcedure: string;
 
   @ApiProperty({
-    description: 'The frequency of measurement',
-    example: 'Daily',
+    description:
+      'The schedule of measurement: daily, weekly, biweekly, monthly, quarterly, every N days/weeks/months, sprint, sprint:N (sprints of N days) or a cron expression in UTC',
+    example: 'daily',
     maxLength: 50,
   })
   @IsNotEmpty({ message: 'Measurement frequency is required' })
@@ -83,6 +85,7 @@ export class CreateMeasurementDto {
   @MaxLength(50, {
     message: 'Measurement frequency must not exceed 50 characters',
   })
+  @IsCollectionSchedule()
   measurementFrequency: string;
 
   @ApiProperty({
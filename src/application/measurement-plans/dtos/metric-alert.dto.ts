@@ -0,0 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class ResolveMetricAlertDto {
+  @ApiProperty({
+    description: 'How the deviation was handled',
+    example: 'Flaky tests quarantined; coverage back above 80%',
+    maxLength: 1000,
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'Resolution note must be a string' })
+  @MaxLength(1000, {
+    message: 'Resolution note must not exceed 1000 characters',
+  })
+  note?: string;
+}
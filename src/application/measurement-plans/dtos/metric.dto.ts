@@ -13,6 +13,7 @@ import {
   ArrayNotEmpty,
 } from 'class-validator';
 import { Type } from 'class-transformer';
+import { IsCollectionSchedule } from '@shared/utils/validators/collection-schedule.validator';
 import { CreateMeasurementDto, UpdateMeasurementDto } from './measurement.dto';
 
 export class CreateMetricDto {
@@ -49,8 +50,9 @@ export class CreateMetricDto {
   metricMnemonic: string;
 
   @ApiProperty({
-    description: 'The formula for calculating the metric',
-    example: '(covered_lines / total_lines) * 100',
+    description:
+      'The formula for calculating the metric, using numbers, the acronyms of its measurements, parentheses and + - * / ^',
+    example: '(LC / TL) * 100',
   })
   @IsNotEmpty({ message: 'Metric formula is required' })
   @IsString({ message: 'Metric formula must be a string' })
@@ -81,8 +83,9 @@ export class CreateMetricDto {
   analysisProcedure: string;
 
   @ApiProperty({
-    description: 'The frequency of analysis',
-    example: 'Weekly',
+    description:
+      'The schedule of analysis: daily, weekly, biweekly, monthly, quarterly, every N days/weeks/months, sprint, sprint:N (sprints of N days) or a cron expression in UTC',
+    example: 'weekly',
     maxLength: 50,
   })
   @IsNotEmpty({ message: 'Analysis frequency is required' })
@@ -90,6 +93,7 @@ export class CreateMetricDto {
   @MaxLength(50, {
     message: 'Analysis frequency must not exceed 50 characters',
   })
+  @IsCollectionSchedule()
   analysisFrequency: string;
 
   @ApiProperty({
@@ -154,8 +158,9 @@ export class UpdateMetricDto {
   metricMnemonic?: string;
 
   @ApiProperty({
-    description: 'The formula for calculating the metric',
-    example: '(covered_lines / total_lines) * 100',
+    description:
+      'The formula for calculating the metric, using numbers, the acronyms of its measurements, parentheses and + - * / ^',
+    example: '(LC / TL) * 100',
     required: false,
   })
   @IsOptional()
@@ -189,8 +194,9 @@ export class UpdateMetricDto {
   analysisProcedure?: string;
 
   @ApiProperty({
-    description: 'The frequency of analysis',
-    example: 'Weekly',
+    description:
+      'The schedule of analysis: daily, weekly, biweekly, monthly, quarterly, every N days/weeks/months, sprint, sprint:N (sprints of N days) or a cron expression in UTC',
+    example: 'weekly',
     maxLength: 50,
     required: false,
   })
@@ -199,6 +205,7 @@ export class UpdateMetricDto {
   @MaxLength(50, {
     message: 'Analysis frequency must not exceed 50 characters',
   })
+  @IsCollectionSchedule()
   analysisFrequency?: string;
 
   @ApiProperty({
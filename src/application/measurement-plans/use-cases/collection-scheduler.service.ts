@@ -0,0 +1,64 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CollectionTaskService } from './collection-task.service';
+
+/**
+ * Runs CollectionTaskService.run every `app.collectionScheduler.intervalMinutes`
+ * minutes, and once on start; an interval of 0 turns the scheduler off. A
+ * run is skipped while the previous one is still going
+ */
+@Injectable()
+export class CollectionScheduler implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(CollectionScheduler.name);
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly collectionTaskService: CollectionTaskService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit(): void {
+    const intervalMinutes =
+      this.configService.get<number>(
+        'app.collectionScheduler.intervalMinutes',
+      ) ?? 0;
+    if (!(intervalMinutes > 0)) {
+      this.logger.log('Collection scheduler is disabled');
+      return;
+    }
+
+    this.timer = setInterval(() => void this.tick(), intervalMinutes * 60000);
+    // The timer alone does not keep the process alive
+    this.timer.unref();
+    void this.tick();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async tick(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      await this.collectionTaskService.run();
+    } catch (error) {
+      this.logger.error(
+        `Collection scheduler run failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    } finally {
+      this.running = false;
+    }
+  }
+}
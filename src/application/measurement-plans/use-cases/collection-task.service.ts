@@ -0,0 +1,434 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Types } from 'mongoose';
+import {
+  COLLECTION_TASK_REPOSITORY,
+  ICollectionTaskRepository,
+  CollectionTaskFilters,
+} from '@domain/measurement-plans/interfaces/collection-task.repository.interface';
+import {
+  MEASUREMENT_PLAN_REPOSITORY,
+  IMeasurementPlanRepository,
+} from '@domain/measurement-plans/interfaces/measurement-plan.repository.interface';
+import {
+  USER_REPOSITORY,
+  IUserRepository,
+} from '@domain/users/interfaces/user.repository.interface';
+import {
+  CollectionTask,
+  CollectionTaskStatus,
+  CollectionTaskType,
+} from '@domain/measurement-plans/entities/collection-task.entity';
+import {
+  MeasurementPlan,
+  MeasurementPlanStatus,
+} from '@domain/measurement-plans/entities/measurement-plan.entity';
+import { MeasurementRecord } from '@domain/measurement-plans/entities/measurement-record.entity';
+import { User } from '@domain/users/entities/user.entity';
+import { MetricLocator } from '@domain/measurement-plans/services/metric-locator.service';
+import {
+  CollectionSchedule,
+  Schedule,
+  ScheduleError,
+} from '@domain/measurement-plans/services/collection-schedule.service';
+import { ResponsibleRecipients } from '@domain/measurement-plans/services/responsible-recipients.service';
+import { EmailService } from '@infrastructure/external-services/email/email.service';
+import { HtmlUtils } from '@shared/utils/html.utils';
+
+const REMINDER_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const MAX_REMINDERS = 3;
+// Periods that ended while the scheduler was not running are skipped, up to
+// this many; past that the next period starts now
+const MAX_SKIPPED_PERIODS = 1000;
+
+export interface CollectionTaskPage {
+  data: CollectionTask[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+// A measurement or metric of a plan, which tasks are created for on its schedule
+interface ScheduledElement {
+  type: CollectionTaskType;
+  metricId: Types.ObjectId;
+  measurementId?: Types.ObjectId;
+  label: string;
+  schedule: string;
+  assignee?: string;
+}
+
+@Injectable()
+export class CollectionTaskService {
+  private readonly logger = new Logger(CollectionTaskService.name);
+
+  constructor(
+    @Inject(COLLECTION_TASK_REPOSITORY)
+    private readonly collectionTaskRepository: ICollectionTaskRepository,
+    @Inject(MEASUREMENT_PLAN_REPOSITORY)
+    private readonly measurementPlanRepository: IMeasurementPlanRepository,
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    private readonly emailService: EmailService,
+  ) {}
+
+  /**
+   * Bring the tasks of every active plan up to date (see synchronize);
+   * tasks of plans that are no longer active are cancelled
+   */
+  async run(now: Date = new Date()): Promise<void> {
+    const plans = await this.measurementPlanRepository.findAll(
+      undefined,
+      MeasurementPlanStatus.ACTIVE,
+    );
+    const cancelled = await this.collectionTaskRepository.cancelOpenExceptPlans(
+      plans.map((plan) => plan._id.toString()),
+    );
+    if (cancelled > 0) {
+      this.logger.log(
+        `Cancelled ${cancelled} collection tasks of inactive plans`,
+      );
+    }
+
+    for (const plan of plans) {
+      await this.synchronize(plan, now);
+    }
+  }
+
+  /**
+   * Every measurement of the plan is collected and every metric analysed
+   * on its schedule: the task of the current period is created once the
+   * previous one is due, for the measurement or analysis responsible.
+   * Tasks still open when due become overdue, and their assignee is
+   * reminded by e-mail once a day, up to three times. Tasks of removed
+   * measurements and metrics, or of a changed schedule, are cancelled;
+   * frequencies that are not a schedule create no tasks. Failures are
+   * logged so they never fail the change of the plan
+   */
+  async synchronize(
+    plan: MeasurementPlan,
+    now: Date = new Date(),
+  ): Promise<void> {
+    try {
+      await this.synchronizePlan(plan, now);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to schedule the collection tasks of plan ${plan._id.toString()}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  /**
+   * Each recorded value completes the earliest open task of its
+   * measurement whose period has started when the value was collected.
+   * Failures are logged so they never fail the recording of the values
+   */
+  async completeForRecords(
+    plan: MeasurementPlan,
+    records: MeasurementRecord[],
+  ): Promise<void> {
+    const recordsByMeasurement = new Map<string, MeasurementRecord[]>();
+    for (const record of records) {
+      const measurementId = record.measurementId.toString();
+      recordsByMeasurement.set(measurementId, [
+        ...(recordsByMeasurement.get(measurementId) || []),
+        record,
+      ]);
+    }
+
+    for (const [measurementId, measurementRecords] of recordsByMeasurement) {
+      try {
+        const openTasks =
+          await this.collectionTaskRepository.findOpenByMeasurement(
+            plan._id.toString(),
+            measurementId,
+          );
+        const sorted = [...measurementRecords].sort(
+          (a, b) => a.collectedAt.getTime() - b.collectedAt.getTime(),
+        );
+        for (const record of sorted) {
+          const index = openTasks.findIndex(
+            (task) => task.periodStart <= record.collectedAt,
+          );
+          if (index === -1) {
+            continue;
+          }
+          const [task] = openTasks.splice(index, 1);
+          await this.save(task._id.toString(), {
+            status: CollectionTaskStatus.COMPLETED,
+            completedAt: new Date(),
+            completedBy: record.collectedBy,
+            recordId: record._id,
+          });
+        }
+      } catch (error) {
+        this.logger.warn(
+          `Failed to complete the collection tasks of measurement ${measurementId}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        );
+      }
+    }
+  }
+
+  findAll(
+    organizationId: string,
+    page: number,
+    limit: number,
+    filters: CollectionTaskFilters = {},
+  ): Promise<CollectionTaskPage> {
+    return this.collectionTaskRepository.findWithPagination(
+      organizationId,
+      page,
+      limit,
+      filters,
+    );
+  }
+
+  async findOne(id: string, organizationId: string): Promise<CollectionTask> {
+    const task = await this.collectionTaskRepository.findById(id);
+    if (!task) {
+      throw new NotFoundException(`Collection task with ID "${id}" not found`);
+    }
+    if (task.organizationId.toString() !== organizationId) {
+      throw new ForbiddenException('Access denied to this collection task');
+    }
+    return task;
+  }
+
+  // Analysis tasks, and collections done outside the recorded values
+  async complete(
+    id: string,
+    organizationId: string,
+    userId: string,
+  ): Promise<CollectionTask> {
+    const task = await this.findOne(id, organizationId);
+    if (
+      task.status !== CollectionTaskStatus.PENDING &&
+      task.status !== CollectionTaskStatus.OVERDUE
+    ) {
+      throw new BadRequestException(
+        `Only pending or overdue tasks can be completed; the task is ${task.status}`,
+      );
+    }
+
+    return this.save(id, {
+      status: CollectionTaskStatus.COMPLETED,
+      completedAt: new Date(),
+      completedBy: new Types.ObjectId(userId),
+    });
+  }
+
+  private async synchronizePlan(
+    plan: MeasurementPlan,
+    now: Date,
+  ): Promise<void> {
+    const openTasks = await this.collectionTaskRepository.findOpenByPlan(
+      plan._id.toString(),
+    );
+    // The schedule of each measurement and metric that has one, by task key
+    const schedules = new Map<string, string>();
+    for (const element of this.scheduledElements(plan)) {
+      let schedule: Schedule;
+      try {
+        schedule = CollectionSchedule.parse(element.schedule);
+      } catch (error) {
+        if (error instanceof ScheduleError) {
+          continue;
+        }
+        throw error;
+      }
+      schedules.set(this.taskKey(element), element.schedule);
+
+      for (const task of openTasks) {
+        if (
+          this.taskKey(task) === this.taskKey(element) &&
+          task.assignee !== element.assignee
+        ) {
+          task.assignee = element.assignee;
+          await this.save(task._id.toString(), {
+            assignee: element.assignee,
+          });
+        }
+      }
+      await this.scheduleNextTask(plan, element, schedule, now);
+    }
+
+    let members: User[] | undefined;
+    for (const task of openTasks) {
+      if (schedules.get(this.taskKey(task)) !== task.schedule) {
+        await this.save(task._id.toString(), {
+          status: CollectionTaskStatus.CANCELLED,
+        });
+        continue;
+      }
+      if (task.dueAt > now) {
+        continue;
+      }
+
+      const changes: Partial<CollectionTask> = {
+        status: CollectionTaskStatus.OVERDUE,
+      };
+      if (this.isReminderDue(task, now)) {
+        if (!members) {
+          members = await this.userRepository.findByOrganizationId(
+            plan.organizationId.toString(),
+          );
+        }
+        await this.remind(plan, task, members);
+        changes.remindersSent = task.remindersSent + 1;
+        changes.lastRemindedAt = now;
+      }
+      if (
+        task.status !== CollectionTaskStatus.OVERDUE ||
+        changes.lastRemindedAt
+      ) {
+        await this.save(task._id.toString(), changes);
+      }
+    }
+  }
+
+  private scheduledElements(plan: MeasurementPlan): ScheduledElement[] {
+    return MetricLocator.all(plan).flatMap(({ metric }) => [
+      {
+        type: CollectionTaskType.ANALYSIS,
+        metricId: metric._id,
+        label: metric.metricMnemonic,
+        schedule: metric.analysisFrequency,
+        assignee: metric.analysisResponsible,
+      },
+      ...(metric.measurements || []).map((measurement) => ({
+        type: CollectionTaskType.MEASUREMENT,
+        metricId: metric._id,
+        measurementId: measurement._id,
+        label: measurement.measurementAcronym,
+        schedule: measurement.measurementFrequency,
+        assignee: measurement.measurementResponsible,
+      })),
+    ]);
+  }
+
+  private taskKey(
+    task: Pick<CollectionTask, 'type' | 'metricId' | 'measurementId'>,
+  ): string {
+    return task.type === CollectionTaskType.MEASUREMENT
+      ? `${task.type}:${task.measurementId?.toString()}`
+      : `${task.type}:${task.metricId.toString()}`;
+  }
+
+  /**
+   * The periods follow each other from the last task created, while the
+   * schedule stays the same and the task is not cancelled; otherwise they
+   * start now. Periods that ended before now are skipped, and a period
+   * another run already scheduled is kept as is
+   */
+  private async scheduleNextTask(
+    plan: MeasurementPlan,
+    element: ScheduledElement,
+    schedule: Schedule,
+    now: Date,
+  ): Promise<void> {
+    const latest = await this.collectionTaskRepository.findLatest(
+      plan._id.toString(),
+      element.type,
+      (element.measurementId ?? element.metricId).toString(),
+    );
+    const continues =
+      latest &&
+      latest.status !== CollectionTaskStatus.CANCELLED &&
+      latest.schedule === element.schedule;
+    if (continues && latest.dueAt > now) {
+      return;
+    }
+
+    let periodStart = continues ? latest.dueAt : now;
+    let dueAt = CollectionSchedule.next(schedule, periodStart);
+    for (let skipped = 0; dueAt <= now; skipped++) {
+      periodStart = skipped < MAX_SKIPPED_PERIODS ? dueAt : now;
+      dueAt = CollectionSchedule.next(schedule, periodStart);
+    }
+
+    await this.collectionTaskRepository.upsertForPeriod({
+      organizationId: plan.organizationId,
+      planId: plan._id,
+      metricId: element.metricId,
+      measurementId: element.measurementId,
+      type: element.type,
+      label: element.label,
+      schedule: element.schedule,
+      assignee: element.assignee,
+      periodStart,
+      dueAt,
+      status: CollectionTaskStatus.PENDING,
+    });
+  }
+
+  private isReminderDue(task: CollectionTask, now: Date): boolean {
+    return (
+      task.remindersSent < MAX_REMINDERS &&
+      (!task.lastRemindedAt ||
+        now.getTime() - task.lastRemindedAt.getTime() >= REMINDER_INTERVAL_MS)
+    );
+  }
+
+  /**
+   * Tasks without an assignee remind the plan responsible. E-mail failures
+   * are only logged
+   */
+  private async remind(
+    plan: MeasurementPlan,
+    task: CollectionTask,
+    members: User[],
+  ): Promise<void> {
+    const { recipients, unresolved } = ResponsibleRecipients.resolve(
+      [task.assignee?.trim() ? task.assignee : plan.planResponsible],
+      members,
+    );
+    for (const responsible of unresolved) {
+      this.logger.warn(
+        `No e-mail address found for "${responsible}" of plan ${plan._id.toString()}`,
+      );
+    }
+
+    const action =
+      task.type === CollectionTaskType.MEASUREMENT
+        ? `collect the measurement <strong>${HtmlUtils.escape(task.label)}</strong>`
+        : `analyse the metric <strong>${HtmlUtils.escape(task.label)}</strong>`;
+    for (const recipient of recipients) {
+      try {
+        await this.emailService.sendEmail(
+          recipient,
+          `Overdue: ${task.label} of ${plan.planName}`,
+          `
+            <div style="font-family: Arial, sans-serif;">
+              <h2>Measurement plan task overdue</h2>
+              <p>The task to ${action} of the measurement plan
+              <strong>${HtmlUtils.escape(plan.planName)}</strong> was due on ${task.dueAt.toISOString()}.</p>
+              <p>Schedule: ${HtmlUtils.escape(task.schedule)}</p>
+            </div>
+          `,
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Failed to send the reminder of collection task ${task._id.toString()} to ${recipient}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        );
+      }
+    }
+  }
+
+  private async save(
+    id: string,
+    changes: Partial<CollectionTask>,
+  ): Promise<CollectionTask> {
+    const updatedTask = await this.collectionTaskRepository.update(id, changes);
+    if (!updatedTask) {
+      throw new NotFoundException(`Failed to update collection task "${id}"`);
+    }
+    return updatedTask;
+  }
+}
@@ -14,7 +14,11 @@ import {
 import {
   MeasurementPlan,
   MeasurementPlanStatus,
+  Measurement,
+  Metric,
 } from '@domain/measurement-plans/entities/measurement-plan.entity';
+import { MetricFormula } from '@domain/measurement-plans/services/metric-formula.service';
+import { MetricLocator } from '@domain/measurement-plans/services/metric-locator.service';
 import {
   CreateMeasurementPlanDto,
   UpdateMeasurementPlanDto,
@@ -30,6 +34,7 @@ import {
   UpdateMeasurementDto,
 } from '../dtos';
 import { ProjectService } from '@application/projects/use-cases/project.service';
+import { CollectionTaskService } from './collection-task.service';
 
 @Injectable()
 export class MeasurementPlanService {
@@ -37,6 +42,7 @@ export class MeasurementPlanService {
     @Inject(MEASUREMENT_PLAN_REPOSITORY)
     private readonly measurementPlanRepository: IMeasurementPlanRepository,
     private readonly projectService: ProjectService,
+    private readonly collectionTaskService: CollectionTaskService,
   ) {}
 
   // Basic CRUD operations
@@ -61,6 +67,11 @@ export class MeasurementPlanService {
         'Project already has an associated measurement plan. Each project can have only one measurement plan.',
       );
     }
+    this.validateMetricFormulas(
+      createDto.objectives
+        ?.flatMap((objective) => objective.questions || [])
+        .flatMap((question) => question.metrics || []),
+    );
 
     // Assign order indexes to nested entities
     const objectivesWithIndexes =
@@ -214,6 +225,11 @@ export class MeasurementPlanService {
         `Invalid status transition from ${existingPlan.status} to ${updateDto.status}`,
       );
     }
+    this.validateMetricFormulas(
+      updateDto.objectives
+        ?.flatMap((objective) => objective.questions || [])
+        .flatMap((question) => question.metrics || []),
+    );
 
     const updateData: any = { ...updateDto };
 
@@ -253,6 +269,14 @@ export class MeasurementPlanService {
       );
     }
 
+    // Collection starts with the plan rather than at the next scheduler run
+    if (
+      updatedPlan.status === MeasurementPlanStatus.ACTIVE &&
+      existingPlan.status !== MeasurementPlanStatus.ACTIVE
+    ) {
+      await this.collectionTaskService.synchronize(updatedPlan);
+    }
+
     return updatedPlan;
   }
 
@@ -403,6 +427,7 @@ export class MeasurementPlanService {
     organizationId: string,
   ): Promise<MeasurementPlan> {
     await this.validatePlanAccess(planId, organizationId);
+    this.validateMetricFormulas(createDto.metrics);
 
     const questionData = {
       ...createDto,
@@ -440,6 +465,7 @@ export class MeasurementPlanService {
     organizationId: string,
   ): Promise<MeasurementPlan> {
     await this.validatePlanAccess(planId, organizationId);
+    this.validateMetricFormulas(updateDto.metrics);
 
     const updateData: any = { ...updateDto };
 
@@ -499,6 +525,7 @@ export class MeasurementPlanService {
     organizationId: string,
   ): Promise<MeasurementPlan> {
     await this.validatePlanAccess(planId, organizationId);
+    this.validateMetricFormula(createDto.metricFormula, createDto.measurements);
 
     // Validate unique mnemonic
     const isUniqueMetricMnemonic =
@@ -544,7 +571,19 @@ export class MeasurementPlanService {
     updateDto: UpdateMetricDto,
     organizationId: string,
   ): Promise<MeasurementPlan> {
-    await this.validatePlanAccess(planId, organizationId);
+    const plan = await this.validatePlanAccess(planId, organizationId);
+
+    // Validate the formula against the measurements the metric will have
+    const currentMetric = MetricLocator.find(plan, metricId)?.metric;
+    if (
+      currentMetric &&
+      (updateDto.metricFormula !== undefined || updateDto.measurements)
+    ) {
+      this.validateMetricFormula(
+        updateDto.metricFormula ?? currentMetric.metricFormula,
+        updateDto.measurements ?? currentMetric.measurements,
+      );
+    }
 
     // Validate unique mnemonic if provided
     if (updateDto.metricMnemonic) {
@@ -661,7 +700,7 @@ export class MeasurementPlanService {
     updateDto: UpdateMeasurementDto,
     organizationId: string,
   ): Promise<MeasurementPlan> {
-    await this.validatePlanAccess(planId, organizationId);
+    const plan = await this.validatePlanAccess(planId, organizationId);
 
     // Validate unique acronym if provided
     if (updateDto.measurementAcronym) {
@@ -681,6 +720,19 @@ export class MeasurementPlanService {
       }
     }
 
+    // A renamed acronym must not leave the formula with an unknown variable
+    const metric = MetricLocator.find(plan, metricId)?.metric;
+    if (metric && updateDto.measurementAcronym) {
+      this.revalidateStoredFormula(
+        metric,
+        metric.measurements.map((measurement) =>
+          measurement._id.toString() === measurementId
+            ? { measurementAcronym: updateDto.measurementAcronym }
+            : measurement,
+        ),
+      );
+    }
+
     const updatedPlan = await this.measurementPlanRepository.updateMeasurement(
       planId,
       objectiveId,
@@ -706,7 +758,18 @@ export class MeasurementPlanService {
     measurementId: string,
     organizationId: string,
   ): Promise<MeasurementPlan> {
-    await this.validatePlanAccess(planId, organizationId);
+    const plan = await this.validatePlanAccess(planId, organizationId);
+
+    // The formula must not use the acronym of the deleted measurement
+    const metric = MetricLocator.find(plan, metricId)?.metric;
+    if (metric) {
+      this.revalidateStoredFormula(
+        metric,
+        metric.measurements.filter(
+          (measurement) => measurement._id.toString() !== measurementId,
+        ),
+      );
+    }
 
     const updatedPlan = await this.measurementPlanRepository.deleteMeasurement(
       planId,
@@ -728,7 +791,7 @@ export class MeasurementPlanService {
   private async validatePlanAccess(
     planId: string,
     organizationId: string,
-  ): Promise<void> {
+  ): Promise<MeasurementPlan> {
     const plan = await this.measurementPlanRepository.findById(planId);
     if (!plan) {
       throw new NotFoundException(
@@ -739,6 +802,55 @@ export class MeasurementPlanService {
     if (plan.organizationId.toString() !== organizationId) {
       throw new ForbiddenException('Access denied to this measurement plan');
     }
+    return plan;
+  }
+
+  // The variables of a formula are the acronyms of the metric's measurements
+  private validateMetricFormula(
+    formula: string,
+    measurements: Pick<Measurement, 'measurementAcronym'>[],
+  ): void {
+    const problems = MetricFormula.validate(
+      formula,
+      measurements.map((measurement) => measurement.measurementAcronym),
+    );
+    if (problems.length > 0) {
+      throw new BadRequestException(
+        `Invalid metric formula "${formula}": ${problems.join('; ')}`,
+      );
+    }
+  }
+
+  // Stored formulas written before they were validated may be prose: only a
+  // formula valid with the current measurements must stay valid after a change
+  private revalidateStoredFormula(
+    metric: Pick<Metric, 'metricFormula' | 'measurements'>,
+    measurements: Pick<Measurement, 'measurementAcronym'>[],
+  ): void {
+    const currentProblems = MetricFormula.validate(
+      metric.metricFormula,
+      metric.measurements.map((measurement) => measurement.measurementAcronym),
+    );
+    if (currentProblems.length === 0) {
+      this.validateMetricFormula(metric.metricFormula, measurements);
+    }
+  }
+
+  // Nested metrics replace the stored ones, so each is checked on its own
+  private validateMetricFormulas(
+    metrics: {
+      metricFormula?: string;
+      measurements?: Pick<Measurement, 'measurementAcronym'>[];
+    }[] = [],
+  ): void {
+    metrics.forEach((metric) => {
+      if (metric.metricFormula !== undefined) {
+        this.validateMetricFormula(
+          metric.metricFormula,
+          metric.measurements || [],
+        );
+      }
+    });
   }
 
   private isValidStatusTransition(
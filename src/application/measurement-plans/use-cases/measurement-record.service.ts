@@ -0,0 +1,252 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Types } from 'mongoose';
+import {
+  MEASUREMENT_PLAN_REPOSITORY,
+  IMeasurementPlanRepository,
+} from '@domain/measurement-plans/interfaces/measurement-plan.repository.interface';
+import {
+  MEASUREMENT_RECORD_REPOSITORY,
+  IMeasurementRecordRepository,
+  MeasurementRecordFilters,
+} from '@domain/measurement-plans/interfaces/measurement-record.repository.interface';
+import {
+  MeasurementPlan,
+  MeasurementPlanStatus,
+} from '@domain/measurement-plans/entities/measurement-plan.entity';
+import { MeasurementRecord } from '@domain/measurement-plans/entities/measurement-record.entity';
+import { MetricLocator } from '@domain/measurement-plans/services/metric-locator.service';
+import {
+  CreateMeasurementRecordDto,
+  UpdateMeasurementRecordDto,
+  BulkCreateMeasurementRecordsDto,
+} from '@application/measurement-plans/dtos';
+import { CollectionTaskService } from './collection-task.service';
+import { MetricAlertService } from './metric-alert.service';
+
+export interface MeasurementRecordPage {
+  data: MeasurementRecord[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+@Injectable()
+export class MeasurementRecordService {
+  constructor(
+    @Inject(MEASUREMENT_RECORD_REPOSITORY)
+    private readonly measurementRecordRepository: IMeasurementRecordRepository,
+    @Inject(MEASUREMENT_PLAN_REPOSITORY)
+    private readonly measurementPlanRepository: IMeasurementPlanRepository,
+    private readonly metricAlertService: MetricAlertService,
+    private readonly collectionTaskService: CollectionTaskService,
+  ) {}
+
+  /**
+   * Recording, bulk recording and correcting values check the metrics
+   * against their control range (see MetricAlertService.checkMetrics);
+   * recording values also completes the collection tasks of their
+   * measurements (see CollectionTaskService.completeForRecords)
+   * @throws NotFoundException if the metric or the measurement is not part
+   * of the plan
+   */
+  async create(
+    planId: string,
+    createDto: CreateMeasurementRecordDto,
+    organizationId: string,
+    collectedBy: string,
+  ): Promise<MeasurementRecord> {
+    const plan = await this.findCollectingPlan(planId, organizationId);
+    const problem = this.findTargetProblem(plan, createDto);
+    if (problem) {
+      throw new NotFoundException(problem);
+    }
+
+    const record = await this.measurementRecordRepository.create(
+      this.toRecord(plan, createDto, collectedBy),
+    );
+    await this.metricAlertService.checkMetrics(plan, [createDto.metricId]);
+    await this.collectionTaskService.completeForRecords(plan, [record]);
+    return record;
+  }
+
+  /**
+   * Record a batch of values, e.g. exported from another tool. Nothing is
+   * recorded unless every value targets a measurement of the plan
+   * @throws BadRequestException listing the values that do not
+   */
+  async bulkCreate(
+    planId: string,
+    bulkDto: BulkCreateMeasurementRecordsDto,
+    organizationId: string,
+    collectedBy: string,
+  ): Promise<MeasurementRecord[]> {
+    const plan = await this.findCollectingPlan(planId, organizationId);
+    const problems = bulkDto.records
+      .map((record, index) => {
+        const problem = this.findTargetProblem(plan, record);
+        return problem && `Record ${index + 1}: ${problem}`;
+      })
+      .filter((problem): problem is string => !!problem);
+    if (problems.length > 0) {
+      throw new BadRequestException(problems);
+    }
+
+    const records = await this.measurementRecordRepository.createMany(
+      bulkDto.records.map((record) => this.toRecord(plan, record, collectedBy)),
+    );
+    await this.metricAlertService.checkMetrics(
+      plan,
+      bulkDto.records.map((record) => record.metricId),
+    );
+    await this.collectionTaskService.completeForRecords(plan, records);
+    return records;
+  }
+
+  async findAll(
+    planId: string,
+    organizationId: string,
+    page: number,
+    limit: number,
+    filters: MeasurementRecordFilters = {},
+  ): Promise<MeasurementRecordPage> {
+    await this.findPlan(planId, organizationId);
+    return this.measurementRecordRepository.findWithPagination(
+      planId,
+      page,
+      limit,
+      filters,
+    );
+  }
+
+  async findOne(
+    planId: string,
+    recordId: string,
+    organizationId: string,
+  ): Promise<MeasurementRecord> {
+    await this.findPlan(planId, organizationId);
+    return this.findRecord(planId, recordId);
+  }
+
+  async update(
+    planId: string,
+    recordId: string,
+    updateDto: UpdateMeasurementRecordDto,
+    organizationId: string,
+  ): Promise<MeasurementRecord> {
+    const plan = await this.findCollectingPlan(planId, organizationId);
+    await this.findRecord(planId, recordId);
+
+    const updatedRecord = await this.measurementRecordRepository.update(
+      recordId,
+      updateDto,
+    );
+    if (!updatedRecord) {
+      throw new NotFoundException(
+        `Failed to update measurement record "${recordId}"`,
+      );
+    }
+    await this.metricAlertService.checkMetrics(plan, [
+      updatedRecord.metricId.toString(),
+    ]);
+    return updatedRecord;
+  }
+
+  async remove(
+    planId: string,
+    recordId: string,
+    organizationId: string,
+  ): Promise<void> {
+    await this.findCollectingPlan(planId, organizationId);
+    await this.findRecord(planId, recordId);
+
+    const deleted = await this.measurementRecordRepository.delete(recordId);
+    if (!deleted) {
+      throw new NotFoundException(
+        `Failed to delete measurement record "${recordId}"`,
+      );
+    }
+  }
+
+  private async findPlan(
+    planId: string,
+    organizationId: string,
+  ): Promise<MeasurementPlan> {
+    const plan = await this.measurementPlanRepository.findById(planId);
+    if (!plan) {
+      throw new NotFoundException(
+        `Measurement plan with ID "${planId}" not found`,
+      );
+    }
+    if (plan.organizationId.toString() !== organizationId) {
+      throw new ForbiddenException('Access denied to this measurement plan');
+    }
+    return plan;
+  }
+
+  // Values are collected while the plan is carried out
+  private async findCollectingPlan(
+    planId: string,
+    organizationId: string,
+  ): Promise<MeasurementPlan> {
+    const plan = await this.findPlan(planId, organizationId);
+    if (plan.status !== MeasurementPlanStatus.ACTIVE) {
+      throw new ConflictException(
+        'Measurement data can only be recorded for active measurement plans',
+      );
+    }
+    return plan;
+  }
+
+  private async findRecord(
+    planId: string,
+    recordId: string,
+  ): Promise<MeasurementRecord> {
+    const record = await this.measurementRecordRepository.findById(recordId);
+    if (!record || record.planId.toString() !== planId) {
+      throw new NotFoundException(
+        `Measurement record with ID "${recordId}" not found`,
+      );
+    }
+    return record;
+  }
+
+  private findTargetProblem(
+    plan: MeasurementPlan,
+    record: CreateMeasurementRecordDto,
+  ): string | null {
+    const located = MetricLocator.find(plan, record.metricId);
+    if (!located) {
+      return `Metric "${record.metricId}" is not part of the plan`;
+    }
+    if (!MetricLocator.findMeasurement(located.metric, record.measurementId)) {
+      return `Measurement "${record.measurementId}" is not part of metric "${located.metric.metricMnemonic}"`;
+    }
+    return null;
+  }
+
+  private toRecord(
+    plan: MeasurementPlan,
+    record: CreateMeasurementRecordDto,
+    collectedBy: string,
+  ): Partial<MeasurementRecord> {
+    return {
+      organizationId: plan.organizationId,
+      planId: plan._id,
+      metricId: new Types.ObjectId(record.metricId),
+      measurementId: new Types.ObjectId(record.measurementId),
+      value: record.value,
+      collectedAt: record.collectedAt || new Date(),
+      collectedBy: new Types.ObjectId(collectedBy),
+      ...(record.source && { source: record.source }),
+      ...(record.note && { note: record.note }),
+    };
+  }
+}
@@ -0,0 +1,267 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { Types } from 'mongoose';
+import {
+  METRIC_ALERT_REPOSITORY,
+  IMetricAlertRepository,
+  MetricAlertFilters,
+} from '@domain/measurement-plans/interfaces/metric-alert.repository.interface';
+import {
+  USER_REPOSITORY,
+  IUserRepository,
+} from '@domain/users/interfaces/user.repository.interface';
+import {
+  MetricAlert,
+  MetricAlertStatus,
+} from '@domain/measurement-plans/entities/metric-alert.entity';
+import {
+  MeasurementPlan,
+  Metric,
+} from '@domain/measurement-plans/entities/measurement-plan.entity';
+import { MetricLocator } from '@domain/measurement-plans/services/metric-locator.service';
+import { ControlRange } from '@domain/measurement-plans/services/control-range.service';
+import { ResponsibleRecipients } from '@domain/measurement-plans/services/responsible-recipients.service';
+import { EmailService } from '@infrastructure/external-services/email/email.service';
+import { HtmlUtils } from '@shared/utils/html.utils';
+import { ResolveMetricAlertDto } from '@application/measurement-plans/dtos';
+import { MetricAnalysisService, MetricValue } from './metric-analysis.service';
+
+export interface MetricAlertPage {
+  data: MetricAlert[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+@Injectable()
+export class MetricAlertService {
+  private readonly logger = new Logger(MetricAlertService.name);
+
+  constructor(
+    @Inject(METRIC_ALERT_REPOSITORY)
+    private readonly metricAlertRepository: IMetricAlertRepository,
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    private readonly metricAnalysisService: MetricAnalysisService,
+    private readonly emailService: EmailService,
+  ) {}
+
+  /**
+   * Check the latest value of the metrics against their control range. A
+   * value outside the range opens an alert and notifies the plan and
+   * analysis responsibles; while the alert is unresolved, later values
+   * outside the range only update it. Metrics that cannot be evaluated yet
+   * are skipped, and failures are logged so they never fail the recording
+   * of the values
+   */
+  async checkMetrics(
+    plan: MeasurementPlan,
+    metricIds: string[],
+  ): Promise<void> {
+    for (const metricId of new Set(metricIds)) {
+      try {
+        await this.checkMetric(plan, metricId);
+      } catch (error) {
+        this.logger.warn(
+          `Failed to check metric ${metricId} against its control range: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        );
+      }
+    }
+  }
+
+  findAll(
+    organizationId: string,
+    page: number,
+    limit: number,
+    filters: MetricAlertFilters = {},
+  ): Promise<MetricAlertPage> {
+    return this.metricAlertRepository.findWithPagination(
+      organizationId,
+      page,
+      limit,
+      filters,
+    );
+  }
+
+  async findOne(id: string, organizationId: string): Promise<MetricAlert> {
+    const alert = await this.metricAlertRepository.findById(id);
+    if (!alert) {
+      throw new NotFoundException(`Metric alert with ID "${id}" not found`);
+    }
+    if (alert.organizationId.toString() !== organizationId) {
+      throw new ForbiddenException('Access denied to this metric alert');
+    }
+    return alert;
+  }
+
+  async acknowledge(
+    id: string,
+    organizationId: string,
+    userId: string,
+  ): Promise<MetricAlert> {
+    const alert = await this.findOne(id, organizationId);
+    if (alert.status !== MetricAlertStatus.OPEN) {
+      throw new BadRequestException(
+        `Only open alerts can be acknowledged; the alert is ${alert.status}`,
+      );
+    }
+
+    return this.save(id, {
+      status: MetricAlertStatus.ACKNOWLEDGED,
+      acknowledgedBy: new Types.ObjectId(userId),
+      acknowledgedAt: new Date(),
+    });
+  }
+
+  async resolve(
+    id: string,
+    resolveDto: ResolveMetricAlertDto,
+    organizationId: string,
+    userId: string,
+  ): Promise<MetricAlert> {
+    const alert = await this.findOne(id, organizationId);
+    if (alert.status === MetricAlertStatus.RESOLVED) {
+      throw new BadRequestException('The alert is already resolved');
+    }
+
+    return this.save(id, {
+      status: MetricAlertStatus.RESOLVED,
+      resolvedBy: new Types.ObjectId(userId),
+      resolvedAt: new Date(),
+      ...(resolveDto.note && { resolutionNote: resolveDto.note }),
+    });
+  }
+
+  private async checkMetric(
+    plan: MeasurementPlan,
+    metricId: string,
+  ): Promise<void> {
+    const metric = MetricLocator.find(plan, metricId)?.metric;
+    if (!metric) {
+      return;
+    }
+
+    let metricValue: MetricValue;
+    try {
+      metricValue = await this.metricAnalysisService.evaluate(
+        plan._id.toString(),
+        metricId,
+        plan.organizationId.toString(),
+      );
+    } catch (error) {
+      // Not every measurement of the formula has a value yet
+      if (error instanceof UnprocessableEntityException) {
+        return;
+      }
+      throw error;
+    }
+
+    const breach = ControlRange.breach(
+      metricValue.value,
+      metric.metricControlRange,
+    );
+    if (!breach) {
+      return;
+    }
+
+    const detection = {
+      value: metricValue.value,
+      controlRange: metric.metricControlRange,
+      breach,
+      detectedAt: new Date(),
+    };
+    const unresolved = await this.metricAlertRepository.findUnresolvedByMetric(
+      plan._id.toString(),
+      metricId,
+    );
+    if (unresolved) {
+      await this.save(unresolved._id.toString(), detection);
+      return;
+    }
+
+    const alert = await this.metricAlertRepository.create({
+      ...detection,
+      organizationId: plan.organizationId,
+      planId: plan._id,
+      metricId: metric._id,
+      metricMnemonic: metric.metricMnemonic,
+      status: MetricAlertStatus.OPEN,
+    });
+    const notifiedRecipients = await this.notifyResponsibles(
+      plan,
+      metric,
+      alert,
+    );
+    if (notifiedRecipients.length > 0) {
+      await this.save(alert._id.toString(), { notifiedRecipients });
+    }
+  }
+
+  /**
+   * E-mail failures are only logged
+   * @returns the addresses the alert was sent to
+   */
+  private async notifyResponsibles(
+    plan: MeasurementPlan,
+    metric: Metric,
+    alert: MetricAlert,
+  ): Promise<string[]> {
+    const members = await this.userRepository.findByOrganizationId(
+      plan.organizationId.toString(),
+    );
+    const { recipients, unresolved } = ResponsibleRecipients.resolve(
+      [plan.planResponsible, metric.analysisResponsible],
+      members,
+    );
+    for (const responsible of unresolved) {
+      this.logger.warn(
+        `No e-mail address found for "${responsible}" of plan ${plan._id.toString()}`,
+      );
+    }
+
+    const [min, max] = alert.controlRange;
+    const notified: string[] = [];
+    for (const recipient of recipients) {
+      try {
+        await this.emailService.sendEmail(
+          recipient,
+          `Metric ${alert.metricMnemonic} is out of its control range`,
+          `
+            <div style="font-family: Arial, sans-serif;">
+              <h2>Metric out of its control range</h2>
+              <p>The metric <strong>${HtmlUtils.escape(metric.metricName)} (${HtmlUtils.escape(alert.metricMnemonic)})</strong>
+              of the measurement plan <strong>${HtmlUtils.escape(plan.planName)}</strong> is ${alert.breach}
+              its control range.</p>
+              <p>Value: <strong>${alert.value}</strong>, control range: ${min} to ${max}</p>
+            </div>
+          `,
+        );
+        notified.push(recipient);
+      } catch (error) {
+        this.logger.warn(
+          `Failed to send metric alert ${alert._id.toString()} to ${recipient}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        );
+      }
+    }
+    return notified;
+  }
+
+  private async save(
+    id: string,
+    changes: Partial<MetricAlert>,
+  ): Promise<MetricAlert> {
+    const updatedAlert = await this.metricAlertRepository.update(id, changes);
+    if (!updatedAlert) {
+      throw new NotFoundException(`Failed to update metric alert "${id}"`);
+    }
+    return updatedAlert;
+  }
+}
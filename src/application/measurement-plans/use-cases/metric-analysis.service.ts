@@ -0,0 +1,185 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ForbiddenException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import {
+  MEASUREMENT_PLAN_REPOSITORY,
+  IMeasurementPlanRepository,
+} from '@domain/measurement-plans/interfaces/measurement-plan.repository.interface';
+import {
+  MEASUREMENT_RECORD_REPOSITORY,
+  IMeasurementRecordRepository,
+  ValueAggregation,
+} from '@domain/measurement-plans/interfaces/measurement-record.repository.interface';
+import {
+  MeasurementPlan,
+  Metric,
+} from '@domain/measurement-plans/entities/measurement-plan.entity';
+import { MetricLocator } from '@domain/measurement-plans/services/metric-locator.service';
+import { ControlRange } from '@domain/measurement-plans/services/control-range.service';
+import {
+  MetricFormula,
+  FormulaError,
+} from '@domain/measurement-plans/services/metric-formula.service';
+import { MetricSeries } from '@domain/measurement-plans/services/metric-series.service';
+import {
+  TrendAnalysisService,
+  ControlChart,
+} from '@domain/fpa/services/trend-analysis.service';
+
+export interface MetricValue {
+  metricId: string;
+  metricMnemonic: string;
+  metricFormula: string;
+  aggregation: ValueAggregation;
+  from?: Date;
+  to?: Date;
+  // The aggregated value of each measurement, by acronym
+  inputs: Record<string, number>;
+  value: number;
+  controlRange: [number, number];
+  withinControlRange: boolean;
+}
+
+export interface MetricControlChart extends ControlChart {
+  metricId: string;
+  metricMnemonic: string;
+  metricFormula: string;
+  from?: Date;
+  to?: Date;
+  controlRange: [number, number];
+}
+
+@Injectable()
+export class MetricAnalysisService {
+  constructor(
+    @Inject(MEASUREMENT_PLAN_REPOSITORY)
+    private readonly measurementPlanRepository: IMeasurementPlanRepository,
+    @Inject(MEASUREMENT_RECORD_REPOSITORY)
+    private readonly measurementRecordRepository: IMeasurementRecordRepository,
+    private readonly trendAnalysisService: TrendAnalysisService,
+  ) {}
+
+  /**
+   * Evaluate the formula of a metric with the values recorded for its
+   * measurements, each aggregated over the period
+   * @throws UnprocessableEntityException if a measurement of the formula
+   * has no value in the period or the formula cannot be evaluated
+   */
+  async evaluate(
+    planId: string,
+    metricId: string,
+    organizationId: string,
+    aggregation: ValueAggregation = ValueAggregation.LATEST,
+    period: { from?: Date; to?: Date } = {},
+  ): Promise<MetricValue> {
+    const plan = await this.findPlan(planId, organizationId);
+    const metric = this.findMetric(plan, metricId);
+
+    const valuesById =
+      await this.measurementRecordRepository.aggregateByMeasurement(
+        planId,
+        metricId,
+        aggregation,
+        period,
+      );
+    const inputs: Record<string, number> = {};
+    for (const measurement of metric.measurements || []) {
+      const value = valuesById[measurement._id.toString()];
+      if (value !== undefined) {
+        inputs[measurement.measurementAcronym] = value;
+      }
+    }
+
+    let value: number;
+    try {
+      value = MetricFormula.evaluate(metric.metricFormula, inputs);
+    } catch (error) {
+      if (error instanceof FormulaError) {
+        throw new UnprocessableEntityException(
+          `Cannot evaluate metric "${metric.metricMnemonic}": ${error.message}`,
+        );
+      }
+      throw error;
+    }
+
+    return {
+      metricId,
+      metricMnemonic: metric.metricMnemonic,
+      metricFormula: metric.metricFormula,
+      aggregation,
+      ...period,
+      inputs,
+      value,
+      controlRange: metric.metricControlRange,
+      withinControlRange:
+        ControlRange.breach(value, metric.metricControlRange) === null,
+    };
+  }
+
+  /**
+   * Individuals (XmR) control chart of a metric, from its value at each
+   * collection time in the period
+   * @throws UnprocessableEntityException if the metric has fewer than two
+   * values in the period
+   */
+  async controlChart(
+    planId: string,
+    metricId: string,
+    organizationId: string,
+    period: { from?: Date; to?: Date } = {},
+  ): Promise<MetricControlChart> {
+    const plan = await this.findPlan(planId, organizationId);
+    const metric = this.findMetric(plan, metricId);
+
+    const records = await this.measurementRecordRepository.findByMetric(
+      planId,
+      metricId,
+      period,
+    );
+    const series = MetricSeries.build(metric, records);
+    if (series.length < 2) {
+      throw new UnprocessableEntityException(
+        `Metric "${metric.metricMnemonic}" needs at least two values for a control chart, found ${series.length}`,
+      );
+    }
+
+    return {
+      metricId,
+      metricMnemonic: metric.metricMnemonic,
+      metricFormula: metric.metricFormula,
+      ...period,
+      controlRange: metric.metricControlRange,
+      ...this.trendAnalysisService.calculateControlChart(series),
+    };
+  }
+
+  private async findPlan(
+    planId: string,
+    organizationId: string,
+  ): Promise<MeasurementPlan> {
+    const plan = await this.measurementPlanRepository.findById(planId);
+    if (!plan) {
+      throw new NotFoundException(
+        `Measurement plan with ID "${planId}" not found`,
+      );
+    }
+    if (plan.organizationId.toString() !== organizationId) {
+      throw new ForbiddenException('Access denied to this measurement plan');
+    }
+    return plan;
+  }
+
+  private findMetric(plan: MeasurementPlan, metricId: string): Metric {
+    const located = MetricLocator.find(plan, metricId);
+    if (!located) {
+      throw new NotFoundException(
+        `Metric with ID "${metricId}" not found in the plan`,
+      );
+    }
+    return located.metric;
+  }
+}
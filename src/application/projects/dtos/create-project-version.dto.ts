@@ -0,0 +1,26 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { VersionBump } from '@domain/projects/entities/project-version.entity';
+
+export class CreateProjectVersionDto {
+  @ApiProperty({
+    description:
+      'Which part of the semantic version to increment. The first version is always 1.0.0',
+    enum: VersionBump,
+    default: VersionBump.MINOR,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(VersionBump)
+  bump?: VersionBump;
+
+  @ApiProperty({
+    description: 'What changed in this version',
+    example: 'Added performance objectives and linked the first estimate',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+}
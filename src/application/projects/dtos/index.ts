@@ -1,3 +1,4 @@
 export { CreateProjectDto } from './create-project.dto';
 export { UpdateProjectDto } from './update-project.dto';
 export { ProjectDto } from './project.dto';
+export { CreateProjectVersionDto } from './create-project-version.dto';
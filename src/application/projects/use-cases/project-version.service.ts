@@ -0,0 +1,482 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Types } from 'mongoose';
+import {
+  PROJECT_REPOSITORY,
+  IProjectRepository,
+} from '@domain/projects/interfaces/project.repository.interface';
+import {
+  PROJECT_VERSION_REPOSITORY,
+  IProjectVersionRepository,
+} from '@domain/projects/interfaces/project-version.repository.interface';
+import {
+  MEASUREMENT_PLAN_REPOSITORY,
+  IMeasurementPlanRepository,
+} from '@domain/measurement-plans/interfaces/measurement-plan.repository.interface';
+import {
+  ESTIMATE_REPOSITORY,
+  IEstimateRepository,
+  EstimateComponentSummary,
+} from '@domain/fpa/interfaces/estimate.repository.interface';
+import { Project } from '@domain/projects/entities/project.entity';
+import {
+  ProjectVersion,
+  ProjectVersionSnapshot,
+  VersionBump,
+} from '@domain/projects/entities/project-version.entity';
+import { MeasurementPlan } from '@domain/measurement-plans/entities/measurement-plan.entity';
+import { Estimate, EstimateStatus } from '@domain/fpa/entities/estimate.entity';
+import { EstimateReviewWorkflow } from '@domain/fpa/services/estimate-review-workflow.service';
+import { EstimateVersionComparator } from '@domain/fpa/services/estimate-version-comparator.service';
+import { EstimateService } from '@application/fpa/use-cases/estimate.service';
+import { CreateProjectVersionDto } from '@application/projects/dtos/create-project-version.dto';
+import { FieldChange, ObjectDiffUtils } from '@shared/utils/object-diff.utils';
+
+export interface ProjectVersionDiff {
+  projectId: string;
+  from: string;
+  to: string;
+  changes: FieldChange[];
+}
+
+const SEMANTIC_VERSION_PATTERN = /^(\d+)\.(\d+)\.(\d+)$/;
+
+// Fields written back on restore. Ownership, links and workflow status are kept
+const RESTORABLE_PROJECT_FIELDS: (keyof Project)[] = [
+  'name',
+  'description',
+  'startDate',
+  'endDate',
+  'teamMembers',
+  'objectives',
+];
+
+const RESTORABLE_PLAN_FIELDS: (keyof MeasurementPlan)[] = [
+  'planName',
+  'planResponsible',
+  'objectives',
+];
+
+// Component lists are not restored: snapshots keep the counting data of the
+// components only, so estimates whose components changed are not restored
+const RESTORABLE_ESTIMATE_FIELDS: (keyof Estimate)[] = [
+  'name',
+  'description',
+  'countType',
+  'documentReferences',
+  'applicationBoundary',
+  'countingScope',
+  'averageDailyWorkingHours',
+  'teamSize',
+  'hourlyRateBRL',
+  'productivityFactor',
+  'estimationModel',
+  'cocomoParameters',
+  'generalSystemCharacteristics',
+  'generalSystemCharacteristicsBefore',
+  'notes',
+];
+
+// Recalculated after a restore, and written back when it is undone
+const ESTIMATE_TOTAL_FIELDS: (keyof Estimate)[] = [
+  'unadjustedFunctionPoints',
+  'valueAdjustmentFactor',
+  'adjustedFunctionPoints',
+  'estimatedEffortHours',
+];
+
+// The component references duplicate the component summaries in the diff
+const DIFF_IGNORED_KEYS = [
+  '__v',
+  'createdAt',
+  'updatedAt',
+  'internalLogicalFiles',
+  'externalInterfaceFiles',
+  'externalInputs',
+  'externalOutputs',
+  'externalQueries',
+];
+
+@Injectable()
+export class ProjectVersionService {
+  private readonly logger = new Logger(ProjectVersionService.name);
+
+  constructor(
+    @Inject(PROJECT_REPOSITORY)
+    private readonly projectRepository: IProjectRepository,
+    @Inject(PROJECT_VERSION_REPOSITORY)
+    private readonly projectVersionRepository: IProjectVersionRepository,
+    @Inject(MEASUREMENT_PLAN_REPOSITORY)
+    private readonly measurementPlanRepository: IMeasurementPlanRepository,
+    @Inject(ESTIMATE_REPOSITORY)
+    private readonly estimateRepository: IEstimateRepository,
+    private readonly estimateService: EstimateService,
+  ) {}
+
+  async getVersions(
+    projectId: string,
+    organizationId: string,
+  ): Promise<ProjectVersion[]> {
+    await this.findProject(projectId, organizationId);
+    return this.projectVersionRepository.findByProject(projectId);
+  }
+
+  async getVersion(
+    projectId: string,
+    version: string,
+    organizationId: string,
+  ): Promise<ProjectVersion> {
+    await this.findProject(projectId, organizationId);
+    return this.findVersion(projectId, version);
+  }
+
+  async createVersion(
+    projectId: string,
+    organizationId: string,
+    createdBy: string,
+    createVersionDto: CreateProjectVersionDto = {},
+  ): Promise<ProjectVersion> {
+    const project = await this.findProject(projectId, organizationId);
+    return this.recordVersion(
+      project,
+      createdBy,
+      createVersionDto.bump ?? VersionBump.MINOR,
+      createVersionDto.description ?? '',
+    );
+  }
+
+  /**
+   * Write a version's snapshot back to the project and, while they are still
+   * linked, its measurement plan and estimate. The restored state is recorded
+   * as a new minor version so the history stays linear. Without
+   * multi-document transactions, a failed restore undoes the writes done.
+   * @throws BadRequestException if the linked estimate is finalized, archived,
+   * locked by its review or its components changed since the version
+   */
+  async restoreVersion(
+    projectId: string,
+    version: string,
+    organizationId: string,
+    restoredBy: string,
+  ): Promise<ProjectVersion> {
+    const project = await this.findProject(projectId, organizationId);
+    const target = await this.findVersion(projectId, version);
+    const { snapshot } = target;
+
+    // Check the estimate before writing anything so a refused restore is not
+    // applied halfway
+    const estimateId = project.estimateId?.toString();
+    const restoredEstimate =
+      estimateId && this.isSameDocument(snapshot.estimate, estimateId)
+        ? {
+            id: estimateId,
+            fields: this.pick<Estimate>(
+              snapshot.estimate,
+              RESTORABLE_ESTIMATE_FIELDS,
+            ),
+            current: await this.findRestorableEstimate(
+              estimateId,
+              snapshot.estimate,
+              target.version,
+            ),
+          }
+        : null;
+
+    // Each undo is registered before its write and replayed in reverse order
+    const undos: (() => Promise<unknown>)[] = [];
+    try {
+      undos.push(() =>
+        this.projectRepository.update(
+          projectId,
+          this.previousValues<Project>(project, RESTORABLE_PROJECT_FIELDS),
+        ),
+      );
+      await this.projectRepository.update(
+        projectId,
+        this.pick<Project>(snapshot.project, RESTORABLE_PROJECT_FIELDS),
+      );
+
+      const planId = project.measurementPlanId?.toString();
+      if (planId && this.isSameDocument(snapshot.measurementPlan, planId)) {
+        const plan = await this.measurementPlanRepository.findById(planId);
+        if (plan) {
+          undos.push(() =>
+            this.measurementPlanRepository.update(
+              planId,
+              this.previousValues<MeasurementPlan>(
+                plan,
+                RESTORABLE_PLAN_FIELDS,
+              ),
+            ),
+          );
+          await this.measurementPlanRepository.update(
+            planId,
+            this.pick<MeasurementPlan>(
+              snapshot.measurementPlan,
+              RESTORABLE_PLAN_FIELDS,
+            ),
+          );
+        }
+      }
+
+      if (restoredEstimate) {
+        const { id, fields, current } = restoredEstimate;
+        undos.push(() =>
+          this.estimateRepository.update(
+            id,
+            this.previousValues<Estimate>(current, [
+              ...RESTORABLE_ESTIMATE_FIELDS,
+              ...ESTIMATE_TOTAL_FIELDS,
+            ]),
+          ),
+        );
+        await this.estimateRepository.update(id, fields);
+        await this.estimateService.recalculateTotals(id);
+      }
+
+      const restoredProject = await this.findProject(projectId, organizationId);
+      return await this.recordVersion(
+        restoredProject,
+        restoredBy,
+        VersionBump.MINOR,
+        `Restored from version ${target.version}`,
+        target.version,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Restoring version ${target.version} of project ${projectId} failed, undoing it`,
+      );
+      for (const undo of undos.reverse()) {
+        await undo();
+      }
+      throw error;
+    }
+  }
+
+  async diffVersions(
+    projectId: string,
+    from: string,
+    to: string,
+    organizationId: string,
+  ): Promise<ProjectVersionDiff> {
+    await this.findProject(projectId, organizationId);
+    const [fromVersion, toVersion] = await Promise.all([
+      this.findVersion(projectId, from),
+      this.findVersion(projectId, to),
+    ]);
+
+    return {
+      projectId,
+      from: fromVersion.version,
+      to: toVersion.version,
+      changes: ObjectDiffUtils.diff(fromVersion.snapshot, toVersion.snapshot, {
+        ignoreKeys: DIFF_IGNORED_KEYS,
+      }),
+    };
+  }
+
+  private async findProject(
+    projectId: string,
+    organizationId: string,
+  ): Promise<Project> {
+    const project = await this.projectRepository.findById(projectId);
+    if (!project) {
+      throw new NotFoundException(`Project with ID "${projectId}" not found`);
+    }
+
+    if (project.organizationId.toString() !== organizationId) {
+      throw new ForbiddenException('Access denied to this project');
+    }
+
+    return project;
+  }
+
+  private async findRestorableEstimate(
+    estimateId: string,
+    estimateSnapshot: Record<string, unknown>,
+    version: string,
+  ): Promise<Estimate> {
+    const estimate = await this.estimateRepository.findById(estimateId);
+    if (!estimate) {
+      throw new NotFoundException(`Estimate with ID ${estimateId} not found`);
+    }
+
+    if (
+      [EstimateStatus.FINALIZED, EstimateStatus.ARCHIVED].includes(
+        estimate.status,
+      )
+    ) {
+      throw new BadRequestException(
+        'Versions cannot be restored into finalized or archived estimates',
+      );
+    }
+
+    const lockReason = EstimateReviewWorkflow.contentLockReason(
+      estimate.status,
+    );
+    if (lockReason) {
+      throw new BadRequestException(lockReason);
+    }
+
+    // Restoring the fields of the count over other components would mix two
+    // counts, and the snapshot is not enough to re-create the components
+    const components =
+      await this.estimateRepository.findComponentSummaries(estimateId);
+    const changes = EstimateVersionComparator.compareComponents(
+      (estimateSnapshot.components as EstimateComponentSummary[]) || [],
+      components,
+    );
+    if (changes.length > 0) {
+      throw new BadRequestException(
+        `The components of the estimate changed since version ${version} and cannot be restored`,
+      );
+    }
+
+    return estimate;
+  }
+
+  private async findVersion(
+    projectId: string,
+    version: string,
+  ): Promise<ProjectVersion> {
+    if (!SEMANTIC_VERSION_PATTERN.test(version)) {
+      throw new BadRequestException(
+        `"${version}" is not a valid version number (expected MAJOR.MINOR.PATCH)`,
+      );
+    }
+
+    const projectVersion =
+      await this.projectVersionRepository.findByProjectAndVersion(
+        projectId,
+        version,
+      );
+    if (!projectVersion) {
+      throw new NotFoundException(
+        `Version ${version} of project "${projectId}" not found`,
+      );
+    }
+
+    return projectVersion;
+  }
+
+  private async recordVersion(
+    project: Project,
+    createdBy: string,
+    bump: VersionBump,
+    description: string,
+    restoredFrom?: string,
+  ): Promise<ProjectVersion> {
+    const projectId = project._id.toString();
+    const latest = await this.projectVersionRepository.findLatest(projectId);
+    const [major, minor, patch] = this.nextVersion(latest, bump);
+
+    const version = await this.projectVersionRepository.create({
+      projectId: project._id,
+      organizationId: project.organizationId,
+      version: `${major}.${minor}.${patch}`,
+      major,
+      minor,
+      patch,
+      description,
+      createdBy: new Types.ObjectId(createdBy),
+      restoredFrom,
+      snapshot: await this.takeSnapshot(project),
+    });
+
+    this.logger.log(
+      `Created version ${version.version} of project ${projectId}`,
+    );
+
+    return version;
+  }
+
+  private nextVersion(
+    latest: ProjectVersion | null,
+    bump: VersionBump,
+  ): [number, number, number] {
+    if (!latest) {
+      return [1, 0, 0];
+    }
+
+    switch (bump) {
+      case VersionBump.MAJOR:
+        return [latest.major + 1, 0, 0];
+      case VersionBump.PATCH:
+        return [latest.major, latest.minor, latest.patch + 1];
+      default:
+        return [latest.major, latest.minor + 1, 0];
+    }
+  }
+
+  private async takeSnapshot(
+    project: Project,
+  ): Promise<ProjectVersionSnapshot> {
+    const planId = project.measurementPlanId?.toString();
+    const estimateId = project.estimateId?.toString();
+
+    const [measurementPlan, estimate, components] = await Promise.all([
+      planId
+        ? this.measurementPlanRepository.findById(planId)
+        : Promise.resolve(null),
+      estimateId
+        ? this.estimateRepository.findById(estimateId)
+        : Promise.resolve(null),
+      estimateId
+        ? this.estimateRepository.findComponentSummaries(estimateId)
+        : Promise.resolve([]),
+    ]);
+
+    const estimateSnapshot = this.toPlainObject(estimate);
+
+    return {
+      project: this.toPlainObject(project) ?? {},
+      measurementPlan: this.toPlainObject(measurementPlan),
+      estimate: estimateSnapshot ? { ...estimateSnapshot, components } : null,
+    };
+  }
+
+  // Repositories return Mongoose documents; store their raw field values
+  private toPlainObject(value: object | null): Record<string, unknown> | null {
+    if (!value) {
+      return null;
+    }
+
+    const document = value as { toObject?: () => Record<string, unknown> };
+    return typeof document.toObject === 'function'
+      ? document.toObject()
+      : { ...value };
+  }
+
+  private isSameDocument(
+    snapshot: Record<string, unknown> | null,
+    id: string,
+  ): snapshot is Record<string, unknown> {
+    return !!snapshot && String(snapshot._id) === id;
+  }
+
+  // Current values of the restored fields; those not set are cleared on undo
+  private previousValues<T>(document: T, fields: (keyof T)[]): Partial<T> {
+    const current = this.toPlainObject(document as object) ?? {};
+    const previous: Partial<T> = {};
+    fields.forEach((field) => {
+      previous[field] = (current[field as string] ?? null) as T[keyof T];
+    });
+    return previous;
+  }
+
+  private pick<T>(source: Record<string, unknown>, fields: (keyof T)[]) {
+    const picked: Partial<T> = {};
+    fields.forEach((field) => {
+      if (source[field as string] !== undefined) {
+        picked[field] = source[field as string] as T[keyof T];
+      }
+    });
+    return picked;
+  }
+}
@@ -9,6 +9,10 @@ import {
   PROJECT_REPOSITORY,
   IProjectRepository,
 } from '@domain/projects/interfaces/project.repository.interface';
+import {
+  PROJECT_VERSION_REPOSITORY,
+  IProjectVersionRepository,
+} from '@domain/projects/interfaces/project-version.repository.interface';
 import {
   Project,
   ProjectObjective,
@@ -22,6 +26,8 @@ export class ProjectService {
   constructor(
     @Inject(PROJECT_REPOSITORY)
     private readonly projectRepository: IProjectRepository,
+    @Inject(PROJECT_VERSION_REPOSITORY)
+    private readonly projectVersionRepository: IProjectVersionRepository,
   ) {}
 
   /**
@@ -157,29 +163,8 @@ export class ProjectService {
       throw new BadRequestException(`Failed to delete project with ID "${id}"`);
     }
 
-    return true;
-  }
+    await this.projectVersionRepository.deleteByProject(id);
 
-  async getVersions(id: string): Promise<any[]> {
-    // Placeholder implementation - you can implement versioning logic here
-    const project = await this.findOne(id);
-    return [
-      {
-        version: '1.0.0',
-        createdAt: project.createdAt,
-        description: 'Initial version',
-      },
-    ];
-  }
-
-  async createVersion(id: string): Promise<any> {
-    // Placeholder implementation - you can implement versioning logic here
-    const project = await this.findOne(id);
-    return {
-      version: '1.1.0',
-      createdAt: new Date(),
-      description: 'New version created',
-      projectId: project._id,
-    };
+    return true;
   }
 }
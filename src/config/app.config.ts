@@ -2,6 +2,7 @@ import { registerAs } from '@nestjs/config';
 import {
   PORT,
   NODE_ENV,
+  TRUST_PROXY,
   MONGODB_URI,
   JWT_SECRET,
   JWT_REFRESH_SECRET,
@@ -16,6 +17,7 @@ import {
   EMAIL_PASSWORD,
   EMAIL_FROM,
   FRONTEND_URL,
+  COLLECTION_SCHEDULER_INTERVAL_MINUTES,
   SWAGGER_TITLE,
   SWAGGER_DESCRIPTION,
   SWAGGER_VERSION,
@@ -25,6 +27,9 @@ import {
 export default registerAs('app', () => ({
   port: parseInt(PORT, 10),
   nodeEnv: NODE_ENV,
+  trustProxy: /^\d+$/.test(TRUST_PROXY)
+    ? parseInt(TRUST_PROXY, 10)
+    : TRUST_PROXY,
   mongodb: {
     uri: MONGODB_URI,
   },
@@ -47,6 +52,9 @@ export default registerAs('app', () => ({
     from: EMAIL_FROM,
     frontendUrl: FRONTEND_URL,
   },
+  collectionScheduler: {
+    intervalMinutes: parseInt(COLLECTION_SCHEDULER_INTERVAL_MINUTES, 10),
+  },
   swagger: {
     title: SWAGGER_TITLE,
     description: SWAGGER_DESCRIPTION,
@@ -0,0 +1,150 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Types } from 'mongoose';
+import { JwtAuthGuard } from '@shared/utils/guards/jwt-auth.guard';
+import { OrganizationAccessUtils } from '@shared/utils/organization-access.utils';
+import { ParseMongoIdPipe } from '@shared/utils/pipes/parse-mongo-id.pipe';
+import { AuditAction } from '@domain/audit/entities/audit-event.entity';
+import {
+  AuditService,
+  AuditEventPage,
+} from '@application/audit/use-cases/audit.service';
+
+interface AuthenticatedRequest {
+  user: {
+    _id: string;
+    email: string;
+    organizationId: string | null;
+  };
+}
+
+const MAX_PAGE_SIZE = 100;
+
+@ApiTags('Audit')
+@Controller('organizations')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class AuditEventsController {
+  constructor(private readonly auditService: AuditService) {}
+
+  @Get(':id/audit')
+  @ApiOperation({
+    summary: 'Get the audit trail of the organization, most recent first',
+  })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: `Items per page, at most ${MAX_PAGE_SIZE}`,
+  })
+  @ApiQuery({
+    name: 'entityType',
+    required: false,
+    type: String,
+    description: 'Filter by kind of entity, e.g. Estimate, EI or Project',
+  })
+  @ApiQuery({
+    name: 'entityId',
+    required: false,
+    type: String,
+    description: 'History of one entity',
+  })
+  @ApiQuery({
+    name: 'userId',
+    required: false,
+    type: String,
+    description: 'Changes made by a user',
+  })
+  @ApiQuery({ name: 'action', required: false, enum: AuditAction })
+  @ApiQuery({
+    name: 'from',
+    required: false,
+    type: String,
+    description: 'Changes made from this date (ISO 8601)',
+  })
+  @ApiQuery({
+    name: 'to',
+    required: false,
+    type: String,
+    description: 'Changes made up to this date (ISO 8601)',
+  })
+  @ApiResponse({ status: 200, description: 'Audit events retrieved' })
+  @ApiResponse({ status: 400, description: 'Invalid filter' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  async findAll(
+    @Param('id', ParseMongoIdPipe) organizationId: string,
+    @Request() req: AuthenticatedRequest,
+    @Query('page') page: number = 1,
+    @Query('limit') limit: number = 20,
+    @Query('entityType') entityType?: string,
+    @Query('entityId') entityId?: string,
+    @Query('userId') userId?: string,
+    @Query('action') action?: AuditAction,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ): Promise<AuditEventPage> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'audit trail',
+    );
+    if (!Number.isInteger(page) || page < 1) {
+      throw new BadRequestException('page must be a positive integer');
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      throw new BadRequestException(
+        `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`,
+      );
+    }
+    for (const [name, id] of Object.entries({ entityId, userId })) {
+      if (id !== undefined && !Types.ObjectId.isValid(id)) {
+        throw new BadRequestException(`Invalid ${name}: ${id}`);
+      }
+    }
+    if (action && !Object.values(AuditAction).includes(action)) {
+      throw new BadRequestException(`Invalid action: ${action}`);
+    }
+
+    return this.auditService.findByOrganization(organizationId, page, limit, {
+      entityType,
+      entityId,
+      userId,
+      action,
+      from: this.parseDate('from', from),
+      to: this.parseDate('to', to),
+    });
+  }
+
+  private parseDate(name: string, value?: string): Date | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      throw new BadRequestException(`Invalid ${name} date: ${value}`);
+    }
+    return date;
+  }
+}
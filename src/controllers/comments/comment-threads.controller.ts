@@ -0,0 +1,269 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Types } from 'mongoose';
+import { JwtAuthGuard } from '@shared/utils/guards/jwt-auth.guard';
+import { OrganizationAccessUtils } from '@shared/utils/organization-access.utils';
+import { ParseMongoIdPipe } from '@shared/utils/pipes/parse-mongo-id.pipe';
+import { CommentThreadService } from '@application/comments/use-cases/comment-thread.service';
+import {
+  CreateCommentThreadDto,
+  AddCommentDto,
+} from '@application/comments/dtos/comment-thread.dto';
+import {
+  CommentThread,
+  CommentTargetType,
+} from '@domain/comments/entities/comment-thread.entity';
+
+interface AuthenticatedRequest {
+  user: {
+    _id: string;
+    email: string;
+    organizationId: string | null;
+  };
+}
+
+@ApiTags('Comments')
+@Controller('comment-threads')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class CommentThreadsController {
+  constructor(private readonly commentThreadService: CommentThreadService) {}
+
+  @Post(':organizationId')
+  @ApiOperation({
+    summary:
+      'Start a thread on an estimate, a component or a measurement plan objective, question or metric',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Thread created',
+    type: CommentThread,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({ status: 404, description: 'Target not found' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  @ApiBody({ type: CreateCommentThreadDto })
+  async create(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Body() createDto: CreateCommentThreadDto,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<CommentThread> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'comment threads',
+    );
+
+    return this.commentThreadService.create(
+      createDto,
+      organizationId,
+      req.user._id,
+    );
+  }
+
+  @Get(':organizationId')
+  @ApiOperation({
+    summary: 'List threads, e.g. the unresolved threads of an estimate or plan',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiQuery({
+    name: 'estimateId',
+    required: false,
+    type: String,
+    description: 'Threads of an estimate and its components',
+  })
+  @ApiQuery({
+    name: 'measurementPlanId',
+    required: false,
+    type: String,
+    description: 'Threads of the objectives, questions and metrics of a plan',
+  })
+  @ApiQuery({
+    name: 'targetType',
+    required: false,
+    enum: CommentTargetType,
+    description: 'Filter by the kind of element',
+  })
+  @ApiQuery({
+    name: 'targetId',
+    required: false,
+    type: String,
+    description: 'Threads of one element',
+  })
+  @ApiQuery({
+    name: 'resolved',
+    required: false,
+    type: Boolean,
+    description: 'false for the unresolved threads only',
+  })
+  @ApiQuery({
+    name: 'mentionedUserId',
+    required: false,
+    type: String,
+    description: 'Threads mentioning a user',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Threads, most recently active first',
+    type: [CommentThread],
+  })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async findAll(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Request() req: AuthenticatedRequest,
+    @Query('estimateId') estimateId?: string,
+    @Query('measurementPlanId') measurementPlanId?: string,
+    @Query('targetType') targetType?: CommentTargetType,
+    @Query('targetId') targetId?: string,
+    @Query('resolved') resolved?: string,
+    @Query('mentionedUserId') mentionedUserId?: string,
+  ): Promise<CommentThread[]> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'comment threads',
+    );
+
+    const ids = { estimateId, measurementPlanId, targetId, mentionedUserId };
+    const invalid = Object.entries(ids).filter(
+      ([, id]) => id !== undefined && !Types.ObjectId.isValid(id),
+    );
+    if (invalid.length > 0) {
+      throw new BadRequestException(
+        `Invalid ID: ${invalid.map(([name]) => name).join(', ')}`,
+      );
+    }
+    if (targetType && !Object.values(CommentTargetType).includes(targetType)) {
+      throw new BadRequestException(`Invalid target type: ${targetType}`);
+    }
+
+    return this.commentThreadService.findAll(organizationId, {
+      ...ids,
+      targetType,
+      resolved: resolved === undefined ? undefined : resolved === 'true',
+    });
+  }
+
+  @Get(':organizationId/:threadId')
+  @ApiOperation({ summary: 'Get a thread with its comments' })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'threadId', description: 'Thread ID' })
+  @ApiResponse({ status: 200, description: 'Thread', type: CommentThread })
+  @ApiResponse({ status: 404, description: 'Thread not found' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async findOne(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('threadId', ParseMongoIdPipe) threadId: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<CommentThread> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'comment threads',
+    );
+
+    return this.commentThreadService.findOne(threadId, organizationId);
+  }
+
+  @Post(':organizationId/:threadId/comments')
+  @ApiOperation({ summary: 'Reply to a thread' })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'threadId', description: 'Thread ID' })
+  @ApiResponse({ status: 201, description: 'Reply added', type: CommentThread })
+  @ApiResponse({ status: 400, description: 'The thread is resolved' })
+  @ApiResponse({ status: 404, description: 'Thread not found' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  @ApiBody({ type: AddCommentDto })
+  async addComment(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('threadId', ParseMongoIdPipe) threadId: string,
+    @Body() addDto: AddCommentDto,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<CommentThread> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'comment threads',
+    );
+
+    return this.commentThreadService.addComment(
+      threadId,
+      addDto,
+      organizationId,
+      req.user._id,
+    );
+  }
+
+  @Post(':organizationId/:threadId/resolve')
+  @ApiOperation({ summary: 'Mark the discussion as settled' })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'threadId', description: 'Thread ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Thread resolved',
+    type: CommentThread,
+  })
+  @ApiResponse({ status: 404, description: 'Thread not found' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async resolve(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('threadId', ParseMongoIdPipe) threadId: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<CommentThread> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'comment threads',
+    );
+
+    return this.commentThreadService.resolve(
+      threadId,
+      organizationId,
+      req.user._id,
+    );
+  }
+
+  @Post(':organizationId/:threadId/unresolve')
+  @ApiOperation({ summary: 'Reopen a resolved discussion' })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'threadId', description: 'Thread ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Thread reopened',
+    type: CommentThread,
+  })
+  @ApiResponse({ status: 404, description: 'Thread not found' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async unresolve(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('threadId', ParseMongoIdPipe) threadId: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<CommentThread> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'comment threads',
+    );
+
+    return this.commentThreadService.unresolve(threadId, organizationId);
+  }
+}
@@ -0,0 +1,122 @@
+import {
+  Controller,
+  Get,
+  Param,
+  UseGuards,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  Request,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '@shared/utils/guards/jwt-auth.guard';
+import { OrganizationAccessUtils } from '@shared/utils/organization-access.utils';
+import { ParseMongoIdPipe } from '@shared/utils/pipes/parse-mongo-id.pipe';
+import { ApplicationBaselineService } from '@application/fpa/use-cases/application-baseline.service';
+import {
+  ApplicationBaseline,
+  BaselineSizeSnapshot,
+} from '@domain/fpa/entities/application-baseline.entity';
+
+interface AuthenticatedRequest {
+  user: {
+    _id: string;
+    email: string;
+    organizationId: string | null;
+  };
+}
+
+@ApiTags('Application Baselines')
+@Controller('estimates/baselines')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class ApplicationBaselineController {
+  constructor(
+    private readonly applicationBaselineService: ApplicationBaselineService,
+  ) {}
+
+  @Get(':organizationId/:projectId')
+  @ApiOperation({
+    summary: 'Get the application baseline (installed functions) of a project',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'projectId', description: 'The project ID' })
+  @ApiResponse({ status: 200, description: 'Returns the application baseline' })
+  @ApiResponse({ status: 404, description: 'Baseline not found' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async findByProject(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('projectId', ParseMongoIdPipe) projectId: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<ApplicationBaseline> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'application baselines',
+    );
+
+    try {
+      return await this.applicationBaselineService.findByProject(
+        projectId,
+        organizationId,
+      );
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException
+      ) {
+        throw error;
+      }
+      throw new BadRequestException(
+        `Failed to fetch application baseline: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  @Get(':organizationId/:projectId/history')
+  @ApiOperation({
+    summary: 'Get the application size after each merged count',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'projectId', description: 'The project ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the baseline size history, oldest first',
+  })
+  @ApiResponse({ status: 404, description: 'Baseline not found' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async getSizeHistory(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('projectId', ParseMongoIdPipe) projectId: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<BaselineSizeSnapshot[]> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'application baselines',
+    );
+
+    try {
+      return await this.applicationBaselineService.getSizeHistory(
+        projectId,
+        organizationId,
+      );
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException
+      ) {
+        throw error;
+      }
+      throw new BadRequestException(
+        `Failed to fetch baseline history: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+}
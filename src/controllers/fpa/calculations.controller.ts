@@ -2,6 +2,7 @@ import {
   Controller,
   Post,
   Get,
+  Body,
   Param,
   Query,
   UseGuards,
@@ -15,34 +16,30 @@ import {
   ApiResponse,
   ApiParam,
   ApiQuery,
+  ApiBody,
 } from '@nestjs/swagger';
 import { JwtAuthGuard } from '@shared/utils/guards/jwt-auth.guard';
 import {
   ESTIMATE_REPOSITORY,
   IEstimateRepository,
+  EstimateComponentSummary,
 } from '@domain/fpa/interfaces/estimate.repository.interface';
 import { FunctionPointCalculator } from '@domain/fpa/services/function-point-calculator.service';
-import { TeamSizeEstimationService } from '@domain/fpa/services/team-size-estimation.service';
-import {
-  ALI_REPOSITORY,
-  IALIRepository,
-} from '@domain/fpa/interfaces/ali.repository.interface';
-import {
-  AIE_REPOSITORY,
-  IAIERepository,
-} from '@domain/fpa/interfaces/aie.repository.interface';
 import {
-  EI_REPOSITORY,
-  IEIRepository,
-} from '@domain/fpa/interfaces/ei.repository.interface';
-import {
-  EO_REPOSITORY,
-  IEORepository,
-} from '@domain/fpa/interfaces/eo.repository.interface';
+  CocomoIICalculator,
+  CocomoIIResult,
+} from '@domain/fpa/services/cocomo-ii.service';
+import { TeamSizeEstimationService } from '@domain/fpa/services/team-size-estimation.service';
 import {
-  EQ_REPOSITORY,
-  IEQRepository,
-} from '@domain/fpa/interfaces/eq.repository.interface';
+  EffortSimulator,
+  EffortSimulationResult,
+  SimulatedComponentCount,
+  SimulatedComponentType,
+  AVERAGE_FUNCTION_POINTS,
+} from '@domain/fpa/services/effort-simulator.service';
+import { ProductivityModelService } from '@application/fpa/use-cases/productivity-model.service';
+import { EstimateService } from '@application/fpa/use-cases/estimate.service';
+import { EffortSimulationDto } from '@application/fpa/dtos/effort-simulation.dto';
 
 interface EffortEstimation {
   adjustedFunctionPoints: number;
@@ -68,18 +65,10 @@ export class CalculationsController {
   constructor(
     @Inject(ESTIMATE_REPOSITORY)
     private readonly estimateRepository: IEstimateRepository,
-    @Inject(ALI_REPOSITORY)
-    private readonly aliRepository: IALIRepository,
-    @Inject(AIE_REPOSITORY)
-    private readonly aieRepository: IAIERepository,
-    @Inject(EI_REPOSITORY)
-    private readonly eiRepository: IEIRepository,
-    @Inject(EO_REPOSITORY)
-    private readonly eoRepository: IEORepository,
-    @Inject(EQ_REPOSITORY)
-    private readonly eqRepository: IEQRepository,
     private readonly functionPointCalculator: FunctionPointCalculator,
     private readonly teamSizeEstimationService: TeamSizeEstimationService,
+    private readonly productivityModelService: ProductivityModelService,
+    private readonly estimateService: EstimateService,
   ) {}
 
   @Post(':id/calculate')
@@ -92,93 +81,14 @@ export class CalculationsController {
   @ApiResponse({ status: 404, description: 'Estimate not found' })
   async recalculateFunctionPoints(@Param('id') id: string) {
     try {
-      const estimate = await this.estimateRepository.findById(id);
-      if (!estimate) {
-        throw new NotFoundException(`Estimate with ID ${id} not found`);
-      }
-
-      // Load all components
-      const [alis, aies, eis, eos, eqs] = await Promise.all([
-        estimate.internalLogicalFiles?.length
-          ? this.aliRepository.findByIds(
-              estimate.internalLogicalFiles.map((id) => id.toString()),
-            )
-          : [],
-        estimate.externalInterfaceFiles?.length
-          ? this.aieRepository.findByIds(
-              estimate.externalInterfaceFiles.map((id) => id.toString()),
-            )
-          : [],
-        estimate.externalInputs?.length
-          ? this.eiRepository.findByIds(
-              estimate.externalInputs.map((id) => id.toString()),
-            )
-          : [],
-        estimate.externalOutputs?.length
-          ? this.eoRepository.findByIds(
-              estimate.externalOutputs.map((id) => id.toString()),
-            )
-          : [],
-        estimate.externalQueries?.length
-          ? this.eqRepository.findByIds(
-              estimate.externalQueries.map((id) => id.toString()),
-            )
-          : [],
-      ]);
-
-      // Calculate placeholder function points for each component type
-      const aliPoints = alis.length * 10; // Assuming average 10 points per ALI
-      const aiePoints = aies.length * 7; // Assuming average 7 points per AIE
-      const eiPoints = eis.length * 4; // Assuming average 4 points per EI
-      const eoPoints = eos.length * 5; // Assuming average 5 points per EO
-      const eqPoints = eqs.length * 3; // Assuming average 3 points per EQ
-
-      // Calculate PFNA using new method signature
-      const pfna = FunctionPointCalculator.calculateUnadjustedFunctionPoints([
-        aliPoints,
-        aiePoints,
-        eiPoints,
-        eoPoints,
-        eqPoints,
-      ]);
-
-      // Calculate value adjustment factor (VAF)
-      // Convert numeric GSC values to GeneralSystemCharacteristic objects
-      const gscFactors = FunctionPointCalculator.getGSCFactors();
-      let vaf = 1.0; // Default VAF when GSC is not provided or incomplete
-
-      // Only calculate VAF if we have exactly 14 GSC values
-      if (estimate.generalSystemCharacteristics?.length === 14) {
-        const gscObjects = estimate.generalSystemCharacteristics.map(
-          (value, index) => ({
-            name: gscFactors[index].name,
-            description: gscFactors[index].description,
-            degreeOfInfluence: value,
-          }),
-        );
-
-        vaf =
-          FunctionPointCalculator.calculateValueAdjustmentFactor(gscObjects);
-      }
-
-      // Calculate adjusted function points
-      const adjustedFP =
-        FunctionPointCalculator.calculateAdjustedFunctionPoints(pfna, vaf);
-
-      // Calculate estimated effort
-      const effortHours = adjustedFP * estimate.productivityFactor;
-
-      // Update the estimate
-      const updatedEstimate = await this.estimateRepository.update(id, {
-        unadjustedFunctionPoints: pfna,
-        valueAdjustmentFactor: vaf,
-        adjustedFunctionPoints: adjustedFP,
-        estimatedEffortHours: effortHours,
-      });
-
-      if (!updatedEstimate) {
-        throw new NotFoundException(`Failed to update estimate with ID ${id}`);
-      }
+      const {
+        estimate: updatedEstimate,
+        components,
+        enhancement,
+      } = await this.estimateService.recalculateTotals(id);
+      const countOf = (type: EstimateComponentSummary['componentType']) =>
+        components.filter((component) => component.componentType === type)
+          .length;
 
       return {
         id: updatedEstimate._id,
@@ -193,11 +103,34 @@ export class CalculationsController {
         ),
         estimatedEffortHours: this.round(updatedEstimate.estimatedEffortHours),
         components: {
-          internalLogicalFiles: alis.length,
-          externalInterfaceFiles: aies.length,
-          externalInputs: eis.length,
-          externalOutputs: eos.length,
-          externalQueries: eqs.length,
+          internalLogicalFiles: countOf('ALI'),
+          externalInterfaceFiles: countOf('AIE'),
+          externalInputs: countOf('EI'),
+          externalOutputs: countOf('EO'),
+          externalQueries: countOf('EQ'),
+        },
+        enhancement: enhancement && {
+          added: {
+            count: enhancement.added.count,
+            points: this.round(enhancement.added.points),
+          },
+          changed: {
+            count: enhancement.changed.count,
+            points: this.round(enhancement.changed.points),
+          },
+          deleted: {
+            count: enhancement.deleted.count,
+            points: this.round(enhancement.deleted.points),
+          },
+          conversion: {
+            count: enhancement.conversion.count,
+            points: this.round(enhancement.conversion.points),
+          },
+          vafBefore: this.round(enhancement.vafBefore),
+          vafAfter: this.round(enhancement.vafAfter),
+          enhancementFunctionPoints: this.round(
+            enhancement.enhancementFunctionPoints,
+          ),
         },
       };
     } catch (error) {
@@ -235,13 +168,24 @@ export class CalculationsController {
         throw new NotFoundException(`Estimate with ID ${id} not found`);
       }
 
-      // Use provided productivity factor or default to estimate's value
-      const usedProductivityFactor =
-        productivityFactor || estimate.productivityFactor;
+      // Use provided productivity factor, then the estimate's productivity
+      // model, then the estimate's own factor
+      const productivityModel = productivityFactor
+        ? null
+        : await this.productivityModelService.findForEstimate(estimate);
 
       // Calculate estimated effort
-      const estimatedEffortHours =
-        estimate.adjustedFunctionPoints * usedProductivityFactor;
+      const estimatedEffortHours = productivityModel
+        ? FunctionPointCalculator.calculateModelEffortHours(
+            estimate.adjustedFunctionPoints,
+            productivityModel,
+          )
+        : estimate.adjustedFunctionPoints *
+          (productivityFactor || estimate.productivityFactor);
+      const usedProductivityFactor =
+        productivityModel && estimate.adjustedFunctionPoints > 0
+          ? estimatedEffortHours / estimate.adjustedFunctionPoints
+          : productivityFactor || estimate.productivityFactor;
       const estimatedEffortDays = estimatedEffortHours / 8; // assuming 8-hour workday
       const estimatedEffortMonths = estimatedEffortDays / 21; // assuming 21 workdays per month
 
@@ -262,6 +206,150 @@ export class CalculationsController {
     }
   }
 
+  @Get(':id/cocomo')
+  @ApiOperation({
+    summary:
+      'Get the COCOMO II Post-Architecture effort, schedule (TDEV) and staffing for an estimate',
+  })
+  @ApiParam({ name: 'id', description: 'The estimate ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'COCOMO II estimation calculated successfully',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Estimate has no COCOMO II parameters',
+  })
+  @ApiResponse({ status: 404, description: 'Estimate not found' })
+  async calculateCocomo(@Param('id') id: string): Promise<CocomoIIResult> {
+    try {
+      const estimate = await this.estimateRepository.findById(id);
+      if (!estimate) {
+        throw new NotFoundException(`Estimate with ID ${id} not found`);
+      }
+
+      if (!estimate.cocomoParameters) {
+        throw new BadRequestException(
+          'Estimate has no COCOMO II parameters; set cocomoParameters first',
+        );
+      }
+
+      const result = CocomoIICalculator.calculate(
+        estimate.unadjustedFunctionPoints,
+        estimate.cocomoParameters,
+      );
+
+      return {
+        ...result,
+        ksloc: this.round(result.ksloc),
+        scaleFactorSum: this.round(result.scaleFactorSum),
+        scaleExponent: Number(result.scaleExponent.toFixed(4)),
+        effortMultiplierProduct: Number(
+          result.effortMultiplierProduct.toFixed(4),
+        ),
+        nominalEffortPersonMonths: this.round(result.nominalEffortPersonMonths),
+        effortPersonMonths: this.round(result.effortPersonMonths),
+        effortHours: this.round(result.effortHours),
+        scheduleMonths: this.round(result.scheduleMonths),
+        averageStaffing: this.round(result.averageStaffing),
+      };
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
+      }
+      throw new BadRequestException(
+        `Failed to calculate COCOMO II estimation: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  @Post(':id/simulation')
+  @ApiOperation({
+    summary:
+      'Monte Carlo simulation of effort, cost and duration from optimistic, most likely and pessimistic inputs',
+  })
+  @ApiParam({ name: 'id', description: 'The estimate ID' })
+  @ApiBody({ type: EffortSimulationDto })
+  @ApiResponse({
+    status: 200,
+    description: 'P10/P50/P90, histogram buckets and a suggested effort buffer',
+  })
+  @ApiResponse({ status: 400, description: 'Inconsistent three-point input' })
+  @ApiResponse({ status: 404, description: 'Estimate not found' })
+  async simulateEffort(
+    @Param('id') id: string,
+    @Body() simulationDto: EffortSimulationDto,
+  ): Promise<EffortSimulationResult> {
+    try {
+      const estimate = await this.estimateRepository.findById(id);
+      if (!estimate) {
+        throw new NotFoundException(`Estimate with ID ${id} not found`);
+      }
+
+      // Types without a range keep their current count; the average size of
+      // the counted components (or the IFPUG average) converts counts to FP
+      const summaries =
+        await this.estimateRepository.findComponentSummaries(id);
+      const componentCounts: Partial<
+        Record<SimulatedComponentType, SimulatedComponentCount>
+      > = {};
+      (
+        Object.keys(AVERAGE_FUNCTION_POINTS) as SimulatedComponentType[]
+      ).forEach((type) => {
+        const counted = summaries.filter(
+          (summary) => summary.componentType === type,
+        );
+        const range = simulationDto.componentCounts?.[type];
+        if (!range && counted.length === 0) {
+          return;
+        }
+
+        componentCounts[type] = {
+          count: range ?? {
+            optimistic: counted.length,
+            mostLikely: counted.length,
+            pessimistic: counted.length,
+          },
+          averageFunctionPoints:
+            counted.length > 0
+              ? counted.reduce(
+                  (sum, summary) => sum + (summary.functionPoints || 0),
+                  0,
+                ) / counted.length
+              : AVERAGE_FUNCTION_POINTS[type],
+        };
+      });
+
+      const productivityFactor = estimate.productivityFactor || 10;
+
+      return EffortSimulator.simulate({
+        componentCounts,
+        productivityFactor: simulationDto.productivityFactor ?? {
+          optimistic: productivityFactor,
+          mostLikely: productivityFactor,
+          pessimistic: productivityFactor,
+        },
+        valueAdjustmentFactor: estimate.valueAdjustmentFactor || 1,
+        hourlyRateBRL: estimate.hourlyRateBRL || 0,
+        teamSize: estimate.teamSize || 1,
+        averageDailyWorkingHours: estimate.averageDailyWorkingHours || 8,
+        iterations: simulationDto.iterations ?? 10000,
+        histogramBuckets: simulationDto.histogramBuckets ?? 20,
+        seed: simulationDto.seed,
+      });
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      throw new BadRequestException(
+        `Failed to simulate effort: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
   @Get(':id/team-size')
   @ApiOperation({ summary: 'Get team size recommendations for an estimate' })
   @ApiParam({ name: 'id', description: 'The estimate ID' })
@@ -271,6 +359,13 @@ export class CalculationsController {
     required: false,
     type: Number,
   })
+  @ApiQuery({
+    name: 'bufferPercentage',
+    description:
+      'Optional effort buffer in percent (default 20; see the suggestedBufferPercentage of a simulation)',
+    required: false,
+    type: Number,
+  })
   @ApiResponse({
     status: 200,
     description: 'Team size estimation calculated successfully',
@@ -279,6 +374,7 @@ export class CalculationsController {
   async calculateTeamSize(
     @Param('id') id: string,
     @Query('hoursPerDay') hoursPerDay: number = 6,
+    @Query('bufferPercentage') bufferPercentage?: number,
   ): Promise<TeamSizeEstimation> {
     try {
       const estimate = await this.estimateRepository.findById(id);
@@ -292,6 +388,10 @@ export class CalculationsController {
           adjustedFunctionPoints: estimate.adjustedFunctionPoints,
           productivityFactor: estimate.productivityFactor,
           hoursPerDayPerPerson: hoursPerDay,
+          bufferPercentage:
+            bufferPercentage !== undefined
+              ? Number(bufferPercentage)
+              : undefined,
         });
 
       return {
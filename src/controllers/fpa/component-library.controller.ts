@@ -0,0 +1,401 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Put,
+  Delete,
+  Query,
+  UseGuards,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  ConflictException,
+  Request,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBody,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '@shared/utils/guards/jwt-auth.guard';
+import { OrganizationAccessUtils } from '@shared/utils/organization-access.utils';
+import { ParseMongoIdPipe } from '@shared/utils/pipes/parse-mongo-id.pipe';
+import {
+  ComponentTemplate,
+  ComponentTemplateType,
+  COMPONENT_TEMPLATE_TYPES,
+} from '@domain/fpa/entities/component-template.entity';
+import { LinkedComponentSummary } from '@domain/fpa/interfaces/component-template.repository.interface';
+import {
+  CreateComponentTemplateDto,
+  UpdateComponentTemplateDto,
+  SaveComponentAsTemplateDto,
+  InstantiateComponentTemplateDto,
+} from '@application/fpa/dtos/component-template.dto';
+import {
+  ComponentLibraryService,
+  ComponentTemplateUpdateResult,
+  InstantiatedComponent,
+} from '@application/fpa/use-cases/component-library.service';
+
+interface AuthenticatedRequest {
+  user: {
+    _id: string;
+    email: string;
+    organizationId: string | null;
+  };
+}
+
+@ApiTags('Component Library')
+@Controller('component-library')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class ComponentLibraryController {
+  constructor(
+    private readonly componentLibraryService: ComponentLibraryService,
+  ) {}
+
+  @Post(':organizationId')
+  @ApiOperation({ summary: 'Add a component template to the library' })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiResponse({ status: 201, description: 'Template created successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({ status: 409, description: 'Template name already in use' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  @ApiBody({ type: CreateComponentTemplateDto })
+  async create(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Body() templateData: CreateComponentTemplateDto,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<ComponentTemplate> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'component library',
+    );
+
+    try {
+      return await this.componentLibraryService.create(
+        templateData,
+        organizationId,
+        req.user._id,
+      );
+    } catch (error) {
+      if (error instanceof ConflictException) {
+        throw error;
+      }
+      throw new BadRequestException(
+        `Failed to create component template: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  @Post(':organizationId/from-component')
+  @ApiOperation({
+    summary: 'Save a component of an estimate to the library',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiResponse({ status: 201, description: 'Template created successfully' })
+  @ApiResponse({ status: 404, description: 'Estimate or component not found' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  @ApiResponse({ status: 409, description: 'Template name already in use' })
+  @ApiBody({ type: SaveComponentAsTemplateDto })
+  async saveFromComponent(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Body() saveData: SaveComponentAsTemplateDto,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<ComponentTemplate> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'component library',
+    );
+
+    try {
+      return await this.componentLibraryService.saveFromComponent(
+        saveData,
+        organizationId,
+        req.user._id,
+      );
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException ||
+        error instanceof ConflictException
+      ) {
+        throw error;
+      }
+      throw new BadRequestException(
+        `Failed to save component template: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  @Get(':organizationId')
+  @ApiOperation({ summary: 'Search the component library of an organization' })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiQuery({
+    name: 'componentType',
+    required: false,
+    enum: COMPONENT_TEMPLATE_TYPES,
+    description: 'Filter by function type',
+  })
+  @ApiQuery({
+    name: 'search',
+    required: false,
+    type: String,
+    description: 'Search in names, descriptions and tags',
+  })
+  @ApiQuery({
+    name: 'tag',
+    required: false,
+    type: String,
+    description: 'Filter by tag',
+  })
+  @ApiResponse({ status: 200, description: 'Returns the matching templates' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async findAll(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Request() req: AuthenticatedRequest,
+    @Query('componentType') componentType?: ComponentTemplateType,
+    @Query('search') search?: string,
+    @Query('tag') tag?: string,
+  ): Promise<ComponentTemplate[]> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'component library',
+    );
+
+    if (componentType && !COMPONENT_TEMPLATE_TYPES.includes(componentType)) {
+      throw new BadRequestException(
+        `Invalid component type: ${componentType}. Must be one of: ${COMPONENT_TEMPLATE_TYPES.join(', ')}`,
+      );
+    }
+
+    try {
+      return await this.componentLibraryService.findAll(organizationId, {
+        componentType,
+        search,
+        tag,
+      });
+    } catch (error) {
+      throw new BadRequestException(
+        `Failed to fetch component templates: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  @Get(':organizationId/:id')
+  @ApiOperation({ summary: 'Get a component template by id' })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'id', description: 'The template ID' })
+  @ApiResponse({ status: 200, description: 'Returns the template' })
+  @ApiResponse({ status: 404, description: 'Template not found' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async findOne(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('id', ParseMongoIdPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<ComponentTemplate> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'component library',
+    );
+
+    try {
+      return await this.componentLibraryService.findOne(id, organizationId);
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException
+      ) {
+        throw error;
+      }
+      throw new BadRequestException(
+        `Failed to fetch component template: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  @Put(':organizationId/:id')
+  @ApiOperation({
+    summary:
+      'Update a component template. Content changes flag the components instantiated from it as outdated',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'id', description: 'The template ID' })
+  @ApiResponse({ status: 200, description: 'Template updated successfully' })
+  @ApiResponse({ status: 404, description: 'Template not found' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  @ApiResponse({ status: 409, description: 'Template name already in use' })
+  @ApiBody({ type: UpdateComponentTemplateDto })
+  async update(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('id', ParseMongoIdPipe) id: string,
+    @Body() templateData: UpdateComponentTemplateDto,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<ComponentTemplateUpdateResult> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'component library',
+    );
+
+    try {
+      return await this.componentLibraryService.update(
+        id,
+        templateData,
+        organizationId,
+      );
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException ||
+        error instanceof ConflictException
+      ) {
+        throw error;
+      }
+      throw new BadRequestException(
+        `Failed to update component template: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  @Delete(':organizationId/:id')
+  @ApiOperation({
+    summary:
+      'Delete a component template. Components instantiated from it are kept and unlinked',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'id', description: 'The template ID' })
+  @ApiResponse({ status: 200, description: 'Template deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Template not found' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async remove(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('id', ParseMongoIdPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<{ success: boolean }> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'component library',
+    );
+
+    try {
+      const result = await this.componentLibraryService.remove(
+        id,
+        organizationId,
+      );
+      return { success: result };
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException
+      ) {
+        throw error;
+      }
+      throw new BadRequestException(
+        `Failed to delete component template: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  @Get(':organizationId/:id/instances')
+  @ApiOperation({
+    summary:
+      'List the estimate components instantiated from a template, flagging outdated ones',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'id', description: 'The template ID' })
+  @ApiResponse({ status: 200, description: 'Returns the linked components' })
+  @ApiResponse({ status: 404, description: 'Template not found' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async findInstances(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('id', ParseMongoIdPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<LinkedComponentSummary[]> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'component library',
+    );
+
+    try {
+      return await this.componentLibraryService.findInstances(
+        id,
+        organizationId,
+      );
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException
+      ) {
+        throw error;
+      }
+      throw new BadRequestException(
+        `Failed to fetch template instances: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  @Post(':organizationId/:id/instantiate')
+  @ApiOperation({
+    summary: 'Add a component built from a template to an estimate',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'id', description: 'The template ID' })
+  @ApiResponse({ status: 201, description: 'Component added to the estimate' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input data, or the estimate is in review or approved',
+  })
+  @ApiResponse({ status: 404, description: 'Template or estimate not found' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  @ApiResponse({
+    status: 409,
+    description: 'The estimate has a component of that type and name',
+  })
+  @ApiBody({ type: InstantiateComponentTemplateDto })
+  async instantiate(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('id', ParseMongoIdPipe) id: string,
+    @Body() instantiateData: InstantiateComponentTemplateDto,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<InstantiatedComponent> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'component library',
+    );
+
+    try {
+      return await this.componentLibraryService.instantiate(
+        id,
+        instantiateData,
+        organizationId,
+      );
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException ||
+        error instanceof ConflictException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
+      }
+      throw new BadRequestException(
+        `Failed to instantiate component template: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+}
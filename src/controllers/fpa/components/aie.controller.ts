@@ -31,6 +31,8 @@ import {
 import { CreateAIEDto } from '@application/fpa/dtos/create-aie.dto';
 import { UpdateAIEDto } from '@application/fpa/dtos/components/update-aie.dto';
 import { ComplexityCalculator } from '@domain/fpa/services/complexity-calculator.service';
+import { EstimateReviewWorkflow } from '@domain/fpa/services/estimate-review-workflow.service';
+import { ComponentElementDetailService } from '@application/fpa/use-cases/component-element-detail.service';
 
 @ApiTags('estimate-components')
 @Controller('estimates/:estimateId/components/eif')
@@ -41,6 +43,7 @@ export class AIEController {
     private readonly aieRepository: IAIERepository,
     @Inject(ESTIMATE_REPOSITORY)
     private readonly estimateRepository: IEstimateRepository,
+    private readonly elementDetailService: ComponentElementDetailService,
   ) {}
 
   @Post()
@@ -49,6 +52,10 @@ export class AIEController {
   })
   @ApiParam({ name: 'estimateId', description: 'The estimate ID' })
   @ApiResponse({ status: 201, description: 'EIF added successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid data, or the estimate is in review or approved',
+  })
   @ApiResponse({ status: 404, description: 'Estimate not found' })
   @ApiBody({ type: CreateAIEDto })
   async create(
@@ -61,17 +68,31 @@ export class AIEController {
       if (!estimate) {
         throw new NotFoundException(`Estimate with ID ${estimateId} not found`);
       }
+      const lockReason = EstimateReviewWorkflow.contentLockReason(
+        estimate.status,
+      );
+      if (lockReason) {
+        throw new BadRequestException(lockReason);
+      }
+
+      // Counts backed by named DET/RET lists are derived from them
+      const counts = await this.elementDetailService.resolveCounts(
+        estimate,
+        'AIE',
+        aieData,
+      );
 
       // Calculate complexity and function points using the new calculator
       const { complexity, functionPoints } =
         ComplexityCalculator.calculateEIFComplexity(
-          aieData.recordElementTypes,
-          aieData.dataElementTypes,
+          counts.recordElementTypes!,
+          counts.dataElementTypes!,
         );
 
       // Prepare AIE data with calculated values
       const aieToCreate: Partial<AIE> = {
         ...aieData,
+        ...counts,
         projectId: estimate.projectId,
         organizationId: estimate.organizationId, // Add organizationId from estimate
         complexity,
@@ -92,7 +113,10 @@ export class AIEController {
 
       return createdAIE;
     } catch (error) {
-      if (error instanceof NotFoundException) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
         throw error;
       }
       throw new BadRequestException(
@@ -185,6 +209,10 @@ export class AIEController {
   @ApiParam({ name: 'estimateId', description: 'The estimate ID' })
   @ApiParam({ name: 'id', description: 'The EIF ID' })
   @ApiResponse({ status: 200, description: 'EIF updated successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid data, or the estimate is in review or approved',
+  })
   @ApiResponse({ status: 404, description: 'EIF or estimate not found' })
   @ApiBody({ type: UpdateAIEDto })
   async update(
@@ -198,6 +226,12 @@ export class AIEController {
       if (!estimate) {
         throw new NotFoundException(`Estimate with ID ${estimateId} not found`);
       }
+      const lockReason = EstimateReviewWorkflow.contentLockReason(
+        estimate.status,
+      );
+      if (lockReason) {
+        throw new BadRequestException(lockReason);
+      }
 
       if (
         !estimate.externalInterfaceFiles ||
@@ -216,23 +250,23 @@ export class AIEController {
         throw new NotFoundException(`EIF with ID ${id} not found`);
       }
 
-      // Prepare update data with potential complexity recalculation
-      const updateData: Partial<AIE> = { ...aieData };
+      // Counts backed by named DET/RET lists are derived from them
+      const counts = await this.elementDetailService.resolveCounts(
+        estimate,
+        'AIE',
+        aieData,
+        currentAIE,
+      );
 
-      // Recalculate complexity if RETs or DETs changed
-      if (
-        aieData.recordElementTypes !== undefined ||
-        aieData.dataElementTypes !== undefined
-      ) {
-        const recordElementTypes =
-          aieData.recordElementTypes ?? currentAIE.recordElementTypes;
-        const dataElementTypes =
-          aieData.dataElementTypes ?? currentAIE.dataElementTypes;
+      // Prepare update data with potential complexity recalculation
+      const updateData: Partial<AIE> = { ...aieData, ...counts };
 
+      // Recalculate complexity if the counts or their lists changed
+      if (counts.dataElementTypes !== undefined) {
         const { complexity, functionPoints } =
           ComplexityCalculator.calculateEIFComplexity(
-            recordElementTypes,
-            dataElementTypes,
+            counts.recordElementTypes!,
+            counts.dataElementTypes,
           );
         updateData.complexity = complexity;
         updateData.functionPoints = functionPoints;
@@ -245,7 +279,10 @@ export class AIEController {
 
       return updatedAIE;
     } catch (error) {
-      if (error instanceof NotFoundException) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
         throw error;
       }
       throw new BadRequestException(
@@ -259,6 +296,10 @@ export class AIEController {
   @ApiParam({ name: 'estimateId', description: 'The estimate ID' })
   @ApiParam({ name: 'id', description: 'The EIF ID' })
   @ApiResponse({ status: 200, description: 'EIF removed successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'The estimate is in review or approved',
+  })
   @ApiResponse({ status: 404, description: 'EIF or estimate not found' })
   async remove(
     @Param('estimateId') estimateId: string,
@@ -270,6 +311,12 @@ export class AIEController {
       if (!estimate) {
         throw new NotFoundException(`Estimate with ID ${estimateId} not found`);
       }
+      const lockReason = EstimateReviewWorkflow.contentLockReason(
+        estimate.status,
+      );
+      if (lockReason) {
+        throw new BadRequestException(lockReason);
+      }
 
       // Remove reference from estimate
       if (estimate.externalInterfaceFiles) {
@@ -290,7 +337,10 @@ export class AIEController {
 
       return { success: true };
     } catch (error) {
-      if (error instanceof NotFoundException) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
         throw error;
       }
       throw new BadRequestException(
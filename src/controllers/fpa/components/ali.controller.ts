@@ -31,6 +31,8 @@ import {
 import { CreateALIDto } from '@application/fpa/dtos/create-ali.dto';
 import { UpdateALIDto } from '@application/fpa/dtos/components/update-ali.dto';
 import { ComplexityCalculator } from '@domain/fpa/services/complexity-calculator.service';
+import { EstimateReviewWorkflow } from '@domain/fpa/services/estimate-review-workflow.service';
+import { ComponentElementDetailService } from '@application/fpa/use-cases/component-element-detail.service';
 
 @ApiTags('estimate-components')
 @Controller('estimates/:estimateId/components/ilf')
@@ -41,6 +43,7 @@ export class ALIController {
     private readonly aliRepository: IALIRepository,
     @Inject(ESTIMATE_REPOSITORY)
     private readonly estimateRepository: IEstimateRepository,
+    private readonly elementDetailService: ComponentElementDetailService,
   ) {}
 
   @Post()
@@ -49,6 +52,10 @@ export class ALIController {
   })
   @ApiParam({ name: 'estimateId', description: 'The estimate ID' })
   @ApiResponse({ status: 201, description: 'ILF added successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid data, or the estimate is in review or approved',
+  })
   @ApiResponse({ status: 404, description: 'Estimate not found' })
   @ApiBody({ type: CreateALIDto })
   async create(
@@ -61,17 +68,31 @@ export class ALIController {
       if (!estimate) {
         throw new NotFoundException(`Estimate with ID ${estimateId} not found`);
       }
+      const lockReason = EstimateReviewWorkflow.contentLockReason(
+        estimate.status,
+      );
+      if (lockReason) {
+        throw new BadRequestException(lockReason);
+      }
+
+      // Counts backed by named DET/RET lists are derived from them
+      const counts = await this.elementDetailService.resolveCounts(
+        estimate,
+        'ALI',
+        aliData,
+      );
 
       // Calculate complexity and function points using the new calculator
       const { complexity, functionPoints } =
         ComplexityCalculator.calculateILFComplexity(
-          aliData.recordElementTypes,
-          aliData.dataElementTypes,
+          counts.recordElementTypes!,
+          counts.dataElementTypes!,
         );
 
       // Prepare ALI data with calculated values
       const aliToCreate: Partial<ALI> = {
         ...aliData,
+        ...counts,
         projectId: estimate.projectId,
         organizationId: estimate.organizationId, // Add organizationId from estimate
         complexity,
@@ -92,7 +113,10 @@ export class ALIController {
 
       return createdALI;
     } catch (error) {
-      if (error instanceof NotFoundException) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
         throw error;
       }
       throw new BadRequestException(
@@ -183,6 +207,10 @@ export class ALIController {
   @ApiParam({ name: 'estimateId', description: 'The estimate ID' })
   @ApiParam({ name: 'id', description: 'The ILF ID' })
   @ApiResponse({ status: 200, description: 'ILF updated successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid data, or the estimate is in review or approved',
+  })
   @ApiResponse({ status: 404, description: 'ILF or estimate not found' })
   @ApiBody({ type: UpdateALIDto })
   async update(
@@ -196,6 +224,12 @@ export class ALIController {
       if (!estimate) {
         throw new NotFoundException(`Estimate with ID ${estimateId} not found`);
       }
+      const lockReason = EstimateReviewWorkflow.contentLockReason(
+        estimate.status,
+      );
+      if (lockReason) {
+        throw new BadRequestException(lockReason);
+      }
 
       if (
         !estimate.internalLogicalFiles ||
@@ -212,23 +246,23 @@ export class ALIController {
         throw new NotFoundException(`ILF with ID ${id} not found`);
       }
 
-      // Prepare update data with potential complexity recalculation
-      const updateData: Partial<ALI> = { ...aliData };
+      // Counts backed by named DET/RET lists are derived from them
+      const counts = await this.elementDetailService.resolveCounts(
+        estimate,
+        'ALI',
+        aliData,
+        currentALI,
+      );
 
-      // Recalculate complexity if RETs or DETs changed
-      if (
-        aliData.recordElementTypes !== undefined ||
-        aliData.dataElementTypes !== undefined
-      ) {
-        const recordElementTypes =
-          aliData.recordElementTypes ?? currentALI.recordElementTypes;
-        const dataElementTypes =
-          aliData.dataElementTypes ?? currentALI.dataElementTypes;
+      // Prepare update data with potential complexity recalculation
+      const updateData: Partial<ALI> = { ...aliData, ...counts };
 
+      // Recalculate complexity if the counts or their lists changed
+      if (counts.dataElementTypes !== undefined) {
         const { complexity, functionPoints } =
           ComplexityCalculator.calculateILFComplexity(
-            recordElementTypes,
-            dataElementTypes,
+            counts.recordElementTypes!,
+            counts.dataElementTypes,
           );
         updateData.complexity = complexity;
         updateData.functionPoints = functionPoints;
@@ -241,7 +275,10 @@ export class ALIController {
 
       return updatedALI;
     } catch (error) {
-      if (error instanceof NotFoundException) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
         throw error;
       }
       throw new BadRequestException(
@@ -255,6 +292,10 @@ export class ALIController {
   @ApiParam({ name: 'estimateId', description: 'The estimate ID' })
   @ApiParam({ name: 'id', description: 'The ILF ID' })
   @ApiResponse({ status: 200, description: 'ILF removed successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'The estimate is in review or approved',
+  })
   @ApiResponse({ status: 404, description: 'ILF or estimate not found' })
   async remove(
     @Param('estimateId') estimateId: string,
@@ -266,6 +307,12 @@ export class ALIController {
       if (!estimate) {
         throw new NotFoundException(`Estimate with ID ${estimateId} not found`);
       }
+      const lockReason = EstimateReviewWorkflow.contentLockReason(
+        estimate.status,
+      );
+      if (lockReason) {
+        throw new BadRequestException(lockReason);
+      }
 
       // Remove reference from estimate
       if (estimate.internalLogicalFiles) {
@@ -285,7 +332,10 @@ export class ALIController {
 
       return { success: true };
     } catch (error) {
-      if (error instanceof NotFoundException) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
         throw error;
       }
       throw new BadRequestException(
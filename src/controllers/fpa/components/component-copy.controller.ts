@@ -0,0 +1,87 @@
+import {
+  Controller,
+  Post,
+  Body,
+  Param,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '@shared/utils/guards/jwt-auth.guard';
+import { CopyComponentsDto } from '@application/fpa/dtos/copy-components.dto';
+import {
+  ComponentCopyService,
+  ComponentCopyReport,
+} from '@application/fpa/use-cases/component-copy.service';
+
+interface AuthenticatedRequest {
+  user: {
+    _id: string;
+    email: string;
+    organizationId: string | null;
+  };
+}
+
+@ApiTags('estimate-components')
+@Controller('estimates/:estimateId/components/copy')
+@UseGuards(JwtAuthGuard)
+export class ComponentCopyController {
+  constructor(private readonly componentCopyService: ComponentCopyService) {}
+
+  @Post()
+  @ApiOperation({
+    summary:
+      'Copy selected or all components from another estimate of the organization',
+    description:
+      'Components whose type and name already exist in this estimate are skipped, renamed or overwritten according to duplicateStrategy.',
+  })
+  @ApiParam({ name: 'estimateId', description: 'The target estimate ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Returns what happened to each copied component',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid selection, or the target is in review or approved',
+  })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Access denied to estimate, or estimates of different organizations',
+  })
+  @ApiResponse({ status: 404, description: 'Estimate not found' })
+  @ApiBody({ type: CopyComponentsDto })
+  async copyComponents(
+    @Param('estimateId') estimateId: string,
+    @Body() copyDto: CopyComponentsDto,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<ComponentCopyReport> {
+    try {
+      return await this.componentCopyService.copyComponents(
+        estimateId,
+        copyDto,
+        req.user.organizationId,
+      );
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
+      }
+      throw new BadRequestException(
+        `Failed to copy components: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+}
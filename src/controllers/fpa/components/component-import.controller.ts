@@ -0,0 +1,116 @@
+import {
+  Controller,
+  Post,
+  Param,
+  Query,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  UseGuards,
+  Request,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiConsumes,
+  ApiBody,
+} from '@nestjs/swagger';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { JwtAuthGuard } from '@shared/utils/guards/jwt-auth.guard';
+import { MAX_FILE_SIZE } from '@shared/utils/constants';
+import {
+  ComponentImportService,
+  ComponentImportReport,
+  ComponentImportFile,
+} from '@application/fpa/use-cases/component-import.service';
+
+interface AuthenticatedRequest {
+  user: {
+    _id: string;
+    email: string;
+    organizationId: string | null;
+  };
+}
+
+@ApiTags('estimate-components')
+@Controller('estimates/:estimateId/components/import')
+@UseGuards(JwtAuthGuard)
+export class ComponentImportController {
+  constructor(
+    private readonly componentImportService: ComponentImportService,
+  ) {}
+
+  @Post()
+  @ApiOperation({
+    summary:
+      'Import components from a CSV or XLSX sheet (columns: type, name, DET, RET/FTR, intent)',
+    description:
+      'Every row is validated and reported with its errors and warnings. Unless dryRun is set, the valid rows are added to the estimate together.',
+  })
+  @ApiParam({ name: 'estimateId', description: 'The estimate ID' })
+  @ApiQuery({
+    name: 'dryRun',
+    description: 'Only validate the rows, without adding any component',
+    required: false,
+    type: Boolean,
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: { file: { type: 'string', format: 'binary' } },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Returns the per-row import report',
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Invalid or unreadable file, or the estimate is in review or approved',
+  })
+  @ApiResponse({ status: 403, description: 'Access denied to estimate' })
+  @ApiResponse({ status: 413, description: 'File too large' })
+  @ApiResponse({ status: 404, description: 'Estimate not found' })
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: { fileSize: parseInt(MAX_FILE_SIZE, 10) },
+    }),
+  )
+  async importComponents(
+    @Param('estimateId') estimateId: string,
+    @UploadedFile() file: ComponentImportFile,
+    @Request() req: AuthenticatedRequest,
+    @Query('dryRun') dryRun?: string,
+  ): Promise<ComponentImportReport> {
+    if (!file) {
+      throw new BadRequestException('No file provided');
+    }
+
+    try {
+      return await this.componentImportService.importComponents(
+        estimateId,
+        file,
+        dryRun === 'true',
+        req.user.organizationId,
+      );
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
+      }
+      throw new BadRequestException(
+        `Failed to import components: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+}
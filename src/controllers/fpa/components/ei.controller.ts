@@ -31,6 +31,8 @@ import {
 import { CreateEIDto } from '@application/fpa/dtos/create-ei.dto';
 import { UpdateEIDto } from '@application/fpa/dtos/components/update-ei.dto';
 import { ComplexityCalculator } from '@domain/fpa/services/complexity-calculator.service';
+import { EstimateReviewWorkflow } from '@domain/fpa/services/estimate-review-workflow.service';
+import { ComponentElementDetailService } from '@application/fpa/use-cases/component-element-detail.service';
 
 @ApiTags('estimate-components')
 @Controller('estimates/:estimateId/components/ei')
@@ -41,6 +43,7 @@ export class EIController {
     private readonly eiRepository: IEIRepository,
     @Inject(ESTIMATE_REPOSITORY)
     private readonly estimateRepository: IEstimateRepository,
+    private readonly elementDetailService: ComponentElementDetailService,
   ) {}
 
   @Post()
@@ -49,6 +52,10 @@ export class EIController {
   })
   @ApiParam({ name: 'estimateId', description: 'The estimate ID' })
   @ApiResponse({ status: 201, description: 'EI added successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid data, or the estimate is in review or approved',
+  })
   @ApiResponse({ status: 404, description: 'Estimate not found' })
   @ApiBody({ type: CreateEIDto })
   async create(
@@ -61,17 +68,34 @@ export class EIController {
       if (!estimate) {
         throw new NotFoundException(`Estimate with ID ${estimateId} not found`);
       }
+      const lockReason = EstimateReviewWorkflow.contentLockReason(
+        estimate.status,
+      );
+      if (lockReason) {
+        throw new BadRequestException(lockReason);
+      }
+
+      // Counts backed by named DET/FTR lists are derived from them
+      const counts = await this.elementDetailService.resolveCounts(
+        estimate,
+        'EI',
+        eiData,
+      );
 
       // Calculate complexity and function points using the new calculator
       const { complexity, functionPoints } =
         ComplexityCalculator.calculateEIComplexity(
-          eiData.fileTypesReferenced,
-          eiData.dataElementTypes,
+          counts.fileTypesReferenced!,
+          counts.dataElementTypes!,
         );
 
       // Prepare EI data with calculated values
+      // Referenced files are stored as resolved in counts
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { referencedFiles, ...eiFields } = eiData;
       const eiToCreate: Partial<EI> = {
-        ...eiData,
+        ...eiFields,
+        ...counts,
         projectId: estimate.projectId,
         organizationId: estimate.organizationId, // Add organizationId from estimate
         complexity,
@@ -92,7 +116,10 @@ export class EIController {
 
       return createdEI;
     } catch (error) {
-      if (error instanceof NotFoundException) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
         throw error;
       }
       throw new BadRequestException(
@@ -180,6 +207,10 @@ export class EIController {
   @ApiParam({ name: 'estimateId', description: 'The estimate ID' })
   @ApiParam({ name: 'id', description: 'The EI ID' })
   @ApiResponse({ status: 200, description: 'EI updated successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid data, or the estimate is in review or approved',
+  })
   @ApiResponse({ status: 404, description: 'EI or estimate not found' })
   @ApiBody({ type: UpdateEIDto })
   async update(
@@ -193,6 +224,12 @@ export class EIController {
       if (!estimate) {
         throw new NotFoundException(`Estimate with ID ${estimateId} not found`);
       }
+      const lockReason = EstimateReviewWorkflow.contentLockReason(
+        estimate.status,
+      );
+      if (lockReason) {
+        throw new BadRequestException(lockReason);
+      }
 
       if (
         !estimate.externalInputs ||
@@ -209,23 +246,26 @@ export class EIController {
         throw new NotFoundException(`EI with ID ${id} not found`);
       }
 
-      // Prepare update data with potential complexity recalculation
-      const updateData: Partial<EI> = { ...eiData };
+      // Counts backed by named DET/FTR lists are derived from them
+      const counts = await this.elementDetailService.resolveCounts(
+        estimate,
+        'EI',
+        eiData,
+        currentEI,
+      );
 
-      // Recalculate complexity if FTRs or DETs changed
-      if (
-        eiData.fileTypesReferenced !== undefined ||
-        eiData.dataElementTypes !== undefined
-      ) {
-        const fileTypesReferenced =
-          eiData.fileTypesReferenced ?? currentEI.fileTypesReferenced;
-        const dataElementTypes =
-          eiData.dataElementTypes ?? currentEI.dataElementTypes;
+      // Prepare update data with potential complexity recalculation
+      // Referenced files are stored as resolved in counts
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { referencedFiles, ...eiFields } = eiData;
+      const updateData: Partial<EI> = { ...eiFields, ...counts };
 
+      // Recalculate complexity if the counts or their lists changed
+      if (counts.dataElementTypes !== undefined) {
         const { complexity, functionPoints } =
           ComplexityCalculator.calculateEIComplexity(
-            fileTypesReferenced,
-            dataElementTypes,
+            counts.fileTypesReferenced!,
+            counts.dataElementTypes,
           );
         updateData.complexity = complexity;
         updateData.functionPoints = functionPoints;
@@ -238,7 +278,10 @@ export class EIController {
 
       return updatedEI;
     } catch (error) {
-      if (error instanceof NotFoundException) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
         throw error;
       }
       throw new BadRequestException(
@@ -252,6 +295,10 @@ export class EIController {
   @ApiParam({ name: 'estimateId', description: 'The estimate ID' })
   @ApiParam({ name: 'id', description: 'The EI ID' })
   @ApiResponse({ status: 200, description: 'EI removed successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'The estimate is in review or approved',
+  })
   @ApiResponse({ status: 404, description: 'EI or estimate not found' })
   async remove(
     @Param('estimateId') estimateId: string,
@@ -263,6 +310,12 @@ export class EIController {
       if (!estimate) {
         throw new NotFoundException(`Estimate with ID ${estimateId} not found`);
       }
+      const lockReason = EstimateReviewWorkflow.contentLockReason(
+        estimate.status,
+      );
+      if (lockReason) {
+        throw new BadRequestException(lockReason);
+      }
 
       // Remove reference from estimate
       if (estimate.externalInputs) {
@@ -278,7 +331,10 @@ export class EIController {
       const result = await this.eiRepository.delete(id);
       return { success: result };
     } catch (error) {
-      if (error instanceof NotFoundException) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
         throw error;
       }
       throw new BadRequestException(
@@ -31,6 +31,8 @@ import {
 import { CreateEODto } from '@application/fpa/dtos/create-eo.dto';
 import { UpdateEODto } from '@application/fpa/dtos/components/update-eo.dto';
 import { ComplexityCalculator } from '@domain/fpa/services/complexity-calculator.service';
+import { EstimateReviewWorkflow } from '@domain/fpa/services/estimate-review-workflow.service';
+import { ComponentElementDetailService } from '@application/fpa/use-cases/component-element-detail.service';
 
 @ApiTags('estimate-components')
 @Controller('estimates/:estimateId/components/eo')
@@ -41,6 +43,7 @@ export class EOController {
     private readonly eoRepository: IEORepository,
     @Inject(ESTIMATE_REPOSITORY)
     private readonly estimateRepository: IEstimateRepository,
+    private readonly elementDetailService: ComponentElementDetailService,
   ) {}
 
   @Post()
@@ -49,6 +52,10 @@ export class EOController {
   })
   @ApiParam({ name: 'estimateId', description: 'The estimate ID' })
   @ApiResponse({ status: 201, description: 'EO added successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid data, or the estimate is in review or approved',
+  })
   @ApiResponse({ status: 404, description: 'Estimate not found' })
   @ApiBody({ type: CreateEODto })
   async create(
@@ -61,17 +68,34 @@ export class EOController {
       if (!estimate) {
         throw new NotFoundException(`Estimate with ID ${estimateId} not found`);
       }
+      const lockReason = EstimateReviewWorkflow.contentLockReason(
+        estimate.status,
+      );
+      if (lockReason) {
+        throw new BadRequestException(lockReason);
+      }
+
+      // Counts backed by named DET/FTR lists are derived from them
+      const counts = await this.elementDetailService.resolveCounts(
+        estimate,
+        'EO',
+        eoData,
+      );
 
       // Calculate complexity and function points using the new calculator
       const { complexity, functionPoints } =
         ComplexityCalculator.calculateEOComplexity(
-          eoData.fileTypesReferenced,
-          eoData.dataElementTypes,
+          counts.fileTypesReferenced!,
+          counts.dataElementTypes!,
         );
 
       // Prepare EO data with calculated values
+      // Referenced files are stored as resolved in counts
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { referencedFiles, ...eoFields } = eoData;
       const eoToCreate: Partial<EO> = {
-        ...eoData,
+        ...eoFields,
+        ...counts,
         projectId: estimate.projectId,
         organizationId: estimate.organizationId, // Add organizationId from estimate
         complexity,
@@ -92,7 +116,10 @@ export class EOController {
 
       return createdEO;
     } catch (error) {
-      if (error instanceof NotFoundException) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
         throw error;
       }
       throw new BadRequestException(
@@ -180,6 +207,10 @@ export class EOController {
   @ApiParam({ name: 'estimateId', description: 'The estimate ID' })
   @ApiParam({ name: 'id', description: 'The EO ID' })
   @ApiResponse({ status: 200, description: 'EO updated successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid data, or the estimate is in review or approved',
+  })
   @ApiResponse({ status: 404, description: 'EO or estimate not found' })
   @ApiBody({ type: UpdateEODto })
   async update(
@@ -193,6 +224,12 @@ export class EOController {
       if (!estimate) {
         throw new NotFoundException(`Estimate with ID ${estimateId} not found`);
       }
+      const lockReason = EstimateReviewWorkflow.contentLockReason(
+        estimate.status,
+      );
+      if (lockReason) {
+        throw new BadRequestException(lockReason);
+      }
 
       if (
         !estimate.externalOutputs ||
@@ -209,23 +246,26 @@ export class EOController {
         throw new NotFoundException(`EO with ID ${id} not found`);
       }
 
-      // Prepare update data with potential complexity recalculation
-      const updateData: Partial<EO> = { ...eoData };
+      // Counts backed by named DET/FTR lists are derived from them
+      const counts = await this.elementDetailService.resolveCounts(
+        estimate,
+        'EO',
+        eoData,
+        currentEO,
+      );
 
-      // Recalculate complexity if FTRs or DETs changed
-      if (
-        eoData.fileTypesReferenced !== undefined ||
-        eoData.dataElementTypes !== undefined
-      ) {
-        const fileTypesReferenced =
-          eoData.fileTypesReferenced ?? currentEO.fileTypesReferenced;
-        const dataElementTypes =
-          eoData.dataElementTypes ?? currentEO.dataElementTypes;
+      // Prepare update data with potential complexity recalculation
+      // Referenced files are stored as resolved in counts
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { referencedFiles, ...eoFields } = eoData;
+      const updateData: Partial<EO> = { ...eoFields, ...counts };
 
+      // Recalculate complexity if the counts or their lists changed
+      if (counts.dataElementTypes !== undefined) {
         const { complexity, functionPoints } =
           ComplexityCalculator.calculateEOComplexity(
-            fileTypesReferenced,
-            dataElementTypes,
+            counts.fileTypesReferenced!,
+            counts.dataElementTypes,
           );
         updateData.complexity = complexity;
         updateData.functionPoints = functionPoints;
@@ -238,7 +278,10 @@ export class EOController {
 
       return updatedEO;
     } catch (error) {
-      if (error instanceof NotFoundException) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
         throw error;
       }
       throw new BadRequestException(
@@ -252,6 +295,10 @@ export class EOController {
   @ApiParam({ name: 'estimateId', description: 'The estimate ID' })
   @ApiParam({ name: 'id', description: 'The EO ID' })
   @ApiResponse({ status: 200, description: 'EO removed successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'The estimate is in review or approved',
+  })
   @ApiResponse({ status: 404, description: 'EO or estimate not found' })
   async remove(
     @Param('estimateId') estimateId: string,
@@ -263,6 +310,12 @@ export class EOController {
       if (!estimate) {
         throw new NotFoundException(`Estimate with ID ${estimateId} not found`);
       }
+      const lockReason = EstimateReviewWorkflow.contentLockReason(
+        estimate.status,
+      );
+      if (lockReason) {
+        throw new BadRequestException(lockReason);
+      }
 
       // Remove reference from estimate
       if (estimate.externalOutputs) {
@@ -278,7 +331,10 @@ export class EOController {
       const result = await this.eoRepository.delete(id);
       return { success: result };
     } catch (error) {
-      if (error instanceof NotFoundException) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
         throw error;
       }
       throw new BadRequestException(
@@ -32,6 +32,8 @@ import {
 import { CreateEQDto } from '@application/fpa/dtos/create-eq.dto';
 import { UpdateEQDto } from '@application/fpa/dtos/components/update-eq.dto';
 import { ComplexityCalculator } from '@domain/fpa/services/complexity-calculator.service';
+import { EstimateReviewWorkflow } from '@domain/fpa/services/estimate-review-workflow.service';
+import { ComponentElementDetailService } from '@application/fpa/use-cases/component-element-detail.service';
 
 @ApiTags('estimate-components')
 @Controller('estimates/:estimateId/components/eq')
@@ -42,6 +44,7 @@ export class EQController {
     private readonly eqRepository: IEQRepository,
     @Inject(ESTIMATE_REPOSITORY)
     private readonly estimateRepository: IEstimateRepository,
+    private readonly elementDetailService: ComponentElementDetailService,
   ) {}
 
   @Post()
@@ -51,6 +54,10 @@ export class EQController {
     status: 201,
     description: 'EQ component created successfully',
   })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid data, or the estimate is in review or approved',
+  })
   @ApiResponse({ status: 404, description: 'Estimate not found' })
   @ApiBody({
     type: CreateEQDto,
@@ -66,6 +73,19 @@ export class EQController {
       if (!estimate) {
         throw new NotFoundException(`Estimate with ID ${estimateId} not found`);
       }
+      const lockReason = EstimateReviewWorkflow.contentLockReason(
+        estimate.status,
+      );
+      if (lockReason) {
+        throw new BadRequestException(lockReason);
+      }
+
+      // Counts backed by named DET/FTR lists are derived from them
+      const counts = await this.elementDetailService.resolveCounts(
+        estimate,
+        'EQ',
+        eqData,
+      );
 
       // Calculate complexity and function points
       let complexity: ComplexityLevel;
@@ -89,8 +109,8 @@ export class EQController {
         functionPoints = specialResult.finalFunctionPoints;
       } else {
         // Use standard calculation with required parameters
-        const ftr = eqData.fileTypesReferenced ?? 0;
-        const det = eqData.dataElementTypes ?? 1;
+        const ftr = counts.fileTypesReferenced ?? 0;
+        const det = counts.dataElementTypes ?? 1;
 
         const result = ComplexityCalculator.calculateEQComplexity(ftr, det);
         complexity = result.complexity;
@@ -98,8 +118,12 @@ export class EQController {
       }
 
       // Prepare EQ data with calculated values
+      // Referenced files are stored as resolved in counts
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { referencedFiles, ...eqFields } = eqData;
       const eqToCreate: Partial<EQ> = {
-        ...eqData,
+        ...eqFields,
+        ...counts,
         projectId: estimate.projectId,
         organizationId: estimate.organizationId, // Add organizationId from estimate
         complexity,
@@ -120,7 +144,10 @@ export class EQController {
 
       return createdEQ;
     } catch (error) {
-      if (error instanceof NotFoundException) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
         throw error;
       }
       throw new BadRequestException(
@@ -208,6 +235,10 @@ export class EQController {
   @ApiParam({ name: 'estimateId', description: 'The estimate ID' })
   @ApiParam({ name: 'id', description: 'The EQ ID' })
   @ApiResponse({ status: 200, description: 'EQ updated successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid data, or the estimate is in review or approved',
+  })
   @ApiResponse({ status: 404, description: 'EQ or estimate not found' })
   @ApiBody({ type: UpdateEQDto })
   async update(
@@ -221,6 +252,12 @@ export class EQController {
       if (!estimate) {
         throw new NotFoundException(`Estimate with ID ${estimateId} not found`);
       }
+      const lockReason = EstimateReviewWorkflow.contentLockReason(
+        estimate.status,
+      );
+      if (lockReason) {
+        throw new BadRequestException(lockReason);
+      }
 
       if (
         !estimate.externalQueries ||
@@ -237,23 +274,26 @@ export class EQController {
         throw new NotFoundException(`EQ with ID ${id} not found`);
       }
 
-      // Prepare update data with potential complexity recalculation
-      const updateData: Partial<EQ> = { ...eqData };
+      // Counts backed by named DET/FTR lists are derived from them
+      const counts = await this.elementDetailService.resolveCounts(
+        estimate,
+        'EQ',
+        eqData,
+        currentEQ,
+      );
 
-      // Recalculate complexity if FTRs or DETs changed
-      if (
-        eqData.fileTypesReferenced !== undefined ||
-        eqData.dataElementTypes !== undefined
-      ) {
-        const fileTypesReferenced =
-          eqData.fileTypesReferenced ?? currentEQ.fileTypesReferenced;
-        const dataElementTypes =
-          eqData.dataElementTypes ?? currentEQ.dataElementTypes;
+      // Prepare update data with potential complexity recalculation
+      // Referenced files are stored as resolved in counts
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { referencedFiles, ...eqFields } = eqData;
+      const updateData: Partial<EQ> = { ...eqFields, ...counts };
 
+      // Recalculate complexity if the counts or their lists changed
+      if (counts.dataElementTypes !== undefined) {
         const { complexity, functionPoints } =
           ComplexityCalculator.calculateEQComplexity(
-            fileTypesReferenced,
-            dataElementTypes,
+            counts.fileTypesReferenced!,
+            counts.dataElementTypes,
           );
         updateData.complexity = complexity;
         updateData.functionPoints = functionPoints;
@@ -266,7 +306,10 @@ export class EQController {
 
       return updatedEQ;
     } catch (error) {
-      if (error instanceof NotFoundException) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
         throw error;
       }
       throw new BadRequestException(
@@ -280,6 +323,10 @@ export class EQController {
   @ApiParam({ name: 'estimateId', description: 'The estimate ID' })
   @ApiParam({ name: 'id', description: 'The EQ ID' })
   @ApiResponse({ status: 200, description: 'EQ removed successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'The estimate is in review or approved',
+  })
   @ApiResponse({ status: 404, description: 'EQ or estimate not found' })
   async remove(
     @Param('estimateId') estimateId: string,
@@ -291,6 +338,12 @@ export class EQController {
       if (!estimate) {
         throw new NotFoundException(`Estimate with ID ${estimateId} not found`);
       }
+      const lockReason = EstimateReviewWorkflow.contentLockReason(
+        estimate.status,
+      );
+      if (lockReason) {
+        throw new BadRequestException(lockReason);
+      }
 
       // Remove reference from estimate
       if (estimate.externalQueries) {
@@ -306,7 +359,10 @@ export class EQController {
       const result = await this.eqRepository.delete(id);
       return { success: result };
     } catch (error) {
-      if (error instanceof NotFoundException) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
         throw error;
       }
       throw new BadRequestException(
@@ -0,0 +1,295 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Put,
+  UseGuards,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  UnprocessableEntityException,
+  Request,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '@shared/utils/guards/jwt-auth.guard';
+import { OrganizationAccessUtils } from '@shared/utils/organization-access.utils';
+import { ParseMongoIdPipe } from '@shared/utils/pipes/parse-mongo-id.pipe';
+import { UserRole } from '@domain/users/entities/user.entity';
+import {
+  AssignReviewersDto,
+  ReviewCommentDto,
+  ReviewDecisionDto,
+} from '@application/fpa/dtos/estimate-review.dto';
+import {
+  EstimateReviewService,
+  EstimateReview,
+} from '@application/fpa/use-cases/estimate-review.service';
+
+interface AuthenticatedRequest {
+  user: {
+    _id: string;
+    email: string;
+    role: UserRole;
+    organizationId: string | null;
+  };
+}
+
+@ApiTags('Estimate Reviews')
+@Controller('estimates')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class EstimateReviewsController {
+  constructor(private readonly estimateReviewService: EstimateReviewService) {}
+
+  @Get(':organizationId/:id/review')
+  @ApiOperation({
+    summary: 'Get the reviewers, their decisions and the review comments',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'id', description: 'The estimate ID' })
+  @ApiResponse({ status: 200, description: 'Returns the review' })
+  @ApiResponse({ status: 404, description: 'Estimate not found' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async getReview(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('id', ParseMongoIdPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<EstimateReview> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'estimate reviews',
+    );
+
+    try {
+      return await this.estimateReviewService.getReview(id, organizationId);
+    } catch (error) {
+      this.rethrow(error, 'fetch review');
+    }
+  }
+
+  @Put(':organizationId/:id/review/reviewers')
+  @ApiOperation({ summary: 'Assign the users reviewing the count' })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'id', description: 'The estimate ID' })
+  @ApiResponse({ status: 200, description: 'Reviewers assigned' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'The estimate is in review or a reviewer is the author or outside the organization',
+  })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  @ApiBody({ type: AssignReviewersDto })
+  async assignReviewers(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('id', ParseMongoIdPipe) id: string,
+    @Body() assignData: AssignReviewersDto,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<EstimateReview> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'estimate reviews',
+    );
+
+    try {
+      return await this.estimateReviewService.assignReviewers(
+        id,
+        assignData,
+        organizationId,
+        req.user._id,
+      );
+    } catch (error) {
+      this.rethrow(error, 'assign reviewers');
+    }
+  }
+
+  @Post(':organizationId/:id/review/submit')
+  @ApiOperation({ summary: 'Submit the count to its reviewers' })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'id', description: 'The estimate ID' })
+  @ApiResponse({ status: 201, description: 'Estimate in review' })
+  @ApiResponse({
+    status: 400,
+    description: 'No reviewers or the estimate cannot be submitted',
+  })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async submit(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('id', ParseMongoIdPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<EstimateReview> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'estimate reviews',
+    );
+
+    try {
+      return await this.estimateReviewService.submit(
+        id,
+        organizationId,
+        req.user._id,
+      );
+    } catch (error) {
+      this.rethrow(error, 'submit estimate for review');
+    }
+  }
+
+  @Post(':organizationId/:id/review/withdraw')
+  @ApiOperation({ summary: 'Withdraw the count from review, back to draft' })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'id', description: 'The estimate ID' })
+  @ApiResponse({ status: 201, description: 'Estimate back to draft' })
+  @ApiResponse({ status: 400, description: 'The estimate is not in review' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async withdraw(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('id', ParseMongoIdPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<EstimateReview> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'estimate reviews',
+    );
+
+    try {
+      return await this.estimateReviewService.withdraw(
+        id,
+        organizationId,
+        req.user._id,
+      );
+    } catch (error) {
+      this.rethrow(error, 'withdraw estimate from review');
+    }
+  }
+
+  @Post(':organizationId/:id/review/comments')
+  @ApiOperation({
+    summary: 'Comment on the count or one of its components',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'id', description: 'The estimate ID' })
+  @ApiResponse({ status: 201, description: 'Comment added' })
+  @ApiResponse({
+    status: 403,
+    description: 'Not a reviewer or the author of the estimate',
+  })
+  @ApiResponse({ status: 404, description: 'Estimate or component not found' })
+  @ApiBody({ type: ReviewCommentDto })
+  async addComment(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('id', ParseMongoIdPipe) id: string,
+    @Body() commentData: ReviewCommentDto,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<EstimateReview> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'estimate reviews',
+    );
+
+    try {
+      return await this.estimateReviewService.addComment(
+        id,
+        commentData,
+        organizationId,
+        req.user._id,
+      );
+    } catch (error) {
+      this.rethrow(error, 'add review comment');
+    }
+  }
+
+  @Post(':organizationId/:id/review/approve')
+  @ApiOperation({ summary: 'Approve the count as an assigned reviewer' })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'id', description: 'The estimate ID' })
+  @ApiResponse({ status: 201, description: 'Decision recorded' })
+  @ApiResponse({ status: 400, description: 'The estimate is not in review' })
+  @ApiResponse({ status: 403, description: 'Not a reviewer of the estimate' })
+  @ApiBody({ type: ReviewDecisionDto })
+  async approve(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('id', ParseMongoIdPipe) id: string,
+    @Body() decisionData: ReviewDecisionDto,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<EstimateReview> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'estimate reviews',
+    );
+
+    try {
+      return await this.estimateReviewService.approve(
+        id,
+        decisionData,
+        organizationId,
+        req.user,
+      );
+    } catch (error) {
+      this.rethrow(error, 'approve estimate');
+    }
+  }
+
+  @Post(':organizationId/:id/review/reject')
+  @ApiOperation({
+    summary: 'Request changes to the count as an assigned reviewer',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'id', description: 'The estimate ID' })
+  @ApiResponse({ status: 201, description: 'Decision recorded' })
+  @ApiResponse({
+    status: 400,
+    description: 'The estimate is not in review or the comment is missing',
+  })
+  @ApiResponse({ status: 403, description: 'Not a reviewer of the estimate' })
+  @ApiBody({ type: ReviewDecisionDto })
+  async reject(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('id', ParseMongoIdPipe) id: string,
+    @Body() decisionData: ReviewDecisionDto,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<EstimateReview> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'estimate reviews',
+    );
+
+    try {
+      return await this.estimateReviewService.requestChanges(
+        id,
+        decisionData,
+        organizationId,
+        req.user,
+      );
+    } catch (error) {
+      this.rethrow(error, 'request changes');
+    }
+  }
+
+  private rethrow(error: unknown, action: string): never {
+    if (
+      error instanceof NotFoundException ||
+      error instanceof ForbiddenException ||
+      error instanceof UnprocessableEntityException
+    ) {
+      throw error;
+    }
+    throw new BadRequestException(
+      `Failed to ${action}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+}
@@ -11,6 +11,8 @@ import { AIEController } from '@controllers/fpa/components/aie.controller';
 import { EIController } from '@controllers/fpa/components/ei.controller';
 import { EOController } from '@controllers/fpa/components/eo.controller';
 import { EQController } from '@controllers/fpa/components/eq.controller';
+import { ComponentImportController } from '@controllers/fpa/components/component-import.controller';
+import { ComponentCopyController } from '@controllers/fpa/components/component-copy.controller';
 
 @Module({
   imports: [FPAModule],
@@ -22,6 +24,8 @@ import { EQController } from '@controllers/fpa/components/eq.controller';
     EIController,
     EOController,
     EQController,
+    ComponentImportController,
+    ComponentCopyController,
   ],
 })
 export class EstimatesComponentsModule {}
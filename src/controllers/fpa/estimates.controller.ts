@@ -11,6 +11,7 @@ import {
   NotFoundException,
   BadRequestException,
   ForbiddenException,
+  UnprocessableEntityException,
   Request,
 } from '@nestjs/common';
 import {
@@ -22,15 +23,26 @@ import {
   ApiBearerAuth,
 } from '@nestjs/swagger';
 import { JwtAuthGuard } from '@shared/utils/guards/jwt-auth.guard';
+import { OrganizationAccessUtils } from '@shared/utils/organization-access.utils';
 import { ParseMongoIdPipe } from '@shared/utils/pipes/parse-mongo-id.pipe';
 import { Estimate } from '@domain/fpa/entities/estimate.entity';
 import { CreateEstimateDto } from '@application/fpa/dtos/create-estimate.dto';
 import { UpdateEstimateDto } from '@application/fpa/dtos/update-estimate.dto';
-import { EstimateService } from '@application/fpa/use-cases/estimate.service';
+import {
+  RecordActualsDto,
+  RecordMilestoneActualsDto,
+} from '@application/fpa/dtos/record-actuals.dto';
+import {
+  EstimateService,
+  EstimateVersionDiff,
+  EstimateConsistencyReport,
+} from '@application/fpa/use-cases/estimate.service';
+import { QualityGateEvaluation } from '@application/fpa/use-cases/quality-gate.service';
 import {
   FunctionPointCalculator,
   EstimationMetrics,
 } from '@domain/fpa/services/function-point-calculator.service';
+import { ComplexityCalculator } from '@domain/fpa/services/complexity-calculator.service';
 
 interface AuthenticatedRequest {
   user: {
@@ -151,6 +163,10 @@ export class EstimatesController {
   @ApiResponse({ status: 200, description: 'Estimate updated successfully' })
   @ApiResponse({ status: 404, description: 'Estimate not found' })
   @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  @ApiResponse({
+    status: 422,
+    description: 'Finalization blocked by quality gates; lists the failures',
+  })
   @ApiBody({
     type: UpdateEstimateDto,
     description: 'Updated estimate data',
@@ -168,11 +184,13 @@ export class EstimatesController {
         id,
         estimateData,
         organizationId,
+        req.user._id,
       );
     } catch (error) {
       if (
         error instanceof NotFoundException ||
-        error instanceof ForbiddenException
+        error instanceof ForbiddenException ||
+        error instanceof UnprocessableEntityException
       ) {
         throw error;
       }
@@ -241,6 +259,259 @@ export class EstimatesController {
     }
   }
 
+  @Get(':organizationId/:id/history')
+  @ApiOperation({
+    summary: 'Get every version of an estimate, oldest first',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'id', description: 'Any version of the estimate' })
+  @ApiResponse({ status: 200, description: 'Returns the version history' })
+  @ApiResponse({ status: 404, description: 'Estimate not found' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async getVersionHistory(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('id', ParseMongoIdPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<Estimate[]> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'estimates',
+    );
+
+    try {
+      return await this.estimateService.getVersionHistory(id, organizationId);
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException
+      ) {
+        throw error;
+      }
+      throw new BadRequestException(
+        `Failed to fetch version history: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  @Get(':organizationId/:id/diff/:otherId')
+  @ApiOperation({
+    summary:
+      'Compare two versions of an estimate: components added, removed or recounted and the change in size, effort and cost',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'id', description: 'The version to compare from' })
+  @ApiParam({ name: 'otherId', description: 'The version to compare to' })
+  @ApiResponse({ status: 200, description: 'Returns the version diff' })
+  @ApiResponse({
+    status: 400,
+    description: 'Estimates are not versions of the same estimate',
+  })
+  @ApiResponse({ status: 404, description: 'Estimate not found' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async diffVersions(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('id', ParseMongoIdPipe) id: string,
+    @Param('otherId', ParseMongoIdPipe) otherId: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<EstimateVersionDiff> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'estimates',
+    );
+
+    try {
+      return await this.estimateService.diffVersions(
+        id,
+        otherId,
+        organizationId,
+      );
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException
+      ) {
+        throw error;
+      }
+      throw new BadRequestException(
+        `Failed to compare versions: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  @Get(':organizationId/:id/consistency')
+  @ApiOperation({
+    summary:
+      'Validate the components of an estimate against each other before finalizing it',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'id', description: 'The estimate ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the findings with their severity',
+  })
+  @ApiResponse({ status: 404, description: 'Estimate not found' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async validateConsistency(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('id', ParseMongoIdPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<EstimateConsistencyReport> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'estimates',
+    );
+
+    try {
+      return await this.estimateService.validateConsistency(id, organizationId);
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException
+      ) {
+        throw error;
+      }
+      throw new BadRequestException(
+        `Failed to validate estimate: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  @Get(':organizationId/:id/quality-gates')
+  @ApiOperation({
+    summary:
+      'Evaluate the quality gates of the organization that block finalizing the estimate',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'id', description: 'The estimate ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the gates and the failed ones',
+  })
+  @ApiResponse({ status: 404, description: 'Estimate not found' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async evaluateQualityGates(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('id', ParseMongoIdPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<QualityGateEvaluation> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'estimates',
+    );
+
+    try {
+      return await this.estimateService.evaluateQualityGates(
+        id,
+        organizationId,
+      );
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException
+      ) {
+        throw error;
+      }
+      throw new BadRequestException(
+        `Failed to evaluate quality gates: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  @Put(':organizationId/:id/actuals')
+  @ApiOperation({
+    summary:
+      'Record the actual effort and delivered size of a finalized estimate of a completed project',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'id', description: 'The estimate ID' })
+  @ApiResponse({ status: 200, description: 'Actuals recorded successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Estimate not finalized or project not completed',
+  })
+  @ApiResponse({ status: 404, description: 'Estimate not found' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  @ApiBody({ type: RecordActualsDto })
+  async recordActuals(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('id', ParseMongoIdPipe) id: string,
+    @Body() actualsDto: RecordActualsDto,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<Estimate> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'estimates',
+    );
+
+    try {
+      return await this.estimateService.recordActuals(
+        id,
+        actualsDto,
+        organizationId,
+        req.user._id,
+      );
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException
+      ) {
+        throw error;
+      }
+      throw new BadRequestException(
+        `Failed to record actuals: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  @Post(':organizationId/:id/milestones')
+  @ApiOperation({
+    summary:
+      'Record the actual effort, cost, duration and team size of a finalized estimate at a milestone',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'id', description: 'The estimate ID' })
+  @ApiResponse({ status: 201, description: 'Milestone actuals recorded' })
+  @ApiResponse({ status: 400, description: 'Estimate not finalized' })
+  @ApiResponse({ status: 404, description: 'Estimate not found' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  @ApiBody({ type: RecordMilestoneActualsDto })
+  async recordMilestoneActuals(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('id', ParseMongoIdPipe) id: string,
+    @Body() actualsDto: RecordMilestoneActualsDto,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<Estimate> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'estimates',
+    );
+
+    try {
+      return await this.estimateService.recordMilestoneActuals(
+        id,
+        actualsDto,
+        organizationId,
+        req.user._id,
+      );
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException
+      ) {
+        throw error;
+      }
+      throw new BadRequestException(
+        `Failed to record milestone actuals: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
   @Get(':organizationId/:id/overview')
   @ApiOperation({ summary: 'Get estimate overview with detailed metrics' })
   @ApiParam({ name: 'organizationId', description: 'Organization ID' })
@@ -260,67 +531,22 @@ export class EstimatesController {
     try {
       const estimate = await this.estimateService.findOne(id, organizationId);
 
-      // Get all components for detailed calculations - Placeholder logic
-      // TODO: Replace with actual component repository calls
-      const aliComponents =
-        estimate.internalLogicalFiles?.map(() => ({
-          type: 'ALI',
-          functionPoints: 10,
-          complexity: 'AVERAGE',
-        })) || [];
-
-      const aieComponents =
-        estimate.externalInterfaceFiles?.map(() => ({
-          type: 'AIE',
-          functionPoints: 7,
-          complexity: 'AVERAGE',
-        })) || [];
-
-      const eiComponents =
-        estimate.externalInputs?.map(() => ({
-          type: 'EI',
-          functionPoints: 4,
-          complexity: 'LOW',
-        })) || [];
-
-      const eoComponents =
-        estimate.externalOutputs?.map(() => ({
-          type: 'EO',
-          functionPoints: 5,
-          complexity: 'AVERAGE',
-        })) || [];
-
-      const eqComponents =
-        estimate.externalQueries?.map(() => ({
-          type: 'EQ',
-          functionPoints: 3,
-          complexity: 'LOW',
-        })) || [];
-
-      // Combine all components
-      const allComponents = [
-        ...aliComponents,
-        ...aieComponents,
-        ...eiComponents,
-        ...eoComponents,
-        ...eqComponents,
-      ];
-
-      // Extract function points for calculation
-      const componentFunctionPoints = allComponents.map(
-        (c) => c.functionPoints,
+      // Load the counting data of every component in a single aggregation
+      const allComponents = await this.estimateService.findComponentSummaries(
+        id,
+        organizationId,
       );
-
-      // Calculate enhanced FPA metrics using new service
-      const metrics = FunctionPointCalculator.calculateEstimationMetrics(
-        componentFunctionPoints,
-        {
-          averageDailyWorkingHours: estimate.averageDailyWorkingHours || 8,
-          teamSize: estimate.teamSize || 1,
-          hourlyRateBRL: estimate.hourlyRateBRL || 0,
-          productivityFactor: estimate.productivityFactor || 10,
-          generalSystemCharacteristics: estimate.generalSystemCharacteristics,
-        },
+      const eqComponents = allComponents.filter(
+        (c) => c.componentType === 'EQ',
+      );
+      const productivityModel =
+        await this.estimateService.findProductivityModel(id, organizationId);
+
+      // Sized and effort-estimated as the saved totals (EFP, COCOMO II)
+      const metrics = this.estimateService.calculateEstimationMetrics(
+        estimate,
+        allComponents,
+        productivityModel,
       );
 
       // Calculate breakdowns
@@ -338,7 +564,7 @@ export class EstimatesController {
             componentBreakdown.total.points > 0
               ? (componentBreakdown.ali.points /
                   componentBreakdown.total.points) *
-                100
+                  100
               : 0,
           ),
         },
@@ -349,7 +575,7 @@ export class EstimatesController {
             componentBreakdown.total.points > 0
               ? (componentBreakdown.aie.points /
                   componentBreakdown.total.points) *
-                100
+                  100
               : 0,
           ),
         },
@@ -360,7 +586,7 @@ export class EstimatesController {
             componentBreakdown.total.points > 0
               ? (componentBreakdown.ei.points /
                   componentBreakdown.total.points) *
-                100
+                  100
               : 0,
           ),
         },
@@ -371,7 +597,7 @@ export class EstimatesController {
             componentBreakdown.total.points > 0
               ? (componentBreakdown.eo.points /
                   componentBreakdown.total.points) *
-                100
+                  100
               : 0,
           ),
         },
@@ -382,7 +608,7 @@ export class EstimatesController {
             componentBreakdown.total.points > 0
               ? (componentBreakdown.eq.points /
                   componentBreakdown.total.points) *
-                100
+                  100
               : 0,
           ),
         },
@@ -401,7 +627,7 @@ export class EstimatesController {
             componentBreakdown.total.points > 0
               ? (complexityBreakdown.low.points /
                   componentBreakdown.total.points) *
-                100
+                  100
               : 0,
           ),
         },
@@ -412,7 +638,7 @@ export class EstimatesController {
             componentBreakdown.total.points > 0
               ? (complexityBreakdown.average.points /
                   componentBreakdown.total.points) *
-                100
+                  100
               : 0,
           ),
         },
@@ -423,18 +649,47 @@ export class EstimatesController {
             componentBreakdown.total.points > 0
               ? (complexityBreakdown.high.points /
                   componentBreakdown.total.points) *
-                100
+                  100
               : 0,
           ),
         },
       };
 
-      // EQ special calculations analysis
+      // EQ special calculations analysis (input and output sides counted separately)
+      const dualComplexityEQs = eqComponents.flatMap((c) =>
+        c.inputFtr != null &&
+        c.inputDet != null &&
+        c.outputFtr != null &&
+        c.outputDet != null
+          ? [
+              ComplexityCalculator.calculateEQSpecialComplexity(
+                c.inputFtr,
+                c.inputDet,
+                c.outputFtr,
+                c.outputDet,
+              ),
+            ]
+          : [],
+      );
       const eqSpecialCalculations = {
         count: eqComponents.length,
-        withDualComplexity: 0, // This would need actual EQ data to determine
-        averageInputComplexity: 0,
-        averageOutputComplexity: 0,
+        withDualComplexity: dualComplexityEQs.length,
+        averageInputComplexity: this.round(
+          dualComplexityEQs.length > 0
+            ? dualComplexityEQs.reduce(
+                (sum, eq) => sum + eq.inputCalculation.functionPoints,
+                0,
+              ) / dualComplexityEQs.length
+            : 0,
+        ),
+        averageOutputComplexity: this.round(
+          dualComplexityEQs.length > 0
+            ? dualComplexityEQs.reduce(
+                (sum, eq) => sum + eq.outputCalculation.functionPoints,
+                0,
+              ) / dualComplexityEQs.length
+            : 0,
+        ),
       };
 
       // Phase breakdown estimation (industry standard percentages)
@@ -489,9 +744,7 @@ export class EstimatesController {
                 ? 'AVERAGE'
                 : 'LOW',
           benchmarkHoursPerFP: 15, // Industry average
-          performanceIndex: this.round(
-            (15 / metrics.productivityFactor) * 100,
-          ),
+          performanceIndex: this.round((15 / metrics.productivityFactor) * 100),
         },
       };
 
@@ -528,6 +781,12 @@ export class EstimatesController {
           teamSize: estimate.teamSize || 1,
           hourlyRateBRL: estimate.hourlyRateBRL || 0,
           productivityFactor: estimate.productivityFactor || 10,
+          productivityModel: productivityModel && {
+            id: productivityModel._id,
+            name: productivityModel.name,
+            technology: productivityModel.technology,
+            curveType: productivityModel.curveType,
+          },
           hasGSC: !!estimate.generalSystemCharacteristics?.length,
         },
 
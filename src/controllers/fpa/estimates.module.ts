@@ -1,12 +1,28 @@
 import { Module } from '@nestjs/common';
 import { ReportsController } from '@controllers/fpa/reports.controller';
+import { VarianceReportsController } from '@controllers/fpa/variance-reports.controller';
 import { EstimatesController } from '@controllers/fpa/estimates.controller';
 import { DocumentsController } from '@controllers/fpa/documents.controller';
+import { ApplicationBaselineController } from '@controllers/fpa/application-baseline.controller';
+import { ProductivityModelsController } from '@controllers/fpa/productivity-models.controller';
+import { ComponentLibraryController } from '@controllers/fpa/component-library.controller';
+import { QualityGatesController } from '@controllers/fpa/quality-gates.controller';
+import { EstimateReviewsController } from '@controllers/fpa/estimate-reviews.controller';
 import { FPAModule } from '@app/modules/fpa/fpa.module';
 import { EstimatesComponentsModule } from '@controllers/fpa/estimates-components.module';
 
 @Module({
   imports: [FPAModule, EstimatesComponentsModule],
-  controllers: [ReportsController, EstimatesController, DocumentsController],
+  controllers: [
+    VarianceReportsController,
+    ReportsController,
+    ApplicationBaselineController,
+    EstimatesController,
+    DocumentsController,
+    ProductivityModelsController,
+    ComponentLibraryController,
+    QualityGatesController,
+    EstimateReviewsController,
+  ],
 })
 export class EstimatesModule {}
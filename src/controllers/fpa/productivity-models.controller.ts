@@ -0,0 +1,223 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Put,
+  Delete,
+  UseGuards,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  ConflictException,
+  Request,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '@shared/utils/guards/jwt-auth.guard';
+import { OrganizationAccessUtils } from '@shared/utils/organization-access.utils';
+import { ParseMongoIdPipe } from '@shared/utils/pipes/parse-mongo-id.pipe';
+import { ProductivityModel } from '@domain/fpa/entities/productivity-model.entity';
+import {
+  CreateProductivityModelDto,
+  UpdateProductivityModelDto,
+} from '@application/fpa/dtos/productivity-model.dto';
+import { ProductivityModelService } from '@application/fpa/use-cases/productivity-model.service';
+
+interface AuthenticatedRequest {
+  user: {
+    _id: string;
+    email: string;
+    organizationId: string | null;
+  };
+}
+
+@ApiTags('Productivity Models')
+@Controller('productivity-models')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class ProductivityModelsController {
+  constructor(
+    private readonly productivityModelService: ProductivityModelService,
+  ) {}
+
+  @Post(':organizationId')
+  @ApiOperation({ summary: 'Create a productivity model' })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiResponse({ status: 201, description: 'Model created successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({ status: 409, description: 'Model name already in use' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  @ApiBody({ type: CreateProductivityModelDto })
+  async create(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Body() modelData: CreateProductivityModelDto,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<ProductivityModel> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'productivity models',
+    );
+
+    try {
+      return await this.productivityModelService.create(
+        modelData,
+        organizationId,
+        req.user._id,
+      );
+    } catch (error) {
+      if (error instanceof ConflictException) {
+        throw error;
+      }
+      throw new BadRequestException(
+        `Failed to create productivity model: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  @Get(':organizationId')
+  @ApiOperation({ summary: 'Get the productivity models of an organization' })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiResponse({ status: 200, description: 'Returns the models' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async findAll(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<ProductivityModel[]> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'productivity models',
+    );
+
+    try {
+      return await this.productivityModelService.findAll(organizationId);
+    } catch (error) {
+      throw new BadRequestException(
+        `Failed to fetch productivity models: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  @Get(':organizationId/:id')
+  @ApiOperation({ summary: 'Get a productivity model by id' })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'id', description: 'The productivity model ID' })
+  @ApiResponse({ status: 200, description: 'Returns the model' })
+  @ApiResponse({ status: 404, description: 'Model not found' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async findOne(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('id', ParseMongoIdPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<ProductivityModel> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'productivity models',
+    );
+
+    try {
+      return await this.productivityModelService.findOne(id, organizationId);
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException
+      ) {
+        throw error;
+      }
+      throw new BadRequestException(
+        `Failed to fetch productivity model: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  @Put(':organizationId/:id')
+  @ApiOperation({ summary: 'Update a productivity model' })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'id', description: 'The productivity model ID' })
+  @ApiResponse({ status: 200, description: 'Model updated successfully' })
+  @ApiResponse({ status: 404, description: 'Model not found' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  @ApiResponse({ status: 409, description: 'Model name already in use' })
+  @ApiBody({ type: UpdateProductivityModelDto })
+  async update(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('id', ParseMongoIdPipe) id: string,
+    @Body() modelData: UpdateProductivityModelDto,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<ProductivityModel> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'productivity models',
+    );
+
+    try {
+      return await this.productivityModelService.update(
+        id,
+        modelData,
+        organizationId,
+      );
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException ||
+        error instanceof ConflictException
+      ) {
+        throw error;
+      }
+      throw new BadRequestException(
+        `Failed to update productivity model: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  @Delete(':organizationId/:id')
+  @ApiOperation({
+    summary:
+      'Delete a productivity model. Estimates using it fall back to their productivity factor',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'id', description: 'The productivity model ID' })
+  @ApiResponse({ status: 200, description: 'Model deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Model not found' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async remove(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('id', ParseMongoIdPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<{ success: boolean }> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'productivity models',
+    );
+
+    try {
+      const result = await this.productivityModelService.remove(
+        id,
+        organizationId,
+      );
+      return { success: result };
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException
+      ) {
+        throw error;
+      }
+      throw new BadRequestException(
+        `Failed to delete productivity model: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+}
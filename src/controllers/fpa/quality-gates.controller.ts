@@ -0,0 +1,109 @@
+import {
+  Controller,
+  Get,
+  Body,
+  Param,
+  Put,
+  UseGuards,
+  BadRequestException,
+  Request,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '@shared/utils/guards/jwt-auth.guard';
+import { OrganizationAccessUtils } from '@shared/utils/organization-access.utils';
+import { RolesGuard } from '@shared/utils/guards/roles.guard';
+import { Roles } from '@shared/utils/decorators/roles.decorator';
+import { UserRole } from '@domain/users/entities/user.entity';
+import { ParseMongoIdPipe } from '@shared/utils/pipes/parse-mongo-id.pipe';
+import { UpdateQualityGatePolicyDto } from '@application/fpa/dtos/quality-gate.dto';
+import {
+  QualityGateService,
+  QualityGateSettings,
+} from '@application/fpa/use-cases/quality-gate.service';
+
+interface AuthenticatedRequest {
+  user: {
+    _id: string;
+    email: string;
+    organizationId: string | null;
+  };
+}
+
+@ApiTags('Quality Gates')
+@Controller('quality-gates')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class QualityGatesController {
+  constructor(private readonly qualityGateService: QualityGateService) {}
+
+  @Get(':organizationId')
+  @ApiOperation({
+    summary: 'Get the quality gates estimates must pass to be finalized',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiResponse({ status: 200, description: 'Returns the enabled gates' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async findPolicy(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<QualityGateSettings> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'quality gates',
+    );
+
+    try {
+      return await this.qualityGateService.findPolicy(organizationId);
+    } catch (error) {
+      throw new BadRequestException(
+        `Failed to fetch quality gates: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  @Put(':organizationId')
+  @Roles(UserRole.ADMIN, UserRole.PROJECT_MANAGER)
+  @ApiOperation({
+    summary: 'Set the quality gates estimates must pass to be finalized',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiResponse({ status: 200, description: 'Quality gates updated' })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Access denied to organization, or only admins and project managers may change the gates',
+  })
+  @ApiBody({ type: UpdateQualityGatePolicyDto })
+  async updatePolicy(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Body() policyData: UpdateQualityGatePolicyDto,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<QualityGateSettings> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'quality gates',
+    );
+
+    try {
+      return await this.qualityGateService.updatePolicy(
+        organizationId,
+        policyData,
+        req.user._id,
+      );
+    } catch (error) {
+      throw new BadRequestException(
+        `Failed to update quality gates: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+}
@@ -33,15 +33,7 @@ import {
   ComparisonReport,
 } from '@domain/fpa/services/report-generator.service';
 import * as puppeteer from 'puppeteer';
-
-function escapeHtml(unsafe: string): string {
-  return unsafe
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#039;');
-}
+import { HtmlUtils } from '@shared/utils/html.utils';
 
 function isStringArray(value: unknown): value is string[] {
   return (
@@ -255,7 +247,8 @@ export class ReportsController {
   @ApiQuery({
     name: 'format',
     required: false,
-    description: 'Export format (json, csv, or pdf)',
+    description:
+      'Export format (json, csv, pdf, or xlsx for an IFPUG-style counting workbook)',
   })
   @ApiResponse({ status: 200, description: 'Export generated successfully' })
   @ApiResponse({ status: 404, description: 'Estimate not found' })
@@ -272,7 +265,11 @@ export class ReportsController {
       }
 
       let result: string | Buffer;
-      let contentType: 'text/csv' | 'application/pdf' | 'application/json';
+      let contentType:
+        | 'text/csv'
+        | 'application/pdf'
+        | 'application/json'
+        | 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
       let filename: string;
 
       if (format === 'csv') {
@@ -286,6 +283,16 @@ export class ReportsController {
         result = await this.generatePdf(html, `Estimate_${id}`);
         contentType = 'application/pdf';
         filename = `estimate_${id}_${new Date().toISOString().split('T')[0]}.pdf`;
+      } else if (format === 'xlsx') {
+        const components =
+          await this.estimateRepository.findComponentSummaries(id);
+        result = this.reportGeneratorService.generateXLSXExport(
+          estimate,
+          components,
+        );
+        contentType =
+          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+        filename = `estimate_${id}_${new Date().toISOString().split('T')[0]}.xlsx`;
       } else {
         result = this.reportGeneratorService.generateJSONExport(estimate);
         contentType = 'application/json';
@@ -331,7 +338,7 @@ export class ReportsController {
     `;
 
     report.sections.forEach((section: DetailedReportSection) => {
-      const safeTitle = escapeHtml(section.title);
+      const safeTitle = HtmlUtils.escape(section.title);
       html += `<div class="section">
         <h2>${safeTitle}</h2>`;
 
@@ -339,11 +346,11 @@ export class ReportsController {
       if (isStringArray(content)) {
         html += '<ul>';
         content.forEach((item) => {
-          html += `<li>${escapeHtml(item)}</li>`;
+          html += `<li>${HtmlUtils.escape(item)}</li>`;
         });
         html += '</ul>';
       } else if (typeof content === 'string') {
-        html += `<p>${escapeHtml(content)}</p>`;
+        html += `<p>${HtmlUtils.escape(content)}</p>`;
       } else {
         html += '<p>Invalid content format</p>';
       }
@@ -1,14 +1,24 @@
 import {
   Controller,
   Get,
+  Param,
   Query,
   UseGuards,
   NotFoundException,
   BadRequestException,
   Inject,
+  Request,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiQuery,
+  ApiParam,
+} from '@nestjs/swagger';
 import { JwtAuthGuard } from '@shared/utils/guards/jwt-auth.guard';
+import { OrganizationAccessUtils } from '@shared/utils/organization-access.utils';
+import { ParseMongoIdPipe } from '@shared/utils/pipes/parse-mongo-id.pipe';
 import {
   ESTIMATE_REPOSITORY,
   IEstimateRepository,
@@ -18,6 +28,10 @@ import {
   TrendMetric,
 } from '@domain/fpa/services/trend-analysis.service';
 import { Estimate } from '@domain/fpa/entities/estimate.entity';
+import {
+  EstimateService,
+  ProductivityCalibration,
+} from '@application/fpa/use-cases/estimate.service';
 
 interface TrendResult {
   trend: string;
@@ -31,6 +45,14 @@ interface TrendResult {
   }[];
 }
 
+interface AuthenticatedRequest {
+  user: {
+    _id: string;
+    email: string;
+    organizationId: string | null;
+  };
+}
+
 @ApiTags('estimate-trends')
 @Controller('estimates/trends')
 @UseGuards(JwtAuthGuard)
@@ -39,6 +61,7 @@ export class TrendsController {
     @Inject(ESTIMATE_REPOSITORY)
     private readonly estimateRepository: IEstimateRepository,
     private readonly trendAnalysisService: TrendAnalysisService,
+    private readonly estimateService: EstimateService,
   ) {}
 
   @Get()
@@ -120,6 +143,39 @@ export class TrendsController {
     }
   }
 
+  @Get('calibration/:organizationId')
+  @ApiOperation({
+    summary:
+      'Observed hours per function point from the actuals of completed projects, by count type and technology',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Mean, spread and 95% confidence interval of hours per FP for each group',
+  })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async getProductivityCalibration(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<ProductivityCalibration> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'calibration',
+    );
+
+    try {
+      return await this.estimateService.getProductivityCalibration(
+        organizationId,
+      );
+    } catch (error) {
+      throw new BadRequestException(
+        `Failed to calibrate productivity: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
   private getMetricValue(estimate: Estimate, metric: TrendMetric): number {
     switch (metric) {
       case TrendMetric.EFFORT:
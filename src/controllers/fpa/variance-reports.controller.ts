@@ -0,0 +1,79 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Inject,
+  UseGuards,
+  BadRequestException,
+  Request,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '@shared/utils/guards/jwt-auth.guard';
+import { OrganizationAccessUtils } from '@shared/utils/organization-access.utils';
+import { ParseMongoIdPipe } from '@shared/utils/pipes/parse-mongo-id.pipe';
+import {
+  ESTIMATE_REPOSITORY,
+  IEstimateRepository,
+} from '@domain/fpa/interfaces/estimate.repository.interface';
+import {
+  ReportGeneratorService,
+  VarianceReport,
+} from '@domain/fpa/services/report-generator.service';
+
+interface AuthenticatedRequest {
+  user: {
+    _id: string;
+    email: string;
+    organizationId: string | null;
+  };
+}
+
+@ApiTags('estimate-reports')
+@Controller('estimates/reports/variance')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class VarianceReportsController {
+  constructor(
+    @Inject(ESTIMATE_REPOSITORY)
+    private readonly estimateRepository: IEstimateRepository,
+    private readonly reportGeneratorService: ReportGeneratorService,
+  ) {}
+
+  @Get(':organizationId')
+  @ApiOperation({
+    summary:
+      'Effort MRE per estimate with final actuals and MMRE and PRED(25) across them, and progress of the others at their latest milestone',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Variance report generated successfully',
+  })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async generateVarianceReport(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<VarianceReport> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'variance reports',
+    );
+
+    try {
+      const estimates =
+        await this.estimateRepository.findByOrganization(organizationId);
+      return this.reportGeneratorService.generateVarianceReport(estimates);
+    } catch (error) {
+      throw new BadRequestException(
+        `Failed to generate variance report: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,176 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Types } from 'mongoose';
+import { JwtAuthGuard } from '@shared/utils/guards/jwt-auth.guard';
+import { OrganizationAccessUtils } from '@shared/utils/organization-access.utils';
+import { ParseMongoIdPipe } from '@shared/utils/pipes/parse-mongo-id.pipe';
+import {
+  CollectionTask,
+  CollectionTaskStatus,
+  CollectionTaskType,
+} from '@domain/measurement-plans/entities/collection-task.entity';
+import {
+  CollectionTaskService,
+  CollectionTaskPage,
+} from '@application/measurement-plans/use-cases/collection-task.service';
+
+interface AuthenticatedRequest {
+  user: {
+    _id: string;
+    email: string;
+    organizationId: string | null;
+  };
+}
+
+const MAX_PAGE_SIZE = 100;
+
+@ApiTags('Collection Tasks')
+@Controller('collection-tasks')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class CollectionTasksController {
+  constructor(private readonly collectionTaskService: CollectionTaskService) {}
+
+  @Get(':organizationId')
+  @ApiOperation({
+    summary:
+      'Get the scheduled collection and analysis tasks of active measurement plans, earliest due first',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: `Items per page, at most ${MAX_PAGE_SIZE}`,
+  })
+  @ApiQuery({ name: 'status', required: false, enum: CollectionTaskStatus })
+  @ApiQuery({ name: 'type', required: false, enum: CollectionTaskType })
+  @ApiQuery({
+    name: 'planId',
+    required: false,
+    type: String,
+    description: 'Filter by measurement plan',
+  })
+  @ApiResponse({ status: 200, description: 'Tasks retrieved successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid filter' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async findAll(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Query('page') page: number = 1,
+    @Query('limit') limit: number = 20,
+    @Request() req: AuthenticatedRequest,
+    @Query('status') status?: CollectionTaskStatus,
+    @Query('type') type?: CollectionTaskType,
+    @Query('planId') planId?: string,
+  ): Promise<CollectionTaskPage> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'collection tasks',
+    );
+
+    if (!Number.isInteger(page) || page < 1) {
+      throw new BadRequestException('page must be a positive integer');
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      throw new BadRequestException(
+        `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`,
+      );
+    }
+    if (status && !Object.values(CollectionTaskStatus).includes(status)) {
+      throw new BadRequestException(`Invalid status: ${status}`);
+    }
+    if (type && !Object.values(CollectionTaskType).includes(type)) {
+      throw new BadRequestException(`Invalid type: ${type}`);
+    }
+    if (planId !== undefined && !Types.ObjectId.isValid(planId)) {
+      throw new BadRequestException(`Invalid planId: ${planId}`);
+    }
+
+    return this.collectionTaskService.findAll(organizationId, page, limit, {
+      status,
+      type,
+      planId,
+    });
+  }
+
+  @Get(':organizationId/:taskId')
+  @ApiOperation({ summary: 'Get a collection task by ID' })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'taskId', description: 'Task ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Task retrieved successfully',
+    type: CollectionTask,
+  })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async findOne(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('taskId', ParseMongoIdPipe) taskId: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<CollectionTask> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'collection tasks',
+    );
+
+    return this.collectionTaskService.findOne(taskId, organizationId);
+  }
+
+  @Post(':organizationId/:taskId/complete')
+  @ApiOperation({
+    summary:
+      'Complete a task; collection tasks are also completed by recording a value of the measurement',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'taskId', description: 'Task ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Task completed',
+    type: CollectionTask,
+  })
+  @ApiResponse({ status: 400, description: 'The task is not open' })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async complete(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('taskId', ParseMongoIdPipe) taskId: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<CollectionTask> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'collection tasks',
+    );
+
+    return this.collectionTaskService.complete(
+      taskId,
+      organizationId,
+      req.user._id,
+    );
+  }
+}
@@ -0,0 +1,330 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Types } from 'mongoose';
+import { JwtAuthGuard } from '@shared/utils/guards/jwt-auth.guard';
+import { OrganizationAccessUtils } from '@shared/utils/organization-access.utils';
+import { ParseMongoIdPipe } from '@shared/utils/pipes/parse-mongo-id.pipe';
+import { MeasurementRecord } from '@domain/measurement-plans/entities/measurement-record.entity';
+import {
+  MeasurementRecordService,
+  MeasurementRecordPage,
+} from '@application/measurement-plans/use-cases/measurement-record.service';
+import {
+  CreateMeasurementRecordDto,
+  UpdateMeasurementRecordDto,
+  BulkCreateMeasurementRecordsDto,
+  MAX_BULK_RECORDS,
+} from '@application/measurement-plans/dtos';
+
+interface AuthenticatedRequest {
+  user: {
+    _id: string;
+    email: string;
+    organizationId: string | null;
+  };
+}
+
+const MAX_PAGE_SIZE = 100;
+
+@ApiTags('Measurement Records')
+@Controller('measurement-plans')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class MeasurementRecordsController {
+  constructor(
+    private readonly measurementRecordService: MeasurementRecordService,
+  ) {}
+
+  @Post(':organizationId/:planId/records')
+  @ApiOperation({ summary: 'Record a value collected for a measurement' })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'planId', description: 'Plan ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Value recorded successfully',
+    type: MeasurementRecord,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Plan, metric or measurement not found',
+  })
+  @ApiResponse({ status: 409, description: 'The plan is not active' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  @ApiBody({ type: CreateMeasurementRecordDto })
+  async create(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('planId', ParseMongoIdPipe) planId: string,
+    @Body() createDto: CreateMeasurementRecordDto,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<MeasurementRecord> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'measurement records',
+    );
+
+    return this.measurementRecordService.create(
+      planId,
+      createDto,
+      organizationId,
+      req.user._id,
+    );
+  }
+
+  @Post(':organizationId/:planId/records/bulk')
+  @ApiOperation({
+    summary: `Record up to ${MAX_BULK_RECORDS} collected values at once`,
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'planId', description: 'Plan ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Values recorded successfully',
+    type: [MeasurementRecord],
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Some values target a metric or measurement outside the plan; nothing is recorded',
+  })
+  @ApiResponse({ status: 409, description: 'The plan is not active' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  @ApiBody({ type: BulkCreateMeasurementRecordsDto })
+  async bulkCreate(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('planId', ParseMongoIdPipe) planId: string,
+    @Body() bulkDto: BulkCreateMeasurementRecordsDto,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<MeasurementRecord[]> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'measurement records',
+    );
+
+    return this.measurementRecordService.bulkCreate(
+      planId,
+      bulkDto,
+      organizationId,
+      req.user._id,
+    );
+  }
+
+  @Get(':organizationId/:planId/records')
+  @ApiOperation({
+    summary: 'Get the values collected for the plan, most recent first',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'planId', description: 'Plan ID' })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: `Items per page, at most ${MAX_PAGE_SIZE}`,
+  })
+  @ApiQuery({
+    name: 'metricId',
+    required: false,
+    type: String,
+    description: 'Filter by metric',
+  })
+  @ApiQuery({
+    name: 'measurementId',
+    required: false,
+    type: String,
+    description: 'Filter by measurement',
+  })
+  @ApiQuery({
+    name: 'from',
+    required: false,
+    type: String,
+    description: 'Values collected from this date (ISO 8601)',
+  })
+  @ApiQuery({
+    name: 'to',
+    required: false,
+    type: String,
+    description: 'Values collected up to this date (ISO 8601)',
+  })
+  @ApiResponse({ status: 200, description: 'Values retrieved successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid filter' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async findAll(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('planId', ParseMongoIdPipe) planId: string,
+    @Query('page') page: number = 1,
+    @Query('limit') limit: number = 20,
+    @Request() req: AuthenticatedRequest,
+    @Query('metricId') metricId?: string,
+    @Query('measurementId') measurementId?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ): Promise<MeasurementRecordPage> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'measurement records',
+    );
+
+    if (!Number.isInteger(page) || page < 1) {
+      throw new BadRequestException('page must be a positive integer');
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      throw new BadRequestException(
+        `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`,
+      );
+    }
+    for (const [name, id] of Object.entries({ metricId, measurementId })) {
+      if (id !== undefined && !Types.ObjectId.isValid(id)) {
+        throw new BadRequestException(`Invalid ${name}: ${id}`);
+      }
+    }
+
+    return this.measurementRecordService.findAll(
+      planId,
+      organizationId,
+      page,
+      limit,
+      {
+        metricId,
+        measurementId,
+        from: this.parseDate('from', from),
+        to: this.parseDate('to', to),
+      },
+    );
+  }
+
+  @Get(':organizationId/:planId/records/:recordId')
+  @ApiOperation({ summary: 'Get a collected value by ID' })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'planId', description: 'Plan ID' })
+  @ApiParam({ name: 'recordId', description: 'Record ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Value retrieved successfully',
+    type: MeasurementRecord,
+  })
+  @ApiResponse({ status: 404, description: 'Plan or record not found' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async findOne(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('planId', ParseMongoIdPipe) planId: string,
+    @Param('recordId', ParseMongoIdPipe) recordId: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<MeasurementRecord> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'measurement records',
+    );
+
+    return this.measurementRecordService.findOne(
+      planId,
+      recordId,
+      organizationId,
+    );
+  }
+
+  @Put(':organizationId/:planId/records/:recordId')
+  @ApiOperation({ summary: 'Correct a collected value' })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'planId', description: 'Plan ID' })
+  @ApiParam({ name: 'recordId', description: 'Record ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Value updated successfully',
+    type: MeasurementRecord,
+  })
+  @ApiResponse({ status: 404, description: 'Plan or record not found' })
+  @ApiResponse({ status: 409, description: 'The plan is not active' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  @ApiBody({ type: UpdateMeasurementRecordDto })
+  async update(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('planId', ParseMongoIdPipe) planId: string,
+    @Param('recordId', ParseMongoIdPipe) recordId: string,
+    @Body() updateDto: UpdateMeasurementRecordDto,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<MeasurementRecord> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'measurement records',
+    );
+
+    return this.measurementRecordService.update(
+      planId,
+      recordId,
+      updateDto,
+      organizationId,
+    );
+  }
+
+  @Delete(':organizationId/:planId/records/:recordId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a collected value' })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'planId', description: 'Plan ID' })
+  @ApiParam({ name: 'recordId', description: 'Record ID' })
+  @ApiResponse({ status: 204, description: 'Value deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Plan or record not found' })
+  @ApiResponse({ status: 409, description: 'The plan is not active' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async remove(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('planId', ParseMongoIdPipe) planId: string,
+    @Param('recordId', ParseMongoIdPipe) recordId: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<void> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'measurement records',
+    );
+
+    await this.measurementRecordService.remove(
+      planId,
+      recordId,
+      organizationId,
+    );
+  }
+
+  private parseDate(name: string, value?: string): Date | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      throw new BadRequestException(`Invalid ${name} date: ${value}`);
+    }
+    return date;
+  }
+}
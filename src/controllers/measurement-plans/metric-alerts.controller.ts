@@ -0,0 +1,212 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Types } from 'mongoose';
+import { JwtAuthGuard } from '@shared/utils/guards/jwt-auth.guard';
+import { OrganizationAccessUtils } from '@shared/utils/organization-access.utils';
+import { ParseMongoIdPipe } from '@shared/utils/pipes/parse-mongo-id.pipe';
+import {
+  MetricAlert,
+  MetricAlertStatus,
+} from '@domain/measurement-plans/entities/metric-alert.entity';
+import {
+  MetricAlertService,
+  MetricAlertPage,
+} from '@application/measurement-plans/use-cases/metric-alert.service';
+import { ResolveMetricAlertDto } from '@application/measurement-plans/dtos';
+
+interface AuthenticatedRequest {
+  user: {
+    _id: string;
+    email: string;
+    organizationId: string | null;
+  };
+}
+
+const MAX_PAGE_SIZE = 100;
+
+@ApiTags('Metric Alerts')
+@Controller('metric-alerts')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class MetricAlertsController {
+  constructor(private readonly metricAlertService: MetricAlertService) {}
+
+  @Get(':organizationId')
+  @ApiOperation({
+    summary:
+      'Get the alerts of metrics out of their control range, most recent first',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: `Items per page, at most ${MAX_PAGE_SIZE}`,
+  })
+  @ApiQuery({ name: 'status', required: false, enum: MetricAlertStatus })
+  @ApiQuery({
+    name: 'planId',
+    required: false,
+    type: String,
+    description: 'Filter by measurement plan',
+  })
+  @ApiQuery({
+    name: 'metricId',
+    required: false,
+    type: String,
+    description: 'Filter by metric',
+  })
+  @ApiResponse({ status: 200, description: 'Alerts retrieved successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid filter' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async findAll(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Query('page') page: number = 1,
+    @Query('limit') limit: number = 20,
+    @Request() req: AuthenticatedRequest,
+    @Query('status') status?: MetricAlertStatus,
+    @Query('planId') planId?: string,
+    @Query('metricId') metricId?: string,
+  ): Promise<MetricAlertPage> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'metric alerts',
+    );
+
+    if (!Number.isInteger(page) || page < 1) {
+      throw new BadRequestException('page must be a positive integer');
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      throw new BadRequestException(
+        `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`,
+      );
+    }
+    if (status && !Object.values(MetricAlertStatus).includes(status)) {
+      throw new BadRequestException(`Invalid status: ${status}`);
+    }
+    for (const [name, id] of Object.entries({ planId, metricId })) {
+      if (id !== undefined && !Types.ObjectId.isValid(id)) {
+        throw new BadRequestException(`Invalid ${name}: ${id}`);
+      }
+    }
+
+    return this.metricAlertService.findAll(organizationId, page, limit, {
+      status,
+      planId,
+      metricId,
+    });
+  }
+
+  @Get(':organizationId/:alertId')
+  @ApiOperation({ summary: 'Get a metric alert by ID' })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'alertId', description: 'Alert ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Alert retrieved successfully',
+    type: MetricAlert,
+  })
+  @ApiResponse({ status: 404, description: 'Alert not found' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async findOne(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('alertId', ParseMongoIdPipe) alertId: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<MetricAlert> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'metric alerts',
+    );
+
+    return this.metricAlertService.findOne(alertId, organizationId);
+  }
+
+  @Post(':organizationId/:alertId/acknowledge')
+  @ApiOperation({ summary: 'Acknowledge that the deviation is being handled' })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'alertId', description: 'Alert ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Alert acknowledged',
+    type: MetricAlert,
+  })
+  @ApiResponse({ status: 400, description: 'The alert is not open' })
+  @ApiResponse({ status: 404, description: 'Alert not found' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async acknowledge(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('alertId', ParseMongoIdPipe) alertId: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<MetricAlert> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'metric alerts',
+    );
+
+    return this.metricAlertService.acknowledge(
+      alertId,
+      organizationId,
+      req.user._id,
+    );
+  }
+
+  @Post(':organizationId/:alertId/resolve')
+  @ApiOperation({ summary: 'Resolve the alert once the deviation is handled' })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'alertId', description: 'Alert ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Alert resolved',
+    type: MetricAlert,
+  })
+  @ApiResponse({ status: 400, description: 'The alert is already resolved' })
+  @ApiResponse({ status: 404, description: 'Alert not found' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  @ApiBody({ type: ResolveMetricAlertDto })
+  async resolve(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('alertId', ParseMongoIdPipe) alertId: string,
+    @Body() resolveDto: ResolveMetricAlertDto,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<MetricAlert> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'metric alerts',
+    );
+
+    return this.metricAlertService.resolve(
+      alertId,
+      resolveDto,
+      organizationId,
+      req.user._id,
+    );
+  }
+}
@@ -0,0 +1,176 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  UseGuards,
+  BadRequestException,
+  Request,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '@shared/utils/guards/jwt-auth.guard';
+import { OrganizationAccessUtils } from '@shared/utils/organization-access.utils';
+import { ParseMongoIdPipe } from '@shared/utils/pipes/parse-mongo-id.pipe';
+import { ValueAggregation } from '@domain/measurement-plans/interfaces/measurement-record.repository.interface';
+import {
+  MetricAnalysisService,
+  MetricValue,
+  MetricControlChart,
+} from '@application/measurement-plans/use-cases/metric-analysis.service';
+
+interface AuthenticatedRequest {
+  user: {
+    _id: string;
+    email: string;
+    organizationId: string | null;
+  };
+}
+
+@ApiTags('Metric Analysis')
+@Controller('measurement-plans')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class MetricAnalysisController {
+  constructor(private readonly metricAnalysisService: MetricAnalysisService) {}
+
+  @Get(':organizationId/:planId/metrics/:metricId/value')
+  @ApiOperation({
+    summary:
+      'Evaluate the metric formula with the values recorded for its measurements',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'planId', description: 'Plan ID' })
+  @ApiParam({ name: 'metricId', description: 'Metric ID' })
+  @ApiQuery({
+    name: 'aggregation',
+    required: false,
+    enum: ValueAggregation,
+    description:
+      'How the values of each measurement in the period are combined (defaults to latest)',
+  })
+  @ApiQuery({
+    name: 'from',
+    required: false,
+    type: String,
+    description: 'Use values collected from this date (ISO 8601)',
+  })
+  @ApiQuery({
+    name: 'to',
+    required: false,
+    type: String,
+    description: 'Use values collected up to this date (ISO 8601)',
+  })
+  @ApiResponse({ status: 200, description: 'Metric value calculated' })
+  @ApiResponse({ status: 400, description: 'Invalid aggregation or period' })
+  @ApiResponse({ status: 404, description: 'Plan or metric not found' })
+  @ApiResponse({
+    status: 422,
+    description:
+      'A measurement of the formula has no value in the period or the formula cannot be evaluated',
+  })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async evaluate(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('planId', ParseMongoIdPipe) planId: string,
+    @Param('metricId', ParseMongoIdPipe) metricId: string,
+    @Request() req: AuthenticatedRequest,
+    @Query('aggregation') aggregation?: ValueAggregation,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ): Promise<MetricValue> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'metric analysis',
+    );
+
+    if (
+      aggregation !== undefined &&
+      !Object.values(ValueAggregation).includes(aggregation)
+    ) {
+      throw new BadRequestException(`Invalid aggregation: ${aggregation}`);
+    }
+
+    return this.metricAnalysisService.evaluate(
+      planId,
+      metricId,
+      organizationId,
+      aggregation,
+      {
+        from: this.parseDate('from', from),
+        to: this.parseDate('to', to),
+      },
+    );
+  }
+
+  @Get(':organizationId/:planId/metrics/:metricId/spc')
+  @ApiOperation({
+    summary:
+      'Get the control chart of the metric, with its control limits and Western Electric rule violations',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({ name: 'planId', description: 'Plan ID' })
+  @ApiParam({ name: 'metricId', description: 'Metric ID' })
+  @ApiQuery({
+    name: 'from',
+    required: false,
+    type: String,
+    description: 'Use values collected from this date (ISO 8601)',
+  })
+  @ApiQuery({
+    name: 'to',
+    required: false,
+    type: String,
+    description: 'Use values collected up to this date (ISO 8601)',
+  })
+  @ApiResponse({ status: 200, description: 'Control chart calculated' })
+  @ApiResponse({ status: 400, description: 'Invalid period' })
+  @ApiResponse({ status: 404, description: 'Plan or metric not found' })
+  @ApiResponse({
+    status: 422,
+    description: 'The metric has fewer than two values in the period',
+  })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async controlChart(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('planId', ParseMongoIdPipe) planId: string,
+    @Param('metricId', ParseMongoIdPipe) metricId: string,
+    @Request() req: AuthenticatedRequest,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ): Promise<MetricControlChart> {
+    OrganizationAccessUtils.validate(
+      req.user.organizationId,
+      organizationId,
+      'metric analysis',
+    );
+
+    return this.metricAnalysisService.controlChart(
+      planId,
+      metricId,
+      organizationId,
+      {
+        from: this.parseDate('from', from),
+        to: this.parseDate('to', to),
+      },
+    );
+  }
+
+  private parseDate(name: string, value?: string): Date | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      throw new BadRequestException(`Invalid ${name} date: ${value}`);
+    }
+    return date;
+  }
+}
@@ -22,7 +22,16 @@ import { RolesGuard } from '@shared/utils/guards/roles.guard';
 import { Roles } from '@shared/utils/decorators/roles.decorator';
 import { UserRole } from '@domain/users/entities/user.entity';
 import { ProjectService } from '@application/projects/use-cases/project.service';
-import { CreateProjectDto, UpdateProjectDto } from '@application/projects/dtos';
+import {
+  ProjectVersionService,
+  ProjectVersionDiff,
+} from '@application/projects/use-cases/project-version.service';
+import {
+  CreateProjectDto,
+  UpdateProjectDto,
+  CreateProjectVersionDto,
+} from '@application/projects/dtos';
+import { ProjectVersion } from '@domain/projects/entities/project-version.entity';
 import { ParseMongoIdPipe } from '@shared/utils/pipes/parse-mongo-id.pipe';
 
 interface AuthenticatedRequest {
@@ -39,7 +48,10 @@ interface AuthenticatedRequest {
 @UseGuards(JwtAuthGuard, RolesGuard)
 @ApiBearerAuth()
 export class ProjectController {
-  constructor(private readonly projectService: ProjectService) {}
+  constructor(
+    private readonly projectService: ProjectService,
+    private readonly projectVersionService: ProjectVersionService,
+  ) {}
 
   private validateOrganizationAccess(
     userOrgId: string | null,
@@ -200,28 +212,25 @@ export class ProjectController {
   })
   @ApiResponse({
     status: 200,
-    description: 'Return all versions of the project.',
+    description: 'Return all versions of the project, newest first.',
   })
+  @ApiResponse({ status: 404, description: 'Project not found.' })
   @ApiResponse({ status: 403, description: 'Access denied to organization' })
   async getVersions(
     @Param('organizationId', ParseMongoIdPipe) organizationId: string,
     @Param('id', ParseMongoIdPipe) id: string,
     @Request() req: AuthenticatedRequest,
-  ) {
+  ): Promise<ProjectVersion[]> {
     this.validateOrganizationAccess(req.user.organizationId, organizationId);
 
-    const existingProject = await this.projectService.findOne(id);
-
-    // Ensure project belongs to the requested organization
-    if (existingProject.organizationId.toString() !== organizationId) {
-      throw new ForbiddenException('Access denied to this project');
-    }
-
-    return this.projectService.getVersions(id);
+    return this.projectVersionService.getVersions(id, organizationId);
   }
 
   @Post(':organizationId/:id/versions')
-  @ApiOperation({ summary: 'Create a new version of a project' })
+  @ApiOperation({
+    summary:
+      'Create a new version of a project, snapshotting its objectives, measurement plan and estimate',
+  })
   @ApiParam({ name: 'organizationId', description: 'Organization ID' })
   @ApiParam({
     name: 'id',
@@ -231,21 +240,117 @@ export class ProjectController {
     status: 201,
     description: 'The project version has been successfully created.',
   })
+  @ApiResponse({ status: 404, description: 'Project not found.' })
   @ApiResponse({ status: 403, description: 'Access denied to organization' })
   async createVersion(
     @Param('organizationId', ParseMongoIdPipe) organizationId: string,
     @Param('id', ParseMongoIdPipe) id: string,
+    @Body() createVersionDto: CreateProjectVersionDto,
     @Request() req: AuthenticatedRequest,
-  ): Promise<unknown> {
+  ): Promise<ProjectVersion> {
     this.validateOrganizationAccess(req.user.organizationId, organizationId);
 
-    const existingProject = await this.projectService.findOne(id);
+    return this.projectVersionService.createVersion(
+      id,
+      organizationId,
+      req.user._id,
+      createVersionDto,
+    );
+  }
 
-    // Ensure project belongs to the requested organization
-    if (existingProject.organizationId.toString() !== organizationId) {
-      throw new ForbiddenException('Access denied to this project');
-    }
+  @Get(':organizationId/:id/versions/:version')
+  @ApiOperation({ summary: 'Get a single version of a project' })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({
+    name: 'id',
+    description: 'The id of the project',
+  })
+  @ApiParam({ name: 'version', description: 'Version number, e.g. 1.2.0' })
+  @ApiResponse({
+    status: 200,
+    description: 'Return the version and its snapshot.',
+  })
+  @ApiResponse({ status: 404, description: 'Project or version not found.' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async getVersion(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('id', ParseMongoIdPipe) id: string,
+    @Param('version') version: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<ProjectVersion> {
+    this.validateOrganizationAccess(req.user.organizationId, organizationId);
+
+    return this.projectVersionService.getVersion(id, version, organizationId);
+  }
 
-    return this.projectService.createVersion(id);
+  @Post(':organizationId/:id/versions/:version/restore')
+  @Roles(UserRole.ADMIN, UserRole.PROJECT_MANAGER)
+  @ApiOperation({
+    summary:
+      'Restore a project to a previous version. The result is recorded as a new version',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({
+    name: 'id',
+    description: 'The id of the project',
+  })
+  @ApiParam({ name: 'version', description: 'Version number to restore' })
+  @ApiResponse({
+    status: 201,
+    description: 'The project has been restored.',
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'The linked estimate is finalized, archived, locked by its review or its components changed since the version.',
+  })
+  @ApiResponse({ status: 404, description: 'Project or version not found.' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async restoreVersion(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('id', ParseMongoIdPipe) id: string,
+    @Param('version') version: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<ProjectVersion> {
+    this.validateOrganizationAccess(req.user.organizationId, organizationId);
+
+    return this.projectVersionService.restoreVersion(
+      id,
+      version,
+      organizationId,
+      req.user._id,
+    );
+  }
+
+  @Get(':organizationId/:id/versions/:a/diff/:b')
+  @ApiOperation({ summary: 'Compare two versions of a project field by field' })
+  @ApiParam({ name: 'organizationId', description: 'Organization ID' })
+  @ApiParam({
+    name: 'id',
+    description: 'The id of the project',
+  })
+  @ApiParam({ name: 'a', description: 'Version to compare from, e.g. 1.0.0' })
+  @ApiParam({ name: 'b', description: 'Version to compare to, e.g. 1.1.0' })
+  @ApiResponse({
+    status: 200,
+    description: 'Return the field-level changes between the two versions.',
+  })
+  @ApiResponse({ status: 404, description: 'Project or version not found.' })
+  @ApiResponse({ status: 403, description: 'Access denied to organization' })
+  async diffVersions(
+    @Param('organizationId', ParseMongoIdPipe) organizationId: string,
+    @Param('id', ParseMongoIdPipe) id: string,
+    @Param('a') from: string,
+    @Param('b') to: string,
+    @Request() req: AuthenticatedRequest,
+  ): Promise<ProjectVersionDiff> {
+    this.validateOrganizationAccess(req.user.organizationId, organizationId);
+
+    return this.projectVersionService.diffVersions(
+      id,
+      from,
+      to,
+      organizationId,
+    );
   }
 }
@@ -1,9 +1,10 @@
 import { Module } from '@nestjs/common';
 import { ProjectController } from '@controllers/projects/project.controller';
 import { ProjectsModule as ProjectsBusinessModule } from '@app/modules/projects/projects.module';
+import { ProjectVersionsModule } from '@app/modules/project-versions/project-versions.module';
 
 @Module({
-  imports: [ProjectsBusinessModule],
+  imports: [ProjectsBusinessModule, ProjectVersionsModule],
   controllers: [ProjectController],
 })
 export class ProjectsControllerModule {}
@@ -0,0 +1,76 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import { FieldChange } from '@shared/utils/object-diff.utils';
+
+export type AuditEventDocument = AuditEvent & Document;
+
+export enum AuditAction {
+  CREATE = 'CREATE',
+  UPDATE = 'UPDATE',
+  DELETE = 'DELETE',
+  STATUS_CHANGE = 'STATUS_CHANGE', // estimate workflow, with its reason
+}
+
+// Append-only: events are never updated or deleted
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class AuditEvent {
+  @ApiProperty({ description: 'The unique identifier of the event' })
+  _id: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'The organization the changed entity belongs to',
+  })
+  @Prop({ type: Types.ObjectId, ref: 'Organization', required: true })
+  organizationId: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'The kind of entity changed, e.g. Estimate, EI or Project',
+  })
+  @Prop({ required: true })
+  entityType: string;
+
+  @ApiProperty({ description: 'The ID of the changed entity' })
+  @Prop({ type: Types.ObjectId, required: true })
+  entityId: Types.ObjectId;
+
+  @ApiProperty({ description: 'What was done', enum: AuditAction })
+  @Prop({ type: String, enum: AuditAction, required: true })
+  action: AuditAction;
+
+  @ApiProperty({
+    description:
+      'The user who made the change; empty for changes made outside a request',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  userId?: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'The IP address the request came from',
+    required: false,
+  })
+  @Prop()
+  ipAddress?: string;
+
+  @ApiProperty({
+    description:
+      'Changed fields with their values before and after; created and deleted entities list every field',
+    type: [Object],
+  })
+  @Prop({ type: [Object], default: [] })
+  changes: FieldChange[];
+
+  @ApiProperty({ description: 'Why the change was made', required: false })
+  @Prop()
+  reason?: string;
+
+  @ApiProperty({ description: 'When the change was made' })
+  createdAt: Date;
+}
+
+export const AuditEventSchema = SchemaFactory.createForClass(AuditEvent);
+
+AuditEventSchema.index({ organizationId: 1, createdAt: -1 });
+AuditEventSchema.index({ organizationId: 1, entityType: 1, entityId: 1 });
+AuditEventSchema.index({ organizationId: 1, userId: 1, createdAt: -1 });
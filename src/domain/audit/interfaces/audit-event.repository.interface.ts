@@ -0,0 +1,32 @@
+import {
+  AuditAction,
+  AuditEvent,
+} from '@domain/audit/entities/audit-event.entity';
+
+export const AUDIT_EVENT_REPOSITORY = 'AUDIT_EVENT_REPOSITORY';
+
+export interface AuditEventFilters {
+  entityType?: string;
+  entityId?: string;
+  userId?: string;
+  action?: AuditAction;
+  from?: Date;
+  to?: Date;
+}
+
+export interface IAuditEventRepository {
+  createMany(events: Partial<AuditEvent>[]): Promise<void>;
+  // Most recent first
+  findWithPagination(
+    organizationId: string,
+    page: number,
+    limit: number,
+    filters?: AuditEventFilters,
+  ): Promise<{
+    data: AuditEvent[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }>;
+}
@@ -0,0 +1,76 @@
+import { Types } from 'mongoose';
+import { AuditEventBuilder } from './audit-event-builder.service';
+import { AuditAction } from '@domain/audit/entities/audit-event.entity';
+
+const organizationId = new Types.ObjectId();
+const project = (overrides: Record<string, unknown> = {}) => ({
+  _id: new Types.ObjectId('64b000000000000000000001'),
+  organizationId,
+  name: 'Customer portal',
+  status: 'PLANNING',
+  updatedAt: new Date('2026-01-01'),
+  ...overrides,
+});
+
+describe('AuditEventBuilder', () => {
+  describe('build', () => {
+    it('should record the changed fields of an update with the actor', () => {
+      const userId = new Types.ObjectId().toString();
+      const event = AuditEventBuilder.build(
+        'Project',
+        project(),
+        project({ status: 'IN_PROGRESS', updatedAt: new Date('2026-02-01') }),
+        { userId, ipAddress: '10.0.0.7' },
+      );
+
+      expect(event).toMatchObject({
+        organizationId,
+        entityType: 'Project',
+        action: AuditAction.UPDATE,
+        ipAddress: '10.0.0.7',
+        changes: [
+          {
+            path: 'status',
+            change: 'modified',
+            before: 'PLANNING',
+            after: 'IN_PROGRESS',
+          },
+        ],
+      });
+      expect(event?.userId?.toString()).toBe(userId);
+    });
+
+    it('should list every field of created and deleted entities', () => {
+      const created = AuditEventBuilder.build('Project', null, project());
+      const deleted = AuditEventBuilder.build('Project', project(), null);
+
+      expect(created?.action).toBe(AuditAction.CREATE);
+      expect(created?.changes?.map((change) => change.path)).toEqual([
+        '_id',
+        'organizationId',
+        'name',
+        'status',
+      ]);
+      expect(deleted?.action).toBe(AuditAction.DELETE);
+      expect(deleted?.changes?.every((c) => c.change === 'removed')).toBe(true);
+    });
+
+    it('should skip writes that change nothing', () => {
+      expect(
+        AuditEventBuilder.build(
+          'Project',
+          project(),
+          project({ updatedAt: new Date('2026-03-01') }),
+        ),
+      ).toBeNull();
+    });
+
+    it('should log an organization under its own ID', () => {
+      const organization = { _id: organizationId, name: 'Acme' };
+      const event = AuditEventBuilder.build('Organization', null, organization);
+
+      expect(event?.organizationId).toBe(organizationId);
+      expect(event?.entityId).toBe(organizationId);
+    });
+  });
+});
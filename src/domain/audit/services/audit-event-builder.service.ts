@@ -0,0 +1,61 @@
+import { Types } from 'mongoose';
+import {
+  AuditAction,
+  AuditEvent,
+} from '@domain/audit/entities/audit-event.entity';
+import { ObjectDiffUtils } from '@shared/utils/object-diff.utils';
+
+export interface AuditActor {
+  userId?: string;
+  ipAddress?: string;
+}
+
+type EntityState = Record<string, unknown> & { _id: Types.ObjectId };
+
+export class AuditEventBuilder {
+  /**
+   * Describe the change of an entity from its stored state before and after
+   * a write: no state before is a creation, no state after a deletion.
+   * Returns null when nothing changed or the entity has no organization
+   */
+  static build(
+    entityType: string,
+    before: EntityState | null,
+    after: EntityState | null,
+    actor: AuditActor = {},
+  ): Partial<AuditEvent> | null {
+    const state = after ?? before;
+    if (!state) {
+      return null;
+    }
+
+    const changes = ObjectDiffUtils.diff(before ?? {}, after ?? {});
+    if (changes.length === 0) {
+      return null;
+    }
+
+    // An organization is audited in its own log
+    const organizationId =
+      entityType === 'Organization' ? state._id : state.organizationId;
+    if (!(organizationId instanceof Types.ObjectId)) {
+      return null;
+    }
+
+    return {
+      organizationId,
+      entityType,
+      entityId: state._id,
+      action: !before
+        ? AuditAction.CREATE
+        : !after
+          ? AuditAction.DELETE
+          : AuditAction.UPDATE,
+      ...(actor.userId &&
+        Types.ObjectId.isValid(actor.userId) && {
+          userId: new Types.ObjectId(actor.userId),
+        }),
+      ...(actor.ipAddress && { ipAddress: actor.ipAddress }),
+      changes,
+    };
+  }
+}
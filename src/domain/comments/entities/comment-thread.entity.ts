@@ -0,0 +1,112 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type CommentThreadDocument = CommentThread & Document;
+
+// What a thread is about
+export enum CommentTargetType {
+  ESTIMATE = 'ESTIMATE',
+  COMPONENT = 'COMPONENT', // ALI, AIE, EI, EO or EQ of an estimate
+  OBJECTIVE = 'OBJECTIVE',
+  QUESTION = 'QUESTION',
+  METRIC = 'METRIC',
+}
+
+export interface ThreadComment {
+  _id: Types.ObjectId;
+  authorId: Types.ObjectId;
+  text: string;
+  mentions: Types.ObjectId[]; // organization members mentioned with @username
+  createdAt: Date;
+}
+
+@Schema({ timestamps: true })
+export class CommentThread {
+  @ApiProperty({ description: 'The unique identifier of the thread' })
+  _id: Types.ObjectId;
+
+  @ApiProperty({ description: 'The organization this thread belongs to' })
+  @Prop({ type: Types.ObjectId, ref: 'Organization', required: true })
+  organizationId: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'The kind of element the thread is about',
+    enum: CommentTargetType,
+  })
+  @Prop({ type: String, enum: CommentTargetType, required: true })
+  targetType: CommentTargetType;
+
+  @ApiProperty({
+    description:
+      'The element the thread is about: the estimate, component, objective, question or metric',
+  })
+  @Prop({ type: Types.ObjectId, required: true })
+  targetId: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'The estimate of estimate and component threads',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'Estimate' })
+  estimateId?: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'The type of the component of component threads',
+    enum: ['ALI', 'AIE', 'EI', 'EO', 'EQ'],
+    required: false,
+  })
+  @Prop({ type: String, enum: ['ALI', 'AIE', 'EI', 'EO', 'EQ'] })
+  componentType?: 'ALI' | 'AIE' | 'EI' | 'EO' | 'EQ';
+
+  @ApiProperty({
+    description:
+      'The measurement plan of objective, question and metric threads',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'MeasurementPlan' })
+  measurementPlanId?: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'The comments of the thread, oldest first',
+    type: [Object],
+  })
+  @Prop({ type: [Object], default: [] })
+  comments: ThreadComment[];
+
+  @ApiProperty({ description: 'Whether the discussion is settled' })
+  @Prop({ default: false })
+  resolved: boolean;
+
+  @ApiProperty({
+    description: 'The ID of the user who resolved the thread',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  resolvedBy?: Types.ObjectId;
+
+  @ApiProperty({ description: 'When the thread was resolved', required: false })
+  @Prop()
+  resolvedAt?: Date;
+
+  @ApiProperty({ description: 'The ID of the user who started the thread' })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  createdBy: Types.ObjectId;
+
+  @ApiProperty({ description: 'The date when the thread was created' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'The date when the thread was last updated' })
+  updatedAt: Date;
+}
+
+export const CommentThreadSchema = SchemaFactory.createForClass(CommentThread);
+
+CommentThreadSchema.index({ organizationId: 1, estimateId: 1, resolved: 1 });
+CommentThreadSchema.index({
+  organizationId: 1,
+  measurementPlanId: 1,
+  resolved: 1,
+});
+CommentThreadSchema.index({ targetId: 1 });
+CommentThreadSchema.index({ 'comments.mentions': 1 });
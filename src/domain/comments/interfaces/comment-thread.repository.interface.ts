@@ -0,0 +1,32 @@
+import {
+  CommentThread,
+  CommentTargetType,
+  ThreadComment,
+} from '@domain/comments/entities/comment-thread.entity';
+
+export const COMMENT_THREAD_REPOSITORY = 'COMMENT_THREAD_REPOSITORY';
+
+export interface CommentThreadFilters {
+  estimateId?: string;
+  measurementPlanId?: string;
+  targetType?: CommentTargetType;
+  targetId?: string;
+  resolved?: boolean;
+  mentionedUserId?: string;
+}
+
+export interface ICommentThreadRepository {
+  create(thread: Partial<CommentThread>): Promise<CommentThread>;
+  findById(id: string): Promise<CommentThread | null>;
+  // Most recently active threads first
+  findByOrganization(
+    organizationId: string,
+    filters?: CommentThreadFilters,
+  ): Promise<CommentThread[]>;
+  addComment(id: string, comment: ThreadComment): Promise<CommentThread | null>;
+  // Resolves the thread, or reopens it when resolvedBy is null
+  setResolution(
+    id: string,
+    resolvedBy: string | null,
+  ): Promise<CommentThread | null>;
+}
@@ -0,0 +1,25 @@
+import { MentionParser } from './mention-parser.service';
+
+describe('MentionParser', () => {
+  describe('usernames', () => {
+    it('should list each mentioned username once, lowercased', () => {
+      expect(
+        MentionParser.usernames(
+          '@ana.silva is this a RET? (@Bruno_M) cc @ana.silva',
+        ),
+      ).toEqual(['ana.silva', 'bruno_m']);
+    });
+
+    it('should drop trailing punctuation', () => {
+      expect(MentionParser.usernames('Thanks @carla. Agreed, @dev-1!')).toEqual(
+        ['carla', 'dev-1'],
+      );
+    });
+
+    it('should ignore e-mail addresses and lone at signs', () => {
+      expect(
+        MentionParser.usernames('Mail ana@example.com or ask @ the team'),
+      ).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,16 @@
+// @username preceded by the start of the text, a space or an opening
+// bracket, so e-mail addresses are not taken for mentions
+const MENTION_PATTERN = /(?:^|[\s(])@([A-Za-z0-9_.-]*[A-Za-z0-9_])/g;
+
+export class MentionParser {
+  /**
+   * Usernames mentioned in a comment, in order of first mention. Usernames
+   * are compared case-insensitively, so they are returned lowercased
+   */
+  static usernames(text: string): string[] {
+    const usernames = [...text.matchAll(MENTION_PATTERN)].map((match) =>
+      match[1].toLowerCase(),
+    );
+    return [...new Set(usernames)];
+  }
+}
@@ -1,7 +1,10 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
 import { ApiProperty } from '@nestjs/swagger';
-import { BaseFPAComponent } from './base-fpa-component.entity';
+import {
+  BaseFPAComponent,
+  RecordElementGroup,
+} from './base-fpa-component.entity';
 
 export type ALIDocument = ALI & Document;
 
@@ -24,6 +27,19 @@ export class ALI extends BaseFPAComponent {
   @Prop({ required: true, min: 1 })
   dataElementTypes: number;
 
+  @ApiProperty({
+    description:
+      'RET subgroups with their DETs; when given, recordElementTypes is derived from them',
+    type: [Object],
+    required: false,
+    example: [
+      { name: 'Customer', dataElements: ['Customer ID', 'Name'] },
+      { name: 'Address', dataElements: ['Street', 'City'] },
+    ],
+  })
+  @Prop({ type: [Object], default: undefined })
+  recordElements?: RecordElementGroup[];
+
   @ApiProperty({
     description:
       'Primary purpose and business function of this Internal Logical File',
@@ -0,0 +1,84 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import { ComplexityLevel } from './base-fpa-component.entity';
+import { CountType } from './estimate.entity';
+
+export type ApplicationBaselineDocument = ApplicationBaseline & Document;
+
+export type BaselineFunctionType = 'ALI' | 'AIE' | 'EI' | 'EO' | 'EQ';
+
+// A function currently installed in the application
+export interface BaselineFunction {
+  componentType: BaselineFunctionType;
+  componentId: Types.ObjectId; // Component that last defined this function
+  estimateId: Types.ObjectId; // Estimate that last added or changed it
+  name: string;
+  complexity: ComplexityLevel;
+  functionPoints: number;
+}
+
+// Application size after each finalized count is merged
+export interface BaselineSizeSnapshot {
+  estimateId: Types.ObjectId;
+  estimateName: string;
+  countType: CountType;
+  functionCount: number;
+  unadjustedFunctionPoints: number;
+  addedCount: number;
+  changedCount: number;
+  deletedCount: number;
+  recordedAt: Date;
+}
+
+@Schema({ timestamps: true })
+export class ApplicationBaseline {
+  @ApiProperty({ description: 'The unique identifier of the baseline' })
+  _id: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'The project (application) this baseline counts',
+  })
+  @Prop({ type: Types.ObjectId, ref: 'Project', required: true, unique: true })
+  projectId: Types.ObjectId;
+
+  @ApiProperty({ description: 'The organization this baseline belongs to' })
+  @Prop({ type: Types.ObjectId, ref: 'Organization', required: true })
+  organizationId: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'The functions currently installed in the application',
+    type: [Object],
+  })
+  @Prop({ type: [Object], default: [] })
+  functions: BaselineFunction[];
+
+  @ApiProperty({ description: 'The number of installed functions' })
+  @Prop({ default: 0 })
+  functionCount: number;
+
+  @ApiProperty({
+    description: 'The unadjusted function points of the installed application',
+  })
+  @Prop({ default: 0 })
+  unadjustedFunctionPoints: number;
+
+  @ApiProperty({
+    description: 'Application size recorded after each merged count',
+    type: [Object],
+  })
+  @Prop({ type: [Object], default: [] })
+  sizeHistory: BaselineSizeSnapshot[];
+
+  @ApiProperty({ description: 'The date when the baseline was created' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'The date when the baseline was last updated' })
+  updatedAt: Date;
+}
+
+export const ApplicationBaselineSchema =
+  SchemaFactory.createForClass(ApplicationBaseline);
+
+// Add indexes for performance
+ApplicationBaselineSchema.index({ organizationId: 1 });
@@ -8,6 +8,20 @@ export enum ComplexityLevel {
   HIGH = 'HIGH',
 }
 
+// Enhancement counts: how the function is affected by the project
+export enum FunctionChangeType {
+  ADDED = 'ADDED',
+  CHANGED = 'CHANGED',
+  DELETED = 'DELETED',
+  CONVERSION = 'CONVERSION',
+}
+
+// A RET subgroup of a data function and the DETs it holds
+export interface RecordElementGroup {
+  name: string;
+  dataElements: string[];
+}
+
 export class BaseFPAComponent {
   @ApiProperty({ description: 'The unique identifier of the component' })
   _id: Types.ObjectId;
@@ -40,6 +54,46 @@ export class BaseFPAComponent {
   @Prop({ required: true })
   functionPoints: number;
 
+  @ApiProperty({
+    description:
+      'How the function is affected by an enhancement project (ignored for development counts)',
+    enum: FunctionChangeType,
+    required: false,
+  })
+  @Prop({ type: String, enum: FunctionChangeType, required: false })
+  changeType?: FunctionChangeType;
+
+  @ApiProperty({
+    description:
+      'Names of the Data Element Types; when given, dataElementTypes is derived from them',
+    type: [String],
+    required: false,
+  })
+  @Prop({ type: [String], default: undefined })
+  dataElements?: string[];
+
+  @ApiProperty({
+    description: 'The library template this component was instantiated from',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'ComponentTemplate' })
+  templateId?: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'Revision of the template at instantiation',
+    required: false,
+  })
+  @Prop()
+  templateRevision?: number;
+
+  @ApiProperty({
+    description:
+      'Set when the library template changed after this component was instantiated',
+    required: false,
+  })
+  @Prop()
+  templateOutdated?: boolean;
+
   @ApiProperty({ description: 'The date when the component was created' })
   createdAt: Date;
 
@@ -0,0 +1,132 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type ComponentTemplateDocument = ComponentTemplate & Document;
+
+export const COMPONENT_TEMPLATE_TYPES = [
+  'ALI',
+  'AIE',
+  'EI',
+  'EO',
+  'EQ',
+] as const;
+
+export type ComponentTemplateType = (typeof COMPONENT_TEMPLATE_TYPES)[number];
+
+// Reusable component of an organization's library, instantiated into estimates
+@Schema({ timestamps: true })
+export class ComponentTemplate {
+  @ApiProperty({ description: 'The unique identifier of the template' })
+  _id: Types.ObjectId;
+
+  @ApiProperty({ description: 'The organization this template belongs to' })
+  @Prop({ type: Types.ObjectId, ref: 'Organization', required: true })
+  organizationId: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'The function type (ALI = ILF, AIE = EIF)',
+    enum: COMPONENT_TEMPLATE_TYPES,
+  })
+  @Prop({ type: String, enum: COMPONENT_TEMPLATE_TYPES, required: true })
+  componentType: ComponentTemplateType;
+
+  @ApiProperty({ description: 'The name of the template' })
+  @Prop({ required: true })
+  name: string;
+
+  @ApiProperty({ description: 'The description of the component' })
+  @Prop({ required: true })
+  description: string;
+
+  @ApiProperty({ description: 'Primary purpose of the component' })
+  @Prop({ required: true })
+  primaryIntent: string;
+
+  @ApiProperty({ description: 'Number of Data Element Types (DETs/TDs)' })
+  @Prop({ required: true, min: 1 })
+  dataElementTypes: number;
+
+  @ApiProperty({
+    description: 'Number of Record Element Types (RETs/TRs), ALI and AIE only',
+    required: false,
+  })
+  @Prop({ min: 1 })
+  recordElementTypes?: number;
+
+  @ApiProperty({
+    description:
+      'Number of File Types Referenced (FTRs/ARs), EI, EO and EQ only',
+    required: false,
+  })
+  @Prop({ min: 0 })
+  fileTypesReferenced?: number;
+
+  @ApiProperty({
+    description: 'External system that maintains the data (AIE)',
+    required: false,
+  })
+  @Prop()
+  externalSystem?: string;
+
+  @ApiProperty({ description: 'Processing logic (EI)', required: false })
+  @Prop()
+  processingLogic?: string;
+
+  @ApiProperty({ description: 'Output format (EO and EQ)', required: false })
+  @Prop()
+  outputFormat?: string;
+
+  @ApiProperty({
+    description: 'Whether the output produces derived data (EO)',
+    required: false,
+  })
+  @Prop()
+  derivedData?: boolean;
+
+  @ApiProperty({ description: 'Retrieval logic (EQ)', required: false })
+  @Prop()
+  retrievalLogic?: string;
+
+  @ApiProperty({ description: 'Additional technical notes', required: false })
+  @Prop()
+  notes?: string;
+
+  @ApiProperty({
+    description: 'Free-form labels used to find the template',
+    type: [String],
+  })
+  @Prop({ type: [String], default: [] })
+  tags: string[];
+
+  @ApiProperty({
+    description:
+      'Incremented whenever the counting data changes; instances made from older revisions are flagged as outdated',
+  })
+  @Prop({ default: 1 })
+  revision: number;
+
+  @ApiProperty({ description: 'The ID of the user who created the template' })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  createdBy: Types.ObjectId;
+
+  @ApiProperty({ description: 'The date when the template was created' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'The date when the template was last updated' })
+  updatedAt: Date;
+}
+
+export const ComponentTemplateSchema =
+  SchemaFactory.createForClass(ComponentTemplate);
+
+// Add indexes for performance
+ComponentTemplateSchema.index(
+  { organizationId: 1, componentType: 1, name: 1 },
+  { unique: true },
+);
+ComponentTemplateSchema.index({
+  name: 'text',
+  description: 'text',
+  tags: 'text',
+});
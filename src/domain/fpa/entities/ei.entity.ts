@@ -1,5 +1,5 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
-import { Document } from 'mongoose';
+import { Document, Types } from 'mongoose';
 import { ApiProperty } from '@nestjs/swagger';
 import { BaseFPAComponent } from './base-fpa-component.entity';
 
@@ -16,6 +16,15 @@ export class EI extends BaseFPAComponent {
   @Prop({ required: true, min: 0 })
   fileTypesReferenced: number;
 
+  @ApiProperty({
+    description:
+      'ALI/AIE components of the same estimate referenced by the transaction; when given, fileTypesReferenced is derived from them',
+    type: [String],
+    required: false,
+  })
+  @Prop({ type: [{ type: Types.ObjectId }], default: undefined })
+  referencedFiles?: Types.ObjectId[];
+
   @ApiProperty({
     description: 'Number of Data Element Types (DETs/TDs) - Tipos de Dados',
     example: 12,
@@ -1,5 +1,5 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
-import { Document } from 'mongoose';
+import { Document, Types } from 'mongoose';
 import { ApiProperty } from '@nestjs/swagger';
 import { BaseFPAComponent } from './base-fpa-component.entity';
 
@@ -16,6 +16,15 @@ export class EQ extends BaseFPAComponent {
   @Prop({ required: true, min: 0 })
   fileTypesReferenced: number;
 
+  @ApiProperty({
+    description:
+      'ALI/AIE components of the same estimate referenced by the transaction; when given, fileTypesReferenced is derived from them',
+    type: [String],
+    required: false,
+  })
+  @Prop({ type: [{ type: Types.ObjectId }], default: undefined })
+  referencedFiles?: Types.ObjectId[];
+
   @ApiProperty({
     description: 'Number of Data Element Types (DETs/TDs) - Tipos de Dados',
     example: 18,
@@ -91,6 +100,15 @@ export class EQ extends BaseFPAComponent {
   @Prop({ required: false })
   outputFormat?: string;
 
+  @ApiProperty({
+    description:
+      'Indicates whether the query produces derived data; an EQ does not, so such a query should be counted as an EO',
+    example: false,
+    required: false,
+  })
+  @Prop({ required: false })
+  derivedData?: boolean;
+
   @ApiProperty({
     description:
       'Additional technical notes about query performance, caching, or special requirements',
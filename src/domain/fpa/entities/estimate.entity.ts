@@ -1,15 +1,25 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
 import { ApiProperty } from '@nestjs/swagger';
+import { UserRole } from '@domain/users/entities/user.entity';
+import { CocomoIIParameters } from '@domain/fpa/services/cocomo-ii.service';
 
 export type EstimateDocument = Estimate & Document;
 
 export enum EstimateStatus {
   DRAFT = 'DRAFT',
+  IN_REVIEW = 'IN_REVIEW',
+  CHANGES_REQUESTED = 'CHANGES_REQUESTED',
+  APPROVED = 'APPROVED',
   FINALIZED = 'FINALIZED',
   ARCHIVED = 'ARCHIVED',
 }
 
+export enum ReviewDecision {
+  APPROVED = 'APPROVED',
+  CHANGES_REQUESTED = 'CHANGES_REQUESTED',
+}
+
 // FR01: Count Type Selection
 export enum CountType {
   DEVELOPMENT_PROJECT = 'DEVELOPMENT_PROJECT',
@@ -17,6 +27,12 @@ export enum CountType {
   APPLICATION_PROJECT = 'APPLICATION_PROJECT',
 }
 
+// Effort model: AFP × hours/FP, or COCOMO II Post-Architecture
+export enum EstimationModel {
+  LINEAR = 'LINEAR',
+  COCOMO_II = 'COCOMO_II',
+}
+
 // FR02: Document Reference Type
 export interface DocumentReference {
   id: string;
@@ -39,6 +55,47 @@ export interface GeneralSystemCharacteristic {
   degreeOfInfluence: number;
 }
 
+// Actuals to date, recorded at a project milestone
+export interface EstimateMilestoneActuals {
+  milestone: string;
+  recordedAt: Date;
+  recordedBy: Types.ObjectId;
+  actualEffortHours: number;
+  actualCostBRL?: number;
+  actualDurationDays?: number;
+  actualTeamSize?: number;
+  notes?: string;
+}
+
+// Sign-off of the count by an assigned reviewer, cleared when the count is
+// reopened or a new version is created
+export interface EstimateApproval {
+  approvedBy: Types.ObjectId;
+  role: UserRole;
+  approvedAt: Date;
+  comment?: string;
+}
+
+// A user assigned to review the count and their decision in the current round
+export interface EstimateReviewer {
+  userId: Types.ObjectId;
+  assignedBy: Types.ObjectId;
+  assignedAt: Date;
+  decision?: ReviewDecision;
+  decidedAt?: Date;
+  comment?: string;
+}
+
+// Review remark on the estimate or, when componentId is set, on a component
+export interface EstimateReviewComment {
+  _id: Types.ObjectId;
+  authorId: Types.ObjectId;
+  componentType?: 'ALI' | 'AIE' | 'EI' | 'EO' | 'EQ';
+  componentId?: Types.ObjectId;
+  text: string;
+  createdAt: Date;
+}
+
 @Schema({ timestamps: true })
 export class Estimate {
   @ApiProperty({ description: 'The unique identifier of the estimate' })
@@ -158,6 +215,34 @@ export class Estimate {
   @Prop({ default: 10, min: 1, max: 100 })
   productivityFactor: number;
 
+  @ApiProperty({
+    description:
+      'The organization productivity model effort is taken from (overrides productivityFactor)',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'ProductivityModel' })
+  productivityModelId?: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'The model effort is estimated with',
+    enum: EstimationModel,
+    default: EstimationModel.LINEAR,
+  })
+  @Prop({
+    type: String,
+    enum: EstimationModel,
+    default: EstimationModel.LINEAR,
+  })
+  estimationModel: EstimationModel;
+
+  @ApiProperty({
+    description:
+      'COCOMO II language, scale factor and effort multiplier ratings (drivers left out are nominal)',
+    required: false,
+  })
+  @Prop({ type: Object })
+  cocomoParameters?: CocomoIIParameters;
+
   @ApiProperty({
     description: 'Team size for estimation (deprecated, use teamSize)',
     example: 5,
@@ -213,6 +298,16 @@ export class Estimate {
   @Prop({ type: [Number], required: false })
   generalSystemCharacteristics?: number[];
 
+  // Enhancement counts: GSC values of the application before the change (VAFB)
+  @ApiProperty({
+    description:
+      'The General System Characteristics values before the enhancement (0-5 for each of the 14 GSCs)',
+    type: [Number],
+    required: false,
+  })
+  @Prop({ type: [Number], required: false })
+  generalSystemCharacteristicsBefore?: number[];
+
   @ApiProperty({ description: 'The date when the estimate was created' })
   createdAt: Date;
 
@@ -226,6 +321,101 @@ export class Estimate {
   @ApiProperty({ description: 'Version number for tracking changes' })
   @Prop({ default: 1 })
   version: number;
+
+  @ApiProperty({
+    description:
+      'The first version of this estimate (unset on the first version)',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'Estimate' })
+  rootEstimateId?: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'The version this estimate was created from',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'Estimate' })
+  previousVersionId?: Types.ObjectId;
+
+  // Actuals recorded once the project is completed, used for calibration
+  @ApiProperty({
+    description: 'Effort actually spent delivering the estimated scope',
+    example: 1250,
+    required: false,
+  })
+  @Prop({ min: 0 })
+  actualEffortHours?: number;
+
+  @ApiProperty({
+    description: 'Function points actually delivered (recounted at delivery)',
+    example: 132,
+    required: false,
+  })
+  @Prop({ min: 0 })
+  actualFunctionPoints?: number;
+
+  @ApiProperty({
+    description: 'Final cost of the delivery, in BRL',
+    example: 125000,
+    required: false,
+  })
+  @Prop({ min: 0 })
+  actualCostBRL?: number;
+
+  @ApiProperty({
+    description: 'Final duration of the delivery, in working days',
+    example: 60,
+    required: false,
+  })
+  @Prop({ min: 0 })
+  actualDurationDays?: number;
+
+  @ApiProperty({
+    description: 'When the actuals were recorded',
+    required: false,
+  })
+  @Prop()
+  actualsRecordedAt?: Date;
+
+  @ApiProperty({
+    description: 'The user who recorded the actuals',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  actualsRecordedBy?: Types.ObjectId;
+
+  @ApiProperty({
+    description:
+      'Actual effort, cost, duration and team size recorded at each milestone, oldest first',
+    type: [Object],
+    required: false,
+  })
+  @Prop({ type: [Object], default: [] })
+  milestoneActuals?: EstimateMilestoneActuals[];
+
+  @ApiProperty({
+    description: 'Approvals of the count, required by some quality gates',
+    type: [Object],
+    required: false,
+  })
+  @Prop({ type: [Object], default: [] })
+  approvals?: EstimateApproval[];
+
+  @ApiProperty({
+    description: 'Users assigned to review the count and their decisions',
+    type: [Object],
+    required: false,
+  })
+  @Prop({ type: [Object], default: [] })
+  reviewers?: EstimateReviewer[];
+
+  @ApiProperty({
+    description: 'Review remarks on the estimate and its components',
+    type: [Object],
+    required: false,
+  })
+  @Prop({ type: [Object], default: [] })
+  reviewComments?: EstimateReviewComment[];
 }
 
 export const EstimateSchema = SchemaFactory.createForClass(Estimate);
@@ -237,3 +427,4 @@ EstimateSchema.index({ createdBy: 1 });
 EstimateSchema.index({ status: 1 });
 EstimateSchema.index({ organizationId: 1, status: 1 });
 EstimateSchema.index({ organizationId: 1, projectId: 1 });
+EstimateSchema.index({ rootEstimateId: 1, version: 1 });
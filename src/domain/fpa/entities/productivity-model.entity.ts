@@ -0,0 +1,94 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type ProductivityModelDocument = ProductivityModel & Document;
+
+export enum ProductivityCurveType {
+  LINEAR = 'LINEAR', // effort = FP × hours per FP
+  PIECEWISE = 'PIECEWISE', // hours per FP looked up by project size
+  POWER = 'POWER', // effort = hours per FP × FP ^ exponent
+}
+
+// One row of a piecewise productivity table
+export interface ProductivitySizeBand {
+  upToFunctionPoints: number | null; // null = no upper limit
+  hoursPerFunctionPoint: number;
+}
+
+@Schema({ timestamps: true })
+export class ProductivityModel {
+  @ApiProperty({ description: 'The unique identifier of the model' })
+  _id: Types.ObjectId;
+
+  @ApiProperty({ description: 'The organization this model belongs to' })
+  @Prop({ type: Types.ObjectId, ref: 'Organization', required: true })
+  organizationId: Types.ObjectId;
+
+  @ApiProperty({ description: 'The name of the model' })
+  @Prop({ required: true })
+  name: string;
+
+  @ApiProperty({
+    description: 'The technology or platform the model applies to',
+  })
+  @Prop({ required: true })
+  technology: string;
+
+  @ApiProperty({ description: 'Optional description of the model' })
+  @Prop()
+  description?: string;
+
+  @ApiProperty({
+    description:
+      'Hours per function point (the coefficient for power curves, the fallback for tables)',
+  })
+  @Prop({ required: true, min: 0.01 })
+  hoursPerFunctionPoint: number;
+
+  @ApiProperty({
+    description: 'How effort scales with size',
+    enum: ProductivityCurveType,
+  })
+  @Prop({
+    type: String,
+    enum: ProductivityCurveType,
+    default: ProductivityCurveType.LINEAR,
+  })
+  curveType: ProductivityCurveType;
+
+  @ApiProperty({
+    description: 'Size bands of a piecewise model, smallest first',
+    type: [Object],
+  })
+  @Prop({ type: [Object], default: [] })
+  sizeBands: ProductivitySizeBand[];
+
+  @ApiProperty({
+    description: 'Size exponent of a power model',
+    required: false,
+  })
+  @Prop()
+  exponent?: number;
+
+  @ApiProperty({ description: 'Whether new estimates can use the model' })
+  @Prop({ default: true })
+  isActive: boolean;
+
+  @ApiProperty({ description: 'The ID of the user who created the model' })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  createdBy: Types.ObjectId;
+
+  @ApiProperty({ description: 'The date when the model was created' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'The date when the model was last updated' })
+  updatedAt: Date;
+}
+
+export const ProductivityModelSchema =
+  SchemaFactory.createForClass(ProductivityModel);
+
+// Add indexes for performance
+ProductivityModelSchema.index({ organizationId: 1, name: 1 }, { unique: true });
+ProductivityModelSchema.index({ organizationId: 1, technology: 1 });
@@ -0,0 +1,48 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type QualityGatePolicyDocument = QualityGatePolicy & Document;
+
+// Checks an estimate must pass before it can be finalized
+export enum QualityGate {
+  GSC_VALUES_SET = 'GSC_VALUES_SET',
+  BOUNDARY_AND_SCOPE = 'BOUNDARY_AND_SCOPE',
+  DOCUMENT_REFERENCE = 'DOCUMENT_REFERENCE',
+  NO_VALIDATION_ERRORS = 'NO_VALIDATION_ERRORS',
+  MEASUREMENT_ANALYST_APPROVAL = 'MEASUREMENT_ANALYST_APPROVAL',
+}
+
+@Schema({ timestamps: true })
+export class QualityGatePolicy {
+  @ApiProperty({ description: 'The unique identifier of the policy' })
+  _id: Types.ObjectId;
+
+  @ApiProperty({ description: 'The organization this policy belongs to' })
+  @Prop({ type: Types.ObjectId, ref: 'Organization', required: true })
+  organizationId: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'The gates estimates must pass to be finalized',
+    enum: QualityGate,
+    isArray: true,
+  })
+  @Prop({ type: [String], enum: QualityGate, default: [] })
+  gates: QualityGate[];
+
+  @ApiProperty({ description: 'The ID of the user who last changed the gates' })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  updatedBy: Types.ObjectId;
+
+  @ApiProperty({ description: 'The date when the policy was created' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'The date when the policy was last updated' })
+  updatedAt: Date;
+}
+
+export const QualityGatePolicySchema =
+  SchemaFactory.createForClass(QualityGatePolicy);
+
+// One policy per organization
+QualityGatePolicySchema.index({ organizationId: 1 }, { unique: true });
@@ -0,0 +1,16 @@
+import { ApplicationBaseline } from '@domain/fpa/entities/application-baseline.entity';
+
+export const APPLICATION_BASELINE_REPOSITORY =
+  'APPLICATION_BASELINE_REPOSITORY';
+
+export interface IApplicationBaselineRepository {
+  create(baseline: Partial<ApplicationBaseline>): Promise<ApplicationBaseline>;
+  findById(id: string): Promise<ApplicationBaseline | null>;
+  findByProject(projectId: string): Promise<ApplicationBaseline | null>;
+  findByOrganization(organizationId: string): Promise<ApplicationBaseline[]>;
+  update(
+    id: string,
+    baseline: Partial<ApplicationBaseline>,
+  ): Promise<ApplicationBaseline | null>;
+  delete(id: string): Promise<boolean>;
+}
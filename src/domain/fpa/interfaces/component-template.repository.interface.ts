@@ -0,0 +1,56 @@
+import { Types } from 'mongoose';
+import {
+  ComponentTemplate,
+  ComponentTemplateType,
+} from '@domain/fpa/entities/component-template.entity';
+
+export const COMPONENT_TEMPLATE_REPOSITORY = 'COMPONENT_TEMPLATE_REPOSITORY';
+
+export interface ComponentTemplateSearch {
+  componentType?: ComponentTemplateType;
+  search?: string; // Text search over name, description and tags
+  tag?: string;
+}
+
+// An estimate component instantiated from a template
+export interface LinkedComponentSummary {
+  _id: Types.ObjectId;
+  componentType: ComponentTemplateType;
+  name: string;
+  projectId: Types.ObjectId;
+  templateRevision?: number;
+  templateOutdated: boolean;
+}
+
+export interface IComponentTemplateRepository {
+  create(template: Partial<ComponentTemplate>): Promise<ComponentTemplate>;
+  findById(id: string): Promise<ComponentTemplate | null>;
+  findByOrganization(
+    organizationId: string,
+    filters?: ComponentTemplateSearch,
+  ): Promise<ComponentTemplate[]>;
+  findByName(
+    organizationId: string,
+    componentType: ComponentTemplateType,
+    name: string,
+  ): Promise<ComponentTemplate | null>;
+  update(
+    id: string,
+    template: Partial<ComponentTemplate>,
+  ): Promise<ComponentTemplate | null>;
+  delete(id: string): Promise<boolean>;
+  findLinkedComponents(
+    templateId: string,
+    componentType: ComponentTemplateType,
+  ): Promise<LinkedComponentSummary[]>;
+  // Flags instances made from earlier revisions; returns how many were flagged
+  flagOutdatedComponents(
+    templateId: string,
+    componentType: ComponentTemplateType,
+    revision: number,
+  ): Promise<number>;
+  unlinkComponents(
+    templateId: string,
+    componentType: ComponentTemplateType,
+  ): Promise<void>;
+}
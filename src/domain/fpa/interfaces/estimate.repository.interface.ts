@@ -1,7 +1,55 @@
+import { Types } from 'mongoose';
 import { Estimate, EstimateStatus } from '@domain/fpa/entities/estimate.entity';
+import {
+  ComplexityLevel,
+  FunctionChangeType,
+} from '@domain/fpa/entities/base-fpa-component.entity';
+import { ALI } from '@domain/fpa/entities/ali.entity';
+import { AIE } from '@domain/fpa/entities/aie.entity';
+import { EI } from '@domain/fpa/entities/ei.entity';
+import { EO } from '@domain/fpa/entities/eo.entity';
+import { EQ } from '@domain/fpa/entities/eq.entity';
 
 export const ESTIMATE_REPOSITORY = 'ESTIMATE_REPOSITORY';
 
+// Counting data of a component referenced by an estimate
+export interface EstimateComponentSummary {
+  _id: Types.ObjectId;
+  componentType: 'ALI' | 'AIE' | 'EI' | 'EO' | 'EQ';
+  name: string;
+  complexity: ComplexityLevel;
+  functionPoints: number;
+  changeType?: FunctionChangeType;
+  dataElementTypes?: number;
+  recordElementTypes?: number; // ALI and AIE
+  fileTypesReferenced?: number; // EI, EO and EQ
+  // EQ dual complexity (input/output sides)
+  inputFtr?: number;
+  inputDet?: number;
+  outputFtr?: number;
+  outputDet?: number;
+  // Named lists, when the component was counted from them
+  dataElements?: string[];
+  referencedFiles?: Types.ObjectId[]; // EI, EO and EQ
+  derivedData?: boolean; // EO and EQ
+}
+
+// New components to create and reference from an estimate in one go. An _id
+// given in advance is kept, so components of the batch can reference others
+export interface EstimateComponentBatch {
+  ALI?: Partial<ALI>[];
+  AIE?: Partial<AIE>[];
+  EI?: Partial<EI>[];
+  EO?: Partial<EO>[];
+  EQ?: Partial<EQ>[];
+}
+
+// Ids of the created components, in the order of the batch
+export type EstimateComponentBatchIds = Record<
+  keyof EstimateComponentBatch,
+  Types.ObjectId[]
+>;
+
 export interface IEstimateRepository {
   create(estimate: Partial<Estimate>): Promise<Estimate>;
   findById(id: string): Promise<Estimate | null>;
@@ -15,4 +63,12 @@ export interface IEstimateRepository {
   delete(id: string): Promise<boolean>;
   findLatestVersion(projectId: string): Promise<Estimate | null>;
   createNewVersion(id: string): Promise<Estimate | null>;
+  findVersionLineage(rootEstimateId: string): Promise<Estimate[]>;
+  findComponentSummaries(
+    estimateId: string,
+  ): Promise<EstimateComponentSummary[]>;
+  addComponents(
+    estimateId: string,
+    batch: EstimateComponentBatch,
+  ): Promise<EstimateComponentBatchIds | null>;
 }
@@ -0,0 +1,18 @@
+import { ProductivityModel } from '@domain/fpa/entities/productivity-model.entity';
+
+export const PRODUCTIVITY_MODEL_REPOSITORY = 'PRODUCTIVITY_MODEL_REPOSITORY';
+
+export interface IProductivityModelRepository {
+  create(model: Partial<ProductivityModel>): Promise<ProductivityModel>;
+  findById(id: string): Promise<ProductivityModel | null>;
+  findByOrganization(organizationId: string): Promise<ProductivityModel[]>;
+  findByName(
+    organizationId: string,
+    name: string,
+  ): Promise<ProductivityModel | null>;
+  update(
+    id: string,
+    model: Partial<ProductivityModel>,
+  ): Promise<ProductivityModel | null>;
+  delete(id: string): Promise<boolean>;
+}
@@ -0,0 +1,16 @@
+import {
+  QualityGate,
+  QualityGatePolicy,
+} from '@domain/fpa/entities/quality-gate-policy.entity';
+
+export const QUALITY_GATE_POLICY_REPOSITORY = 'QUALITY_GATE_POLICY_REPOSITORY';
+
+export interface IQualityGatePolicyRepository {
+  findByOrganization(organizationId: string): Promise<QualityGatePolicy | null>;
+  // Creates the policy of the organization on first use
+  upsert(
+    organizationId: string,
+    gates: QualityGate[],
+    updatedBy: string,
+  ): Promise<QualityGatePolicy>;
+}
@@ -7,13 +7,20 @@
  * This observer sends email notifications when estimate status changes
  */
 
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import { Types } from 'mongoose';
 import {
   IEstimateObserver,
   EstimateStatusChangeEvent,
 } from './estimate-observer.interface';
 import { EstimateStatus } from '@domain/fpa/entities/estimate.entity';
 import { EmailService } from '@infrastructure/external-services/email/email.service';
+import { AuditAction } from '@domain/audit/entities/audit-event.entity';
+import {
+  AUDIT_EVENT_REPOSITORY,
+  IAuditEventRepository,
+} from '@domain/audit/interfaces/audit-event.repository.interface';
+import { AuditContext } from '@infrastructure/audit/audit-context';
 
 /**
  * Concrete Observer - Sends email notifications
@@ -67,10 +74,16 @@ export class EmailNotificationObserver implements IEstimateObserver {
   }
 
   /**
-   * Filter: Only notify for status changes to FINALIZED or ARCHIVED
+   * Filter: Only notify for review steps and status changes to FINALIZED or ARCHIVED
    */
   shouldNotify(event: EstimateStatusChangeEvent): boolean {
-    const importantStatuses = [EstimateStatus.FINALIZED, EstimateStatus.ARCHIVED];
+    const importantStatuses = [
+      EstimateStatus.IN_REVIEW,
+      EstimateStatus.CHANGES_REQUESTED,
+      EstimateStatus.APPROVED,
+      EstimateStatus.FINALIZED,
+      EstimateStatus.ARCHIVED,
+    ];
     return importantStatuses.includes(event.newStatus);
   }
 
@@ -117,6 +130,47 @@ export class EmailNotificationObserver implements IEstimateObserver {
         `;
         break;
 
+      case EstimateStatus.IN_REVIEW:
+        subject = `Estimate Submitted for Review: ${estimateName}`;
+        body = `
+          <div style="font-family: Arial, sans-serif;">
+            <h2>Estimate Submitted for Review</h2>
+            <p>The estimate "${estimateName}" is waiting for your review.</p>
+
+            <p><strong>Adjusted Function Points:</strong> ${event.estimate.adjustedFunctionPoints}</p>
+            <p><strong>Submitted At:</strong> ${event.changedAt.toLocaleString()}</p>
+
+            <p>Comment on its components, then approve it or request changes.</p>
+          </div>
+        `;
+        break;
+
+      case EstimateStatus.CHANGES_REQUESTED:
+        subject = `Changes Requested: ${estimateName}`;
+        body = `
+          <div style="font-family: Arial, sans-serif;">
+            <h2>Changes Requested</h2>
+            <p>A reviewer requested changes to the estimate "${estimateName}".</p>
+
+            ${event.reason ? `<p><strong>Reason:</strong> ${event.reason}</p>` : ''}
+
+            <p>Review the comments, update the count and submit it again.</p>
+          </div>
+        `;
+        break;
+
+      case EstimateStatus.APPROVED:
+        subject = `Estimate Approved: ${estimateName}`;
+        body = `
+          <div style="font-family: Arial, sans-serif;">
+            <h2>Estimate Approved</h2>
+            <p>Every reviewer approved the estimate "${estimateName}". It can now be finalized.</p>
+
+            <p><strong>Approved At:</strong> ${event.changedAt.toLocaleString()}</p>
+          </div>
+        `;
+        break;
+
       case EstimateStatus.ARCHIVED:
         subject = `Estimate Archived: ${estimateName}`;
         body = `
@@ -175,40 +229,41 @@ export class LogObserver implements IEstimateObserver {
 
 /**
  * Concrete Observer - Audit trail
- * Stores status changes in an audit table (implementation placeholder)
+ * Stores status changes, with their reason, in the organization audit trail
  */
 @Injectable()
 export class AuditObserver implements IEstimateObserver {
-  private readonly logger = new Logger(AuditObserver.name);
+  constructor(
+    @Inject(AUDIT_EVENT_REPOSITORY)
+    private readonly auditEventRepository: IAuditEventRepository,
+  ) {}
 
   async update(event: EstimateStatusChangeEvent): Promise<void> {
-    // TODO: Implement actual audit trail storage
-    // This would typically save to an audit_trail table
-    const auditEntry = {
-      entityType: 'Estimate',
-      entityId: event.estimate._id.toString(),
-      action: 'STATUS_CHANGE',
-      previousValue: event.previousStatus,
-      newValue: event.newStatus,
-      changedBy: event.changedBy,
-      changedAt: event.changedAt,
-      reason: event.reason,
-      metadata: event.metadata,
-    };
-
-    this.logger.debug(
-      `Audit entry created: ${JSON.stringify(auditEntry, null, 2)}`,
-    );
-
-    // await this.auditRepository.create(auditEntry);
+    const { ipAddress } = AuditContext.currentActor();
+    await this.auditEventRepository.createMany([
+      {
+        organizationId: event.estimate.organizationId,
+        entityType: 'Estimate',
+        entityId: event.estimate._id,
+        action: AuditAction.STATUS_CHANGE,
+        ...(Types.ObjectId.isValid(event.changedBy) && {
+          userId: new Types.ObjectId(event.changedBy),
+        }),
+        ...(ipAddress && { ipAddress }),
+        changes: [
+          {
+            path: 'status',
+            change: 'modified',
+            before: event.previousStatus,
+            after: event.newStatus,
+          },
+        ],
+        ...(event.reason && { reason: event.reason }),
+      },
+    ]);
   }
 
   getName(): string {
     return 'AuditObserver';
   }
-
-  // Only audit FINALIZED and ARCHIVED status changes
-  shouldNotify(event: EstimateStatusChangeEvent): boolean {
-    return event.newStatus !== EstimateStatus.DRAFT;
-  }
 }
@@ -0,0 +1,53 @@
+import {
+  CocomoIICalculator,
+  CocomoRating,
+  CocomoEffortMultiplier,
+} from './cocomo-ii.service';
+
+describe('CocomoIICalculator', () => {
+  describe('calculate', () => {
+    it('should backfire function points and apply nominal drivers', () => {
+      const result = CocomoIICalculator.calculate(100, { language: 'Java' });
+
+      expect(result.ksloc).toBeCloseTo(5.3);
+      expect(result.scaleExponent).toBeCloseTo(1.0997, 4);
+      expect(result.effortMultiplierProduct).toBe(1);
+      expect(result.effortPersonMonths).toBeCloseTo(18.4, 1);
+      expect(result.scheduleMonths).toBeCloseTo(9.26, 1);
+      expect(result.effortHours).toBeCloseTo(result.effortPersonMonths * 152);
+    });
+
+    it('should compress the schedule and keep SCED out of nominal effort', () => {
+      const result = CocomoIICalculator.calculate(100, {
+        slocPerFunctionPoint: 53,
+        effortMultipliers: {
+          [CocomoEffortMultiplier.SCED]: CocomoRating.VERY_LOW,
+        },
+      });
+      const nominal = CocomoIICalculator.calculate(100, {
+        slocPerFunctionPoint: 53,
+      });
+
+      expect(result.nominalEffortPersonMonths).toBeCloseTo(
+        nominal.effortPersonMonths,
+      );
+      expect(result.effortPersonMonths).toBeCloseTo(
+        nominal.effortPersonMonths * 1.43,
+      );
+      expect(result.scheduleMonths).toBeCloseTo(nominal.scheduleMonths * 0.75);
+    });
+  });
+
+  describe('validateParameters', () => {
+    it('should reject unknown languages and undefined rating levels', () => {
+      const errors = CocomoIICalculator.validateParameters({
+        language: 'Klingon',
+        effortMultipliers: {
+          [CocomoEffortMultiplier.TIME]: CocomoRating.LOW,
+        },
+      });
+
+      expect(errors).toHaveLength(2);
+    });
+  });
+});
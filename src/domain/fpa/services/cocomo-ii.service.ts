@@ -0,0 +1,311 @@
+import { Injectable } from '@nestjs/common';
+
+// COCOMO II.2000 Post-Architecture model
+export enum CocomoRating {
+  VERY_LOW = 'VERY_LOW',
+  LOW = 'LOW',
+  NOMINAL = 'NOMINAL',
+  HIGH = 'HIGH',
+  VERY_HIGH = 'VERY_HIGH',
+  EXTRA_HIGH = 'EXTRA_HIGH',
+}
+
+export enum CocomoScaleFactor {
+  PREC = 'PREC', // Precedentedness
+  FLEX = 'FLEX', // Development flexibility
+  RESL = 'RESL', // Architecture / risk resolution
+  TEAM = 'TEAM', // Team cohesion
+  PMAT = 'PMAT', // Process maturity
+}
+
+export enum CocomoEffortMultiplier {
+  RELY = 'RELY', // Required software reliability
+  DATA = 'DATA', // Database size
+  CPLX = 'CPLX', // Product complexity
+  RUSE = 'RUSE', // Developed for reusability
+  DOCU = 'DOCU', // Documentation match to life-cycle needs
+  TIME = 'TIME', // Execution time constraint
+  STOR = 'STOR', // Main storage constraint
+  PVOL = 'PVOL', // Platform volatility
+  ACAP = 'ACAP', // Analyst capability
+  PCAP = 'PCAP', // Programmer capability
+  PCON = 'PCON', // Personnel continuity
+  APEX = 'APEX', // Applications experience
+  PLEX = 'PLEX', // Platform experience
+  LTEX = 'LTEX', // Language and tool experience
+  TOOL = 'TOOL', // Use of software tools
+  SITE = 'SITE', // Multisite development
+  SCED = 'SCED', // Required development schedule
+}
+
+// Drivers left out are rated NOMINAL
+export interface CocomoIIParameters {
+  language?: string;
+  slocPerFunctionPoint?: number;
+  scaleFactors?: Partial<Record<CocomoScaleFactor, CocomoRating>>;
+  effortMultipliers?: Partial<Record<CocomoEffortMultiplier, CocomoRating>>;
+}
+
+export interface CocomoIIResult {
+  language: string | null;
+  slocPerFunctionPoint: number;
+  ksloc: number;
+  scaleFactorSum: number;
+  scaleExponent: number; // E
+  effortMultiplierProduct: number;
+  nominalEffortPersonMonths: number; // PM_NS, without schedule compression
+  effortPersonMonths: number; // PM, including SCED
+  effortHours: number;
+  scheduleMonths: number; // TDEV
+  averageStaffing: number;
+}
+
+type RatingTable = Partial<Record<CocomoRating, number>>;
+
+const A = 2.94;
+const B = 0.91;
+const C = 3.67;
+const D = 0.28;
+const HOURS_PER_PERSON_MONTH = 152;
+
+const SCALE_FACTORS: Record<CocomoScaleFactor, RatingTable> = {
+  PREC: {
+    VERY_LOW: 6.2,
+    LOW: 4.96,
+    NOMINAL: 3.72,
+    HIGH: 2.48,
+    VERY_HIGH: 1.24,
+    EXTRA_HIGH: 0,
+  },
+  FLEX: {
+    VERY_LOW: 5.07,
+    LOW: 4.05,
+    NOMINAL: 3.04,
+    HIGH: 2.03,
+    VERY_HIGH: 1.01,
+    EXTRA_HIGH: 0,
+  },
+  RESL: {
+    VERY_LOW: 7.07,
+    LOW: 5.65,
+    NOMINAL: 4.24,
+    HIGH: 2.83,
+    VERY_HIGH: 1.41,
+    EXTRA_HIGH: 0,
+  },
+  TEAM: {
+    VERY_LOW: 5.48,
+    LOW: 4.38,
+    NOMINAL: 3.29,
+    HIGH: 2.19,
+    VERY_HIGH: 1.1,
+    EXTRA_HIGH: 0,
+  },
+  PMAT: {
+    VERY_LOW: 7.8,
+    LOW: 6.24,
+    NOMINAL: 4.68,
+    HIGH: 3.12,
+    VERY_HIGH: 1.56,
+    EXTRA_HIGH: 0,
+  },
+};
+
+const EFFORT_MULTIPLIERS: Record<CocomoEffortMultiplier, RatingTable> = {
+  RELY: { VERY_LOW: 0.82, LOW: 0.92, NOMINAL: 1, HIGH: 1.1, VERY_HIGH: 1.26 },
+  DATA: { LOW: 0.9, NOMINAL: 1, HIGH: 1.14, VERY_HIGH: 1.28 },
+  CPLX: {
+    VERY_LOW: 0.73,
+    LOW: 0.87,
+    NOMINAL: 1,
+    HIGH: 1.17,
+    VERY_HIGH: 1.34,
+    EXTRA_HIGH: 1.74,
+  },
+  RUSE: {
+    LOW: 0.95,
+    NOMINAL: 1,
+    HIGH: 1.07,
+    VERY_HIGH: 1.15,
+    EXTRA_HIGH: 1.24,
+  },
+  DOCU: { VERY_LOW: 0.81, LOW: 0.91, NOMINAL: 1, HIGH: 1.11, VERY_HIGH: 1.23 },
+  TIME: { NOMINAL: 1, HIGH: 1.11, VERY_HIGH: 1.29, EXTRA_HIGH: 1.63 },
+  STOR: { NOMINAL: 1, HIGH: 1.05, VERY_HIGH: 1.17, EXTRA_HIGH: 1.46 },
+  PVOL: { LOW: 0.87, NOMINAL: 1, HIGH: 1.15, VERY_HIGH: 1.3 },
+  ACAP: { VERY_LOW: 1.42, LOW: 1.19, NOMINAL: 1, HIGH: 0.85, VERY_HIGH: 0.71 },
+  PCAP: { VERY_LOW: 1.34, LOW: 1.15, NOMINAL: 1, HIGH: 0.88, VERY_HIGH: 0.76 },
+  PCON: { VERY_LOW: 1.29, LOW: 1.12, NOMINAL: 1, HIGH: 0.9, VERY_HIGH: 0.81 },
+  APEX: { VERY_LOW: 1.22, LOW: 1.1, NOMINAL: 1, HIGH: 0.88, VERY_HIGH: 0.81 },
+  PLEX: { VERY_LOW: 1.19, LOW: 1.09, NOMINAL: 1, HIGH: 0.91, VERY_HIGH: 0.85 },
+  LTEX: { VERY_LOW: 1.2, LOW: 1.09, NOMINAL: 1, HIGH: 0.91, VERY_HIGH: 0.84 },
+  TOOL: { VERY_LOW: 1.17, LOW: 1.09, NOMINAL: 1, HIGH: 0.9, VERY_HIGH: 0.78 },
+  SITE: {
+    VERY_LOW: 1.22,
+    LOW: 1.09,
+    NOMINAL: 1,
+    HIGH: 0.93,
+    VERY_HIGH: 0.86,
+    EXTRA_HIGH: 0.8,
+  },
+  SCED: { VERY_LOW: 1.43, LOW: 1.14, NOMINAL: 1, HIGH: 1, VERY_HIGH: 1 },
+};
+
+// Schedule compression or stretch-out applied to TDEV, in percent
+const SCED_PERCENTAGE: RatingTable = {
+  VERY_LOW: 75,
+  LOW: 85,
+  NOMINAL: 100,
+  HIGH: 130,
+  VERY_HIGH: 160,
+};
+
+// Backfiring ratios: source lines per unadjusted function point
+// (COCOMO II model definition manual, QSM averages for newer languages)
+const SLOC_PER_FUNCTION_POINT: Record<string, number> = {
+  ADA: 49,
+  ASSEMBLY: 320,
+  BASIC: 91,
+  C: 128,
+  'C++': 55,
+  'C#': 54,
+  COBOL: 91,
+  FORTRAN: 105,
+  JAVA: 53,
+  JAVASCRIPT: 47,
+  LISP: 64,
+  PASCAL: 91,
+  PROLOG: 64,
+  SPREADSHEET: 6,
+  SQL: 21,
+  VISUAL_BASIC: 32,
+};
+
+@Injectable()
+export class CocomoIICalculator {
+  static getSupportedLanguages(): Record<string, number> {
+    return { ...SLOC_PER_FUNCTION_POINT };
+  }
+
+  /**
+   * Problems that prevent a calculation: an unknown language without a
+   * custom ratio, or a driver rated at a level it does not define
+   */
+  static validateParameters(parameters: CocomoIIParameters): string[] {
+    const errors: string[] = [];
+
+    if (!parameters.slocPerFunctionPoint && !parameters.language) {
+      errors.push('Either a language or slocPerFunctionPoint is required');
+    } else if (
+      !parameters.slocPerFunctionPoint &&
+      !this.lookupLanguage(parameters.language)
+    ) {
+      errors.push(
+        `No backfiring ratio for language "${parameters.language}"; provide slocPerFunctionPoint`,
+      );
+    }
+
+    Object.entries(parameters.scaleFactors || {}).forEach(([name, rating]) => {
+      const table = SCALE_FACTORS[name as CocomoScaleFactor];
+      if (!table) {
+        errors.push(`Unknown scale factor "${name}"`);
+      } else if (table[rating] === undefined) {
+        errors.push(`Scale factor ${name} cannot be rated ${rating}`);
+      }
+    });
+
+    Object.entries(parameters.effortMultipliers || {}).forEach(
+      ([name, rating]) => {
+        const table = EFFORT_MULTIPLIERS[name as CocomoEffortMultiplier];
+        if (!table) {
+          errors.push(`Unknown effort multiplier "${name}"`);
+        } else if (table[rating] === undefined) {
+          errors.push(`Effort multiplier ${name} cannot be rated ${rating}`);
+        }
+      },
+    );
+
+    return errors;
+  }
+
+  /**
+   * PM = A × Size^E × ΠEM, E = B + 0.01 × ΣSF
+   * TDEV = C × PM_NS^F × SCED% / 100, F = D + 0.2 × (E − B)
+   * Size is backfired from unadjusted function points.
+   */
+  static calculate(
+    unadjustedFunctionPoints: number,
+    parameters: CocomoIIParameters,
+  ): CocomoIIResult {
+    const errors = this.validateParameters(parameters);
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+
+    const slocPerFunctionPoint =
+      parameters.slocPerFunctionPoint ??
+      (this.lookupLanguage(parameters.language) as number);
+    const ksloc = (unadjustedFunctionPoints * slocPerFunctionPoint) / 1000;
+
+    const scaleFactorSum = Object.values(CocomoScaleFactor).reduce(
+      (sum, factor) =>
+        sum +
+        (SCALE_FACTORS[factor][
+          parameters.scaleFactors?.[factor] ?? CocomoRating.NOMINAL
+        ] as number),
+      0,
+    );
+    const scaleExponent = B + 0.01 * scaleFactorSum;
+
+    const scedRating =
+      parameters.effortMultipliers?.SCED ?? CocomoRating.NOMINAL;
+    const effortMultiplierProduct = Object.values(
+      CocomoEffortMultiplier,
+    ).reduce(
+      (product, multiplier) =>
+        product *
+        (EFFORT_MULTIPLIERS[multiplier][
+          parameters.effortMultipliers?.[multiplier] ?? CocomoRating.NOMINAL
+        ] as number),
+      1,
+    );
+    const scedMultiplier = EFFORT_MULTIPLIERS.SCED[scedRating] as number;
+
+    const sizeFactor = ksloc > 0 ? A * Math.pow(ksloc, scaleExponent) : 0;
+    const nominalEffortPersonMonths =
+      sizeFactor * (effortMultiplierProduct / scedMultiplier);
+    const effortPersonMonths = sizeFactor * effortMultiplierProduct;
+
+    const scheduleExponent = D + 0.2 * (scaleExponent - B);
+    const scheduleMonths =
+      nominalEffortPersonMonths > 0
+        ? C *
+          Math.pow(nominalEffortPersonMonths, scheduleExponent) *
+          ((SCED_PERCENTAGE[scedRating] as number) / 100)
+        : 0;
+
+    return {
+      language: parameters.language ?? null,
+      slocPerFunctionPoint,
+      ksloc,
+      scaleFactorSum,
+      scaleExponent,
+      effortMultiplierProduct,
+      nominalEffortPersonMonths,
+      effortPersonMonths,
+      effortHours: effortPersonMonths * HOURS_PER_PERSON_MONTH,
+      scheduleMonths,
+      averageStaffing:
+        scheduleMonths > 0 ? effortPersonMonths / scheduleMonths : 0,
+    };
+  }
+
+  private static lookupLanguage(language?: string): number | undefined {
+    if (!language) {
+      return undefined;
+    }
+    return SLOC_PER_FUNCTION_POINT[
+      language.trim().toUpperCase().replace(/\s+/g, '_')
+    ];
+  }
+}
@@ -0,0 +1,78 @@
+import {
+  EffortSimulator,
+  EffortSimulationInput,
+} from './effort-simulator.service';
+
+describe('EffortSimulator', () => {
+  const baseInput: EffortSimulationInput = {
+    componentCounts: {
+      ALI: {
+        count: { optimistic: 4, mostLikely: 5, pessimistic: 8 },
+        averageFunctionPoints: 10,
+      },
+      EI: {
+        count: { optimistic: 10, mostLikely: 12, pessimistic: 20 },
+        averageFunctionPoints: 4,
+      },
+    },
+    productivityFactor: { optimistic: 6, mostLikely: 8, pessimistic: 14 },
+    valueAdjustmentFactor: 1,
+    hourlyRateBRL: 100,
+    teamSize: 2,
+    averageDailyWorkingHours: 8,
+    iterations: 2000,
+    histogramBuckets: 10,
+    seed: 42,
+  };
+
+  it('should return the deterministic values when there is no uncertainty', () => {
+    const result = EffortSimulator.simulate({
+      ...baseInput,
+      componentCounts: {
+        EO: {
+          count: { optimistic: 10, mostLikely: 10, pessimistic: 10 },
+          averageFunctionPoints: 5,
+        },
+      },
+      productivityFactor: { optimistic: 8, mostLikely: 8, pessimistic: 8 },
+      iterations: 50,
+    });
+
+    expect(result.effortHours.p10).toBe(400);
+    expect(result.effortHours.p90).toBe(400);
+    expect(result.cost.p50).toBe(40000);
+    expect(result.durationDays.p50).toBe(25);
+    expect(result.effortHours.histogram).toEqual([
+      { from: 400, to: 400, count: 50 },
+    ]);
+    expect(result.suggestedBufferPercentage).toBe(0);
+  });
+
+  it('should produce ordered percentiles within the input bounds', () => {
+    const result = EffortSimulator.simulate(baseInput);
+
+    expect(result.effortHours.p10).toBeLessThan(result.effortHours.p50);
+    expect(result.effortHours.p50).toBeLessThan(result.effortHours.p90);
+    expect(result.effortHours.minValue).toBeGreaterThanOrEqual(88 * 6);
+    expect(result.effortHours.maxValue).toBeLessThanOrEqual(160 * 14);
+    expect(
+      result.effortHours.histogram.reduce((sum, b) => sum + b.count, 0),
+    ).toBe(2000);
+    expect(result.suggestedBufferPercentage).toBeGreaterThan(0);
+  });
+
+  it('should be reproducible with the same seed', () => {
+    expect(EffortSimulator.simulate(baseInput).effortHours).toEqual(
+      EffortSimulator.simulate(baseInput).effortHours,
+    );
+  });
+
+  it('should reject inconsistent three-point estimates', () => {
+    expect(() =>
+      EffortSimulator.simulate({
+        ...baseInput,
+        productivityFactor: { optimistic: 10, mostLikely: 8, pessimistic: 12 },
+      }),
+    ).toThrow('Productivity factor');
+  });
+});
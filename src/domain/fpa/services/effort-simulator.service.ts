@@ -0,0 +1,281 @@
+import { Injectable } from '@nestjs/common';
+
+export interface ThreePointEstimate {
+  optimistic: number;
+  mostLikely: number;
+  pessimistic: number;
+}
+
+export type SimulatedComponentType = 'ALI' | 'AIE' | 'EI' | 'EO' | 'EQ';
+
+export interface SimulatedComponentCount {
+  count: ThreePointEstimate;
+  // Function points per component of this type
+  averageFunctionPoints: number;
+}
+
+export interface EffortSimulationInput {
+  componentCounts: Partial<
+    Record<SimulatedComponentType, SimulatedComponentCount>
+  >;
+  productivityFactor: ThreePointEstimate; // Hours per function point
+  valueAdjustmentFactor: number;
+  hourlyRateBRL: number;
+  teamSize: number;
+  averageDailyWorkingHours: number;
+  iterations: number;
+  histogramBuckets: number;
+  seed?: number;
+}
+
+export interface HistogramBucket {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface SimulatedDistribution {
+  p10: number;
+  p50: number;
+  p90: number;
+  mean: number;
+  minValue: number;
+  maxValue: number;
+  histogram: HistogramBucket[];
+}
+
+export interface EffortSimulationResult {
+  iterations: number;
+  seed: number;
+  mostLikelyEffortHours: number;
+  functionPoints: SimulatedDistribution;
+  effortHours: SimulatedDistribution;
+  cost: SimulatedDistribution;
+  durationDays: SimulatedDistribution;
+  // Buffer over the most likely effort that reaches P90, for TeamSizeEstimationService
+  suggestedBufferPercentage: number;
+}
+
+// IFPUG average-complexity weights, for component types without counted components
+export const AVERAGE_FUNCTION_POINTS: Record<SimulatedComponentType, number> = {
+  ALI: 10,
+  AIE: 7,
+  EI: 4,
+  EO: 5,
+  EQ: 4,
+};
+
+@Injectable()
+export class EffortSimulator {
+  static validateThreePoint(name: string, estimate: ThreePointEstimate): void {
+    const { optimistic, mostLikely, pessimistic } = estimate;
+    if (optimistic < 0) {
+      throw new Error(`${name}: values cannot be negative`);
+    }
+    if (optimistic > mostLikely || mostLikely > pessimistic) {
+      throw new Error(
+        `${name}: expected optimistic <= mostLikely <= pessimistic`,
+      );
+    }
+  }
+
+  /**
+   * Monte Carlo simulation of size, effort, cost and duration. Component
+   * counts and productivity are drawn from Beta-PERT distributions.
+   */
+  static simulate(input: EffortSimulationInput): EffortSimulationResult {
+    Object.entries(input.componentCounts).forEach(([type, component]) =>
+      this.validateThreePoint(`${type} count`, component.count),
+    );
+    this.validateThreePoint('Productivity factor', input.productivityFactor);
+
+    const seed = input.seed ?? Math.floor(Math.random() * 2 ** 32);
+    const random = this.createRandom(seed);
+    const components = Object.values(input.componentCounts);
+    const hoursPerDay = input.teamSize * input.averageDailyWorkingHours;
+
+    const functionPoints: number[] = [];
+    const effortHours: number[] = [];
+    const cost: number[] = [];
+    const durationDays: number[] = [];
+
+    for (let i = 0; i < input.iterations; i++) {
+      const unadjusted = components.reduce(
+        (sum, component) =>
+          sum +
+          Math.round(this.samplePert(component.count, random)) *
+            component.averageFunctionPoints,
+        0,
+      );
+      const adjusted = unadjusted * input.valueAdjustmentFactor;
+      const effort =
+        adjusted * this.samplePert(input.productivityFactor, random);
+
+      functionPoints.push(adjusted);
+      effortHours.push(effort);
+      cost.push(effort * input.hourlyRateBRL);
+      durationDays.push(hoursPerDay > 0 ? effort / hoursPerDay : 0);
+    }
+
+    const mostLikelyEffortHours =
+      components.reduce(
+        (sum, component) =>
+          sum + component.count.mostLikely * component.averageFunctionPoints,
+        0,
+      ) *
+      input.valueAdjustmentFactor *
+      input.productivityFactor.mostLikely;
+
+    const effortDistribution = this.describe(
+      effortHours,
+      input.histogramBuckets,
+    );
+
+    return {
+      iterations: input.iterations,
+      seed,
+      mostLikelyEffortHours,
+      functionPoints: this.describe(functionPoints, input.histogramBuckets),
+      effortHours: effortDistribution,
+      cost: this.describe(cost, input.histogramBuckets),
+      durationDays: this.describe(durationDays, input.histogramBuckets),
+      suggestedBufferPercentage:
+        mostLikelyEffortHours > 0
+          ? Math.max(
+              0,
+              (effortDistribution.p90 / mostLikelyEffortHours - 1) * 100,
+            )
+          : 0,
+    };
+  }
+
+  static percentile(sortedValues: number[], percent: number): number {
+    if (sortedValues.length === 0) {
+      return 0;
+    }
+    // Linear interpolation between closest ranks
+    const rank = (percent / 100) * (sortedValues.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return (
+      sortedValues[lower] +
+      (sortedValues[upper] - sortedValues[lower]) * (rank - lower)
+    );
+  }
+
+  private static describe(
+    values: number[],
+    bucketCount: number,
+  ): SimulatedDistribution {
+    const sorted = [...values].sort((a, b) => a - b);
+    const minValue = sorted[0] ?? 0;
+    const maxValue = sorted[sorted.length - 1] ?? 0;
+
+    return {
+      p10: this.percentile(sorted, 10),
+      p50: this.percentile(sorted, 50),
+      p90: this.percentile(sorted, 90),
+      mean:
+        values.length > 0
+          ? values.reduce((sum, value) => sum + value, 0) / values.length
+          : 0,
+      minValue,
+      maxValue,
+      histogram: this.histogram(sorted, minValue, maxValue, bucketCount),
+    };
+  }
+
+  private static histogram(
+    sorted: number[],
+    minValue: number,
+    maxValue: number,
+    bucketCount: number,
+  ): HistogramBucket[] {
+    if (sorted.length === 0) {
+      return [];
+    }
+    // Every value is the same: a single bucket holds them all
+    if (maxValue === minValue) {
+      return [{ from: minValue, to: maxValue, count: sorted.length }];
+    }
+
+    const width = (maxValue - minValue) / bucketCount;
+    const buckets = Array.from({ length: bucketCount }, (_, index) => ({
+      from: minValue + index * width,
+      to: minValue + (index + 1) * width,
+      count: 0,
+    }));
+    sorted.forEach((value) => {
+      const index = Math.min(
+        bucketCount - 1,
+        Math.floor((value - minValue) / width),
+      );
+      buckets[index].count++;
+    });
+
+    return buckets;
+  }
+
+  /**
+   * Beta-PERT: Beta(α, β) scaled to [optimistic, pessimistic] with
+   * α = 1 + 4(m − a)/(b − a) and β = 1 + 4(b − m)/(b − a)
+   */
+  private static samplePert(
+    estimate: ThreePointEstimate,
+    random: () => number,
+  ): number {
+    const { optimistic: a, mostLikely: m, pessimistic: b } = estimate;
+    if (b === a) {
+      return m;
+    }
+
+    const alpha = 1 + (4 * (m - a)) / (b - a);
+    const beta = 1 + (4 * (b - m)) / (b - a);
+    const x = this.sampleGamma(alpha, random);
+    const y = this.sampleGamma(beta, random);
+    return a + (x / (x + y)) * (b - a);
+  }
+
+  // Marsaglia and Tsang's method; PERT shapes are always >= 1
+  private static sampleGamma(shape: number, random: () => number): number {
+    const d = shape - 1 / 3;
+    const c = 1 / Math.sqrt(9 * d);
+
+    for (;;) {
+      let x: number;
+      let v: number;
+      do {
+        x = this.sampleNormal(random);
+        v = 1 + c * x;
+      } while (v <= 0);
+
+      v = v * v * v;
+      const u = random();
+      if (u < 1 - 0.0331 * x ** 4) {
+        return d * v;
+      }
+      if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) {
+        return d * v;
+      }
+    }
+  }
+
+  // Box-Muller transform
+  private static sampleNormal(random: () => number): number {
+    const u1 = random() || Number.MIN_VALUE;
+    const u2 = random();
+    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  }
+
+  // Mulberry32: small seedable generator so a simulation can be reproduced
+  private static createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+}
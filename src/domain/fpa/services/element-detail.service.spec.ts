@@ -0,0 +1,54 @@
+import { ElementDetailCounter } from './element-detail.service';
+
+describe('ElementDetailCounter', () => {
+  describe('countDataElements', () => {
+    it('should count unique names across the list and the RETs', () => {
+      const count = ElementDetailCounter.countDataElements({
+        dataElements: ['Customer id', 'Name ', 'name'],
+        recordElements: [
+          { name: 'Address', dataElements: ['Street', 'City', 'customer ID'] },
+        ],
+      });
+
+      expect(count).toBe(4);
+    });
+
+    it('should leave the count undefined without a list', () => {
+      expect(ElementDetailCounter.countDataElements({})).toBeUndefined();
+      expect(
+        ElementDetailCounter.countDataElements({ dataElements: [] }),
+      ).toBeUndefined();
+    });
+  });
+
+  it('should count RETs and referenced files', () => {
+    expect(
+      ElementDetailCounter.countRecordElements({
+        recordElements: [
+          { name: 'Customer', dataElements: ['Name'] },
+          { name: 'Address', dataElements: [] },
+        ],
+      }),
+    ).toBe(2);
+    expect(
+      ElementDetailCounter.countReferencedFiles({
+        referencedFiles: ['a', 'b', 'a'],
+      }),
+    ).toBe(2);
+    expect(ElementDetailCounter.countReferencedFiles({})).toBeUndefined();
+  });
+
+  it('should report duplicate names in their first spelling', () => {
+    expect(
+      ElementDetailCounter.duplicateNames(['City', 'Street', ' city', 'CITY']),
+    ).toEqual(['City']);
+  });
+
+  it('should trim names and drop blank ones', () => {
+    expect(
+      ElementDetailCounter.normalizeRecordElements([
+        { name: ' Address ', dataElements: [' Street', '  ', 'City'] },
+      ]),
+    ).toEqual([{ name: 'Address', dataElements: ['Street', 'City'] }]);
+  });
+});
@@ -0,0 +1,80 @@
+import { RecordElementGroup } from '@domain/fpa/entities/base-fpa-component.entity';
+
+// Named DET/RET/FTR lists of a component, as sent by clients
+export interface ComponentElementDetail {
+  dataElements?: string[];
+  recordElements?: RecordElementGroup[]; // ALI and AIE
+  referencedFiles?: string[]; // EI, EO and EQ: ids of ALI/AIE components
+}
+
+/**
+ * Derives the DET/RET/FTR counts of a component from its named lists.
+ * Names are compared trimmed and case-insensitively. A count is undefined
+ * when no (non-empty) list backs it, so the integer count entered by the
+ * user is kept.
+ */
+export class ElementDetailCounter {
+  // DETs of a data function are those of the list plus those of its RETs
+  static countDataElements(detail: ComponentElementDetail): number | undefined {
+    const names = [
+      ...(detail.dataElements || []),
+      ...(detail.recordElements || []).flatMap(
+        (group) => group.dataElements || [],
+      ),
+    ];
+    return names.length > 0 ? this.uniqueNames(names).length : undefined;
+  }
+
+  static countRecordElements(
+    detail: ComponentElementDetail,
+  ): number | undefined {
+    const groups = detail.recordElements || [];
+    return groups.length > 0
+      ? this.uniqueNames(groups.map((group) => group.name)).length
+      : undefined;
+  }
+
+  static countReferencedFiles(
+    detail: ComponentElementDetail,
+  ): number | undefined {
+    const files = detail.referencedFiles || [];
+    return files.length > 0 ? new Set(files).size : undefined;
+  }
+
+  // Names occurring more than once, in their first spelling
+  static duplicateNames(names: string[]): string[] {
+    const firstSpellings = new Map<string, string>();
+    const duplicates = new Set<string>();
+    names.forEach((name) => {
+      const key = this.nameKey(name);
+      if (firstSpellings.has(key)) {
+        duplicates.add(firstSpellings.get(key)!);
+      } else {
+        firstSpellings.set(key, name.trim());
+      }
+    });
+    return [...duplicates];
+  }
+
+  // Trims names and drops blank ones
+  static normalizeNames(names: string[] = []): string[] {
+    return names.map((name) => name.trim()).filter((name) => name.length > 0);
+  }
+
+  static normalizeRecordElements(
+    groups: RecordElementGroup[] = [],
+  ): RecordElementGroup[] {
+    return groups.map((group) => ({
+      name: group.name.trim(),
+      dataElements: this.normalizeNames(group.dataElements),
+    }));
+  }
+
+  private static uniqueNames(names: string[]): string[] {
+    return [...new Set(this.normalizeNames(names).map(this.nameKey))];
+  }
+
+  private static nameKey(this: void, name: string): string {
+    return name.trim().toLowerCase();
+  }
+}
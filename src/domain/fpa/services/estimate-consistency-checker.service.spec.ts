@@ -0,0 +1,164 @@
+import { Types } from 'mongoose';
+import { EstimateConsistencyChecker } from './estimate-consistency-checker.service';
+import { EstimateComponentSummary } from '@domain/fpa/interfaces/estimate.repository.interface';
+import {
+  ComplexityLevel,
+  FunctionChangeType,
+} from '@domain/fpa/entities/base-fpa-component.entity';
+import { CountType } from '@domain/fpa/entities/estimate.entity';
+
+const component = (
+  overrides: Partial<EstimateComponentSummary>,
+): EstimateComponentSummary => ({
+  _id: new Types.ObjectId(),
+  componentType: 'EI',
+  name: 'Register customer',
+  complexity: ComplexityLevel.LOW,
+  functionPoints: 3,
+  dataElementTypes: 4,
+  fileTypesReferenced: 1,
+  ...overrides,
+});
+
+describe('EstimateConsistencyChecker', () => {
+  describe('check', () => {
+    it('should accept a consistent count', () => {
+      const customers = component({ componentType: 'ALI', name: 'Customer' });
+      const findings = EstimateConsistencyChecker.check([
+        customers,
+        component({ componentType: 'AIE', name: 'Postal codes' }),
+        component({ referencedFiles: [customers._id] }),
+        component({ componentType: 'EQ', name: 'View customer' }),
+      ]);
+
+      expect(findings).toEqual([]);
+    });
+
+    it('should flag an estimate without data functions', () => {
+      const findings = EstimateConsistencyChecker.check([component({})]);
+
+      expect(findings.map((finding) => finding.rule)).toEqual([
+        'NO_DATA_FUNCTIONS',
+      ]);
+      expect(EstimateConsistencyChecker.hasErrors(findings)).toBe(true);
+    });
+
+    it('should flag ALIs no EI maintains, as a warning when EIs list no files', () => {
+      const customers = component({ componentType: 'ALI', name: 'Customer' });
+      const orders = component({ componentType: 'ALI', name: 'Order' });
+
+      const confirmed = EstimateConsistencyChecker.check([
+        customers,
+        orders,
+        component({ referencedFiles: [customers._id] }),
+      ]);
+      const unconfirmed = EstimateConsistencyChecker.check([
+        customers,
+        orders,
+        component({ referencedFiles: [customers._id] }),
+        component({ name: 'Place order' }),
+      ]);
+
+      expect(confirmed).toHaveLength(1);
+      expect(confirmed[0]).toMatchObject({
+        rule: 'ILF_NOT_MAINTAINED',
+        severity: 'error',
+        components: [{ componentId: orders._id.toString(), name: 'Order' }],
+      });
+      expect(unconfirmed.map((finding) => finding.severity)).toEqual([
+        'warning',
+      ]);
+    });
+
+    it('should not require data functions in an enhancement count', () => {
+      const findings = EstimateConsistencyChecker.check(
+        [component({ changeType: FunctionChangeType.CHANGED })],
+        CountType.ENHANCEMENT_PROJECT,
+      );
+
+      expect(findings).toEqual([]);
+    });
+
+    it('should only warn on unmaintained ALIs of an enhancement, ignoring deleted ones', () => {
+      const customers = component({
+        componentType: 'ALI',
+        name: 'Customer',
+        changeType: FunctionChangeType.CHANGED,
+      });
+      const findings = EstimateConsistencyChecker.check(
+        [
+          customers,
+          component({
+            componentType: 'ALI',
+            name: 'Legacy log',
+            changeType: FunctionChangeType.DELETED,
+          }),
+          component({
+            referencedFiles: [new Types.ObjectId()],
+            changeType: FunctionChangeType.ADDED,
+          }),
+        ],
+        CountType.ENHANCEMENT_PROJECT,
+      );
+
+      expect(findings).toHaveLength(1);
+      expect(findings[0]).toMatchObject({
+        rule: 'ILF_NOT_MAINTAINED',
+        severity: 'warning',
+        components: [{ componentId: customers._id.toString() }],
+      });
+      expect(EstimateConsistencyChecker.hasErrors(findings)).toBe(false);
+    });
+
+    it('should flag AIEs named as an ALI and EQs with derived data', () => {
+      const findings = EstimateConsistencyChecker.check([
+        component({ componentType: 'AIE', name: 'customer ' }),
+        component({ componentType: 'ALI', name: 'Customer' }),
+        component({
+          componentType: 'EQ',
+          name: 'Sales totals',
+          derivedData: true,
+        }),
+      ]);
+
+      expect(findings.map((finding) => finding.rule)).toEqual([
+        'ILF_NOT_MAINTAINED',
+        'EIF_DUPLICATES_ILF',
+        'EQ_WITH_DERIVED_DATA',
+      ]);
+      expect(findings[1].components).toHaveLength(2);
+    });
+
+    it('should warn on transactions with the same DETs and files', () => {
+      const customers = component({ componentType: 'ALI', name: 'Customer' });
+      const findings = EstimateConsistencyChecker.check([
+        customers,
+        component({
+          dataElements: ['Name', 'Email'],
+          referencedFiles: [customers._id],
+        }),
+        component({
+          name: 'Add customer',
+          dataElements: ['email', 'Name'],
+          referencedFiles: [customers._id],
+        }),
+        component({
+          componentType: 'EO',
+          name: 'Customer card',
+          dataElements: ['Name', 'Email'],
+          referencedFiles: [customers._id],
+        }),
+      ]);
+
+      expect(findings).toHaveLength(1);
+      expect(findings[0]).toMatchObject({
+        rule: 'DUPLICATE_TRANSACTION',
+        severity: 'warning',
+      });
+      expect(findings[0].components.map((c) => c.name)).toEqual([
+        'Register customer',
+        'Add customer',
+      ]);
+    });
+  });
+});
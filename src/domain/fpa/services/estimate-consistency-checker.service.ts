@@ -0,0 +1,222 @@
+import { EstimateComponentSummary } from '@domain/fpa/interfaces/estimate.repository.interface';
+import { CountType } from '@domain/fpa/entities/estimate.entity';
+import { FunctionChangeType } from '@domain/fpa/entities/base-fpa-component.entity';
+
+export type ConsistencyFindingSeverity = 'error' | 'warning';
+
+export type ConsistencyRule =
+  | 'NO_DATA_FUNCTIONS'
+  | 'ILF_NOT_MAINTAINED'
+  | 'EIF_DUPLICATES_ILF'
+  | 'EQ_WITH_DERIVED_DATA'
+  | 'DUPLICATE_TRANSACTION';
+
+export interface ConsistencyFindingComponent {
+  componentId: string;
+  componentType: EstimateComponentSummary['componentType'];
+  name: string;
+}
+
+export interface ConsistencyFinding {
+  rule: ConsistencyRule;
+  severity: ConsistencyFindingSeverity;
+  message: string;
+  components: ConsistencyFindingComponent[];
+}
+
+/**
+ * Checks the components of an estimate against each other. The validation
+ * chain looks at one component at a time; these rules need the whole count.
+ * Rules relying on named DET/FTR lists only apply to components listing them.
+ * An enhancement count only holds the functions it changes, the rest being
+ * in the application baseline, so rules about the whole application are
+ * relaxed for it.
+ */
+export class EstimateConsistencyChecker {
+  static check(
+    components: EstimateComponentSummary[],
+    countType: CountType = CountType.DEVELOPMENT_PROJECT,
+  ): ConsistencyFinding[] {
+    const enhancement = countType === CountType.ENHANCEMENT_PROJECT;
+    return [
+      ...(enhancement ? [] : this.checkDataFunctionsPresent(components)),
+      ...this.checkMaintainedFiles(components, enhancement),
+      ...this.checkInterfaceFileNames(components),
+      ...this.checkQueriesWithDerivedData(components),
+      ...this.checkDuplicateTransactions(components),
+    ];
+  }
+
+  static hasErrors(findings: ConsistencyFinding[]): boolean {
+    return findings.some((finding) => finding.severity === 'error');
+  }
+
+  private static checkDataFunctionsPresent(
+    components: EstimateComponentSummary[],
+  ): ConsistencyFinding[] {
+    const hasDataFunctions = components.some(
+      (component) =>
+        component.componentType === 'ALI' || component.componentType === 'AIE',
+    );
+    return hasDataFunctions
+      ? []
+      : [
+          {
+            rule: 'NO_DATA_FUNCTIONS',
+            severity: 'error',
+            message:
+              'The estimate has no data functions (ALI or AIE); every application maintains or references data',
+            components: [],
+          },
+        ];
+  }
+
+  // Every ILF must be maintained by at least one EI. Without the FTR lists
+  // of all EIs this cannot be confirmed, so the finding is then a warning.
+  // In an enhancement count the EI may be an unchanged one of the baseline,
+  // and an ALI being deleted is no longer maintained at all
+  private static checkMaintainedFiles(
+    components: EstimateComponentSummary[],
+    enhancement: boolean,
+  ): ConsistencyFinding[] {
+    const inputs = components.filter(
+      (component) => component.componentType === 'EI',
+    );
+    const maintained = new Set(
+      inputs.flatMap((input) =>
+        (input.referencedFiles || []).map((fileId) => fileId.toString()),
+      ),
+    );
+    const allInputsListFiles = inputs.every(
+      (input) => !!input.referencedFiles?.length,
+    );
+
+    return components
+      .filter(
+        (component) =>
+          component.componentType === 'ALI' &&
+          !maintained.has(component._id.toString()) &&
+          !(enhancement && component.changeType === FunctionChangeType.DELETED),
+      )
+      .map(
+        (file): ConsistencyFinding => ({
+          rule: 'ILF_NOT_MAINTAINED',
+          severity: allInputsListFiles && !enhancement ? 'error' : 'warning',
+          message: enhancement
+            ? `ALI "${file.name}" is not maintained by any EI of the enhancement; check an EI of the application maintains it`
+            : allInputsListFiles
+              ? `ALI "${file.name}" is not maintained by any EI`
+              : `ALI "${file.name}" is not listed as referenced by any EI; some EIs do not list their referenced files`,
+          components: [this.findingComponent(file)],
+        }),
+      );
+  }
+
+  private static checkInterfaceFileNames(
+    components: EstimateComponentSummary[],
+  ): ConsistencyFinding[] {
+    const internalFiles = new Map(
+      components
+        .filter((component) => component.componentType === 'ALI')
+        .map((file) => [this.nameKey(file.name), file]),
+    );
+
+    return components
+      .filter((component) => component.componentType === 'AIE')
+      .flatMap((externalFile): ConsistencyFinding[] => {
+        const internalFile = internalFiles.get(this.nameKey(externalFile.name));
+        if (!internalFile) {
+          return [];
+        }
+        return [
+          {
+            rule: 'EIF_DUPLICATES_ILF',
+            severity: 'error',
+            message: `AIE "${externalFile.name}" has the name of an ALI; a file maintained by the application is not an external interface file`,
+            components: [
+              this.findingComponent(externalFile),
+              this.findingComponent(internalFile),
+            ],
+          },
+        ];
+      });
+  }
+
+  private static checkQueriesWithDerivedData(
+    components: EstimateComponentSummary[],
+  ): ConsistencyFinding[] {
+    return components
+      .filter(
+        (component) =>
+          component.componentType === 'EQ' && component.derivedData === true,
+      )
+      .map(
+        (query): ConsistencyFinding => ({
+          rule: 'EQ_WITH_DERIVED_DATA',
+          severity: 'error',
+          message: `EQ "${query.name}" produces derived data and should be counted as an EO`,
+          components: [this.findingComponent(query)],
+        }),
+      );
+  }
+
+  // Transactions of a type with the same DETs and FTRs are likely the same
+  // elementary process counted twice
+  private static checkDuplicateTransactions(
+    components: EstimateComponentSummary[],
+  ): ConsistencyFinding[] {
+    const groups = new Map<string, EstimateComponentSummary[]>();
+    components
+      .filter(
+        (component) =>
+          ['EI', 'EO', 'EQ'].includes(component.componentType) &&
+          !!component.dataElements?.length,
+      )
+      .forEach((transaction) => {
+        const key = [
+          transaction.componentType,
+          this.setKey(transaction.dataElements!.map(this.nameKey)),
+          this.setKey(
+            (transaction.referencedFiles || []).map((fileId) =>
+              fileId.toString(),
+            ),
+          ),
+        ].join('|');
+        groups.set(key, [...(groups.get(key) || []), transaction]);
+      });
+
+    return [...groups.values()]
+      .filter((transactions) => transactions.length > 1)
+      .map((transactions): ConsistencyFinding => {
+        const names = transactions
+          .map((transaction) => `"${transaction.name}"`)
+          .join(', ');
+        return {
+          rule: 'DUPLICATE_TRANSACTION',
+          severity: 'warning',
+          message: `${transactions[0].componentType}s ${names} have the same DETs and referenced files; check they are distinct elementary processes`,
+          components: transactions.map((transaction) =>
+            this.findingComponent(transaction),
+          ),
+        };
+      });
+  }
+
+  private static findingComponent(
+    component: EstimateComponentSummary,
+  ): ConsistencyFindingComponent {
+    return {
+      componentId: component._id.toString(),
+      componentType: component.componentType,
+      name: component.name,
+    };
+  }
+
+  private static setKey(values: string[]): string {
+    return [...new Set(values)].sort().join(',');
+  }
+
+  private static nameKey(this: void, name: string): string {
+    return name.trim().toLowerCase();
+  }
+}
@@ -0,0 +1,109 @@
+import { Types } from 'mongoose';
+import { EstimateReviewWorkflow } from './estimate-review-workflow.service';
+import {
+  EstimateReviewer,
+  EstimateStatus,
+  ReviewDecision,
+} from '@domain/fpa/entities/estimate.entity';
+
+const reviewer = (decision?: ReviewDecision): EstimateReviewer => ({
+  userId: new Types.ObjectId(),
+  assignedBy: new Types.ObjectId(),
+  assignedAt: new Date(),
+  decision,
+});
+
+describe('EstimateReviewWorkflow', () => {
+  describe('canTransition', () => {
+    it('should require an approval before finalizing', () => {
+      expect(
+        EstimateReviewWorkflow.canTransition(
+          EstimateStatus.DRAFT,
+          EstimateStatus.FINALIZED,
+        ),
+      ).toBe(false);
+      expect(
+        EstimateReviewWorkflow.canTransition(
+          EstimateStatus.IN_REVIEW,
+          EstimateStatus.FINALIZED,
+        ),
+      ).toBe(false);
+      expect(
+        EstimateReviewWorkflow.canTransition(
+          EstimateStatus.APPROVED,
+          EstimateStatus.FINALIZED,
+        ),
+      ).toBe(true);
+    });
+
+    it('should allow keeping the same status', () => {
+      expect(
+        EstimateReviewWorkflow.canTransition(
+          EstimateStatus.FINALIZED,
+          EstimateStatus.FINALIZED,
+        ),
+      ).toBe(true);
+    });
+
+    it('should only leave a finalized estimate by archiving it', () => {
+      expect(
+        EstimateReviewWorkflow.allowedTransitions(EstimateStatus.FINALIZED),
+      ).toEqual([EstimateStatus.ARCHIVED]);
+    });
+  });
+
+  describe('contentLockReason', () => {
+    it('should lock the content of estimates in review or approved', () => {
+      expect(
+        EstimateReviewWorkflow.contentLockReason(EstimateStatus.IN_REVIEW),
+      ).toContain('withdraw');
+      expect(
+        EstimateReviewWorkflow.contentLockReason(EstimateStatus.APPROVED),
+      ).toContain('reopen');
+    });
+
+    it('should leave drafts and estimates with requested changes editable', () => {
+      expect(
+        EstimateReviewWorkflow.contentLockReason(EstimateStatus.DRAFT),
+      ).toBeNull();
+      expect(
+        EstimateReviewWorkflow.contentLockReason(
+          EstimateStatus.CHANGES_REQUESTED,
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe('reviewOutcome', () => {
+    it('should request changes as soon as one reviewer asks for them', () => {
+      expect(
+        EstimateReviewWorkflow.reviewOutcome([
+          reviewer(ReviewDecision.APPROVED),
+          reviewer(ReviewDecision.CHANGES_REQUESTED),
+          reviewer(),
+        ]),
+      ).toBe(EstimateStatus.CHANGES_REQUESTED);
+    });
+
+    it('should approve once every reviewer approved', () => {
+      expect(
+        EstimateReviewWorkflow.reviewOutcome([
+          reviewer(ReviewDecision.APPROVED),
+          reviewer(ReviewDecision.APPROVED),
+        ]),
+      ).toBe(EstimateStatus.APPROVED);
+    });
+
+    it('should stay in review while decisions are pending', () => {
+      expect(
+        EstimateReviewWorkflow.reviewOutcome([
+          reviewer(ReviewDecision.APPROVED),
+          reviewer(),
+        ]),
+      ).toBe(EstimateStatus.IN_REVIEW);
+      expect(EstimateReviewWorkflow.reviewOutcome([])).toBe(
+        EstimateStatus.IN_REVIEW,
+      );
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  EstimateStatus,
+  EstimateReviewer,
+  ReviewDecision,
+} from '@domain/fpa/entities/estimate.entity';
+
+// Status changes allowed from each status
+const TRANSITIONS: Record<EstimateStatus, EstimateStatus[]> = {
+  [EstimateStatus.DRAFT]: [EstimateStatus.IN_REVIEW, EstimateStatus.ARCHIVED],
+  [EstimateStatus.IN_REVIEW]: [
+    EstimateStatus.APPROVED,
+    EstimateStatus.CHANGES_REQUESTED,
+    EstimateStatus.DRAFT, // withdrawn from review
+  ],
+  [EstimateStatus.CHANGES_REQUESTED]: [
+    EstimateStatus.IN_REVIEW,
+    EstimateStatus.DRAFT,
+    EstimateStatus.ARCHIVED,
+  ],
+  [EstimateStatus.APPROVED]: [
+    EstimateStatus.FINALIZED,
+    EstimateStatus.DRAFT, // reopened
+    EstimateStatus.ARCHIVED,
+  ],
+  [EstimateStatus.FINALIZED]: [EstimateStatus.ARCHIVED],
+  [EstimateStatus.ARCHIVED]: [EstimateStatus.DRAFT], // restored
+};
+
+// Statuses only reached through the review workflow (submit, decisions)
+const REVIEW_STATUSES = [
+  EstimateStatus.IN_REVIEW,
+  EstimateStatus.CHANGES_REQUESTED,
+  EstimateStatus.APPROVED,
+];
+
+// Statuses in which the reviewed content must stay as the reviewers saw it
+const CONTENT_LOCKED_STATUSES = [
+  EstimateStatus.IN_REVIEW,
+  EstimateStatus.APPROVED,
+];
+
+/**
+ * Review workflow of an estimate: a draft is submitted to its assigned
+ * reviewers, one request for changes sends it back to the counter and the
+ * approval of every reviewer lets it be finalized.
+ */
+export class EstimateReviewWorkflow {
+  static canTransition(from: EstimateStatus, to: EstimateStatus): boolean {
+    return from === to || TRANSITIONS[from].includes(to);
+  }
+
+  static isReviewStatus(status: EstimateStatus): boolean {
+    return REVIEW_STATUSES.includes(status);
+  }
+
+  /**
+   * Why the content (data, components) of an estimate cannot change in its
+   * status, or null if it can: a count in review is withdrawn and an
+   * approved count reopened first, so no change escapes the reviewers
+   */
+  static contentLockReason(status: EstimateStatus): string | null {
+    if (!CONTENT_LOCKED_STATUSES.includes(status)) {
+      return null;
+    }
+    return status === EstimateStatus.IN_REVIEW
+      ? 'The estimate is in review: withdraw it before changing it'
+      : 'The estimate is approved: reopen it before changing it';
+  }
+
+  static allowedTransitions(from: EstimateStatus): EstimateStatus[] {
+    return TRANSITIONS[from];
+  }
+
+  /**
+   * Status of an estimate in review after a reviewer decision: changes are
+   * requested as soon as one reviewer asks for them, the estimate is
+   * approved once every reviewer approved it, and stays in review otherwise
+   */
+  static reviewOutcome(reviewers: EstimateReviewer[]): EstimateStatus {
+    if (
+      reviewers.some(
+        (reviewer) => reviewer.decision === ReviewDecision.CHANGES_REQUESTED,
+      )
+    ) {
+      return EstimateStatus.CHANGES_REQUESTED;
+    }
+    return reviewers.length > 0 &&
+      reviewers.every(
+        (reviewer) => reviewer.decision === ReviewDecision.APPROVED,
+      )
+      ? EstimateStatus.APPROVED
+      : EstimateStatus.IN_REVIEW;
+  }
+}
@@ -0,0 +1,56 @@
+import { Types } from 'mongoose';
+import { EstimateVersionComparator } from './estimate-version-comparator.service';
+import { EstimateComponentSummary } from '../interfaces/estimate.repository.interface';
+import { ComplexityLevel } from '../entities/base-fpa-component.entity';
+
+const component = (
+  overrides: Partial<EstimateComponentSummary>,
+): EstimateComponentSummary => ({
+  _id: new Types.ObjectId(),
+  componentType: 'EI',
+  name: 'Register customer',
+  complexity: ComplexityLevel.LOW,
+  functionPoints: 3,
+  dataElementTypes: 4,
+  fileTypesReferenced: 1,
+  ...overrides,
+});
+
+describe('EstimateVersionComparator', () => {
+  describe('compareComponents', () => {
+    it('should list added, removed and recounted components', () => {
+      const unchanged = component({ name: 'Customer', componentType: 'ALI' });
+      const recounted = component({});
+      const removed = component({ name: 'Legacy export', componentType: 'EO' });
+
+      const changes = EstimateVersionComparator.compareComponents(
+        [unchanged, recounted, removed],
+        [
+          { ...unchanged, _id: new Types.ObjectId() },
+          component({
+            name: 'register customer ',
+            dataElementTypes: 16,
+            fileTypesReferenced: 2,
+            complexity: ComplexityLevel.HIGH,
+            functionPoints: 6,
+          }),
+          component({ name: 'Customer report', componentType: 'EO' }),
+        ],
+      );
+
+      expect(changes.map((change) => [change.name, change.status])).toEqual([
+        ['register customer ', 'changed'],
+        ['Customer report', 'added'],
+        ['Legacy export', 'removed'],
+      ]);
+      expect(changes[0].functionPointsDelta).toBe(3);
+      expect(changes[0].changes.map((change) => change.field)).toEqual([
+        'dataElementTypes',
+        'fileTypesReferenced',
+        'complexity',
+        'functionPoints',
+      ]);
+      expect(changes[2].functionPointsDelta).toBe(-3);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { Injectable } from '@nestjs/common';
+import { EstimateComponentSummary } from '@domain/fpa/interfaces/estimate.repository.interface';
+
+export type ComponentVersionStatus = 'added' | 'removed' | 'changed';
+
+export interface ComponentFieldChange {
+  field: keyof EstimateComponentSummary;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ComponentVersionChange {
+  componentType: EstimateComponentSummary['componentType'];
+  name: string;
+  status: ComponentVersionStatus;
+  fromComponentId?: string;
+  toComponentId?: string;
+  functionPointsDelta: number;
+  changes: ComponentFieldChange[];
+}
+
+export interface MetricDelta {
+  from: number;
+  to: number;
+  delta: number;
+}
+
+// Counting attributes whose change explains a difference in size
+const COMPARED_FIELDS: (keyof EstimateComponentSummary)[] = [
+  'dataElementTypes',
+  'recordElementTypes',
+  'fileTypesReferenced',
+  'inputFtr',
+  'inputDet',
+  'outputFtr',
+  'outputDet',
+  'complexity',
+  'functionPoints',
+  'changeType',
+];
+
+@Injectable()
+export class EstimateVersionComparator {
+  /**
+   * Match the components of two estimate versions by type and name (each
+   * version owns its own copies, so ids differ) and list what was added,
+   * removed or recounted.
+   */
+  static compareComponents(
+    fromComponents: EstimateComponentSummary[],
+    toComponents: EstimateComponentSummary[],
+  ): ComponentVersionChange[] {
+    const fromByKey = new Map(
+      fromComponents.map((component) => [
+        this.componentKey(component),
+        component,
+      ]),
+    );
+    const toByKey = new Map(
+      toComponents.map((component) => [
+        this.componentKey(component),
+        component,
+      ]),
+    );
+    const changes: ComponentVersionChange[] = [];
+
+    toByKey.forEach((after, key) => {
+      const before = fromByKey.get(key);
+      if (!before) {
+        changes.push({
+          componentType: after.componentType,
+          name: after.name,
+          status: 'added',
+          toComponentId: after._id.toString(),
+          functionPointsDelta: after.functionPoints || 0,
+          changes: [],
+        });
+        return;
+      }
+
+      const fieldChanges = COMPARED_FIELDS.filter(
+        (field) => (before[field] ?? null) !== (after[field] ?? null),
+      ).map((field) => ({
+        field,
+        before: before[field] ?? null,
+        after: after[field] ?? null,
+      }));
+
+      if (fieldChanges.length > 0) {
+        changes.push({
+          componentType: after.componentType,
+          name: after.name,
+          status: 'changed',
+          fromComponentId: before._id.toString(),
+          toComponentId: after._id.toString(),
+          functionPointsDelta:
+            (after.functionPoints || 0) - (before.functionPoints || 0),
+          changes: fieldChanges,
+        });
+      }
+    });
+
+    fromByKey.forEach((before, key) => {
+      if (!toByKey.has(key)) {
+        changes.push({
+          componentType: before.componentType,
+          name: before.name,
+          status: 'removed',
+          fromComponentId: before._id.toString(),
+          functionPointsDelta: -(before.functionPoints || 0),
+          changes: [],
+        });
+      }
+    });
+
+    return changes;
+  }
+
+  static metricDelta(from: number, to: number): MetricDelta {
+    return { from, to, delta: to - from };
+  }
+
+  private static componentKey(component: EstimateComponentSummary): string {
+    return `${component.componentType}:${component.name.trim().toLowerCase()}`;
+  }
+}
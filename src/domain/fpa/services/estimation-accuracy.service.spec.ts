@@ -0,0 +1,41 @@
+import { EstimationAccuracyCalculator } from './estimation-accuracy.service';
+
+describe('EstimationAccuracyCalculator', () => {
+  describe('calculateVariance', () => {
+    it('should compute the magnitude of relative error against the actual', () => {
+      const variance = EstimationAccuracyCalculator.calculateVariance(80, 100);
+
+      expect(variance.variance).toBe(20);
+      expect(variance.mre).toBeCloseTo(0.2);
+    });
+
+    it('should not compute an MRE when the actual is zero', () => {
+      expect(EstimationAccuracyCalculator.calculateVariance(10, 0).mre).toBe(
+        null,
+      );
+    });
+  });
+
+  describe('summarize', () => {
+    it('should compute MMRE and PRED(25)', () => {
+      const accuracy = EstimationAccuracyCalculator.summarize([
+        EstimationAccuracyCalculator.calculateVariance(90, 100), // 0.10
+        EstimationAccuracyCalculator.calculateVariance(125, 100), // 0.25
+        EstimationAccuracyCalculator.calculateVariance(50, 100), // 0.50
+        null,
+      ]);
+
+      expect(accuracy.sampleSize).toBe(3);
+      expect(accuracy.mmre).toBeCloseTo(0.85 / 3);
+      expect(accuracy.pred25).toBeCloseTo(2 / 3);
+    });
+
+    it('should report no accuracy without samples', () => {
+      expect(EstimationAccuracyCalculator.summarize([])).toEqual({
+        sampleSize: 0,
+        mmre: null,
+        pred25: null,
+      });
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { Injectable } from '@nestjs/common';
+
+export interface EstimateVariance {
+  estimated: number;
+  actual: number;
+  // actual - estimated; positive when the estimate was too low
+  variance: number;
+  // Magnitude of relative error: |actual - estimated| / actual
+  mre: number | null;
+}
+
+export interface EstimationAccuracy {
+  sampleSize: number;
+  // Mean magnitude of relative error
+  mmre: number | null;
+  // Share of estimates within 25% of the actual value
+  pred25: number | null;
+}
+
+// PRED(25): an estimate is accurate when its MRE is at most 0.25
+const PRED_THRESHOLD = 0.25;
+
+@Injectable()
+export class EstimationAccuracyCalculator {
+  static calculateVariance(
+    estimated: number,
+    actual: number,
+  ): EstimateVariance {
+    return {
+      estimated,
+      actual,
+      variance: actual - estimated,
+      mre: actual > 0 ? Math.abs(actual - estimated) / actual : null,
+    };
+  }
+
+  // Variances without an MRE (actual of zero) are left out of the sample
+  static summarize(variances: (EstimateVariance | null)[]): EstimationAccuracy {
+    const mres = variances
+      .map((variance) => variance?.mre)
+      .filter((mre): mre is number => mre !== null && mre !== undefined);
+
+    if (mres.length === 0) {
+      return { sampleSize: 0, mmre: null, pred25: null };
+    }
+
+    return {
+      sampleSize: mres.length,
+      mmre: mres.reduce((sum, mre) => sum + mre, 0) / mres.length,
+      pred25:
+        mres.filter((mre) => mre <= PRED_THRESHOLD + Number.EPSILON).length /
+        mres.length,
+    };
+  }
+}
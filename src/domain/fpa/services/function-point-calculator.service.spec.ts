@@ -0,0 +1,121 @@
+import { FunctionPointCalculator } from './function-point-calculator.service';
+
+describe('FunctionPointCalculator', () => {
+  describe('calculateEnhancementFunctionPoints', () => {
+    const components = [
+      { changeType: 'ADDED', functionPoints: 10 },
+      { changeType: 'CHANGED', functionPoints: 4 },
+      { changeType: 'CONVERSION', functionPoints: 3 },
+      { changeType: 'DELETED', functionPoints: 7 },
+    ];
+
+    it('should apply VAFA to added, changed and conversion functions and VAFB to deleted ones', () => {
+      const result = FunctionPointCalculator.calculateEnhancementFunctionPoints(
+        components,
+        1.1,
+        0.9,
+      );
+
+      expect(result.added).toEqual({ count: 1, points: 10 });
+      expect(result.changed).toEqual({ count: 1, points: 4 });
+      expect(result.conversion).toEqual({ count: 1, points: 3 });
+      expect(result.deleted).toEqual({ count: 1, points: 7 });
+      expect(result.enhancementFunctionPoints).toBeCloseTo(17 * 1.1 + 7 * 0.9);
+    });
+
+    it('should use VAFA for deleted functions when VAFB is not provided', () => {
+      const result = FunctionPointCalculator.calculateEnhancementFunctionPoints(
+        components,
+        1.2,
+      );
+
+      expect(result.vafBefore).toBe(1.2);
+      expect(result.enhancementFunctionPoints).toBeCloseTo(24 * 1.2);
+    });
+
+    it('should count components without a change type as added', () => {
+      const result = FunctionPointCalculator.calculateEnhancementFunctionPoints(
+        [{ functionPoints: 6 }],
+        1,
+      );
+
+      expect(result.added).toEqual({ count: 1, points: 6 });
+      expect(result.enhancementFunctionPoints).toBe(6);
+    });
+  });
+
+  describe('calculateModelEffortHours', () => {
+    it('should look up hours per FP by size band in piecewise models', () => {
+      const model = {
+        curveType: 'PIECEWISE',
+        hoursPerFunctionPoint: 10,
+        sizeBands: [
+          { upToFunctionPoints: null, hoursPerFunctionPoint: 14 },
+          { upToFunctionPoints: 100, hoursPerFunctionPoint: 8 },
+          { upToFunctionPoints: 500, hoursPerFunctionPoint: 11 },
+        ],
+      };
+
+      expect(FunctionPointCalculator.calculateModelEffortHours(80, model)).toBe(
+        640,
+      );
+      expect(
+        FunctionPointCalculator.calculateModelEffortHours(300, model),
+      ).toBe(3300);
+      expect(
+        FunctionPointCalculator.calculateModelEffortHours(900, model),
+      ).toBe(12600);
+    });
+
+    it('should apply the size exponent in power models', () => {
+      const effort = FunctionPointCalculator.calculateModelEffortHours(100, {
+        curveType: 'POWER',
+        hoursPerFunctionPoint: 5,
+        exponent: 1.1,
+      });
+
+      expect(effort).toBeCloseTo(5 * Math.pow(100, 1.1));
+    });
+
+    it('should report the effective hours per FP in the estimation metrics', () => {
+      const metrics = FunctionPointCalculator.calculateEstimationMetrics(
+        [50, 50],
+        {
+          averageDailyWorkingHours: 8,
+          teamSize: 2,
+          hourlyRateBRL: 100,
+          productivityFactor: 10,
+          productivityModel: {
+            curveType: 'POWER',
+            hoursPerFunctionPoint: 4,
+            exponent: 1.2,
+          },
+        },
+      );
+
+      expect(metrics.effortHours).toBeCloseTo(4 * Math.pow(100, 1.2));
+      expect(metrics.productivityFactor).toBeCloseTo(metrics.effortHours / 100);
+    });
+
+    it('should derive duration and cost from the size and effort given', () => {
+      const metrics = FunctionPointCalculator.calculateEstimationMetrics(
+        [50, 50],
+        {
+          averageDailyWorkingHours: 8,
+          teamSize: 2,
+          hourlyRateBRL: 100,
+          productivityFactor: 10,
+          adjustedFunctionPoints: 80,
+          effortHours: 1600,
+        },
+      );
+
+      expect(metrics.pfna).toBe(100);
+      expect(metrics.pfa).toBe(80);
+      expect(metrics.effortHours).toBe(1600);
+      expect(metrics.productivityFactor).toBe(20);
+      expect(metrics.durationDays).toBe(100);
+      expect(metrics.totalCost).toBe(160000);
+    });
+  });
+});
@@ -59,6 +59,29 @@ export interface ComponentForBreakdown {
   type?: string;
   functionPoints?: number;
   complexity?: string;
+  changeType?: string;
+}
+
+// Organization productivity model (see ProductivityModel)
+export interface ProductivityCurve {
+  curveType: string; // LINEAR, PIECEWISE or POWER
+  hoursPerFunctionPoint: number;
+  sizeBands?: {
+    upToFunctionPoints: number | null;
+    hoursPerFunctionPoint: number;
+  }[];
+  exponent?: number;
+}
+
+// IFPUG enhancement project count (EFP)
+export interface EnhancementBreakdown {
+  added: { count: number; points: number }; // ADD
+  changed: { count: number; points: number }; // CHGA
+  deleted: { count: number; points: number }; // DEL
+  conversion: { count: number; points: number }; // CFP
+  vafBefore: number; // VAFB
+  vafAfter: number; // VAFA
+  enhancementFunctionPoints: number; // EFP
 }
 
 @Injectable()
@@ -194,6 +217,40 @@ export class FunctionPointCalculator {
     return pfa * productivityFactor;
   }
 
+  /**
+   * Calculate effort in hours from a productivity model
+   * LINEAR: Effort = PFA × Hours per FP
+   * PIECEWISE: Effort = PFA × Hours per FP of the size band PFA falls in
+   * POWER: Effort = Hours per FP × PFA ^ Exponent
+   */
+  static calculateModelEffortHours(
+    pfa: number,
+    model: ProductivityCurve,
+  ): number {
+    switch (model.curveType) {
+      case 'PIECEWISE': {
+        const band = [...(model.sizeBands || [])]
+          .sort(
+            (a, b) =>
+              (a.upToFunctionPoints ?? Infinity) -
+              (b.upToFunctionPoints ?? Infinity),
+          )
+          .find(
+            (sizeBand) =>
+              sizeBand.upToFunctionPoints === null ||
+              pfa <= sizeBand.upToFunctionPoints,
+          );
+        return (
+          pfa * (band?.hoursPerFunctionPoint ?? model.hoursPerFunctionPoint)
+        );
+      }
+      case 'POWER':
+        return model.hoursPerFunctionPoint * Math.pow(pfa, model.exponent ?? 1);
+      default:
+        return this.calculateEffortHours(pfa, model.hoursPerFunctionPoint);
+    }
+  }
+
   /**
    * Calculate project duration in days
    * Duration = Effort ÷ (Team Size × Average Daily Working Hours)
@@ -231,6 +288,11 @@ export class FunctionPointCalculator {
       hourlyRateBRL: number;
       productivityFactor: number;
       generalSystemCharacteristics?: number[];
+      productivityModel?: ProductivityCurve | null;
+      // Size and effort already calculated for the count type and the
+      // estimation model (EFP, COCOMO II) replace steps 3 and 4
+      adjustedFunctionPoints?: number;
+      effortHours?: number;
     },
   ): EstimationMetrics {
     // Step 1: Calculate PFNA
@@ -248,13 +310,21 @@ export class FunctionPointCalculator {
     }
 
     // Step 3: Calculate PFA
-    const pfa = this.calculateAdjustedFunctionPoints(pfna, fa);
-
-    // Step 4: Calculate effort
-    const effortHours = this.calculateEffortHours(
-      pfa,
-      config.productivityFactor,
-    );
+    const pfa =
+      config.adjustedFunctionPoints ??
+      this.calculateAdjustedFunctionPoints(pfna, fa);
+
+    // Step 4: Calculate effort (from the productivity model when one is set)
+    const effortHours =
+      config.effortHours ??
+      (config.productivityModel
+        ? this.calculateModelEffortHours(pfa, config.productivityModel)
+        : this.calculateEffortHours(pfa, config.productivityFactor));
+    const productivityFactor =
+      (config.effortHours !== undefined || config.productivityModel) && pfa > 0
+        ? effortHours / pfa
+        : (config.productivityModel?.hoursPerFunctionPoint ??
+          config.productivityFactor);
 
     // Step 5: Calculate duration
     const durationDays = this.calculateDurationDays(
@@ -293,7 +363,7 @@ export class FunctionPointCalculator {
       averageDailyWorkingHours: config.averageDailyWorkingHours,
       teamSize: config.teamSize,
       hourlyRateBRL: config.hourlyRateBRL,
-      productivityFactor: config.productivityFactor,
+      productivityFactor,
 
       // Legacy compatibility
       adjustedFunctionPoints: pfa,
@@ -433,6 +503,62 @@ export class FunctionPointCalculator {
     return breakdown;
   }
 
+  /**
+   * Calculate EFP (Enhancement Function Points) following IFPUG
+   * EFP = (ADD + CHGA + CFP) × VAFA + DEL × VAFB
+   * Components without a change type are counted as ADDED
+   */
+  static calculateEnhancementFunctionPoints(
+    components: ComponentForBreakdown[],
+    vafAfter: number,
+    vafBefore: number = vafAfter,
+  ): EnhancementBreakdown {
+    const breakdown = {
+      added: { count: 0, points: 0 },
+      changed: { count: 0, points: 0 },
+      deleted: { count: 0, points: 0 },
+      conversion: { count: 0, points: 0 },
+    };
+
+    components.forEach((component) => {
+      const changeType = component.changeType?.toLowerCase() || 'added';
+      const points = component.functionPoints || 0;
+
+      switch (changeType) {
+        case 'changed':
+          breakdown.changed.count++;
+          breakdown.changed.points += points;
+          break;
+        case 'deleted':
+          breakdown.deleted.count++;
+          breakdown.deleted.points += points;
+          break;
+        case 'conversion':
+          breakdown.conversion.count++;
+          breakdown.conversion.points += points;
+          break;
+        default:
+          breakdown.added.count++;
+          breakdown.added.points += points;
+          break;
+      }
+    });
+
+    const enhancementFunctionPoints =
+      (breakdown.added.points +
+        breakdown.changed.points +
+        breakdown.conversion.points) *
+        vafAfter +
+      breakdown.deleted.points * vafBefore;
+
+    return {
+      ...breakdown,
+      vafBefore,
+      vafAfter,
+      enhancementFunctionPoints,
+    };
+  }
+
   /**
    * Validate estimation inputs
    */
@@ -0,0 +1,88 @@
+import { Types } from 'mongoose';
+import {
+  QualityGateEvaluator,
+  QualityGateSubject,
+} from './quality-gate-evaluator.service';
+import { QualityGate } from '@domain/fpa/entities/quality-gate-policy.entity';
+import { UserRole } from '@domain/users/entities/user.entity';
+
+const ALL_GATES = Object.values(QualityGate);
+
+const estimate = (
+  overrides: Partial<QualityGateSubject> = {},
+): QualityGateSubject => ({
+  generalSystemCharacteristics: Array<number>(14).fill(3),
+  applicationBoundary: 'Customer portal',
+  countingScope: 'Self-service features',
+  documentReferences: [],
+  approvals: [
+    {
+      approvedBy: new Types.ObjectId(),
+      role: UserRole.MEASUREMENT_ANALYST,
+      approvedAt: new Date(),
+    },
+  ],
+  ...overrides,
+});
+
+describe('QualityGateEvaluator', () => {
+  describe('evaluate', () => {
+    it('should pass an estimate meeting every gate', () => {
+      const failures = QualityGateEvaluator.evaluate(estimate(), ALL_GATES, {
+        documentCount: 1,
+        consistencyFindings: [],
+      });
+
+      expect(failures).toEqual([]);
+    });
+
+    it('should list the failed gates with their details', () => {
+      const failures = QualityGateEvaluator.evaluate(
+        estimate({
+          generalSystemCharacteristics: [3, 2, 1],
+          countingScope: '  ',
+          approvals: [
+            {
+              approvedBy: new Types.ObjectId(),
+              role: UserRole.PROJECT_MANAGER,
+              approvedAt: new Date(),
+            },
+          ],
+        }),
+        ALL_GATES,
+        {
+          documentCount: 0,
+          consistencyFindings: [
+            {
+              rule: 'NO_DATA_FUNCTIONS',
+              severity: 'error',
+              message: 'No data functions',
+              components: [],
+            },
+            {
+              rule: 'DUPLICATE_TRANSACTION',
+              severity: 'warning',
+              message: 'Duplicate transactions',
+              components: [],
+            },
+          ],
+        },
+      );
+
+      expect(failures.map((failure) => failure.gate)).toEqual(ALL_GATES);
+      expect(failures[0].details).toHaveLength(11);
+      expect(failures[1].details).toEqual(['countingScope']);
+      expect(failures[3].details).toEqual(['No data functions']);
+    });
+
+    it('should only evaluate the configured gates', () => {
+      const failures = QualityGateEvaluator.evaluate(
+        estimate({ generalSystemCharacteristics: undefined, approvals: [] }),
+        [QualityGate.DOCUMENT_REFERENCE],
+        { documentCount: 2, consistencyFindings: [] },
+      );
+
+      expect(failures).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { Estimate } from '@domain/fpa/entities/estimate.entity';
+import { QualityGate } from '@domain/fpa/entities/quality-gate-policy.entity';
+import { UserRole } from '@domain/users/entities/user.entity';
+import { ConsistencyFinding } from './estimate-consistency-checker.service';
+
+const GSC_COUNT = 14;
+
+// The fields of an estimate the gates look at
+export const QUALITY_GATE_FIELDS = [
+  'generalSystemCharacteristics',
+  'applicationBoundary',
+  'countingScope',
+  'documentReferences',
+  'approvals',
+] as const;
+
+export type QualityGateSubject = Pick<
+  Estimate,
+  (typeof QUALITY_GATE_FIELDS)[number]
+>;
+
+// What the gates look at besides the estimate itself
+export interface QualityGateContext {
+  documentCount: number; // documents attached to the estimate
+  consistencyFindings: ConsistencyFinding[];
+}
+
+export interface QualityGateFailure {
+  gate: QualityGate;
+  message: string;
+  details: string[];
+}
+
+/**
+ * Evaluates the quality gates an organization requires before an estimate
+ * is finalized. Returns the failed gates, in the order they were given.
+ */
+export class QualityGateEvaluator {
+  static evaluate(
+    estimate: QualityGateSubject,
+    gates: QualityGate[],
+    context: QualityGateContext,
+  ): QualityGateFailure[] {
+    return gates.flatMap((gate) => {
+      const failure = this.evaluateGate(estimate, gate, context);
+      return failure ? [failure] : [];
+    });
+  }
+
+  private static evaluateGate(
+    estimate: QualityGateSubject,
+    gate: QualityGate,
+    context: QualityGateContext,
+  ): QualityGateFailure | null {
+    switch (gate) {
+      case QualityGate.GSC_VALUES_SET: {
+        const values = estimate.generalSystemCharacteristics || [];
+        const missing = Array.from({ length: GSC_COUNT }, (_, index) => index)
+          .filter((index) => !this.isDegreeOfInfluence(values[index]))
+          .map((index) => `GSC ${index + 1}`);
+        return missing.length > 0
+          ? {
+              gate,
+              message: `All ${GSC_COUNT} General System Characteristics must be rated 0-5`,
+              details: missing,
+            }
+          : null;
+      }
+      case QualityGate.BOUNDARY_AND_SCOPE: {
+        const missing = [
+          ['applicationBoundary', estimate.applicationBoundary],
+          ['countingScope', estimate.countingScope],
+        ]
+          .filter(([, text]) => !text?.trim())
+          .map(([field]) => field);
+        return missing.length > 0
+          ? {
+              gate,
+              message:
+                'The application boundary and counting scope are required',
+              details: missing,
+            }
+          : null;
+      }
+      case QualityGate.DOCUMENT_REFERENCE:
+        return (estimate.documentReferences?.length || 0) === 0 &&
+          context.documentCount === 0
+          ? {
+              gate,
+              message: 'At least one document must be referenced',
+              details: [],
+            }
+          : null;
+      case QualityGate.NO_VALIDATION_ERRORS: {
+        const errors = context.consistencyFindings.filter(
+          (finding) => finding.severity === 'error',
+        );
+        return errors.length > 0
+          ? {
+              gate,
+              message: 'The estimate has validation errors',
+              details: errors.map((finding) => finding.message),
+            }
+          : null;
+      }
+      case QualityGate.MEASUREMENT_ANALYST_APPROVAL:
+        return (estimate.approvals || []).some(
+          (approval) => approval.role === UserRole.MEASUREMENT_ANALYST,
+        )
+          ? null
+          : {
+              gate,
+              message:
+                'The estimate must be approved in review by a measurement analyst',
+              details: [],
+            };
+    }
+  }
+
+  private static isDegreeOfInfluence(value: number | undefined): boolean {
+    return typeof value === 'number' && value >= 0 && value <= 5;
+  }
+}
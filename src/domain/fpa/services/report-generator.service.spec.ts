@@ -0,0 +1,269 @@
+import { Types } from 'mongoose';
+import { ReportGeneratorService } from './report-generator.service';
+import { FunctionPointCalculator } from './function-point-calculator.service';
+import { TeamSizeEstimationService } from './team-size-estimation.service';
+import { TrendAnalysisService } from './trend-analysis.service';
+import {
+  CountType,
+  Estimate,
+  EstimateMilestoneActuals,
+} from '../entities/estimate.entity';
+import {
+  ComplexityLevel,
+  FunctionChangeType,
+} from '@domain/fpa/entities/base-fpa-component.entity';
+import { EstimateComponentSummary } from '@domain/fpa/interfaces/estimate.repository.interface';
+import {
+  SpreadsheetCell,
+  SpreadsheetSheet,
+  SpreadsheetUtils,
+} from '@shared/utils/spreadsheet.utils';
+
+const estimate = (fields: Partial<Estimate>): Estimate =>
+  ({
+    _id: new Types.ObjectId(),
+    name: 'Billing',
+    version: 1,
+    estimatedEffortHours: 1000,
+    teamSize: 5,
+    averageDailyWorkingHours: 8,
+    hourlyRateBRL: 100,
+    ...fields,
+  }) as Estimate;
+
+const milestone = (
+  fields: Partial<EstimateMilestoneActuals>,
+): EstimateMilestoneActuals => ({
+  milestone: 'Sprint 4',
+  recordedAt: new Date('2024-05-10'),
+  recordedBy: new Types.ObjectId(),
+  actualEffortHours: 400,
+  ...fields,
+});
+
+const component = (
+  fields: Partial<EstimateComponentSummary>,
+): EstimateComponentSummary => ({
+  _id: new Types.ObjectId(),
+  componentType: 'EI',
+  name: 'Register customer',
+  complexity: ComplexityLevel.LOW,
+  functionPoints: 3,
+  ...fields,
+});
+
+describe('ReportGeneratorService', () => {
+  const service = new ReportGeneratorService(
+    new FunctionPointCalculator(),
+    new TeamSizeEstimationService(),
+    new TrendAnalysisService(),
+  );
+
+  describe('generateVarianceReport', () => {
+    it('should measure accuracy against the final actuals only', () => {
+      const report = service.generateVarianceReport([
+        estimate({
+          actualEffortHours: 1250,
+          actualsRecordedAt: new Date('2024-09-01'),
+          milestoneActuals: [milestone({ actualEffortHours: 900 })],
+        }),
+        estimate({ milestoneActuals: [milestone({})] }),
+      ]);
+
+      expect(report.estimates[0].final).toEqual({
+        recordedAt: '2024-09-01',
+        effort: { estimated: 1000, actual: 1250, variance: 250, mre: 0.2 },
+        cost: null,
+        durationDays: null,
+      });
+      expect(report.estimates[1].final).toBeNull();
+      expect(report.accuracy.effort).toEqual({
+        sampleSize: 1,
+        mmre: 0.2,
+        pred25: 1,
+      });
+    });
+
+    it('should measure the accuracy of the final cost and duration', () => {
+      const report = service.generateVarianceReport([
+        estimate({
+          actualEffortHours: 1000,
+          actualCostBRL: 150000,
+          actualDurationDays: 20,
+        }),
+        estimate({ actualEffortHours: 1000, actualCostBRL: 110000 }),
+      ]);
+
+      // 1000 hours at 100 BRL, by 5 people working 8 hours a day
+      expect(report.estimates[0].final).toMatchObject({
+        cost: { estimated: 100000, actual: 150000, mre: 1 / 3 },
+        durationDays: { estimated: 25, actual: 20, variance: -5, mre: 0.25 },
+      });
+      expect(report.estimates[1].final?.durationDays).toBeNull();
+      expect(report.accuracy.cost.sampleSize).toBe(2);
+      expect(report.accuracy.cost.pred25).toBe(0.5);
+      expect(report.accuracy.durationDays).toEqual({
+        sampleSize: 1,
+        mmre: 0.25,
+        pred25: 1,
+      });
+    });
+
+    it('should include estimates with final actuals and no milestones', () => {
+      const report = service.generateVarianceReport([
+        estimate({ actualEffortHours: 800 }),
+        estimate({}),
+      ]);
+
+      expect(report.estimates).toHaveLength(1);
+      expect(report.estimates[0].progress).toBeNull();
+      expect(report.accuracy.effort.sampleSize).toBe(1);
+    });
+
+    it('should report the latest milestone as progress against the estimate', () => {
+      const report = service.generateVarianceReport([
+        estimate({
+          milestoneActuals: [
+            milestone({ milestone: 'Sprint 2', actualEffortHours: 200 }),
+            milestone({ actualCostBRL: 50000, actualDurationDays: 10 }),
+          ],
+        }),
+      ]);
+
+      expect(report.estimates[0].progress).toEqual({
+        milestone: 'Sprint 4',
+        recordedAt: '2024-05-10',
+        effort: { estimated: 1000, actual: 400, consumed: 0.4, remaining: 600 },
+        cost: {
+          estimated: 100000,
+          actual: 50000,
+          consumed: 0.5,
+          remaining: 50000,
+        },
+        // 1000 hours by 5 people working 8 hours a day
+        durationDays: {
+          estimated: 25,
+          actual: 10,
+          consumed: 0.4,
+          remaining: 15,
+        },
+        teamSize: null,
+      });
+    });
+  });
+
+  describe('generateXLSXExport', () => {
+    // Writes the workbook, reads the Summary labels back from the file and
+    // returns the sheets written along with the column B formula by label
+    const exportWorkbook = (
+      exported: Estimate,
+      components: EstimateComponentSummary[],
+    ) => {
+      const writeXlsx = jest.spyOn(SpreadsheetUtils, 'writeXlsx');
+      const workbook = service.generateXLSXExport(exported, components);
+      const sheets: SpreadsheetSheet[] = writeXlsx.mock.calls[0][0];
+      writeXlsx.mockRestore();
+
+      const summary = SpreadsheetUtils.parse(workbook, 'xlsx');
+      const rowOf = (label: string): number => {
+        const row = summary.find(
+          ({ values }) => Object.values(values)[0] === label,
+        );
+        if (!row) {
+          throw new Error(`No "${label}" row in the Summary sheet`);
+        }
+        return row.rowNumber;
+      };
+      const formulaOf = (label: string): string | undefined => {
+        const cell: SpreadsheetCell | undefined =
+          sheets[0].rows[rowOf(label) - 1][1];
+        return cell && typeof cell === 'object' && 'formula' in cell
+          ? cell.formula
+          : undefined;
+      };
+
+      return { sheets, summary, rowOf, formulaOf };
+    };
+
+    it('should calculate the adjusted size and effort of a development count', () => {
+      const { sheets, summary, rowOf, formulaOf } = exportWorkbook(
+        estimate({
+          countType: CountType.DEVELOPMENT_PROJECT,
+          productivityFactor: 10,
+        }),
+        [component({}), component({ componentType: 'ALI', name: 'Customer' })],
+      );
+
+      expect(sheets.map((sheet) => sheet.name)).toEqual([
+        'Summary',
+        'ILF',
+        'EIF',
+        'EI',
+        'EO',
+        'EQ',
+        'GSC',
+      ]);
+      expect(
+        summary.some(
+          ({ values }) =>
+            Object.values(values)[0] === 'Enhancement function points (EFP)',
+        ),
+      ).toBe(false);
+
+      const ufp = `B${rowOf('Unadjusted function points (UFP)')}`;
+      const vaf = `B${rowOf('Value adjustment factor (VAF)')}`;
+      const afp = `B${rowOf('Adjusted function points (AFP)')}`;
+      const productivity = `B${rowOf('Productivity (hours per function point)')}`;
+      const effort = `B${rowOf('Effort (hours)')}`;
+
+      expect(formulaOf('Unadjusted function points (UFP)')).toBe(
+        `F${rowOf('Total')}`,
+      );
+      expect(formulaOf('Value adjustment factor (VAF)')).toBe(
+        `IF(COUNT('GSC'!C2:C15)=14,0.65+0.01*B${rowOf('Total degree of influence (TDI)')},1)`,
+      );
+      expect(formulaOf('Adjusted function points (AFP)')).toBe(`${ufp}*${vaf}`);
+      expect(formulaOf('Effort (hours)')).toBe(`${afp}*${productivity}`);
+      expect(formulaOf('Cost (BRL)')).toBe(
+        `${effort}*B${rowOf('Hourly rate (BRL)')}`,
+      );
+    });
+
+    it('should calculate the EFP of an enhancement count from the change types', () => {
+      const { sheets, rowOf, formulaOf } = exportWorkbook(
+        estimate({ countType: CountType.ENHANCEMENT_PROJECT }),
+        [
+          component({}),
+          component({
+            name: 'Cancel order',
+            changeType: FunctionChangeType.DELETED,
+          }),
+        ],
+      );
+
+      const row = (label: string) => `B${rowOf(label)}`;
+      expect(formulaOf('Enhancement function points (EFP)')).toBe(
+        `(${row('Added (ADD)')}+${row('Changed (CHGA)')}+${row('Conversion (CFP)')})*${row('Value adjustment factor (VAF)')}` +
+          `+${row('Deleted (DEL)')}*${row('VAF before the enhancement (VAFB)')}`,
+      );
+      expect(formulaOf('Added (ADD)')).toBe(
+        ['ILF', 'EIF', 'EI', 'EO', 'EQ']
+          .map((sheet) => `SUMIF('${sheet}'!B:B,"ADDED",'${sheet}'!F:F)`)
+          .join('+'),
+      );
+      expect(formulaOf('VAF before the enhancement (VAFB)')).toBe(
+        `IF(COUNT('GSC'!D2:D15)=14,0.65+0.01*'GSC'!D16,${row('Value adjustment factor (VAF)')})`,
+      );
+      expect(formulaOf('Effort (hours)')).toBe(
+        `${row('Enhancement function points (EFP)')}*${row('Productivity (hours per function point)')}`,
+      );
+
+      // Components without a change type are counted as added
+      const inputs = sheets.find((sheet) => sheet.name === 'EI');
+      expect(inputs?.rows.slice(1).map((cells) => cells[1])).toEqual([
+        FunctionChangeType.ADDED,
+        FunctionChangeType.DELETED,
+      ]);
+    });
+  });
+});
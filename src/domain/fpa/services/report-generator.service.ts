@@ -1,11 +1,31 @@
 import { Injectable } from '@nestjs/common';
-import { Estimate } from '@domain/fpa/entities/estimate.entity';
+import {
+  Estimate,
+  EstimationModel,
+  CountType,
+} from '@domain/fpa/entities/estimate.entity';
+import { FunctionChangeType } from '@domain/fpa/entities/base-fpa-component.entity';
+import { EstimateComponentSummary } from '@domain/fpa/interfaces/estimate.repository.interface';
 import { FunctionPointCalculator } from '@domain/fpa/services/function-point-calculator.service';
-import { TeamSizeEstimationService } from '@domain/fpa/services/team-size-estimation.service';
+import {
+  TeamSizeEstimationService,
+  TeamSizeEstimationResult,
+} from '@domain/fpa/services/team-size-estimation.service';
 import {
   TrendAnalysisService,
   TrendMetric,
 } from '@domain/fpa/services/trend-analysis.service';
+import {
+  EstimationAccuracyCalculator,
+  EstimateVariance,
+  EstimationAccuracy,
+} from '@domain/fpa/services/estimation-accuracy.service';
+import { CocomoIICalculator } from '@domain/fpa/services/cocomo-ii.service';
+import {
+  SpreadsheetUtils,
+  SpreadsheetCell,
+  SpreadsheetSheet,
+} from '@shared/utils/spreadsheet.utils';
 
 export interface DetailedReportSection {
   title: string;
@@ -51,6 +71,89 @@ export interface ComparisonReport {
   };
 }
 
+// Cumulative actuals to date against the estimate of the whole project
+export interface EstimateProgress {
+  estimated: number;
+  actual: number;
+  // Share of the estimate used so far
+  consumed: number | null;
+  remaining: number;
+}
+
+export interface EstimateVarianceEntry {
+  estimateId: string;
+  name: string;
+  version: number;
+  // Accuracy of the estimate against the final actuals, once recorded
+  final: {
+    recordedAt: string;
+    effort: EstimateVariance;
+    cost: EstimateVariance | null;
+    durationDays: EstimateVariance | null;
+  } | null;
+  // Progress at the latest milestone; not an accuracy measure, since the
+  // project is still under way
+  progress: {
+    milestone: string;
+    recordedAt: string;
+    effort: EstimateProgress;
+    cost: EstimateProgress | null;
+    durationDays: EstimateProgress | null;
+    teamSize: { estimated: number; actual: number } | null;
+  } | null;
+}
+
+export interface VarianceReport {
+  title: string;
+  date: string;
+  estimates: EstimateVarianceEntry[];
+  // Over the estimates with final actuals only
+  accuracy: {
+    effort: EstimationAccuracy;
+    cost: EstimationAccuracy;
+    durationDays: EstimationAccuracy;
+  };
+}
+
+// Sheets of the counting workbook, in IFPUG naming
+const WORKBOOK_FUNCTION_SHEETS: {
+  sheet: string;
+  componentType: EstimateComponentSummary['componentType'];
+  label: string;
+  isDataFunction: boolean;
+}[] = [
+  {
+    sheet: 'ILF',
+    componentType: 'ALI',
+    label: 'Internal Logical Files (ILF)',
+    isDataFunction: true,
+  },
+  {
+    sheet: 'EIF',
+    componentType: 'AIE',
+    label: 'External Interface Files (EIF)',
+    isDataFunction: true,
+  },
+  {
+    sheet: 'EI',
+    componentType: 'EI',
+    label: 'External Inputs (EI)',
+    isDataFunction: false,
+  },
+  {
+    sheet: 'EO',
+    componentType: 'EO',
+    label: 'External Outputs (EO)',
+    isDataFunction: false,
+  },
+  {
+    sheet: 'EQ',
+    componentType: 'EQ',
+    label: 'External Queries (EQ)',
+    isDataFunction: false,
+  },
+];
+
 @Injectable()
 export class ReportGeneratorService {
   constructor(
@@ -139,6 +242,7 @@ export class ReportGeneratorService {
             `Maximum Duration: ${teamSizeEstimation.maxDurationMonths.toFixed(1)} months`,
           ],
         },
+        ...this.generateCocomoSections(estimate, teamSizeEstimation),
         {
           title: 'Additional Notes',
           content: estimate.notes || 'No additional notes provided',
@@ -147,6 +251,47 @@ export class ReportGeneratorService {
     };
   }
 
+  // COCOMO II results next to the linear model, for estimates that use it
+  private generateCocomoSections(
+    estimate: Estimate,
+    linear: TeamSizeEstimationResult,
+  ): DetailedReportSection[] {
+    if (
+      estimate.estimationModel !== EstimationModel.COCOMO_II ||
+      !estimate.cocomoParameters
+    ) {
+      return [];
+    }
+
+    const cocomo = CocomoIICalculator.calculate(
+      estimate.unadjustedFunctionPoints,
+      estimate.cocomoParameters,
+    );
+    return [
+      {
+        title: 'COCOMO II Post-Architecture Estimation',
+        content: [
+          `Language: ${cocomo.language ?? 'Custom'} (${cocomo.slocPerFunctionPoint} SLOC per function point)`,
+          `Size: ${cocomo.ksloc.toFixed(2)} KSLOC`,
+          `Scale Exponent (E): ${cocomo.scaleExponent.toFixed(4)}`,
+          `Effort Multiplier Product: ${cocomo.effortMultiplierProduct.toFixed(4)}`,
+          `Nominal Effort: ${cocomo.nominalEffortPersonMonths.toFixed(1)} person-months`,
+          `Effort: ${cocomo.effortPersonMonths.toFixed(1)} person-months (${cocomo.effortHours.toFixed(0)} person-hours)`,
+          `Schedule (TDEV): ${cocomo.scheduleMonths.toFixed(1)} months`,
+          `Average Staffing: ${cocomo.averageStaffing.toFixed(1)} people`,
+        ],
+      },
+      {
+        title: 'Linear Model vs COCOMO II',
+        content: [
+          `Effort: ${linear.totalEffortHours.toFixed(0)} vs ${cocomo.effortHours.toFixed(0)} person-hours`,
+          `Duration: ${linear.recommendedDurationMonths.toFixed(1)} vs ${cocomo.scheduleMonths.toFixed(1)} months`,
+          `Team Size: ${linear.recommendedTeamSize} vs ${cocomo.averageStaffing.toFixed(1)} people`,
+        ],
+      },
+    ];
+  }
+
   generateSummaryReport(estimate: Estimate): SummaryReport {
     const gscTotal =
       estimate.generalSystemCharacteristics?.reduce(
@@ -236,6 +381,120 @@ export class ReportGeneratorService {
     };
   }
 
+  /**
+   * Accuracy of every estimate with final actuals (MRE of the effort, cost
+   * and duration, with MMRE and PRED(25) across them), and progress of every estimate with
+   * milestone actuals against its estimated effort, cost and duration
+   */
+  generateVarianceReport(estimates: Estimate[]): VarianceReport {
+    const entries = estimates
+      .filter(
+        (est) =>
+          est.actualEffortHours !== undefined ||
+          (est.milestoneActuals || []).length > 0,
+      )
+      .map((est) => this.calculateEstimateVariance(est));
+
+    return {
+      title: 'Estimation Accuracy Report',
+      date: new Date().toISOString().split('T')[0],
+      estimates: entries,
+      accuracy: {
+        effort: EstimationAccuracyCalculator.summarize(
+          entries.map((entry) => entry.final?.effort ?? null),
+        ),
+        cost: EstimationAccuracyCalculator.summarize(
+          entries.map((entry) => entry.final?.cost ?? null),
+        ),
+        durationDays: EstimationAccuracyCalculator.summarize(
+          entries.map((entry) => entry.final?.durationDays ?? null),
+        ),
+      },
+    };
+  }
+
+  private calculateEstimateVariance(estimate: Estimate): EstimateVarianceEntry {
+    const milestones = estimate.milestoneActuals || [];
+    const latest = milestones[milestones.length - 1];
+
+    const estimatedEffort = estimate.estimatedEffortHours || 0;
+    const teamSize = estimate.teamSize || 1;
+    const dailyHours = estimate.averageDailyWorkingHours || 8;
+    const estimatedCost = estimatedEffort * (estimate.hourlyRateBRL || 0);
+    const estimatedDuration = estimatedEffort / (teamSize * dailyHours);
+
+    return {
+      estimateId: estimate._id.toString(),
+      name: estimate.name,
+      version: estimate.version,
+      final:
+        estimate.actualEffortHours !== undefined
+          ? {
+              recordedAt: this.formatDate(estimate.actualsRecordedAt),
+              effort: EstimationAccuracyCalculator.calculateVariance(
+                estimatedEffort,
+                estimate.actualEffortHours,
+              ),
+              cost:
+                estimate.actualCostBRL !== undefined
+                  ? EstimationAccuracyCalculator.calculateVariance(
+                      estimatedCost,
+                      estimate.actualCostBRL,
+                    )
+                  : null,
+              durationDays:
+                estimate.actualDurationDays !== undefined
+                  ? EstimationAccuracyCalculator.calculateVariance(
+                      estimatedDuration,
+                      estimate.actualDurationDays,
+                    )
+                  : null,
+            }
+          : null,
+      progress: latest
+        ? {
+            milestone: latest.milestone,
+            recordedAt: this.formatDate(latest.recordedAt),
+            effort: this.calculateProgress(
+              estimatedEffort,
+              latest.actualEffortHours,
+            ),
+            cost:
+              latest.actualCostBRL !== undefined
+                ? this.calculateProgress(estimatedCost, latest.actualCostBRL)
+                : null,
+            durationDays:
+              latest.actualDurationDays !== undefined
+                ? this.calculateProgress(
+                    estimatedDuration,
+                    latest.actualDurationDays,
+                  )
+                : null,
+            teamSize:
+              latest.actualTeamSize !== undefined
+                ? { estimated: teamSize, actual: latest.actualTeamSize }
+                : null,
+          }
+        : null,
+    };
+  }
+
+  private calculateProgress(
+    estimated: number,
+    actual: number,
+  ): EstimateProgress {
+    return {
+      estimated,
+      actual,
+      consumed: estimated > 0 ? actual / estimated : null,
+      remaining: estimated - actual,
+    };
+  }
+
+  private formatDate(date: Date | undefined): string {
+    return date ? new Date(date).toISOString().split('T')[0] : '';
+  }
+
   generateJSONExport(estimate: Estimate): string {
     // Create a clean export object without internal MongoDB details
     const exportObj = {
@@ -309,4 +568,260 @@ export class ReportGeneratorService {
 
     return csvContent;
   }
+
+  /**
+   * IFPUG-style counting workbook: a summary sheet whose totals, VAF, AFP,
+   * effort and cost are live formulas over one sheet per function type and
+   * the GSC sheet
+   */
+  generateXLSXExport(
+    estimate: Estimate,
+    components: EstimateComponentSummary[],
+  ): Buffer {
+    const isEnhancement = estimate.countType === CountType.ENHANCEMENT_PROJECT;
+
+    const functionSheets: SpreadsheetSheet[] = WORKBOOK_FUNCTION_SHEETS.map(
+      ({ sheet, componentType, isDataFunction }) => {
+        const isQuery = componentType === 'EQ';
+        const header = [
+          'Name',
+          'Change type',
+          'DET',
+          isDataFunction ? 'RET' : 'FTR',
+          'Complexity',
+          'Function points',
+          ...(isQuery
+            ? ['Input FTR', 'Input DET', 'Output FTR', 'Output DET']
+            : []),
+        ];
+
+        const rows = components
+          .filter((component) => component.componentType === componentType)
+          .map((component): SpreadsheetCell[] => [
+            component.name,
+            // Enhancement counts treat components without a change type as added
+            component.changeType ??
+              (isEnhancement ? FunctionChangeType.ADDED : null),
+            component.dataElementTypes ?? null,
+            (isDataFunction
+              ? component.recordElementTypes
+              : component.fileTypesReferenced) ?? null,
+            component.complexity,
+            component.functionPoints,
+            ...(isQuery
+              ? [
+                  component.inputFtr ?? null,
+                  component.inputDet ?? null,
+                  component.outputFtr ?? null,
+                  component.outputDet ?? null,
+                ]
+              : []),
+          ]);
+
+        return {
+          name: sheet,
+          rows: [header.map((value) => ({ value, bold: true })), ...rows],
+          columnWidths: [
+            40,
+            14,
+            8,
+            8,
+            12,
+            16,
+            ...(isQuery ? [10, 10, 11, 11] : []),
+          ],
+        };
+      },
+    );
+
+    const gscSheet = this.buildGSCSheet(estimate, isEnhancement);
+    const summarySheet = this.buildSummarySheet(estimate, isEnhancement);
+
+    return SpreadsheetUtils.writeXlsx([
+      summarySheet,
+      ...functionSheets,
+      gscSheet,
+    ]);
+  }
+
+  // GSC rows 2-15 hold the 14 degrees of influence, row 16 their total
+  private buildGSCSheet(
+    estimate: Estimate,
+    isEnhancement: boolean,
+  ): SpreadsheetSheet {
+    const gscFactors = FunctionPointCalculator.getGSCFactors();
+    const header = [
+      '#',
+      'General system characteristic',
+      'Degree of influence',
+      ...(isEnhancement ? ['Degree of influence before'] : []),
+    ];
+
+    const rows: SpreadsheetCell[][] = gscFactors.map((factor, index) => [
+      factor.id,
+      factor.name,
+      estimate.generalSystemCharacteristics?.[index] ?? null,
+      ...(isEnhancement
+        ? [estimate.generalSystemCharacteristicsBefore?.[index] ?? null]
+        : []),
+    ]);
+
+    return {
+      name: 'GSC',
+      rows: [
+        header.map((value) => ({ value, bold: true })),
+        ...rows,
+        [
+          null,
+          { value: 'Total degree of influence (TDI)', bold: true },
+          { formula: 'SUM(C2:C15)', bold: true },
+          ...(isEnhancement ? [{ formula: 'SUM(D2:D15)', bold: true }] : []),
+        ],
+      ],
+      columnWidths: [5, 36, 20, ...(isEnhancement ? [26] : [])],
+    };
+  }
+
+  private buildSummarySheet(
+    estimate: Estimate,
+    isEnhancement: boolean,
+  ): SpreadsheetSheet {
+    const rows: SpreadsheetCell[][] = [];
+    // Adds a row and returns the reference of its column B
+    const addRow = (...cells: SpreadsheetCell[]): string => {
+      rows.push(cells);
+      return `B${rows.length}`;
+    };
+    const sumAcrossSheets = (changeType: FunctionChangeType): string =>
+      WORKBOOK_FUNCTION_SHEETS.map(
+        ({ sheet }) => `SUMIF('${sheet}'!B:B,"${changeType}",'${sheet}'!F:F)`,
+      ).join('+');
+
+    addRow({
+      value: `Function Point Counting Workbook: ${estimate.name}`,
+      bold: true,
+    });
+    addRow();
+    addRow('Estimate', estimate.name);
+    addRow('Version', estimate.version);
+    addRow('Status', estimate.status);
+    addRow('Count type', estimate.countType);
+    addRow('Application boundary', estimate.applicationBoundary);
+    addRow('Counting scope', estimate.countingScope);
+    addRow();
+
+    addRow(
+      ...[
+        'Function type',
+        'Low',
+        'Average',
+        'High',
+        'Count',
+        'Function points',
+      ].map((value) => ({ value, bold: true })),
+    );
+    const firstTypeRow = rows.length + 1;
+    WORKBOOK_FUNCTION_SHEETS.forEach(({ sheet, label }) =>
+      addRow(
+        label,
+        { formula: `COUNTIF('${sheet}'!E:E,"LOW")` },
+        { formula: `COUNTIF('${sheet}'!E:E,"AVERAGE")` },
+        { formula: `COUNTIF('${sheet}'!E:E,"HIGH")` },
+        { formula: `COUNTA('${sheet}'!A:A)-1` },
+        { formula: `SUM('${sheet}'!F:F)` },
+      ),
+    );
+    const lastTypeRow = rows.length;
+    addRow(
+      { value: 'Total', bold: true },
+      ...['B', 'C', 'D', 'E', 'F'].map((column) => ({
+        formula: `SUM(${column}${firstTypeRow}:${column}${lastTypeRow})`,
+        bold: true,
+      })),
+    );
+    const totalRow = rows.length;
+    addRow();
+
+    const ufp = addRow('Unadjusted function points (UFP)', {
+      formula: `F${totalRow}`,
+    });
+    const tdi = addRow('Total degree of influence (TDI)', {
+      formula: "'GSC'!C16",
+    });
+    // Without all 14 GSCs the estimate is not adjusted (VAF = 1)
+    const vaf = addRow('Value adjustment factor (VAF)', {
+      formula: `IF(COUNT('GSC'!C2:C15)=14,0.65+0.01*${tdi},1)`,
+    });
+
+    let afp: string;
+    if (isEnhancement) {
+      const added = addRow('Added (ADD)', {
+        formula: sumAcrossSheets(FunctionChangeType.ADDED),
+      });
+      const changed = addRow('Changed (CHGA)', {
+        formula: sumAcrossSheets(FunctionChangeType.CHANGED),
+      });
+      const deleted = addRow('Deleted (DEL)', {
+        formula: sumAcrossSheets(FunctionChangeType.DELETED),
+      });
+      const conversion = addRow('Conversion (CFP)', {
+        formula: sumAcrossSheets(FunctionChangeType.CONVERSION),
+      });
+      const vafBefore = addRow('VAF before the enhancement (VAFB)', {
+        formula: `IF(COUNT('GSC'!D2:D15)=14,0.65+0.01*'GSC'!D16,${vaf})`,
+      });
+      afp = addRow(
+        { value: 'Enhancement function points (EFP)', bold: true },
+        {
+          formula: `(${added}+${changed}+${conversion})*${vaf}+${deleted}*${vafBefore}`,
+          bold: true,
+        },
+      );
+    } else {
+      afp = addRow(
+        { value: 'Adjusted function points (AFP)', bold: true },
+        { formula: `${ufp}*${vaf}`, bold: true },
+      );
+    }
+    addRow();
+
+    // Productivity models and COCOMO II are not spreadsheet formulas: their
+    // effective hours per function point is exported instead
+    const usesDerivedProductivity =
+      (estimate.estimationModel === EstimationModel.COCOMO_II ||
+        !!estimate.productivityModelId) &&
+      estimate.adjustedFunctionPoints > 0 &&
+      estimate.estimatedEffortHours > 0;
+    const hoursPerFunctionPoint = addRow(
+      usesDerivedProductivity
+        ? 'Effective hours per function point'
+        : 'Productivity (hours per function point)',
+      usesDerivedProductivity
+        ? estimate.estimatedEffortHours / estimate.adjustedFunctionPoints
+        : estimate.productivityFactor,
+    );
+    const effort = addRow(
+      { value: 'Effort (hours)', bold: true },
+      { formula: `${afp}*${hoursPerFunctionPoint}`, bold: true },
+    );
+    const hourlyRate = addRow('Hourly rate (BRL)', estimate.hourlyRateBRL);
+    addRow(
+      { value: 'Cost (BRL)', bold: true },
+      { formula: `${effort}*${hourlyRate}`, bold: true },
+    );
+    const teamSize = addRow('Team size', estimate.teamSize);
+    const dailyHours = addRow(
+      'Daily working hours per person',
+      estimate.averageDailyWorkingHours,
+    );
+    addRow('Duration (working days)', {
+      formula: `IF(${teamSize}*${dailyHours}>0,${effort}/(${teamSize}*${dailyHours}),0)`,
+    });
+
+    return {
+      name: 'Summary',
+      rows,
+      columnWidths: [40, 16, 10, 10, 10, 16],
+    };
+  }
 }
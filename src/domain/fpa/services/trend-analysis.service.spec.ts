@@ -0,0 +1,161 @@
+import {
+  TrendAnalysisService,
+  WesternElectricRule,
+} from './trend-analysis.service';
+
+describe('TrendAnalysisService', () => {
+  const service = new TrendAnalysisService();
+
+  describe('calculateStatistics', () => {
+    it('should compute the mean, sample deviation and t-based confidence interval', () => {
+      const stats = service.calculateStatistics([8, 10, 12]);
+
+      expect(stats.sampleSize).toBe(3);
+      expect(stats.mean).toBe(10);
+      expect(stats.median).toBe(10);
+      expect(stats.standardDeviation).toBeCloseTo(2);
+      // t(0.975, 2) = 4.303; margin = 4.303 * 2 / sqrt(3)
+      expect(stats.confidenceInterval?.lower).toBeCloseTo(10 - 4.9687, 3);
+      expect(stats.confidenceInterval?.upper).toBeCloseTo(10 + 4.9687, 3);
+    });
+
+    it('should not report an interval for a single sample', () => {
+      const stats = service.calculateStatistics([9]);
+
+      expect(stats.standardDeviation).toBe(0);
+      expect(stats.confidenceInterval).toBeNull();
+    });
+  });
+
+  describe('calibrateProductivity', () => {
+    it('should group hours per FP by count type and technology', () => {
+      const groups = service.calibrateProductivity([
+        {
+          estimateId: 'a',
+          countType: 'DEVELOPMENT_PROJECT',
+          technology: 'Java',
+          actualEffortHours: 1000,
+          actualFunctionPoints: 100,
+        },
+        {
+          estimateId: 'b',
+          countType: 'DEVELOPMENT_PROJECT',
+          technology: 'Java',
+          actualEffortHours: 1200,
+          actualFunctionPoints: 100,
+        },
+        {
+          estimateId: 'c',
+          countType: 'ENHANCEMENT_PROJECT',
+          technology: 'Java',
+          actualEffortHours: 300,
+          actualFunctionPoints: 20,
+        },
+      ]);
+
+      expect(groups).toHaveLength(2);
+      expect(groups[0].countType).toBe('DEVELOPMENT_PROJECT');
+      expect(groups[0].hoursPerFunctionPoint.mean).toBe(11);
+      expect(groups[0].hoursPerFunctionPoint.sampleSize).toBe(2);
+      expect(groups[1].hoursPerFunctionPoint.mean).toBe(15);
+    });
+  });
+
+  describe('calculateControlChart', () => {
+    // One value a day from 1 March 2024
+    const series = (values: number[]) =>
+      values.map((value, day) => ({
+        date: new Date(Date.UTC(2024, 2, 1 + day)),
+        value,
+      }));
+    const rulePoints = (values: number[], rule: WesternElectricRule) =>
+      service
+        .calculateControlChart(series(values))
+        .violations.filter((violation) => violation.rule === rule)
+        .map((violation) => violation.pointIndexes);
+
+    it('should compute the XmR centre lines and limits', () => {
+      const chart = service.calculateControlChart(series([10, 12, 11, 13, 12]));
+
+      // Mean 11.6, average moving range (2 + 1 + 2 + 1) / 4 = 1.5
+      expect(chart.centerLine).toBeCloseTo(11.6);
+      expect(chart.upperControlLimit).toBeCloseTo(11.6 + 2.66 * 1.5);
+      expect(chart.lowerControlLimit).toBeCloseTo(11.6 - 2.66 * 1.5);
+      expect(chart.sigma).toBeCloseTo(1.5 / 1.128);
+      expect(chart.movingRange.centerLine).toBeCloseTo(1.5);
+      expect(chart.movingRange.upperControlLimit).toBeCloseTo(3.267 * 1.5);
+      expect(chart.points.map((point) => point.movingRange)).toEqual([
+        null,
+        2,
+        1,
+        2,
+        1,
+      ]);
+      expect(chart.violations).toEqual([]);
+    });
+
+    it('should flag a point beyond the control limits', () => {
+      const chart = service.calculateControlChart(
+        series([10, 11, 10, 11, 10, 30]),
+      );
+
+      expect(chart.violations).toContainEqual({
+        rule: WesternElectricRule.BEYOND_LIMITS,
+        pointIndexes: [5],
+      });
+      expect(chart.points[5].violations).toContain(
+        WesternElectricRule.BEYOND_LIMITS,
+      );
+    });
+
+    it('should merge overlapping runs into one violation', () => {
+      expect(
+        rulePoints(
+          [1, 2, 1, 2, 1, 2, 5, 6, 5, 6, 5, 6, 5, 6],
+          WesternElectricRule.RUN_OF_EIGHT,
+        ),
+      ).toEqual([[6, 7, 8, 9, 10, 11, 12, 13]]);
+    });
+
+    it('should flag six points in a row moving in one direction', () => {
+      expect(
+        rulePoints([1, 2, 3, 4, 5, 6], WesternElectricRule.TREND_OF_SIX),
+      ).toEqual([[0, 1, 2, 3, 4, 5]]);
+      expect(
+        rulePoints([6, 5, 4, 3, 2, 1], WesternElectricRule.TREND_OF_SIX),
+      ).toEqual([[0, 1, 2, 3, 4, 5]]);
+    });
+
+    it('should tell the direction of the series from its regression', () => {
+      expect(service.calculateControlChart(series([1, 2, 3, 4])).trend).toBe(
+        'increasing',
+      );
+    });
+
+    it('should not flag a flat series', () => {
+      const chart = service.calculateControlChart(
+        series([4, 4, 4, 4, 4, 4, 4, 4]),
+      );
+
+      expect(chart.sigma).toBe(0);
+      expect(chart.violations).toEqual([]);
+      expect(chart.trend).toBe('stable');
+    });
+
+    it('should order the points by date', () => {
+      const [first, second] = series([1, 2]);
+
+      expect(
+        service
+          .calculateControlChart([second, first])
+          .points.map((point) => point.value),
+      ).toEqual([1, 2]);
+    });
+
+    it('should require two values', () => {
+      expect(() => service.calculateControlChart(series([1]))).toThrow(
+        'At least two values are required for a control chart',
+      );
+    });
+  });
+});
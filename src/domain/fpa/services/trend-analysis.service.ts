@@ -17,6 +17,73 @@ export interface TrendAnalysisResult {
   confidenceLevel: number;
 }
 
+export interface ProductivitySample {
+  estimateId: string;
+  countType: string;
+  technology: string;
+  actualEffortHours: number;
+  actualFunctionPoints: number;
+}
+
+export interface ProductivityStatistics {
+  sampleSize: number;
+  mean: number;
+  median: number;
+  standardDeviation: number;
+  minValue: number;
+  maxValue: number;
+  // 95% confidence interval of the mean (Student's t); null below two samples
+  confidenceInterval: { level: number; lower: number; upper: number } | null;
+}
+
+export interface ProductivityCalibrationGroup {
+  countType: string;
+  technology: string;
+  hoursPerFunctionPoint: ProductivityStatistics;
+}
+
+// Two-sided 95% Student's t critical values for 1 to 30 degrees of freedom
+const T_CRITICAL_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228, 2.201,
+  2.179, 2.16, 2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086, 2.08, 2.074,
+  2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+// XmR chart constants: 3 / d2 and D4 for moving ranges of two points
+const XMR_LIMIT_FACTOR = 2.66;
+const XMR_SIGMA_DIVISOR = 1.128;
+const MOVING_RANGE_LIMIT_FACTOR = 3.267;
+
+export enum WesternElectricRule {
+  BEYOND_LIMITS = 'BEYOND_LIMITS', // 1 point beyond 3 sigma
+  TWO_OF_THREE_BEYOND_2_SIGMA = 'TWO_OF_THREE_BEYOND_2_SIGMA',
+  FOUR_OF_FIVE_BEYOND_1_SIGMA = 'FOUR_OF_FIVE_BEYOND_1_SIGMA',
+  RUN_OF_EIGHT = 'RUN_OF_EIGHT', // 8 points in a row on one side of the centre line
+  TREND_OF_SIX = 'TREND_OF_SIX', // 6 points in a row increasing or decreasing
+}
+
+export interface ControlChartPoint extends TrendPoint {
+  movingRange: number | null; // none for the first point
+  violations: WesternElectricRule[];
+}
+
+export interface ControlRuleViolation {
+  rule: WesternElectricRule;
+  // The points forming the pattern; overlapping patterns are merged
+  pointIndexes: number[];
+}
+
+export interface ControlChart {
+  points: ControlChartPoint[];
+  centerLine: number;
+  upperControlLimit: number;
+  lowerControlLimit: number;
+  sigma: number;
+  movingRange: { centerLine: number; upperControlLimit: number };
+  violations: ControlRuleViolation[];
+  trend: TrendAnalysisResult['trend'];
+}
+
 export enum TrendMetric {
   UNADJUSTED_FP = 'unadjustedFunctionPoints',
   ADJUSTED_FP = 'adjustedFunctionPoints',
@@ -91,6 +158,120 @@ export class TrendAnalysisService {
     };
   }
 
+  /**
+   * Individuals and moving range (XmR) chart of a series, in date order,
+   * with the Western Electric rules it violates
+   */
+  calculateControlChart(data: TrendPoint[]): ControlChart {
+    if (!data || data.length < 2) {
+      throw new Error('At least two values are required for a control chart');
+    }
+
+    const sortedData = [...data].sort(
+      (a, b) => a.date.getTime() - b.date.getTime(),
+    );
+    const values = sortedData.map((point) => point.value);
+    const movingRanges = values
+      .slice(1)
+      .map((value, index) => Math.abs(value - values[index]));
+
+    const centerLine = this.calculateStatistics(values).mean;
+    const averageMovingRange = this.calculateStatistics(movingRanges).mean;
+    const sigma = averageMovingRange / XMR_SIGMA_DIVISOR;
+    const violations = this.detectRuleViolations(values, centerLine, sigma);
+    const { slope } = this.calculateLinearRegression(sortedData);
+
+    return {
+      points: sortedData.map((point, index) => ({
+        ...point,
+        movingRange: index > 0 ? movingRanges[index - 1] : null,
+        violations: violations
+          .filter((violation) => violation.pointIndexes.includes(index))
+          .map((violation) => violation.rule)
+          .filter((rule, position, rules) => rules.indexOf(rule) === position),
+      })),
+      centerLine,
+      upperControlLimit: centerLine + XMR_LIMIT_FACTOR * averageMovingRange,
+      lowerControlLimit: centerLine - XMR_LIMIT_FACTOR * averageMovingRange,
+      sigma,
+      movingRange: {
+        centerLine: averageMovingRange,
+        upperControlLimit: MOVING_RANGE_LIMIT_FACTOR * averageMovingRange,
+      },
+      violations,
+      trend:
+        slope > 0.05 ? 'increasing' : slope < -0.05 ? 'decreasing' : 'stable',
+    };
+  }
+
+  private detectRuleViolations(
+    values: number[],
+    centerLine: number,
+    sigma: number,
+  ): ControlRuleViolation[] {
+    const violations: ControlRuleViolation[] = [];
+    const record = (rule: WesternElectricRule, pointIndexes: number[]) => {
+      const previous = [...violations]
+        .reverse()
+        .find((violation) => violation.rule === rule);
+      if (
+        previous &&
+        pointIndexes.some((index) => previous.pointIndexes.includes(index))
+      ) {
+        previous.pointIndexes = [
+          ...new Set([...previous.pointIndexes, ...pointIndexes]),
+        ].sort((a, b) => a - b);
+      } else {
+        violations.push({ rule, pointIndexes });
+      }
+    };
+
+    // At least `count` of the last `length` points beyond `sigmas` on one side
+    const zoneRules: [WesternElectricRule, number, number, number][] = [
+      [WesternElectricRule.BEYOND_LIMITS, 1, 1, 3],
+      [WesternElectricRule.TWO_OF_THREE_BEYOND_2_SIGMA, 3, 2, 2],
+      [WesternElectricRule.FOUR_OF_FIVE_BEYOND_1_SIGMA, 5, 4, 1],
+      [WesternElectricRule.RUN_OF_EIGHT, 8, 8, 0],
+    ];
+
+    values.forEach((_, end) => {
+      for (const [rule, length, count, sigmas] of zoneRules) {
+        if (end < length - 1) {
+          continue;
+        }
+        const window = Array.from(
+          { length },
+          (__, offset) => end - length + 1 + offset,
+        );
+        for (const side of [1, -1]) {
+          const beyond = window.filter(
+            (index) =>
+              Math.sign(values[index] - centerLine) === side &&
+              Math.abs(values[index] - centerLine) > sigmas * sigma,
+          );
+          if (beyond.length >= count) {
+            record(rule, beyond);
+          }
+        }
+      }
+
+      if (end >= 5) {
+        const window = Array.from(
+          { length: 6 },
+          (__, offset) => end - 5 + offset,
+        );
+        const steps = window
+          .slice(1)
+          .map((index) => Math.sign(values[index] - values[index - 1]));
+        if (steps.every((step) => step === steps[0]) && steps[0] !== 0) {
+          record(WesternElectricRule.TREND_OF_SIX, window);
+        }
+      }
+    });
+
+    return violations;
+  }
+
   private calculateLinearRegression(data: TrendPoint[]): {
     slope: number;
     intercept: number;
@@ -221,4 +402,89 @@ export class TrendAnalysisService {
 
     return anomalies;
   }
+
+  /**
+   * Observed productivity (actual hours per delivered FP) grouped by count
+   * type and technology, with a 95% confidence interval for each group mean
+   */
+  calibrateProductivity(
+    samples: ProductivitySample[],
+  ): ProductivityCalibrationGroup[] {
+    const groups = new Map<string, ProductivitySample[]>();
+    samples
+      .filter((sample) => sample.actualFunctionPoints > 0)
+      .forEach((sample) => {
+        const key = `${sample.countType}|${sample.technology}`;
+        groups.set(key, [...(groups.get(key) || []), sample]);
+      });
+
+    return Array.from(groups.values())
+      .map((groupSamples) => ({
+        countType: groupSamples[0].countType,
+        technology: groupSamples[0].technology,
+        hoursPerFunctionPoint: this.calculateStatistics(
+          groupSamples.map(
+            (sample) => sample.actualEffortHours / sample.actualFunctionPoints,
+          ),
+        ),
+      }))
+      .sort(
+        (a, b) =>
+          a.countType.localeCompare(b.countType) ||
+          a.technology.localeCompare(b.technology),
+      );
+  }
+
+  calculateStatistics(values: number[]): ProductivityStatistics {
+    if (values.length === 0) {
+      throw new Error('At least one value is required for statistics');
+    }
+
+    const n = values.length;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mean = values.reduce((sum, val) => sum + val, 0) / n;
+    const median =
+      n % 2 === 1
+        ? sorted[(n - 1) / 2]
+        : (sorted[n / 2 - 1] + sorted[n / 2]) / 2;
+
+    // Sample standard deviation (n - 1)
+    const standardDeviation =
+      n > 1
+        ? Math.sqrt(
+            values.reduce((sum, val) => sum + (val - mean) ** 2, 0) / (n - 1),
+          )
+        : 0;
+
+    let confidenceInterval: ProductivityStatistics['confidenceInterval'] = null;
+    if (n > 1) {
+      const margin =
+        this.tCritical95(n - 1) * (standardDeviation / Math.sqrt(n));
+      confidenceInterval = {
+        level: 95,
+        lower: Math.max(0, mean - margin),
+        upper: mean + margin,
+      };
+    }
+
+    return {
+      sampleSize: n,
+      mean,
+      median,
+      standardDeviation,
+      minValue: sorted[0],
+      maxValue: sorted[n - 1],
+      confidenceInterval,
+    };
+  }
+
+  private tCritical95(degreesOfFreedom: number): number {
+    if (degreesOfFreedom <= T_CRITICAL_95.length) {
+      return T_CRITICAL_95[degreesOfFreedom - 1];
+    }
+    if (degreesOfFreedom <= 40) return 2.021;
+    if (degreesOfFreedom <= 60) return 2.0;
+    if (degreesOfFreedom <= 120) return 1.98;
+    return 1.96;
+  }
 }
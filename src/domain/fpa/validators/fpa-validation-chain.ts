@@ -11,6 +11,10 @@ import {
   ValidationResult,
 } from './validation-handler';
 import { ComplexityCalculator } from '@domain/fpa/services/complexity-calculator.service';
+import {
+  ElementDetailCounter,
+  ComponentElementDetail,
+} from '@domain/fpa/services/element-detail.service';
 
 /**
  * Concrete Handler 1: Component Type Validator
@@ -136,7 +140,102 @@ export class TRFTRValidator extends ValidationHandler {
 }
 
 /**
- * Concrete Handler 4: Complexity Calculator
+ * Concrete Handler 4: Element Detail Validator
+ * Checks the named DET/RET/FTR lists against the counts and the estimate
+ */
+export class ElementDetailValidator extends ValidationHandler {
+  protected validate(context: ValidationContext): void {
+    const type = context.componentType;
+    const isDataFunction = type === 'ALI' || type === 'AIE';
+    const dataElements = context.dataElements || [];
+    const recordElements = context.recordElements || [];
+    const referencedFiles = context.referencedFiles || [];
+
+    if (isDataFunction && referencedFiles.length > 0) {
+      this.addError(
+        context,
+        `${type} does not reference files; list its RETs instead`,
+      );
+    }
+    if (!isDataFunction && recordElements.length > 0) {
+      this.addError(
+        context,
+        `${type} has no RETs; list its referenced files instead`,
+      );
+    }
+
+    const duplicateDETs = ElementDetailCounter.duplicateNames(dataElements);
+    if (duplicateDETs.length > 0) {
+      this.addError(
+        context,
+        `DET names must be unique: ${duplicateDETs.join(', ')}`,
+      );
+    }
+
+    const duplicateRETs = ElementDetailCounter.duplicateNames(
+      recordElements.map((group) => group.name),
+    );
+    if (duplicateRETs.length > 0) {
+      this.addError(
+        context,
+        `RET names must be unique: ${duplicateRETs.join(', ')}`,
+      );
+    }
+    recordElements
+      .filter((group) => group.dataElements.length === 0)
+      .forEach((group) =>
+        this.addWarning(context, `RET "${group.name}" lists no DETs`),
+      );
+
+    if (context.availableFiles) {
+      const available = new Set(context.availableFiles);
+      const missing = referencedFiles.filter((id) => !available.has(id));
+      if (missing.length > 0) {
+        this.addError(
+          context,
+          `Referenced files are not ALI/AIE components of the estimate: ${missing.join(', ')}`,
+        );
+      }
+    }
+
+    // The lists, when given, must agree with the counts
+    const detail: ComponentElementDetail = {
+      dataElements,
+      recordElements,
+      referencedFiles,
+    };
+    const counts: [string, number | undefined, number | undefined][] = [
+      ['DET', ElementDetailCounter.countDataElements(detail), context.det],
+      [
+        'RET',
+        isDataFunction
+          ? ElementDetailCounter.countRecordElements(detail)
+          : undefined,
+        context.tr,
+      ],
+      [
+        'FTR',
+        isDataFunction
+          ? undefined
+          : ElementDetailCounter.countReferencedFiles(detail),
+        context.ftr,
+      ],
+    ];
+    counts.forEach(([label, listed, counted]) => {
+      if (listed !== undefined && listed !== counted) {
+        this.addError(
+          context,
+          `${label} count (${counted}) does not match the ${listed} listed ${label}s`,
+        );
+      }
+    });
+
+    this.setMetadata(context, 'elementDetailValidated', true);
+  }
+}
+
+/**
+ * Concrete Handler 5: Complexity Calculator
  * Calculates complexity based on DET and TR/FTR
  */
 export class ComplexityValidationHandler extends ValidationHandler {
@@ -203,7 +302,7 @@ export class ComplexityValidationHandler extends ValidationHandler {
 }
 
 /**
- * Concrete Handler 5: Function Points Validator
+ * Concrete Handler 6: Function Points Validator
  * Validates the calculated function points are reasonable
  */
 export class FunctionPointsValidator extends ValidationHandler {
@@ -248,7 +347,7 @@ export class FunctionPointsValidator extends ValidationHandler {
 }
 
 /**
- * Concrete Handler 6: Consistency Validator
+ * Concrete Handler 7: Consistency Validator
  * Performs cross-field consistency checks
  */
 export class ConsistencyValidator extends ValidationHandler {
@@ -258,6 +357,7 @@ export class ConsistencyValidator extends ValidationHandler {
       'componentTypeValidated',
       'detValidated',
       'trFtrValidated',
+      'elementDetailValidated',
       'complexityCalculated',
       'functionPointsValidated',
     ];
@@ -310,6 +410,7 @@ export class FPAComponentValidator {
     const componentTypeValidator = new ComponentTypeValidator();
     const detValidator = new DETValidator();
     const trFtrValidator = new TRFTRValidator();
+    const elementDetailValidator = new ElementDetailValidator();
     const complexityHandler = new ComplexityValidationHandler();
     const functionPointsValidator = new FunctionPointsValidator();
     const consistencyValidator = new ConsistencyValidator();
@@ -318,6 +419,7 @@ export class FPAComponentValidator {
     componentTypeValidator
       .setNext(detValidator)
       .setNext(trFtrValidator)
+      .setNext(elementDetailValidator)
       .setNext(complexityHandler)
       .setNext(functionPointsValidator)
       .setNext(consistencyValidator);
@@ -366,12 +468,16 @@ export class FPAComponentValidator {
   }
 
   /**
-   * Validate any FPA component with automatic type detection
+   * Validate any FPA component with automatic type detection.
+   * Named DET/RET/FTR lists, when given, must match the counts; referenced
+   * files are checked against availableFiles when it is given
    */
   async validateComponent(
     componentType: 'ALI' | 'AIE' | 'EI' | 'EO' | 'EQ',
     param1: number,
     param2: number,
+    detail?: ComponentElementDetail,
+    availableFiles?: string[],
   ): Promise<ValidationResult> {
     const isDataFunction = componentType === 'ALI' || componentType === 'AIE';
 
@@ -379,6 +485,8 @@ export class FPAComponentValidator {
       componentType,
       ...(isDataFunction ? { tr: param1 } : { ftr: param1 }),
       det: param2,
+      ...detail,
+      availableFiles,
       errors: [],
       warnings: [],
       metadata: {},
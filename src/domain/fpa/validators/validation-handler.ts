@@ -25,6 +25,10 @@ export interface ValidationContext {
   det?: number; // Data Element Types
   ftr?: number; // File Types Referenced (for transactional functions)
   tr?: number; // Record Element Types (for data functions)
+  dataElements?: string[]; // Named DETs
+  recordElements?: { name: string; dataElements: string[] }[]; // Named RETs
+  referencedFiles?: string[]; // Ids of the ALI/AIE referenced as FTRs
+  availableFiles?: string[]; // Ids of the ALI/AIE of the estimate
   complexity?: string;
   functionPoints?: number;
   errors: string[];
@@ -0,0 +1,136 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type CollectionTaskDocument = CollectionTask & Document;
+
+export enum CollectionTaskType {
+  MEASUREMENT = 'measurement',
+  ANALYSIS = 'analysis',
+}
+
+export enum CollectionTaskStatus {
+  PENDING = 'pending',
+  OVERDUE = 'overdue',
+  COMPLETED = 'completed',
+  CANCELLED = 'cancelled',
+}
+
+/**
+ * One occurrence of the schedule of a measurement (collecting its value)
+ * or of a metric (analysing it), due by the end of its period
+ */
+@Schema({ timestamps: true })
+export class CollectionTask {
+  @ApiProperty({ description: 'The unique identifier of the task' })
+  _id: Types.ObjectId;
+
+  @ApiProperty({ description: 'The ID of the organization' })
+  @Prop({ type: Types.ObjectId, ref: 'Organization', required: true })
+  organizationId: Types.ObjectId;
+
+  @ApiProperty({ description: 'The ID of the measurement plan' })
+  @Prop({ type: Types.ObjectId, ref: 'MeasurementPlan', required: true })
+  planId: Types.ObjectId;
+
+  @ApiProperty({ description: 'The ID of the metric in the plan' })
+  @Prop({ type: Types.ObjectId, required: true })
+  metricId: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'The ID of the measurement, for measurement tasks',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId })
+  measurementId?: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'Whether a value is collected or the metric analysed',
+    enum: CollectionTaskType,
+  })
+  @Prop({ type: String, enum: CollectionTaskType, required: true })
+  type: CollectionTaskType;
+
+  @ApiProperty({
+    description: 'The acronym of the measurement or mnemonic of the metric',
+  })
+  @Prop({ required: true })
+  label: string;
+
+  @ApiProperty({ description: 'The schedule the task was created from' })
+  @Prop({ required: true })
+  schedule: string;
+
+  @ApiProperty({
+    description: 'The person responsible for the measurement or analysis',
+    required: false,
+  })
+  @Prop()
+  assignee?: string;
+
+  @ApiProperty({ description: 'When the period of the task starts' })
+  @Prop({ required: true })
+  periodStart: Date;
+
+  @ApiProperty({ description: 'When the task is due' })
+  @Prop({ required: true })
+  dueAt: Date;
+
+  @ApiProperty({
+    description: 'The state of the task',
+    enum: CollectionTaskStatus,
+  })
+  @Prop({
+    type: String,
+    enum: CollectionTaskStatus,
+    default: CollectionTaskStatus.PENDING,
+  })
+  status: CollectionTaskStatus;
+
+  @ApiProperty({ description: 'When the task was completed', required: false })
+  @Prop()
+  completedAt?: Date;
+
+  @ApiProperty({
+    description: 'The ID of the user who completed the task',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  completedBy?: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'The ID of the measurement record that completed the task',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'MeasurementRecord' })
+  recordId?: Types.ObjectId;
+
+  @ApiProperty({ description: 'How many overdue reminders were sent' })
+  @Prop({ default: 0 })
+  remindersSent: number;
+
+  @ApiProperty({
+    description: 'When the last overdue reminder was sent',
+    required: false,
+  })
+  @Prop()
+  lastRemindedAt?: Date;
+
+  @ApiProperty({ description: 'The date when the task was created' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'The date when the task was last updated' })
+  updatedAt: Date;
+}
+
+export const CollectionTaskSchema =
+  SchemaFactory.createForClass(CollectionTask);
+
+CollectionTaskSchema.index({ organizationId: 1, status: 1, dueAt: 1 });
+CollectionTaskSchema.index({ planId: 1, status: 1, dueAt: 1 });
+CollectionTaskSchema.index({ planId: 1, measurementId: 1, status: 1 });
+// One task per period of each measurement and metric
+CollectionTaskSchema.index(
+  { planId: 1, type: 1, metricId: 1, measurementId: 1, periodStart: 1 },
+  { unique: true },
+);
@@ -39,7 +39,10 @@ export class Measurement {
   @Prop({ required: true, maxlength: 1000 })
   measurementProcedure: string;
 
-  @ApiProperty({ description: 'The frequency of measurement', maxLength: 50 })
+  @ApiProperty({
+    description: 'The schedule of measurement (see CollectionSchedule)',
+    maxLength: 50,
+  })
   @Prop({ required: true, maxlength: 50 })
   measurementFrequency: string;
 
@@ -91,7 +94,10 @@ export class Metric {
   @Prop({ required: true, maxlength: 1000 })
   analysisProcedure: string;
 
-  @ApiProperty({ description: 'The frequency of analysis', maxLength: 50 })
+  @ApiProperty({
+    description: 'The schedule of analysis (see CollectionSchedule)',
+    maxLength: 50,
+  })
   @Prop({ required: true, maxlength: 50 })
   analysisFrequency: string;
 
@@ -0,0 +1,73 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type MeasurementRecordDocument = MeasurementRecord & Document;
+
+// A value collected for one measurement of a plan metric
+@Schema({ timestamps: true })
+export class MeasurementRecord {
+  @ApiProperty({ description: 'The unique identifier of the record' })
+  _id: Types.ObjectId;
+
+  @ApiProperty({ description: 'The ID of the organization' })
+  @Prop({ type: Types.ObjectId, ref: 'Organization', required: true })
+  organizationId: Types.ObjectId;
+
+  @ApiProperty({ description: 'The ID of the measurement plan' })
+  @Prop({ type: Types.ObjectId, ref: 'MeasurementPlan', required: true })
+  planId: Types.ObjectId;
+
+  @ApiProperty({ description: 'The ID of the metric in the plan' })
+  @Prop({ type: Types.ObjectId, required: true })
+  metricId: Types.ObjectId;
+
+  @ApiProperty({ description: 'The ID of the measurement of the metric' })
+  @Prop({ type: Types.ObjectId, required: true })
+  measurementId: Types.ObjectId;
+
+  @ApiProperty({ description: 'The collected value' })
+  @Prop({ required: true })
+  value: number;
+
+  @ApiProperty({ description: 'When the value was collected' })
+  @Prop({ required: true })
+  collectedAt: Date;
+
+  @ApiProperty({ description: 'The ID of the user who collected the value' })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  collectedBy: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'Where the value comes from, e.g. manual, Jira or SonarQube',
+    maxLength: 100,
+  })
+  @Prop({ required: true, maxlength: 100, default: 'manual' })
+  source: string;
+
+  @ApiProperty({
+    description: 'A note about the collected value',
+    maxLength: 1000,
+    required: false,
+  })
+  @Prop({ maxlength: 1000 })
+  note?: string;
+
+  @ApiProperty({ description: 'The date when the record was created' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'The date when the record was last updated' })
+  updatedAt: Date;
+}
+
+export const MeasurementRecordSchema =
+  SchemaFactory.createForClass(MeasurementRecord);
+
+MeasurementRecordSchema.index({ planId: 1, collectedAt: -1 });
+MeasurementRecordSchema.index({ planId: 1, metricId: 1, collectedAt: -1 });
+MeasurementRecordSchema.index({
+  planId: 1,
+  measurementId: 1,
+  collectedAt: -1,
+});
+MeasurementRecordSchema.index({ organizationId: 1 });
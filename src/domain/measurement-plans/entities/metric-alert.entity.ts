@@ -0,0 +1,120 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type MetricAlertDocument = MetricAlert & Document;
+
+export enum MetricAlertStatus {
+  OPEN = 'open',
+  ACKNOWLEDGED = 'acknowledged',
+  RESOLVED = 'resolved',
+}
+
+export enum ControlRangeBreach {
+  BELOW = 'below',
+  ABOVE = 'above',
+}
+
+// Raised when the value of a metric falls outside its control range
+@Schema({ timestamps: true })
+export class MetricAlert {
+  @ApiProperty({ description: 'The unique identifier of the alert' })
+  _id: Types.ObjectId;
+
+  @ApiProperty({ description: 'The ID of the organization' })
+  @Prop({ type: Types.ObjectId, ref: 'Organization', required: true })
+  organizationId: Types.ObjectId;
+
+  @ApiProperty({ description: 'The ID of the measurement plan' })
+  @Prop({ type: Types.ObjectId, ref: 'MeasurementPlan', required: true })
+  planId: Types.ObjectId;
+
+  @ApiProperty({ description: 'The ID of the metric in the plan' })
+  @Prop({ type: Types.ObjectId, required: true })
+  metricId: Types.ObjectId;
+
+  @ApiProperty({ description: 'The mnemonic of the metric' })
+  @Prop({ required: true })
+  metricMnemonic: string;
+
+  @ApiProperty({ description: 'The last value detected outside the range' })
+  @Prop({ required: true })
+  value: number;
+
+  @ApiProperty({ description: 'The control range of the metric [min, max]' })
+  @Prop({ type: [Number], required: true })
+  controlRange: [number, number];
+
+  @ApiProperty({
+    description: 'Which side of the range the value is on',
+    enum: ControlRangeBreach,
+  })
+  @Prop({ type: String, enum: ControlRangeBreach, required: true })
+  breach: ControlRangeBreach;
+
+  @ApiProperty({
+    description: 'The state of the alert',
+    enum: MetricAlertStatus,
+  })
+  @Prop({
+    type: String,
+    enum: MetricAlertStatus,
+    default: MetricAlertStatus.OPEN,
+  })
+  status: MetricAlertStatus;
+
+  @ApiProperty({ description: 'When the value was last detected' })
+  @Prop({ required: true })
+  detectedAt: Date;
+
+  @ApiProperty({
+    description: 'The e-mail addresses the alert was sent to',
+    type: [String],
+  })
+  @Prop({ type: [String], default: [] })
+  notifiedRecipients: string[];
+
+  @ApiProperty({
+    description: 'The ID of the user who acknowledged the alert',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  acknowledgedBy?: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'When the alert was acknowledged',
+    required: false,
+  })
+  @Prop()
+  acknowledgedAt?: Date;
+
+  @ApiProperty({
+    description: 'The ID of the user who resolved the alert',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  resolvedBy?: Types.ObjectId;
+
+  @ApiProperty({ description: 'When the alert was resolved', required: false })
+  @Prop()
+  resolvedAt?: Date;
+
+  @ApiProperty({
+    description: 'How the deviation was handled',
+    maxLength: 1000,
+    required: false,
+  })
+  @Prop({ maxlength: 1000 })
+  resolutionNote?: string;
+
+  @ApiProperty({ description: 'The date when the alert was created' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'The date when the alert was last updated' })
+  updatedAt: Date;
+}
+
+export const MetricAlertSchema = SchemaFactory.createForClass(MetricAlert);
+
+MetricAlertSchema.index({ organizationId: 1, status: 1, createdAt: -1 });
+MetricAlertSchema.index({ planId: 1, metricId: 1, status: 1 });
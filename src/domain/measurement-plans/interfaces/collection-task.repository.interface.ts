@@ -0,0 +1,51 @@
+import {
+  CollectionTask,
+  CollectionTaskStatus,
+  CollectionTaskType,
+} from '@domain/measurement-plans/entities/collection-task.entity';
+
+export const COLLECTION_TASK_REPOSITORY = 'COLLECTION_TASK_REPOSITORY';
+
+export interface CollectionTaskFilters {
+  status?: CollectionTaskStatus;
+  type?: CollectionTaskType;
+  planId?: string;
+}
+
+export interface ICollectionTaskRepository {
+  create(task: Partial<CollectionTask>): Promise<CollectionTask>;
+  // Creates the task of the period unless it exists, returning either
+  upsertForPeriod(task: Partial<CollectionTask>): Promise<CollectionTask>;
+  findById(id: string): Promise<CollectionTask | null>;
+  // The task created last for the measurement or, for analysis, the metric
+  findLatest(
+    planId: string,
+    type: CollectionTaskType,
+    elementId: string,
+  ): Promise<CollectionTask | null>;
+  // Pending and overdue tasks, earliest due first
+  findOpenByPlan(planId: string): Promise<CollectionTask[]>;
+  findOpenByMeasurement(
+    planId: string,
+    measurementId: string,
+  ): Promise<CollectionTask[]>;
+  // Earliest due first
+  findWithPagination(
+    organizationId: string,
+    page: number,
+    limit: number,
+    filters?: CollectionTaskFilters,
+  ): Promise<{
+    data: CollectionTask[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }>;
+  update(
+    id: string,
+    task: Partial<CollectionTask>,
+  ): Promise<CollectionTask | null>;
+  // Cancel the open tasks of every plan but these, returning how many
+  cancelOpenExceptPlans(planIds: string[]): Promise<number>;
+}
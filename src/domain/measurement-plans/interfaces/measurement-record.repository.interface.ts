@@ -0,0 +1,58 @@
+import { MeasurementRecord } from '@domain/measurement-plans/entities/measurement-record.entity';
+
+export const MEASUREMENT_RECORD_REPOSITORY = 'MEASUREMENT_RECORD_REPOSITORY';
+
+// How the values of a measurement collected in a period are combined
+export enum ValueAggregation {
+  LATEST = 'latest',
+  SUM = 'sum',
+  AVERAGE = 'average',
+  MIN = 'min',
+  MAX = 'max',
+}
+
+export interface MeasurementRecordFilters {
+  metricId?: string;
+  measurementId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface IMeasurementRecordRepository {
+  create(record: Partial<MeasurementRecord>): Promise<MeasurementRecord>;
+  createMany(
+    records: Partial<MeasurementRecord>[],
+  ): Promise<MeasurementRecord[]>;
+  findById(id: string): Promise<MeasurementRecord | null>;
+  // Most recently collected first
+  findWithPagination(
+    planId: string,
+    page: number,
+    limit: number,
+    filters?: MeasurementRecordFilters,
+  ): Promise<{
+    data: MeasurementRecord[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }>;
+  // Values of the measurements of the metric, in collection order
+  findByMetric(
+    planId: string,
+    metricId: string,
+    period?: { from?: Date; to?: Date },
+  ): Promise<MeasurementRecord[]>;
+  // The aggregated value of each measurement of the metric, by measurement ID
+  aggregateByMeasurement(
+    planId: string,
+    metricId: string,
+    aggregation: ValueAggregation,
+    period?: { from?: Date; to?: Date },
+  ): Promise<Record<string, number>>;
+  update(
+    id: string,
+    record: Partial<MeasurementRecord>,
+  ): Promise<MeasurementRecord | null>;
+  delete(id: string): Promise<boolean>;
+}
@@ -0,0 +1,36 @@
+import {
+  MetricAlert,
+  MetricAlertStatus,
+} from '@domain/measurement-plans/entities/metric-alert.entity';
+
+export const METRIC_ALERT_REPOSITORY = 'METRIC_ALERT_REPOSITORY';
+
+export interface MetricAlertFilters {
+  status?: MetricAlertStatus;
+  planId?: string;
+  metricId?: string;
+}
+
+export interface IMetricAlertRepository {
+  create(alert: Partial<MetricAlert>): Promise<MetricAlert>;
+  findById(id: string): Promise<MetricAlert | null>;
+  // The open or acknowledged alert of the metric, if any
+  findUnresolvedByMetric(
+    planId: string,
+    metricId: string,
+  ): Promise<MetricAlert | null>;
+  // Most recent first
+  findWithPagination(
+    organizationId: string,
+    page: number,
+    limit: number,
+    filters?: MetricAlertFilters,
+  ): Promise<{
+    data: MetricAlert[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }>;
+  update(id: string, alert: Partial<MetricAlert>): Promise<MetricAlert | null>;
+}
@@ -0,0 +1,131 @@
+import {
+  CollectionSchedule,
+  ScheduleError,
+  ScheduleUnit,
+} from './collection-schedule.service';
+
+describe('CollectionSchedule', () => {
+  const at = (iso: string) => new Date(iso);
+
+  describe('parse', () => {
+    it('should parse named intervals, ignoring case', () => {
+      expect(CollectionSchedule.parse('Weekly')).toEqual({
+        kind: 'interval',
+        unit: ScheduleUnit.WEEK,
+        every: 1,
+      });
+      expect(CollectionSchedule.parse(' quarterly ')).toEqual({
+        kind: 'interval',
+        unit: ScheduleUnit.MONTH,
+        every: 3,
+      });
+    });
+
+    it('should parse intervals of several units', () => {
+      expect(CollectionSchedule.parse('every 3 days')).toEqual({
+        kind: 'interval',
+        unit: ScheduleUnit.DAY,
+        every: 3,
+      });
+      expect(CollectionSchedule.parse('every 1 month')).toEqual({
+        kind: 'interval',
+        unit: ScheduleUnit.MONTH,
+        every: 1,
+      });
+    });
+
+    it('should parse sprints as intervals of days', () => {
+      expect(CollectionSchedule.parse('sprint')).toEqual({
+        kind: 'interval',
+        unit: ScheduleUnit.DAY,
+        every: 14,
+      });
+      expect(CollectionSchedule.parse('sprint:21')).toEqual({
+        kind: 'interval',
+        unit: ScheduleUnit.DAY,
+        every: 21,
+      });
+    });
+
+    it('should parse lists, ranges and steps of cron fields', () => {
+      expect(CollectionSchedule.parse('*/20 9-17/4 1,15 * 7')).toEqual({
+        kind: 'cron',
+        minutes: [0, 20, 40],
+        hours: [9, 13, 17],
+        daysOfMonth: [1, 15],
+        months: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12],
+        daysOfWeek: [0],
+        anyDayOfMonth: false,
+        anyDayOfWeek: false,
+      });
+    });
+
+    it.each([
+      ['free text', 'When the build finishes'],
+      ['an empty interval', 'every 0 days'],
+      ['a minute out of range', '60 * * * *'],
+      ['a reversed range', '0 0 * * 5-1'],
+      ['a day that never comes round', '0 0 30 2 *'],
+    ])('should reject %s', (_, expression) => {
+      expect(() => CollectionSchedule.parse(expression)).toThrow(ScheduleError);
+    });
+  });
+
+  describe('validate', () => {
+    it('should return the problem with an invalid expression', () => {
+      expect(CollectionSchedule.validate('daily')).toBeNull();
+      expect(CollectionSchedule.validate('0 25 * * *')).toBe(
+        'Invalid cron hour: "25" (allowed 0-23)',
+      );
+    });
+  });
+
+  describe('next', () => {
+    it('should add the interval', () => {
+      const after = at('2024-03-01T10:30:00Z');
+
+      expect(
+        CollectionSchedule.next(CollectionSchedule.parse('daily'), after),
+      ).toEqual(at('2024-03-02T10:30:00Z'));
+      expect(
+        CollectionSchedule.next(CollectionSchedule.parse('biweekly'), after),
+      ).toEqual(at('2024-03-15T10:30:00Z'));
+    });
+
+    it('should keep the day of the month, or the last day of shorter months', () => {
+      const monthly = CollectionSchedule.parse('monthly');
+
+      expect(
+        CollectionSchedule.next(monthly, at('2024-01-31T00:00:00Z')),
+      ).toEqual(at('2024-02-29T00:00:00Z'));
+      expect(
+        CollectionSchedule.next(monthly, at('2024-12-15T00:00:00Z')),
+      ).toEqual(at('2025-01-15T00:00:00Z'));
+    });
+
+    it('should find the next time matching a cron expression', () => {
+      const mondays = CollectionSchedule.parse('0 9 * * 1');
+
+      // Friday
+      expect(
+        CollectionSchedule.next(mondays, at('2024-03-01T12:00:00Z')),
+      ).toEqual(at('2024-03-04T09:00:00Z'));
+      // Monday 09:00 itself is not after 09:00
+      expect(
+        CollectionSchedule.next(mondays, at('2024-03-04T09:00:00Z')),
+      ).toEqual(at('2024-03-11T09:00:00Z'));
+    });
+
+    it('should match either day field when both are restricted', () => {
+      const schedule = CollectionSchedule.parse('30 8 15 * 5');
+
+      // Friday 8 March comes before the 15th
+      expect(
+        CollectionSchedule.next(schedule, at('2024-03-05T00:00:00Z')),
+      ).toEqual(at('2024-03-08T08:30:00Z'));
+      expect(
+        CollectionSchedule.next(schedule, at('2024-03-13T00:00:00Z')),
+      ).toEqual(at('2024-03-15T08:30:00Z'));
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import { DomainException } from '@shared/exceptions/domain.exception';
+
+export enum ScheduleUnit {
+  DAY = 'day',
+  WEEK = 'week',
+  MONTH = 'month',
+}
+
+export type Schedule =
+  | { kind: 'interval'; unit: ScheduleUnit; every: number }
+  | {
+      kind: 'cron';
+      minutes: number[];
+      hours: number[];
+      daysOfMonth: number[];
+      months: number[];
+      daysOfWeek: number[];
+      // An unrestricted day field leaves the choice of day to the other one
+      anyDayOfMonth: boolean;
+      anyDayOfWeek: boolean;
+    };
+
+const NAMED_INTERVALS: Record<string, { unit: ScheduleUnit; every: number }> = {
+  daily: { unit: ScheduleUnit.DAY, every: 1 },
+  weekly: { unit: ScheduleUnit.WEEK, every: 1 },
+  biweekly: { unit: ScheduleUnit.WEEK, every: 2 },
+  monthly: { unit: ScheduleUnit.MONTH, every: 1 },
+  quarterly: { unit: ScheduleUnit.MONTH, every: 3 },
+};
+const EVERY_PATTERN = /^every (\d+) (day|week|month)s?$/;
+const SPRINT_PATTERN = /^sprint(?::(\d+))?$/;
+const DEFAULT_SPRINT_DAYS = 14;
+const MAX_EVERY = 366;
+
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+const CRON_PART_PATTERN = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Every day of the month and week comes round within 8 years, 29 February included
+const MAX_CRON_DAYS = 8 * 366;
+
+export class ScheduleError extends DomainException {
+  constructor(message: string) {
+    super(message, 'INVALID_SCHEDULE');
+  }
+}
+
+/**
+ * Collection and analysis schedules of measurement plans. A schedule is
+ * `daily`, `weekly`, `biweekly`, `monthly`, `quarterly`, `every N days`,
+ * `every N weeks`, `every N months`, `sprint` (every 14 days) or
+ * `sprint:N` (sprints of N days), or a cron expression with the five
+ * fields minute, hour, day of month, month and day of week (e.g.
+ * `0 9 * * 1` for Mondays at 09:00). Case is ignored and times are UTC.
+ */
+export class CollectionSchedule {
+  /**
+   * @throws ScheduleError if the expression is none of the above
+   */
+  static parse(expression: string): Schedule {
+    const normalized = expression.trim().toLowerCase().replace(/\s+/g, ' ');
+
+    const named = NAMED_INTERVALS[normalized];
+    if (named) {
+      return { kind: 'interval', ...named };
+    }
+    const every = EVERY_PATTERN.exec(normalized);
+    if (every) {
+      return {
+        kind: 'interval',
+        unit: every[2] as ScheduleUnit,
+        every: CollectionSchedule.parseCount(every[1]),
+      };
+    }
+    const sprint = SPRINT_PATTERN.exec(normalized);
+    if (sprint) {
+      return {
+        kind: 'interval',
+        unit: ScheduleUnit.DAY,
+        every: sprint[1]
+          ? CollectionSchedule.parseCount(sprint[1])
+          : DEFAULT_SPRINT_DAYS,
+      };
+    }
+
+    const fields = normalized.split(' ');
+    if (fields.length !== CRON_FIELDS.length) {
+      throw new ScheduleError(
+        `Unknown schedule "${expression}": use daily, weekly, biweekly, monthly, quarterly, every N days/weeks/months, sprint, sprint:N or a cron expression`,
+      );
+    }
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+      (field, index) => CollectionSchedule.parseCronField(field, index),
+    );
+    const schedule: Schedule = {
+      kind: 'cron',
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      // Sunday is both 0 and 7
+      daysOfWeek: [...new Set(daysOfWeek.map((day) => day % 7))].sort(
+        (a, b) => a - b,
+      ),
+      anyDayOfMonth: fields[2] === '*',
+      anyDayOfWeek: fields[4] === '*',
+    };
+    // Rejects days that do not exist, such as 30 February
+    CollectionSchedule.next(schedule, new Date(0));
+    return schedule;
+  }
+
+  // The problem with the expression, or null if it is a valid schedule
+  static validate(expression: string): string | null {
+    try {
+      CollectionSchedule.parse(expression);
+      return null;
+    } catch (error) {
+      if (error instanceof ScheduleError) {
+        return error.message;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The first time after the given one that is due: an interval later, or
+   * the next time matching the cron expression. Adding months keeps the
+   * day of the month, or the last day of shorter months
+   */
+  static next(schedule: Schedule, after: Date): Date {
+    if (schedule.kind === 'interval') {
+      const next = new Date(after.getTime());
+      switch (schedule.unit) {
+        case ScheduleUnit.DAY:
+          next.setUTCDate(next.getUTCDate() + schedule.every);
+          break;
+        case ScheduleUnit.WEEK:
+          next.setUTCDate(next.getUTCDate() + 7 * schedule.every);
+          break;
+        case ScheduleUnit.MONTH: {
+          const day = next.getUTCDate();
+          next.setUTCDate(1);
+          next.setUTCMonth(next.getUTCMonth() + schedule.every);
+          const lastDay = new Date(
+            Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0),
+          ).getUTCDate();
+          next.setUTCDate(Math.min(day, lastDay));
+          break;
+        }
+      }
+      return next;
+    }
+
+    // Cron times are whole minutes, strictly after the given time
+    const earliest = Math.floor(after.getTime() / 60000) * 60000 + 60000;
+    const firstDay = earliest - (earliest % DAY_MS);
+    for (let day = 0; day < MAX_CRON_DAYS; day++) {
+      const date = new Date(firstDay + day * DAY_MS);
+      if (!CollectionSchedule.matchesDay(schedule, date)) {
+        continue;
+      }
+      for (const hour of schedule.hours) {
+        for (const minute of schedule.minutes) {
+          const time = date.getTime() + (hour * 60 + minute) * 60000;
+          if (time >= earliest) {
+            return new Date(time);
+          }
+        }
+      }
+    }
+    throw new ScheduleError('The cron expression never comes round');
+  }
+
+  private static matchesDay(
+    schedule: Extract<Schedule, { kind: 'cron' }>,
+    date: Date,
+  ): boolean {
+    if (!schedule.months.includes(date.getUTCMonth() + 1)) {
+      return false;
+    }
+    const dayOfMonth = schedule.daysOfMonth.includes(date.getUTCDate());
+    const dayOfWeek = schedule.daysOfWeek.includes(date.getUTCDay());
+    // As in cron, restricting both day fields matches days in either
+    if (schedule.anyDayOfMonth) {
+      return dayOfWeek;
+    }
+    if (schedule.anyDayOfWeek) {
+      return dayOfMonth;
+    }
+    return dayOfMonth || dayOfWeek;
+  }
+
+  private static parseCount(text: string): number {
+    const count = Number(text);
+    if (count < 1 || count > MAX_EVERY) {
+      throw new ScheduleError(
+        `The number of days, weeks or months must be between 1 and ${MAX_EVERY}`,
+      );
+    }
+    return count;
+  }
+
+  // Comma-separated values, ranges (1-5) and steps (*/15, 1-31/2) of a field
+  private static parseCronField(text: string, index: number): number[] {
+    const { name, min, max } = CRON_FIELDS[index];
+    const values = new Set<number>();
+    for (const part of text.split(',')) {
+      const match = CRON_PART_PATTERN.exec(part);
+      if (!match) {
+        throw new ScheduleError(`Invalid cron ${name}: "${part}"`);
+      }
+      const start = match[2] !== undefined ? Number(match[2]) : min;
+      const end =
+        match[3] !== undefined
+          ? Number(match[3])
+          : match[2] !== undefined && match[4] === undefined
+            ? start
+            : max;
+      const step = match[4] !== undefined ? Number(match[4]) : 1;
+      if (start < min || end > max || start > end || step < 1) {
+        throw new ScheduleError(
+          `Invalid cron ${name}: "${part}" (allowed ${min}-${max})`,
+        );
+      }
+      for (let value = start; value <= end; value += step) {
+        values.add(value);
+      }
+    }
+    return [...values].sort((a, b) => a - b);
+  }
+}
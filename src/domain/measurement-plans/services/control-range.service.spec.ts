@@ -0,0 +1,26 @@
+import { ControlRangeBreach } from '@domain/measurement-plans/entities/metric-alert.entity';
+import { ControlRange } from './control-range.service';
+
+describe('ControlRange', () => {
+  describe('breach', () => {
+    it('should accept values within the range, limits included', () => {
+      expect(ControlRange.breach(80, [80, 100])).toBeNull();
+      expect(ControlRange.breach(90, [80, 100])).toBeNull();
+      expect(ControlRange.breach(100, [80, 100])).toBeNull();
+    });
+
+    it('should tell which side of the range a value is on', () => {
+      expect(ControlRange.breach(79.9, [80, 100])).toBe(
+        ControlRangeBreach.BELOW,
+      );
+      expect(ControlRange.breach(101, [80, 100])).toBe(
+        ControlRangeBreach.ABOVE,
+      );
+    });
+
+    it('should accept a range given from max to min', () => {
+      expect(ControlRange.breach(90, [100, 80])).toBeNull();
+      expect(ControlRange.breach(70, [100, 80])).toBe(ControlRangeBreach.BELOW);
+    });
+  });
+});
@@ -0,0 +1,21 @@
+import { ControlRangeBreach } from '@domain/measurement-plans/entities/metric-alert.entity';
+
+/**
+ * Checks metric values against the control range `[min, max]` of the
+ * metric. The limits are inclusive and may be given in either order.
+ */
+export class ControlRange {
+  static breach(
+    value: number,
+    range: [number, number],
+  ): ControlRangeBreach | null {
+    const [min, max] = [Math.min(...range), Math.max(...range)];
+    if (value < min) {
+      return ControlRangeBreach.BELOW;
+    }
+    if (value > max) {
+      return ControlRangeBreach.ABOVE;
+    }
+    return null;
+  }
+}
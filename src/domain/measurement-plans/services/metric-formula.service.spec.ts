@@ -0,0 +1,109 @@
+import { MetricFormula, FormulaError } from './metric-formula.service';
+
+describe('MetricFormula', () => {
+  describe('evaluate', () => {
+    it('should evaluate a formula with measurement acronyms', () => {
+      expect(
+        MetricFormula.evaluate('(DEF / LOC) * 1000', { DEF: 12, LOC: 4000 }),
+      ).toBe(3);
+    });
+
+    it('should apply the usual operator precedence', () => {
+      expect(MetricFormula.evaluate('2 + 3 * 4 - 6 / 2', {})).toBe(11);
+      expect(MetricFormula.evaluate('2 * (3 + 4)', {})).toBe(14);
+    });
+
+    it('should raise to powers right to left, before signs', () => {
+      expect(MetricFormula.evaluate('2 ^ 3 ^ 2', {})).toBe(512);
+      expect(MetricFormula.evaluate('-2 ^ 2', {})).toBe(-4);
+      expect(MetricFormula.evaluate('2 ^ -1', {})).toBe(0.5);
+    });
+
+    it('should accept signs and decimals', () => {
+      expect(MetricFormula.evaluate('-A + +.5 - -1.5', { A: 1 })).toBe(1);
+    });
+
+    it('should reject a division by zero', () => {
+      expect(() => MetricFormula.evaluate('TC / TT', { TC: 3, TT: 0 })).toThrow(
+        new FormulaError('Division by zero'),
+      );
+    });
+
+    it('should reject a variable without value', () => {
+      expect(() => MetricFormula.evaluate('TC / TT', { TC: 3 })).toThrow(
+        'No value for "TT"',
+      );
+    });
+
+    it('should reject results that are not finite', () => {
+      expect(() => MetricFormula.evaluate('10 ^ 400', {})).toThrow(
+        FormulaError,
+      );
+    });
+
+    it('should not run code in the formula', () => {
+      expect(() =>
+        MetricFormula.evaluate('process.exit(1)', { process: 1 }),
+      ).toThrow('Unexpected character "." at position 8');
+    });
+  });
+
+  describe('parse', () => {
+    it.each([
+      ['', 'The formula is empty'],
+      ['A +', 'Unexpected end of formula'],
+      ['(A + B', 'Missing closing parenthesis'],
+      ['A + B)', 'Unexpected ")" at position 6'],
+      ['A B', 'Unexpected "B" at position 3'],
+      ['A % B', 'Unexpected character "%" at position 3'],
+      ['2(A)', 'Unexpected "(" at position 2'],
+    ])('should reject %p', (formula, message) => {
+      expect(() => MetricFormula.parse(formula)).toThrow(message);
+    });
+
+    it('should report the position of the syntax error', () => {
+      let error: unknown;
+      try {
+        MetricFormula.parse('A * * B');
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(error).toBeInstanceOf(FormulaError);
+      expect((error as FormulaError).details).toEqual({ position: 4 });
+    });
+
+    it('should reject formulas nested too deeply', () => {
+      expect(() =>
+        MetricFormula.parse(`${'('.repeat(100)}1${')'.repeat(100)}`),
+      ).toThrow('nested deeper');
+    });
+  });
+
+  describe('variables', () => {
+    it('should list each variable once, in order of appearance', () => {
+      expect(MetricFormula.variables('(B + A) / B * 100')).toEqual(['B', 'A']);
+    });
+  });
+
+  describe('validate', () => {
+    it('should accept a formula using the metric acronyms', () => {
+      expect(MetricFormula.validate('TC / TT * 100', ['TC', 'TT'])).toEqual([]);
+    });
+
+    it('should list every unknown acronym', () => {
+      expect(
+        MetricFormula.validate('covered / total * 100', ['TC', 'TT']),
+      ).toEqual([
+        'Unknown measurement acronym "covered"',
+        'Unknown measurement acronym "total"',
+      ]);
+    });
+
+    it('should report the syntax error', () => {
+      expect(MetricFormula.validate('TC / (TT', ['TC', 'TT'])).toEqual([
+        'Missing closing parenthesis',
+      ]);
+    });
+  });
+});
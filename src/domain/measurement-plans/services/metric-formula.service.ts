@@ -0,0 +1,329 @@
+import { DomainException } from '@shared/exceptions/domain.exception';
+
+export type FormulaOperator = '+' | '-' | '*' | '/' | '^';
+
+export type FormulaNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable'; name: string }
+  | { kind: 'negation'; operand: FormulaNode }
+  | {
+      kind: 'operation';
+      operator: FormulaOperator;
+      left: FormulaNode;
+      right: FormulaNode;
+    };
+
+type Token =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'variable'; name: string; position: number }
+  | { kind: 'symbol'; symbol: string; position: number }
+  | { kind: 'end'; position: number };
+
+const NUMBER_PATTERN = /^(\d+(\.\d*)?|\.\d+)/;
+const VARIABLE_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*/;
+const SYMBOLS = ['+', '-', '*', '/', '^', '(', ')'];
+// Deepest nesting of parentheses and signs, so a formula cannot exhaust the stack
+const MAX_DEPTH = 50;
+
+export class FormulaError extends DomainException {
+  constructor(message: string, position?: number) {
+    super(
+      message,
+      'INVALID_FORMULA',
+      position !== undefined ? { position } : undefined,
+    );
+  }
+}
+
+/**
+ * Parses and evaluates metric formulas such as `(DEF / LOC) * 1000`, where
+ * the variables are the acronyms of the measurements of the metric. Only
+ * numbers, variables, parentheses and the + - * / ^ operators are allowed;
+ * nothing in a formula is executed as code.
+ */
+export class MetricFormula {
+  /**
+   * @throws FormulaError at the position of the first syntax error
+   */
+  static parse(formula: string): FormulaNode {
+    return new FormulaParser(formula).parse();
+  }
+
+  // Variables of the formula, once each, in the order they appear
+  static variables(formula: string): string[] {
+    const names: string[] = [];
+    const collect = (node: FormulaNode): void => {
+      if (node.kind === 'variable' && !names.includes(node.name)) {
+        names.push(node.name);
+      } else if (node.kind === 'negation') {
+        collect(node.operand);
+      } else if (node.kind === 'operation') {
+        collect(node.left);
+        collect(node.right);
+      }
+    };
+    collect(MetricFormula.parse(formula));
+    return names;
+  }
+
+  /**
+   * Problems that keep the formula from being evaluated with the given
+   * measurement acronyms: the syntax error, or every unknown acronym
+   */
+  static validate(formula: string, acronyms: string[]): string[] {
+    let variables: string[];
+    try {
+      variables = MetricFormula.variables(formula);
+    } catch (error) {
+      if (error instanceof FormulaError) {
+        return [error.message];
+      }
+      throw error;
+    }
+
+    return variables
+      .filter((name) => !acronyms.includes(name))
+      .map((name) => `Unknown measurement acronym "${name}"`);
+  }
+
+  /**
+   * @throws FormulaError if the formula is invalid, a variable has no value
+   * or the result is not a finite number (e.g. a division by zero)
+   */
+  static evaluate(formula: string, values: Record<string, number>): number {
+    return MetricFormula.evaluateNode(MetricFormula.parse(formula), values);
+  }
+
+  private static evaluateNode(
+    node: FormulaNode,
+    values: Record<string, number>,
+  ): number {
+    switch (node.kind) {
+      case 'number':
+        return node.value;
+      case 'variable': {
+        const value = values[node.name];
+        if (value === undefined) {
+          throw new FormulaError(`No value for "${node.name}"`);
+        }
+        return value;
+      }
+      case 'negation':
+        return -MetricFormula.evaluateNode(node.operand, values);
+      case 'operation': {
+        const left = MetricFormula.evaluateNode(node.left, values);
+        const right = MetricFormula.evaluateNode(node.right, values);
+        if (node.operator === '/' && right === 0) {
+          throw new FormulaError('Division by zero');
+        }
+        const result = MetricFormula.apply(node.operator, left, right);
+        if (!Number.isFinite(result)) {
+          throw new FormulaError(
+            `${left} ${node.operator} ${right} is not a finite number`,
+          );
+        }
+        return result;
+      }
+    }
+  }
+
+  private static apply(
+    operator: FormulaOperator,
+    left: number,
+    right: number,
+  ): number {
+    switch (operator) {
+      case '+':
+        return left + right;
+      case '-':
+        return left - right;
+      case '*':
+        return left * right;
+      case '/':
+        return left / right;
+      case '^':
+        return Math.pow(left, right);
+    }
+  }
+}
+
+/**
+ * Recursive descent parser of the grammar
+ *   expression := term (('+' | '-') term)*
+ *   term       := factor (('*' | '/') factor)*
+ *   factor     := ('+' | '-') factor | power
+ *   power      := primary ('^' factor)?
+ *   primary    := number | variable | '(' expression ')'
+ * so ^ is right associative and binds tighter than a sign: -2^2 is -4
+ */
+class FormulaParser {
+  private readonly tokens: Token[];
+  private index = 0;
+  private depth = 0;
+
+  constructor(private readonly formula: string) {
+    this.tokens = this.tokenize();
+  }
+
+  parse(): FormulaNode {
+    if (this.peek().kind === 'end') {
+      throw new FormulaError('The formula is empty', 0);
+    }
+    const node = this.expression();
+    const token = this.peek();
+    if (token.kind !== 'end') {
+      throw this.unexpected(token);
+    }
+    return node;
+  }
+
+  private expression(): FormulaNode {
+    let node = this.term();
+    while (this.isSymbol('+') || this.isSymbol('-')) {
+      const operator = this.symbol() as FormulaOperator;
+      node = { kind: 'operation', operator, left: node, right: this.term() };
+    }
+    return node;
+  }
+
+  private term(): FormulaNode {
+    let node = this.factor();
+    while (this.isSymbol('*') || this.isSymbol('/')) {
+      const operator = this.symbol() as FormulaOperator;
+      node = { kind: 'operation', operator, left: node, right: this.factor() };
+    }
+    return node;
+  }
+
+  private factor(): FormulaNode {
+    if (this.isSymbol('+') || this.isSymbol('-')) {
+      const sign = this.symbol();
+      const operand = this.nested(() => this.factor());
+      return sign === '-' ? { kind: 'negation', operand } : operand;
+    }
+    return this.power();
+  }
+
+  private power(): FormulaNode {
+    const base = this.primary();
+    if (!this.isSymbol('^')) {
+      return base;
+    }
+    this.symbol();
+    return {
+      kind: 'operation',
+      operator: '^',
+      left: base,
+      right: this.nested(() => this.factor()),
+    };
+  }
+
+  private primary(): FormulaNode {
+    const token = this.peek();
+    if (token.kind === 'number') {
+      this.index++;
+      return { kind: 'number', value: token.value };
+    }
+    if (token.kind === 'variable') {
+      this.index++;
+      return { kind: 'variable', name: token.name };
+    }
+    if (token.kind === 'symbol' && token.symbol === '(') {
+      this.index++;
+      const node = this.nested(() => this.expression());
+      const closing = this.peek();
+      if (closing.kind !== 'symbol' || closing.symbol !== ')') {
+        throw closing.kind === 'end'
+          ? new FormulaError('Missing closing parenthesis', closing.position)
+          : this.unexpected(closing);
+      }
+      this.index++;
+      return node;
+    }
+    throw this.unexpected(token);
+  }
+
+  private nested(parse: () => FormulaNode): FormulaNode {
+    if (++this.depth > MAX_DEPTH) {
+      throw new FormulaError(
+        `The formula is nested deeper than ${MAX_DEPTH} levels`,
+        this.peek().position,
+      );
+    }
+    const node = parse();
+    this.depth--;
+    return node;
+  }
+
+  private tokenize(): Token[] {
+    const tokens: Token[] = [];
+    let position = 0;
+
+    while (position < this.formula.length) {
+      const rest = this.formula.slice(position);
+      const whitespace = /^\s+/.exec(rest);
+      if (whitespace) {
+        position += whitespace[0].length;
+        continue;
+      }
+
+      const number = NUMBER_PATTERN.exec(rest);
+      if (number) {
+        tokens.push({ kind: 'number', value: Number(number[0]), position });
+        position += number[0].length;
+        continue;
+      }
+
+      const variable = VARIABLE_PATTERN.exec(rest);
+      if (variable) {
+        tokens.push({ kind: 'variable', name: variable[0], position });
+        position += variable[0].length;
+        continue;
+      }
+
+      if (SYMBOLS.includes(rest[0])) {
+        tokens.push({ kind: 'symbol', symbol: rest[0], position });
+        position++;
+        continue;
+      }
+
+      throw new FormulaError(
+        `Unexpected character "${rest[0]}" at position ${position + 1}`,
+        position,
+      );
+    }
+
+    tokens.push({ kind: 'end', position });
+    return tokens;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private isSymbol(symbol: string): boolean {
+    const token = this.peek();
+    return token.kind === 'symbol' && token.symbol === symbol;
+  }
+
+  private symbol(): string {
+    const token = this.tokens[this.index++];
+    return token.kind === 'symbol' ? token.symbol : '';
+  }
+
+  private unexpected(token: Token): FormulaError {
+    if (token.kind === 'end') {
+      return new FormulaError('Unexpected end of formula', token.position);
+    }
+    const text =
+      token.kind === 'number'
+        ? String(token.value)
+        : token.kind === 'variable'
+          ? token.name
+          : token.symbol;
+    return new FormulaError(
+      `Unexpected "${text}" at position ${token.position + 1}`,
+      token.position,
+    );
+  }
+}
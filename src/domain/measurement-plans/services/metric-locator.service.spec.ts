@@ -0,0 +1,78 @@
+import { Types } from 'mongoose';
+import {
+  MeasurementPlan,
+  Metric,
+} from '@domain/measurement-plans/entities/measurement-plan.entity';
+import { MetricLocator } from './metric-locator.service';
+
+describe('MetricLocator', () => {
+  const measurementId = new Types.ObjectId();
+  const coverage = {
+    _id: new Types.ObjectId(),
+    metricName: 'Coverage',
+    measurements: [{ _id: measurementId, measurementAcronym: 'LC' }],
+  } as unknown as Metric;
+  const defects = {
+    _id: new Types.ObjectId(),
+    metricName: 'Defect density',
+    measurements: [],
+  } as unknown as Metric;
+  const plan = {
+    objectives: [
+      {
+        _id: new Types.ObjectId(),
+        questions: [{ _id: new Types.ObjectId(), metrics: [coverage] }],
+      },
+      {
+        _id: new Types.ObjectId(),
+        questions: [
+          { _id: new Types.ObjectId(), metrics: [] },
+          { _id: new Types.ObjectId(), metrics: [defects] },
+        ],
+      },
+    ],
+  } as unknown as MeasurementPlan;
+
+  describe('all', () => {
+    it('should list the metrics of every question of every objective', () => {
+      expect(
+        MetricLocator.all(plan).map(({ metric }) => metric.metricName),
+      ).toEqual(['Coverage', 'Defect density']);
+    });
+
+    it('should list nothing for a plan without objectives', () => {
+      expect(MetricLocator.all({} as MeasurementPlan)).toEqual([]);
+    });
+  });
+
+  describe('find', () => {
+    it('should find a metric with its objective and question', () => {
+      const located = MetricLocator.find(plan, defects._id.toString());
+
+      expect(located?.metric).toBe(defects);
+      expect(located?.question).toBe(plan.objectives[1].questions[1]);
+      expect(located?.objective).toBe(plan.objectives[1]);
+    });
+
+    it('should return null for a metric outside the plan', () => {
+      expect(
+        MetricLocator.find(plan, new Types.ObjectId().toString()),
+      ).toBeNull();
+    });
+  });
+
+  describe('findMeasurement', () => {
+    it('should find a measurement of the metric', () => {
+      expect(
+        MetricLocator.findMeasurement(coverage, measurementId.toString())
+          ?.measurementAcronym,
+      ).toBe('LC');
+    });
+
+    it('should return null for a measurement of another metric', () => {
+      expect(
+        MetricLocator.findMeasurement(defects, measurementId.toString()),
+      ).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import {
+  MeasurementPlan,
+  Objective,
+  Question,
+  Metric,
+  Measurement,
+} from '@domain/measurement-plans/entities/measurement-plan.entity';
+
+export interface LocatedMetric {
+  objective: Objective;
+  question: Question;
+  metric: Metric;
+}
+
+/**
+ * Finds metrics and their measurements in the objective and question tree
+ * of a measurement plan, where data is collected and analysed by metric
+ */
+export class MetricLocator {
+  static all(plan: MeasurementPlan): LocatedMetric[] {
+    return (plan.objectives || []).flatMap((objective) =>
+      (objective.questions || []).flatMap((question) =>
+        (question.metrics || []).map((metric) => ({
+          objective,
+          question,
+          metric,
+        })),
+      ),
+    );
+  }
+
+  static find(plan: MeasurementPlan, metricId: string): LocatedMetric | null {
+    return (
+      MetricLocator.all(plan).find(
+        ({ metric }) => metric._id.toString() === metricId,
+      ) || null
+    );
+  }
+
+  static findMeasurement(
+    metric: Metric,
+    measurementId: string,
+  ): Measurement | null {
+    return (
+      (metric.measurements || []).find(
+        (measurement) => measurement._id.toString() === measurementId,
+      ) || null
+    );
+  }
+}
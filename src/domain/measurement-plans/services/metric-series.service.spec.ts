@@ -0,0 +1,62 @@
+import { Types } from 'mongoose';
+import { Metric } from '@domain/measurement-plans/entities/measurement-plan.entity';
+import { MetricSeries } from './metric-series.service';
+
+describe('MetricSeries', () => {
+  const defects = new Types.ObjectId();
+  const size = new Types.ObjectId();
+  const metric = {
+    metricFormula: 'DEF / LOC * 1000',
+    measurements: [
+      { _id: defects, measurementAcronym: 'DEF' },
+      { _id: size, measurementAcronym: 'LOC' },
+    ],
+  } as unknown as Metric;
+  const day = (date: number) => new Date(Date.UTC(2024, 2, date));
+
+  describe('build', () => {
+    it('should evaluate the formula at each collection time, in date order', () => {
+      const points = MetricSeries.build(metric, [
+        { measurementId: defects, value: 6, collectedAt: day(8) },
+        { measurementId: defects, value: 10, collectedAt: day(1) },
+        { measurementId: size, value: 2000, collectedAt: day(1) },
+        { measurementId: size, value: 3000, collectedAt: day(8) },
+      ]);
+
+      expect(points).toEqual([
+        { date: day(1), value: 5 },
+        { date: day(8), value: 2 },
+      ]);
+    });
+
+    it('should carry the latest value of measurements not collected again', () => {
+      const points = MetricSeries.build(metric, [
+        { measurementId: size, value: 2000, collectedAt: day(1) },
+        { measurementId: defects, value: 4, collectedAt: day(2) },
+        { measurementId: defects, value: 8, collectedAt: day(3) },
+      ]);
+
+      expect(points.map((point) => point.value)).toEqual([2, 4]);
+    });
+
+    it('should skip times where the formula cannot be evaluated', () => {
+      const points = MetricSeries.build(metric, [
+        { measurementId: defects, value: 3, collectedAt: day(1) },
+        { measurementId: size, value: 0, collectedAt: day(2) },
+        { measurementId: size, value: 1000, collectedAt: day(3) },
+      ]);
+
+      expect(points).toEqual([{ date: day(3), value: 3 }]);
+    });
+
+    it('should ignore values of measurements of other metrics', () => {
+      const points = MetricSeries.build(metric, [
+        { measurementId: defects, value: 3, collectedAt: day(1) },
+        { measurementId: size, value: 1000, collectedAt: day(1) },
+        { measurementId: new Types.ObjectId(), value: 9, collectedAt: day(2) },
+      ]);
+
+      expect(points).toEqual([{ date: day(1), value: 3 }]);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { Metric } from '@domain/measurement-plans/entities/measurement-plan.entity';
+import { MeasurementRecord } from '@domain/measurement-plans/entities/measurement-record.entity';
+import { MetricFormula, FormulaError } from './metric-formula.service';
+
+export interface MetricSeriesPoint {
+  date: Date;
+  value: number;
+}
+
+/**
+ * Values of a metric over time, from the values recorded for its
+ * measurements. At each collection time the formula is evaluated with the
+ * latest value of every measurement; values collected at the same time, as
+ * in one bulk ingest, are taken together. Times before every measurement of
+ * the formula has a value, or where it cannot be evaluated (e.g. a division
+ * by zero), have no point; neither have values of measurements the metric
+ * no longer has.
+ */
+export class MetricSeries {
+  static build(
+    metric: Pick<Metric, 'metricFormula' | 'measurements'>,
+    records: Pick<
+      MeasurementRecord,
+      'measurementId' | 'value' | 'collectedAt'
+    >[],
+  ): MetricSeriesPoint[] {
+    const acronyms = new Map(
+      (metric.measurements || []).map((measurement) => [
+        measurement._id.toString(),
+        measurement.measurementAcronym,
+      ]),
+    );
+    const recordsByTime = new Map<number, typeof records>();
+    for (const record of records) {
+      const time = record.collectedAt.getTime();
+      recordsByTime.set(time, [...(recordsByTime.get(time) || []), record]);
+    }
+
+    const latest: Record<string, number> = {};
+    const points: MetricSeriesPoint[] = [];
+    for (const time of [...recordsByTime.keys()].sort((a, b) => a - b)) {
+      const collected = (recordsByTime.get(time) || []).flatMap((record) => {
+        const acronym = acronyms.get(record.measurementId.toString());
+        return acronym !== undefined ? [{ acronym, value: record.value }] : [];
+      });
+      if (collected.length === 0) {
+        continue;
+      }
+      for (const { acronym, value } of collected) {
+        latest[acronym] = value;
+      }
+
+      try {
+        points.push({
+          date: new Date(time),
+          value: MetricFormula.evaluate(metric.metricFormula, latest),
+        });
+      } catch (error) {
+        if (!(error instanceof FormulaError)) {
+          throw error;
+        }
+      }
+    }
+    return points;
+  }
+}
@@ -0,0 +1,39 @@
+import { ResponsibleRecipients } from './responsible-recipients.service';
+
+describe('ResponsibleRecipients', () => {
+  const members = [
+    {
+      email: 'ana@example.com',
+      username: 'ana',
+      firstName: 'Ana',
+      lastName: 'Souza',
+    },
+    { email: 'bruno@example.com', username: 'bruno' },
+  ];
+
+  describe('resolve', () => {
+    it('should find members by e-mail, username or full name, ignoring case', () => {
+      expect(
+        ResponsibleRecipients.resolve(
+          ['Ana Souza', 'BRUNO', 'ana@example.com'],
+          members,
+        ),
+      ).toEqual({
+        recipients: ['ana@example.com', 'bruno@example.com'],
+        unresolved: [],
+      });
+    });
+
+    it('should use e-mail addresses of non-members as they are', () => {
+      expect(
+        ResponsibleRecipients.resolve(['qa@partner.com'], members),
+      ).toEqual({ recipients: ['qa@partner.com'], unresolved: [] });
+    });
+
+    it('should report responsibles with no e-mail address and skip blanks', () => {
+      expect(
+        ResponsibleRecipients.resolve([' QA Team ', undefined, '  '], members),
+      ).toEqual({ recipients: [], unresolved: ['QA Team'] });
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { User } from '@domain/users/entities/user.entity';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export interface ResolvedRecipients {
+  recipients: string[];
+  // Responsibles with no e-mail address
+  unresolved: string[];
+}
+
+/**
+ * The responsibles of plans, metrics and measurements are free text: an
+ * organization member is found by e-mail, username or full name, ignoring
+ * case, otherwise an e-mail address is used as is.
+ */
+export class ResponsibleRecipients {
+  static resolve(
+    responsibles: (string | undefined)[],
+    members: Pick<User, 'email' | 'username' | 'firstName' | 'lastName'>[],
+  ): ResolvedRecipients {
+    const recipients = new Set<string>();
+    const unresolved: string[] = [];
+    for (const text of responsibles) {
+      const trimmed = text?.trim();
+      if (!trimmed) {
+        continue;
+      }
+      const responsible = trimmed.toLowerCase();
+      const member = members.find((candidate) =>
+        [
+          candidate.email,
+          candidate.username,
+          [candidate.firstName, candidate.lastName].filter(Boolean).join(' '),
+        ].some((identity) => identity?.toLowerCase() === responsible),
+      );
+      if (member) {
+        recipients.add(member.email);
+      } else if (EMAIL_PATTERN.test(responsible)) {
+        recipients.add(responsible);
+      } else {
+        unresolved.push(trimmed);
+      }
+    }
+    return { recipients: [...recipients], unresolved };
+  }
+}
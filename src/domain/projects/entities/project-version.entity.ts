@@ -0,0 +1,88 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type ProjectVersionDocument = ProjectVersion & Document;
+
+export enum VersionBump {
+  MAJOR = 'MAJOR',
+  MINOR = 'MINOR',
+  PATCH = 'PATCH',
+}
+
+// State of the project and its linked resources when the version was taken
+export interface ProjectVersionSnapshot {
+  project: Record<string, unknown>;
+  measurementPlan: Record<string, unknown> | null;
+  estimate: Record<string, unknown> | null;
+}
+
+@Schema({ timestamps: true })
+export class ProjectVersion {
+  @ApiProperty({ description: 'The unique identifier of the version' })
+  _id: Types.ObjectId;
+
+  @ApiProperty({ description: 'The project this version belongs to' })
+  @Prop({ type: Types.ObjectId, ref: 'Project', required: true })
+  projectId: Types.ObjectId;
+
+  @ApiProperty({ description: 'The organization this version belongs to' })
+  @Prop({ type: Types.ObjectId, ref: 'Organization', required: true })
+  organizationId: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'The semantic version number',
+    example: '1.2.0',
+  })
+  @Prop({ required: true })
+  version: string;
+
+  @ApiProperty({ description: 'The major version number' })
+  @Prop({ required: true })
+  major: number;
+
+  @ApiProperty({ description: 'The minor version number' })
+  @Prop({ required: true })
+  minor: number;
+
+  @ApiProperty({ description: 'The patch version number' })
+  @Prop({ required: true })
+  patch: number;
+
+  @ApiProperty({ description: 'What changed in this version' })
+  @Prop({ default: '' })
+  description: string;
+
+  @ApiProperty({ description: 'The ID of the user who created the version' })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  createdBy: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'The version this one was restored from, if any',
+    required: false,
+  })
+  @Prop()
+  restoredFrom?: string;
+
+  @ApiProperty({
+    description:
+      'Snapshot of the project, its objectives, measurement plan and estimate',
+    type: Object,
+  })
+  @Prop({ type: Object, required: true })
+  snapshot: ProjectVersionSnapshot;
+
+  @ApiProperty({ description: 'The date when the version was created' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'The date when the version was last updated' })
+  updatedAt: Date;
+}
+
+export const ProjectVersionSchema =
+  SchemaFactory.createForClass(ProjectVersion);
+
+// Add indexes for performance
+ProjectVersionSchema.index({ projectId: 1, version: 1 }, { unique: true });
+ProjectVersionSchema.index({ projectId: 1, major: -1, minor: -1, patch: -1 });
+ProjectVersionSchema.index({ organizationId: 1 });
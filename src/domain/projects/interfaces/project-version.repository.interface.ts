@@ -0,0 +1,15 @@
+import { ProjectVersion } from '@domain/projects/entities/project-version.entity';
+
+export const PROJECT_VERSION_REPOSITORY = 'PROJECT_VERSION_REPOSITORY';
+
+export interface IProjectVersionRepository {
+  create(version: Partial<ProjectVersion>): Promise<ProjectVersion>;
+  findById(id: string): Promise<ProjectVersion | null>;
+  findByProject(projectId: string): Promise<ProjectVersion[]>;
+  findByProjectAndVersion(
+    projectId: string,
+    version: string,
+  ): Promise<ProjectVersion | null>;
+  findLatest(projectId: string): Promise<ProjectVersion | null>;
+  deleteByProject(projectId: string): Promise<number>;
+}
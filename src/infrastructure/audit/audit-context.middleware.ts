@@ -0,0 +1,10 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { Request, Response, NextFunction } from 'express';
+import { AuditContext } from './audit-context';
+
+@Injectable()
+export class AuditContextMiddleware implements NestMiddleware {
+  use(req: Request, _res: Response, next: NextFunction): void {
+    AuditContext.run(req, next);
+  }
+}
@@ -0,0 +1,32 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Request } from 'express';
+import { AuditActor } from '@domain/audit/services/audit-event-builder.service';
+
+const requestStorage = new AsyncLocalStorage<Request>();
+
+/**
+ * The request a database write is made for, so the audit trail knows who
+ * made the change and from where without threading it through every service
+ */
+export class AuditContext {
+  static run(request: Request, callback: () => void): void {
+    requestStorage.run(request, callback);
+  }
+
+  // Read at write time: the user is only set once the JWT guard has run
+  static currentActor(): AuditActor {
+    const request = requestStorage.getStore();
+    if (!request) {
+      return {};
+    }
+
+    const user = request.user as { _id?: string } | undefined;
+
+    // X-Forwarded-For is only honoured through the trusted proxies (see
+    // TRUST_PROXY), so clients cannot forge the recorded address
+    return {
+      userId: user?._id,
+      ipAddress: request.ip,
+    };
+  }
+}
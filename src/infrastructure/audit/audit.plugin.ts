@@ -0,0 +1,206 @@
+import { Document, Model, Query, Schema, Types } from 'mongoose';
+import { AuditEvent } from '@domain/audit/entities/audit-event.entity';
+import { AuditEventBuilder } from '@domain/audit/services/audit-event-builder.service';
+import { AuditContext } from './audit-context';
+
+// Models whose writes are audited
+export const AUDITED_MODELS = [
+  'Estimate',
+  'ALI',
+  'AIE',
+  'EI',
+  'EO',
+  'EQ',
+  'Project',
+  'MeasurementPlan',
+  'MeasurementRecord',
+  'Organization',
+  'OrganizationInvitation',
+];
+
+export interface AuditRecorder {
+  record(events: Partial<AuditEvent>[]): Promise<void>;
+}
+
+type EntityState = Record<string, unknown> & { _id: Types.ObjectId };
+
+const UPDATE_OPERATIONS = [
+  'findOneAndUpdate',
+  'findOneAndReplace',
+  'updateOne',
+  'updateMany',
+  'replaceOne',
+] as const;
+const DELETE_OPERATIONS = [
+  'findOneAndDelete',
+  'deleteOne',
+  'deleteMany',
+] as const;
+const MULTIPLE_DOCUMENT_OPERATIONS = ['updateMany', 'deleteMany'] as const;
+const SINGLE_DOCUMENT_OPERATIONS = [
+  ...UPDATE_OPERATIONS,
+  ...DELETE_OPERATIONS,
+].filter(
+  (operation) =>
+    !(MULTIPLE_DOCUMENT_OPERATIONS as readonly string[]).includes(operation),
+);
+
+let recorder: AuditRecorder | null = null;
+// State of the entities a query matched, read before it runs
+const statesBeforeQuery = new WeakMap<object, EntityState[]>();
+
+// Set once the audit module is initialized; writes before that are not audited
+export function setAuditRecorder(auditRecorder: AuditRecorder): void {
+  recorder = auditRecorder;
+}
+
+async function record(
+  entityType: string,
+  before: EntityState[],
+  after: EntityState[],
+): Promise<void> {
+  if (!recorder) {
+    return;
+  }
+
+  const actor = AuditContext.currentActor();
+  const afterById = new Map(after.map((state) => [String(state._id), state]));
+  const beforeIds = new Set(before.map((state) => String(state._id)));
+  const events = [
+    ...before.map((state) =>
+      AuditEventBuilder.build(
+        entityType,
+        state,
+        afterById.get(String(state._id)) ?? null,
+        actor,
+      ),
+    ),
+    ...after
+      .filter((state) => !beforeIds.has(String(state._id)))
+      .map((state) => AuditEventBuilder.build(entityType, null, state, actor)),
+  ].filter((event): event is Partial<AuditEvent> => event !== null);
+
+  await recorder.record(events);
+}
+
+function isAudited(model: Model<unknown> | undefined): boolean {
+  return !!model && AUDITED_MODELS.includes(model.modelName);
+}
+
+function toState(document: Document): EntityState {
+  return document.toObject() as EntityState;
+}
+
+/**
+ * Record every create, update and delete of the audited models with the
+ * changed fields. The state of the entities is read before and after each
+ * write, so the trail holds what was actually stored
+ */
+export function auditPlugin(schema: Schema): void {
+  schema.pre('save', async function () {
+    const model = this.constructor as Model<unknown>;
+    if (!isAudited(model)) {
+      return;
+    }
+    this.$locals.auditBefore = this.isNew
+      ? null
+      : await model.findById(this._id).lean<EntityState>().exec();
+  });
+
+  schema.post('save', async function (document: Document) {
+    const model = document.constructor as Model<unknown>;
+    if (!isAudited(model)) {
+      return;
+    }
+    const before = document.$locals.auditBefore as EntityState | null;
+    await record(model.modelName, before ? [before] : [], [toState(document)]);
+  });
+
+  schema.post(
+    'insertMany',
+    async function (this: Model<unknown>, documents: unknown) {
+      if (!isAudited(this)) {
+        return;
+      }
+      await record(this.modelName, [], (documents as Document[]).map(toState));
+    },
+  );
+
+  schema.post(
+    'deleteOne',
+    { document: true, query: false },
+    async function (document: Document) {
+      const model = document.constructor as Model<unknown>;
+      if (!isAudited(model)) {
+        return;
+      }
+      await record(model.modelName, [toState(document)], []);
+    },
+  );
+
+  schema.pre(
+    SINGLE_DOCUMENT_OPERATIONS,
+    async function (this: Query<unknown, unknown>) {
+      if (!isAudited(this.model)) {
+        return;
+      }
+      const before = await this.model
+        .find(this.getFilter())
+        .limit(1)
+        .lean<EntityState[]>()
+        .exec();
+      statesBeforeQuery.set(this, before);
+    },
+  );
+
+  schema.pre(
+    [...MULTIPLE_DOCUMENT_OPERATIONS],
+    async function (this: Query<unknown, unknown>) {
+      if (!isAudited(this.model)) {
+        return;
+      }
+      const before = await this.model
+        .find(this.getFilter())
+        .lean<EntityState[]>()
+        .exec();
+      statesBeforeQuery.set(this, before);
+    },
+  );
+
+  schema.post(
+    [...UPDATE_OPERATIONS],
+    async function (this: Query<unknown, unknown>, result: unknown) {
+      if (!isAudited(this.model)) {
+        return;
+      }
+      const before = statesBeforeQuery.get(this) ?? [];
+      const ids: unknown[] = before.map((state) => state._id);
+      // Upserts create the entity the query did not match
+      const upserted =
+        (result as { upsertedId?: unknown } | null)?.upsertedId ??
+        (before.length === 0 && (result as { _id?: unknown } | null)?._id);
+      if (upserted) {
+        ids.push(upserted);
+      }
+
+      const after =
+        ids.length > 0
+          ? await this.model
+              .find({ _id: { $in: ids } })
+              .lean<EntityState[]>()
+              .exec()
+          : [];
+      await record(this.model.modelName, before, after);
+    },
+  );
+
+  schema.post(
+    [...DELETE_OPERATIONS],
+    async function (this: Query<unknown, unknown>) {
+      if (!isAudited(this.model)) {
+        return;
+      }
+      await record(this.model.modelName, statesBeforeQuery.get(this) ?? [], []);
+    },
+  );
+}
@@ -0,0 +1,78 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, Types } from 'mongoose';
+import {
+  AuditEvent,
+  AuditEventDocument,
+} from '@domain/audit/entities/audit-event.entity';
+import {
+  IAuditEventRepository,
+  AuditEventFilters,
+} from '@domain/audit/interfaces/audit-event.repository.interface';
+
+@Injectable()
+export class AuditEventRepository implements IAuditEventRepository {
+  constructor(
+    @InjectModel(AuditEvent.name)
+    private readonly auditEventModel: Model<AuditEventDocument>,
+  ) {}
+
+  async createMany(events: Partial<AuditEvent>[]): Promise<void> {
+    if (events.length > 0) {
+      await this.auditEventModel.insertMany(events);
+    }
+  }
+
+  async findWithPagination(
+    organizationId: string,
+    page: number,
+    limit: number,
+    filters: AuditEventFilters = {},
+  ): Promise<{
+    data: AuditEvent[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const query: FilterQuery<AuditEventDocument> = {
+      organizationId: new Types.ObjectId(organizationId),
+    };
+    if (filters.entityType) {
+      query.entityType = filters.entityType;
+    }
+    if (filters.entityId) {
+      query.entityId = new Types.ObjectId(filters.entityId);
+    }
+    if (filters.userId) {
+      query.userId = new Types.ObjectId(filters.userId);
+    }
+    if (filters.action) {
+      query.action = filters.action;
+    }
+    if (filters.from || filters.to) {
+      query.createdAt = {
+        ...(filters.from && { $gte: filters.from }),
+        ...(filters.to && { $lte: filters.to }),
+      };
+    }
+
+    const [data, total] = await Promise.all([
+      this.auditEventModel
+        .find(query)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.auditEventModel.countDocuments(query).exec(),
+    ]);
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+}
@@ -0,0 +1,83 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, Types } from 'mongoose';
+import {
+  CommentThread,
+  CommentThreadDocument,
+  ThreadComment,
+} from '@domain/comments/entities/comment-thread.entity';
+import {
+  ICommentThreadRepository,
+  CommentThreadFilters,
+} from '@domain/comments/interfaces/comment-thread.repository.interface';
+
+@Injectable()
+export class CommentThreadRepository implements ICommentThreadRepository {
+  constructor(
+    @InjectModel(CommentThread.name)
+    private readonly commentThreadModel: Model<CommentThreadDocument>,
+  ) {}
+
+  async create(thread: Partial<CommentThread>): Promise<CommentThread> {
+    const createdThread = new this.commentThreadModel(thread);
+    return createdThread.save();
+  }
+
+  async findById(id: string): Promise<CommentThread | null> {
+    return this.commentThreadModel.findById(id).exec();
+  }
+
+  async findByOrganization(
+    organizationId: string,
+    filters: CommentThreadFilters = {},
+  ): Promise<CommentThread[]> {
+    const query: FilterQuery<CommentThreadDocument> = {
+      organizationId: new Types.ObjectId(organizationId),
+    };
+    if (filters.estimateId) {
+      query.estimateId = new Types.ObjectId(filters.estimateId);
+    }
+    if (filters.measurementPlanId) {
+      query.measurementPlanId = new Types.ObjectId(filters.measurementPlanId);
+    }
+    if (filters.targetType) {
+      query.targetType = filters.targetType;
+    }
+    if (filters.targetId) {
+      query.targetId = new Types.ObjectId(filters.targetId);
+    }
+    if (filters.resolved !== undefined) {
+      query.resolved = filters.resolved;
+    }
+    if (filters.mentionedUserId) {
+      query['comments.mentions'] = new Types.ObjectId(filters.mentionedUserId);
+    }
+
+    return this.commentThreadModel.find(query).sort({ updatedAt: -1 }).exec();
+  }
+
+  async addComment(
+    id: string,
+    comment: ThreadComment,
+  ): Promise<CommentThread | null> {
+    return this.commentThreadModel
+      .findByIdAndUpdate(id, { $push: { comments: comment } }, { new: true })
+      .exec();
+  }
+
+  async setResolution(
+    id: string,
+    resolvedBy: string | null,
+  ): Promise<CommentThread | null> {
+    const update = resolvedBy
+      ? {
+          resolved: true,
+          resolvedBy: new Types.ObjectId(resolvedBy),
+          resolvedAt: new Date(),
+        }
+      : { resolved: false, $unset: { resolvedBy: 1, resolvedAt: 1 } };
+    return this.commentThreadModel
+      .findByIdAndUpdate(id, update, { new: true })
+      .exec();
+  }
+}
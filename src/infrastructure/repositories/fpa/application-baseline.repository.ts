@@ -0,0 +1,59 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  ApplicationBaseline,
+  ApplicationBaselineDocument,
+} from '@domain/fpa/entities/application-baseline.entity';
+import { IApplicationBaselineRepository } from '@domain/fpa/interfaces/application-baseline.repository.interface';
+
+@Injectable()
+export class ApplicationBaselineRepository
+  implements IApplicationBaselineRepository
+{
+  constructor(
+    @InjectModel(ApplicationBaseline.name)
+    private readonly baselineModel: Model<ApplicationBaselineDocument>,
+  ) {}
+
+  async create(
+    baseline: Partial<ApplicationBaseline>,
+  ): Promise<ApplicationBaseline> {
+    const createdBaseline = new this.baselineModel(baseline);
+    return createdBaseline.save();
+  }
+
+  async findById(id: string): Promise<ApplicationBaseline | null> {
+    return this.baselineModel.findById(id).exec();
+  }
+
+  async findByProject(projectId: string): Promise<ApplicationBaseline | null> {
+    return this.baselineModel
+      .findOne({ projectId: new Types.ObjectId(projectId) })
+      .exec();
+  }
+
+  async findByOrganization(
+    organizationId: string,
+  ): Promise<ApplicationBaseline[]> {
+    return this.baselineModel
+      .find({ organizationId: new Types.ObjectId(organizationId) })
+      .exec();
+  }
+
+  async update(
+    id: string,
+    baseline: Partial<ApplicationBaseline>,
+  ): Promise<ApplicationBaseline | null> {
+    return this.baselineModel
+      .findByIdAndUpdate(id, baseline, { new: true })
+      .exec();
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.baselineModel
+      .deleteOne({ _id: new Types.ObjectId(id) })
+      .exec();
+    return result.deletedCount > 0;
+  }
+}
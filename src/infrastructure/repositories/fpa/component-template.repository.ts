@@ -0,0 +1,172 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, Types } from 'mongoose';
+import {
+  ComponentTemplate,
+  ComponentTemplateDocument,
+  ComponentTemplateType,
+} from '@domain/fpa/entities/component-template.entity';
+import {
+  IComponentTemplateRepository,
+  ComponentTemplateSearch,
+  LinkedComponentSummary,
+} from '@domain/fpa/interfaces/component-template.repository.interface';
+import { ALI, ALIDocument } from '@domain/fpa/entities/ali.entity';
+import { AIE, AIEDocument } from '@domain/fpa/entities/aie.entity';
+import { EI, EIDocument } from '@domain/fpa/entities/ei.entity';
+import { EO, EODocument } from '@domain/fpa/entities/eo.entity';
+import { EQ, EQDocument } from '@domain/fpa/entities/eq.entity';
+
+@Injectable()
+export class ComponentTemplateRepository
+  implements IComponentTemplateRepository
+{
+  constructor(
+    @InjectModel(ComponentTemplate.name)
+    private readonly componentTemplateModel: Model<ComponentTemplateDocument>,
+    @InjectModel(ALI.name) private readonly aliModel: Model<ALIDocument>,
+    @InjectModel(AIE.name) private readonly aieModel: Model<AIEDocument>,
+    @InjectModel(EI.name) private readonly eiModel: Model<EIDocument>,
+    @InjectModel(EO.name) private readonly eoModel: Model<EODocument>,
+    @InjectModel(EQ.name) private readonly eqModel: Model<EQDocument>,
+  ) {}
+
+  async create(
+    template: Partial<ComponentTemplate>,
+  ): Promise<ComponentTemplate> {
+    const createdTemplate = new this.componentTemplateModel(template);
+    return createdTemplate.save();
+  }
+
+  async findById(id: string): Promise<ComponentTemplate | null> {
+    return this.componentTemplateModel.findById(id).exec();
+  }
+
+  async findByOrganization(
+    organizationId: string,
+    filters?: ComponentTemplateSearch,
+  ): Promise<ComponentTemplate[]> {
+    const query: FilterQuery<ComponentTemplateDocument> = {
+      organizationId: new Types.ObjectId(organizationId),
+    };
+    if (filters?.componentType) {
+      query.componentType = filters.componentType;
+    }
+    if (filters?.tag) {
+      query.tags = filters.tag;
+    }
+    if (filters?.search) {
+      query.$text = { $search: filters.search };
+    }
+
+    return this.componentTemplateModel
+      .find(query)
+      .sort({ componentType: 1, name: 1 })
+      .exec();
+  }
+
+  async findByName(
+    organizationId: string,
+    componentType: ComponentTemplateType,
+    name: string,
+  ): Promise<ComponentTemplate | null> {
+    return this.componentTemplateModel
+      .findOne({
+        organizationId: new Types.ObjectId(organizationId),
+        componentType,
+        name,
+      })
+      .exec();
+  }
+
+  async update(
+    id: string,
+    template: Partial<ComponentTemplate>,
+  ): Promise<ComponentTemplate | null> {
+    return this.componentTemplateModel
+      .findByIdAndUpdate(id, template, { new: true })
+      .exec();
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.componentTemplateModel
+      .deleteOne({ _id: new Types.ObjectId(id) })
+      .exec();
+    return result.deletedCount > 0;
+  }
+
+  async findLinkedComponents(
+    templateId: string,
+    componentType: ComponentTemplateType,
+  ): Promise<LinkedComponentSummary[]> {
+    const components = await this.componentModel(componentType)
+      .find({ templateId: new Types.ObjectId(templateId) })
+      .select('name projectId templateRevision templateOutdated')
+      .sort({ name: 1 })
+      .lean<
+        {
+          _id: Types.ObjectId;
+          name: string;
+          projectId: Types.ObjectId;
+          templateRevision?: number;
+          templateOutdated?: boolean;
+        }[]
+      >()
+      .exec();
+
+    return components.map((component) => ({
+      _id: component._id,
+      componentType,
+      name: component.name,
+      projectId: component.projectId,
+      templateRevision: component.templateRevision,
+      templateOutdated: component.templateOutdated ?? false,
+    }));
+  }
+
+  async flagOutdatedComponents(
+    templateId: string,
+    componentType: ComponentTemplateType,
+    revision: number,
+  ): Promise<number> {
+    const result = await this.componentModel(componentType)
+      .updateMany(
+        {
+          templateId: new Types.ObjectId(templateId),
+          templateRevision: { $lt: revision },
+        },
+        { $set: { templateOutdated: true } },
+      )
+      .exec();
+    return result.modifiedCount;
+  }
+
+  async unlinkComponents(
+    templateId: string,
+    componentType: ComponentTemplateType,
+  ): Promise<void> {
+    await this.componentModel(componentType)
+      .updateMany(
+        { templateId: new Types.ObjectId(templateId) },
+        {
+          $unset: {
+            templateId: '',
+            templateRevision: '',
+            templateOutdated: '',
+          },
+        },
+      )
+      .exec();
+  }
+
+  private componentModel(componentType: ComponentTemplateType): Model<any> {
+    const models: Record<ComponentTemplateType, Model<any>> = {
+      ALI: this.aliModel,
+      AIE: this.aieModel,
+      EI: this.eiModel,
+      EO: this.eoModel,
+      EQ: this.eqModel,
+    };
+    return models[componentType];
+  }
+}
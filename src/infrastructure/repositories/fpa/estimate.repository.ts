@@ -6,13 +6,29 @@ import {
   EstimateDocument,
   EstimateStatus,
 } from '@domain/fpa/entities/estimate.entity';
-import { IEstimateRepository } from '@domain/fpa/interfaces/estimate.repository.interface';
+import {
+  IEstimateRepository,
+  EstimateComponentSummary,
+  EstimateComponentBatch,
+  EstimateComponentBatchIds,
+} from '@domain/fpa/interfaces/estimate.repository.interface';
+import { ALI, ALIDocument } from '@domain/fpa/entities/ali.entity';
+import { AIE, AIEDocument } from '@domain/fpa/entities/aie.entity';
+import { EI, EIDocument } from '@domain/fpa/entities/ei.entity';
+import { EO, EODocument } from '@domain/fpa/entities/eo.entity';
+import { EQ, EQDocument } from '@domain/fpa/entities/eq.entity';
+import { BaseFPAComponent } from '@domain/fpa/entities/base-fpa-component.entity';
 
 @Injectable()
 export class EstimateRepository implements IEstimateRepository {
   constructor(
     @InjectModel(Estimate.name)
     private readonly estimateModel: Model<EstimateDocument>,
+    @InjectModel(ALI.name) private readonly aliModel: Model<ALIDocument>,
+    @InjectModel(AIE.name) private readonly aieModel: Model<AIEDocument>,
+    @InjectModel(EI.name) private readonly eiModel: Model<EIDocument>,
+    @InjectModel(EO.name) private readonly eoModel: Model<EODocument>,
+    @InjectModel(EQ.name) private readonly eqModel: Model<EQDocument>,
     private readonly logger: Logger,
   ) {}
 
@@ -101,9 +117,15 @@ export class EstimateRepository implements IEstimateRepository {
       return null;
     }
 
-    // Find the latest version number for this project
+    // Versions of the same estimate share the id of the first version
+    const rootEstimateId =
+      currentEstimate.rootEstimateId ?? currentEstimate._id;
+
+    // Find the latest version number in this estimate's lineage
     const latestVersion = await this.estimateModel
-      .findOne({ projectId: currentEstimate.projectId })
+      .findOne({
+        $or: [{ _id: rootEstimateId }, { rootEstimateId }],
+      })
       .sort({ version: -1 })
       .exec();
 
@@ -116,11 +138,276 @@ export class EstimateRepository implements IEstimateRepository {
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     const { _id, ...newEstimateData } = estimateData;
 
-    // Set the version and status
+    // Set the version, lineage and status
     newEstimateData.version = newVersionNumber;
+    newEstimateData.rootEstimateId = rootEstimateId;
+    newEstimateData.previousVersionId = currentEstimate._id;
     newEstimateData.status = EstimateStatus.DRAFT;
+    // A new version is reviewed and approved again, by the same reviewers
+    newEstimateData.approvals = [];
+    newEstimateData.reviewers = (estimateData.reviewers || []).map(
+      ({ userId, assignedBy, assignedAt }) => ({
+        userId,
+        assignedBy,
+        assignedAt,
+      }),
+    );
+    newEstimateData.reviewComments = [];
+    // Actuals belong to the delivered version; a new one is delivered anew
+    newEstimateData.actualEffortHours = undefined;
+    newEstimateData.actualFunctionPoints = undefined;
+    newEstimateData.actualCostBRL = undefined;
+    newEstimateData.actualDurationDays = undefined;
+    newEstimateData.actualsRecordedAt = undefined;
+    newEstimateData.actualsRecordedBy = undefined;
+    newEstimateData.milestoneActuals = [];
+
+    // Each version owns copies of its components so editing one version
+    // leaves the others intact. Data functions are copied first so the FTRs
+    // of the transactions can point to the new copies
+    const fileCopies = new Map<string, Types.ObjectId>();
+    const [alis, aies] = await Promise.all([
+      this.copyComponents(
+        this.aliModel,
+        estimateData.internalLogicalFiles,
+        fileCopies,
+      ),
+      this.copyComponents(
+        this.aieModel,
+        estimateData.externalInterfaceFiles,
+        fileCopies,
+      ),
+    ]);
+    const [eis, eos, eqs] = await Promise.all([
+      this.copyComponents(
+        this.eiModel,
+        estimateData.externalInputs,
+        fileCopies,
+      ),
+      this.copyComponents(
+        this.eoModel,
+        estimateData.externalOutputs,
+        fileCopies,
+      ),
+      this.copyComponents(
+        this.eqModel,
+        estimateData.externalQueries,
+        fileCopies,
+      ),
+    ]);
+    newEstimateData.internalLogicalFiles = alis;
+    newEstimateData.externalInterfaceFiles = aies;
+    newEstimateData.externalInputs = eis;
+    newEstimateData.externalOutputs = eos;
+    newEstimateData.externalQueries = eqs;
 
     const newEstimate = new this.estimateModel(newEstimateData);
     return newEstimate.save();
   }
+
+  async findVersionLineage(rootEstimateId: string): Promise<Estimate[]> {
+    const rootId = new Types.ObjectId(rootEstimateId);
+    return this.estimateModel
+      .find({ $or: [{ _id: rootId }, { rootEstimateId: rootId }] })
+      .sort({ version: 1 })
+      .exec();
+  }
+
+  // Records each original -> copy id in copyIds and points referenced
+  // files to their copies when these are known
+  private async copyComponents<T extends BaseFPAComponent>(
+    model: Model<T>,
+    ids: Types.ObjectId[] = [],
+    copyIds: Map<string, Types.ObjectId> = new Map(),
+  ): Promise<Types.ObjectId[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const components = await model
+      .find({ _id: { $in: ids } })
+      .lean<(T & { referencedFiles?: Types.ObjectId[] })[]>()
+      .exec();
+
+    const copies = components.map((component) => {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { _id, createdAt, updatedAt, ...data } = component;
+      const copyId = new Types.ObjectId();
+      copyIds.set(_id.toString(), copyId);
+      const referencedFiles = data.referencedFiles?.map(
+        (fileId) => copyIds.get(fileId.toString()) ?? fileId,
+      );
+      return {
+        ...data,
+        _id: copyId,
+        ...(referencedFiles && { referencedFiles }),
+      };
+    });
+    await model.insertMany(copies);
+
+    // Keep the original ordering of the references
+    return ids.flatMap((id) => {
+      const copyId = copyIds.get(id.toString());
+      return copyId ? [copyId] : [];
+    });
+  }
+
+  async findComponentSummaries(
+    estimateId: string,
+  ): Promise<EstimateComponentSummary[]> {
+    // Resolve every component reference of the estimate in one round trip
+    const references = [
+      { field: 'internalLogicalFiles', type: 'ALI', model: this.aliModel },
+      { field: 'externalInterfaceFiles', type: 'AIE', model: this.aieModel },
+      { field: 'externalInputs', type: 'EI', model: this.eiModel },
+      { field: 'externalOutputs', type: 'EO', model: this.eoModel },
+      { field: 'externalQueries', type: 'EQ', model: this.eqModel },
+    ];
+
+    return this.estimateModel
+      .aggregate<EstimateComponentSummary>([
+        { $match: { _id: new Types.ObjectId(estimateId) } },
+        ...references.map(({ field, type, model }) => ({
+          $lookup: {
+            from: model.collection.name,
+            localField: field,
+            foreignField: '_id',
+            as: `${type}_components`,
+          },
+        })),
+        {
+          $project: {
+            components: {
+              $concatArrays: references.map(({ type }) => ({
+                $map: {
+                  input: `$${type}_components`,
+                  as: 'component',
+                  in: {
+                    _id: '$$component._id',
+                    componentType: type,
+                    name: '$$component.name',
+                    complexity: '$$component.complexity',
+                    functionPoints: '$$component.functionPoints',
+                    changeType: '$$component.changeType',
+                    dataElementTypes: '$$component.dataElementTypes',
+                    recordElementTypes: '$$component.recordElementTypes',
+                    fileTypesReferenced: '$$component.fileTypesReferenced',
+                    inputFtr: '$$component.inputFtr',
+                    inputDet: '$$component.inputDet',
+                    outputFtr: '$$component.outputFtr',
+                    outputDet: '$$component.outputDet',
+                    dataElements: '$$component.dataElements',
+                    referencedFiles: '$$component.referencedFiles',
+                    derivedData: '$$component.derivedData',
+                  },
+                },
+              })),
+            },
+          },
+        },
+        { $unwind: '$components' },
+        { $replaceRoot: { newRoot: '$components' } },
+      ])
+      .exec();
+  }
+
+  async addComponents(
+    estimateId: string,
+    batch: EstimateComponentBatch,
+  ): Promise<EstimateComponentBatchIds | null> {
+    // Without multi-document transactions: insert the components first, then
+    // reference them with a single update, removing them again on failure
+    const targets: {
+      type: keyof EstimateComponentBatch;
+      field: string;
+      model: Model<any>;
+      components: Partial<BaseFPAComponent>[];
+    }[] = [
+      {
+        type: 'ALI',
+        field: 'internalLogicalFiles',
+        model: this.aliModel,
+        components: batch.ALI || [],
+      },
+      {
+        type: 'AIE',
+        field: 'externalInterfaceFiles',
+        model: this.aieModel,
+        components: batch.AIE || [],
+      },
+      {
+        type: 'EI',
+        field: 'externalInputs',
+        model: this.eiModel,
+        components: batch.EI || [],
+      },
+      {
+        type: 'EO',
+        field: 'externalOutputs',
+        model: this.eoModel,
+        components: batch.EO || [],
+      },
+      {
+        type: 'EQ',
+        field: 'externalQueries',
+        model: this.eqModel,
+        components: batch.EQ || [],
+      },
+    ];
+
+    const ids = {} as EstimateComponentBatchIds;
+    targets.forEach(({ type, components }) => {
+      ids[type] = components.map(
+        (component) => component._id ?? new Types.ObjectId(),
+      );
+    });
+    if (targets.every(({ components }) => components.length === 0)) {
+      const exists = await this.estimateModel.exists({ _id: estimateId });
+      return exists ? ids : null;
+    }
+
+    const inserted: { model: Model<any>; ids: Types.ObjectId[] }[] = [];
+    const rollback = () =>
+      Promise.all(
+        inserted.map(({ model, ids: insertedIds }) =>
+          model.deleteMany({ _id: { $in: insertedIds } }).exec(),
+        ),
+      );
+
+    try {
+      for (const { type, model, components } of targets) {
+        if (components.length === 0) {
+          continue;
+        }
+        // Registered before inserting: a partly failed insertMany keeps the
+        // documents written before the failure, and the ids are known
+        const componentIds = ids[type];
+        inserted.push({ model, ids: componentIds });
+        await model.insertMany(
+          components.map((component, index) => ({
+            ...component,
+            _id: componentIds[index],
+          })),
+        );
+      }
+
+      const push = Object.fromEntries(
+        targets
+          .filter(({ type }) => ids[type].length > 0)
+          .map(({ type, field }) => [field, { $each: ids[type] }]),
+      );
+      const updated = await this.estimateModel
+        .findByIdAndUpdate(estimateId, { $push: push }, { new: true })
+        .exec();
+
+      if (!updated) {
+        await rollback();
+        return null;
+      }
+      return ids;
+    } catch (error) {
+      await rollback();
+      throw error;
+    }
+  }
 }
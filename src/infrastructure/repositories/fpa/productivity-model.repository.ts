@@ -0,0 +1,61 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  ProductivityModel,
+  ProductivityModelDocument,
+} from '@domain/fpa/entities/productivity-model.entity';
+import { IProductivityModelRepository } from '@domain/fpa/interfaces/productivity-model.repository.interface';
+
+@Injectable()
+export class ProductivityModelRepository
+  implements IProductivityModelRepository
+{
+  constructor(
+    @InjectModel(ProductivityModel.name)
+    private readonly productivityModelModel: Model<ProductivityModelDocument>,
+  ) {}
+
+  async create(model: Partial<ProductivityModel>): Promise<ProductivityModel> {
+    const createdModel = new this.productivityModelModel(model);
+    return createdModel.save();
+  }
+
+  async findById(id: string): Promise<ProductivityModel | null> {
+    return this.productivityModelModel.findById(id).exec();
+  }
+
+  async findByOrganization(
+    organizationId: string,
+  ): Promise<ProductivityModel[]> {
+    return this.productivityModelModel
+      .find({ organizationId: new Types.ObjectId(organizationId) })
+      .sort({ technology: 1, name: 1 })
+      .exec();
+  }
+
+  async findByName(
+    organizationId: string,
+    name: string,
+  ): Promise<ProductivityModel | null> {
+    return this.productivityModelModel
+      .findOne({ organizationId: new Types.ObjectId(organizationId), name })
+      .exec();
+  }
+
+  async update(
+    id: string,
+    model: Partial<ProductivityModel>,
+  ): Promise<ProductivityModel | null> {
+    return this.productivityModelModel
+      .findByIdAndUpdate(id, model, { new: true })
+      .exec();
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.productivityModelModel
+      .deleteOne({ _id: new Types.ObjectId(id) })
+      .exec();
+    return result.deletedCount > 0;
+  }
+}
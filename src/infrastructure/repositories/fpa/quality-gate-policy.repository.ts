@@ -0,0 +1,42 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  QualityGate,
+  QualityGatePolicy,
+  QualityGatePolicyDocument,
+} from '@domain/fpa/entities/quality-gate-policy.entity';
+import { IQualityGatePolicyRepository } from '@domain/fpa/interfaces/quality-gate-policy.repository.interface';
+
+@Injectable()
+export class QualityGatePolicyRepository
+  implements IQualityGatePolicyRepository
+{
+  constructor(
+    @InjectModel(QualityGatePolicy.name)
+    private readonly qualityGatePolicyModel: Model<QualityGatePolicyDocument>,
+  ) {}
+
+  async findByOrganization(
+    organizationId: string,
+  ): Promise<QualityGatePolicy | null> {
+    return this.qualityGatePolicyModel
+      .findOne({ organizationId: new Types.ObjectId(organizationId) })
+      .exec();
+  }
+
+  async upsert(
+    organizationId: string,
+    gates: QualityGate[],
+    updatedBy: string,
+  ): Promise<QualityGatePolicy> {
+    return this.qualityGatePolicyModel
+      .findOneAndUpdate(
+        { organizationId: new Types.ObjectId(organizationId) },
+        { gates, updatedBy: new Types.ObjectId(updatedBy) },
+        { new: true, upsert: true, runValidators: true },
+      )
+      .orFail()
+      .exec();
+  }
+}
@@ -0,0 +1,176 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, Types } from 'mongoose';
+import {
+  CollectionTask,
+  CollectionTaskDocument,
+  CollectionTaskStatus,
+  CollectionTaskType,
+} from '@domain/measurement-plans/entities/collection-task.entity';
+import {
+  ICollectionTaskRepository,
+  CollectionTaskFilters,
+} from '@domain/measurement-plans/interfaces/collection-task.repository.interface';
+
+const OPEN_STATUSES = [
+  CollectionTaskStatus.PENDING,
+  CollectionTaskStatus.OVERDUE,
+];
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+@Injectable()
+export class CollectionTaskRepository implements ICollectionTaskRepository {
+  constructor(
+    @InjectModel(CollectionTask.name)
+    private readonly collectionTaskModel: Model<CollectionTaskDocument>,
+  ) {}
+
+  async create(task: Partial<CollectionTask>): Promise<CollectionTask> {
+    const createdTask = new this.collectionTaskModel(task);
+    return createdTask.save();
+  }
+
+  async upsertForPeriod(
+    task: Partial<CollectionTask>,
+  ): Promise<CollectionTask> {
+    const period: FilterQuery<CollectionTaskDocument> = {
+      planId: task.planId,
+      type: task.type,
+      metricId: task.metricId,
+      measurementId: task.measurementId ?? { $exists: false },
+      periodStart: task.periodStart,
+    };
+    try {
+      return await this.collectionTaskModel
+        .findOneAndUpdate(
+          period,
+          { $setOnInsert: task },
+          { new: true, upsert: true, runValidators: true },
+        )
+        .orFail()
+        .exec();
+    } catch (error) {
+      // A concurrent run inserted the same period first
+      if ((error as { code?: number }).code === DUPLICATE_KEY_ERROR) {
+        return this.collectionTaskModel.findOne(period).orFail().exec();
+      }
+      throw error;
+    }
+  }
+
+  async findById(id: string): Promise<CollectionTask | null> {
+    if (!Types.ObjectId.isValid(id)) {
+      return null;
+    }
+    return this.collectionTaskModel.findById(id).exec();
+  }
+
+  async findLatest(
+    planId: string,
+    type: CollectionTaskType,
+    elementId: string,
+  ): Promise<CollectionTask | null> {
+    const element =
+      type === CollectionTaskType.MEASUREMENT
+        ? { measurementId: new Types.ObjectId(elementId) }
+        : { metricId: new Types.ObjectId(elementId) };
+    return this.collectionTaskModel
+      .findOne({ planId: new Types.ObjectId(planId), type, ...element })
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
+  async findOpenByPlan(planId: string): Promise<CollectionTask[]> {
+    return this.collectionTaskModel
+      .find({
+        planId: new Types.ObjectId(planId),
+        status: { $in: OPEN_STATUSES },
+      })
+      .sort({ dueAt: 1 })
+      .exec();
+  }
+
+  async findOpenByMeasurement(
+    planId: string,
+    measurementId: string,
+  ): Promise<CollectionTask[]> {
+    return this.collectionTaskModel
+      .find({
+        planId: new Types.ObjectId(planId),
+        measurementId: new Types.ObjectId(measurementId),
+        status: { $in: OPEN_STATUSES },
+      })
+      .sort({ dueAt: 1 })
+      .exec();
+  }
+
+  async findWithPagination(
+    organizationId: string,
+    page: number,
+    limit: number,
+    filters: CollectionTaskFilters = {},
+  ): Promise<{
+    data: CollectionTask[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const query: FilterQuery<CollectionTaskDocument> = {
+      organizationId: new Types.ObjectId(organizationId),
+    };
+    if (filters.status) {
+      query.status = filters.status;
+    }
+    if (filters.type) {
+      query.type = filters.type;
+    }
+    if (filters.planId) {
+      query.planId = new Types.ObjectId(filters.planId);
+    }
+
+    const [data, total] = await Promise.all([
+      this.collectionTaskModel
+        .find(query)
+        .sort({ dueAt: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.collectionTaskModel.countDocuments(query).exec(),
+    ]);
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async update(
+    id: string,
+    task: Partial<CollectionTask>,
+  ): Promise<CollectionTask | null> {
+    if (!Types.ObjectId.isValid(id)) {
+      return null;
+    }
+    return this.collectionTaskModel
+      .findByIdAndUpdate(id, task, { new: true, runValidators: true })
+      .exec();
+  }
+
+  async cancelOpenExceptPlans(planIds: string[]): Promise<number> {
+    const result = await this.collectionTaskModel
+      .updateMany(
+        {
+          planId: { $nin: planIds.map((id) => new Types.ObjectId(id)) },
+          status: { $in: OPEN_STATUSES },
+        },
+        { status: CollectionTaskStatus.CANCELLED },
+      )
+      .exec();
+    return result.modifiedCount;
+  }
+}
@@ -0,0 +1,170 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, PipelineStage, Types } from 'mongoose';
+import {
+  MeasurementRecord,
+  MeasurementRecordDocument,
+} from '@domain/measurement-plans/entities/measurement-record.entity';
+import {
+  IMeasurementRecordRepository,
+  MeasurementRecordFilters,
+  ValueAggregation,
+} from '@domain/measurement-plans/interfaces/measurement-record.repository.interface';
+
+@Injectable()
+export class MeasurementRecordRepository
+  implements IMeasurementRecordRepository
+{
+  constructor(
+    @InjectModel(MeasurementRecord.name)
+    private readonly measurementRecordModel: Model<MeasurementRecordDocument>,
+  ) {}
+
+  async create(record: Partial<MeasurementRecord>): Promise<MeasurementRecord> {
+    const createdRecord = new this.measurementRecordModel(record);
+    return createdRecord.save();
+  }
+
+  async createMany(
+    records: Partial<MeasurementRecord>[],
+  ): Promise<MeasurementRecord[]> {
+    if (records.length === 0) {
+      return [];
+    }
+    const createdRecords =
+      await this.measurementRecordModel.insertMany(records);
+    return createdRecords as MeasurementRecord[];
+  }
+
+  async findById(id: string): Promise<MeasurementRecord | null> {
+    if (!Types.ObjectId.isValid(id)) {
+      return null;
+    }
+    return this.measurementRecordModel.findById(id).exec();
+  }
+
+  async findWithPagination(
+    planId: string,
+    page: number,
+    limit: number,
+    filters: MeasurementRecordFilters = {},
+  ): Promise<{
+    data: MeasurementRecord[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const query: FilterQuery<MeasurementRecordDocument> = {
+      planId: new Types.ObjectId(planId),
+    };
+    if (filters.metricId) {
+      query.metricId = new Types.ObjectId(filters.metricId);
+    }
+    if (filters.measurementId) {
+      query.measurementId = new Types.ObjectId(filters.measurementId);
+    }
+    if (filters.from || filters.to) {
+      query.collectedAt = {
+        ...(filters.from && { $gte: filters.from }),
+        ...(filters.to && { $lte: filters.to }),
+      };
+    }
+
+    const [data, total] = await Promise.all([
+      this.measurementRecordModel
+        .find(query)
+        .sort({ collectedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.measurementRecordModel.countDocuments(query).exec(),
+    ]);
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async findByMetric(
+    planId: string,
+    metricId: string,
+    period: { from?: Date; to?: Date } = {},
+  ): Promise<MeasurementRecord[]> {
+    return this.measurementRecordModel
+      .find(this.metricQuery(planId, metricId, period))
+      .sort({ collectedAt: 1 })
+      .exec();
+  }
+
+  async aggregateByMeasurement(
+    planId: string,
+    metricId: string,
+    aggregation: ValueAggregation,
+    period: { from?: Date; to?: Date } = {},
+  ): Promise<Record<string, number>> {
+    const accumulator = {
+      [ValueAggregation.LATEST]: { $first: '$value' },
+      [ValueAggregation.SUM]: { $sum: '$value' },
+      [ValueAggregation.AVERAGE]: { $avg: '$value' },
+      [ValueAggregation.MIN]: { $min: '$value' },
+      [ValueAggregation.MAX]: { $max: '$value' },
+    }[aggregation];
+
+    const pipeline: PipelineStage[] = [
+      { $match: this.metricQuery(planId, metricId, period) },
+      // Most recent first, for the latest value
+      { $sort: { collectedAt: -1 } },
+      { $group: { _id: '$measurementId', value: accumulator } },
+    ];
+    const results = await this.measurementRecordModel
+      .aggregate<{ _id: Types.ObjectId; value: number }>(pipeline)
+      .exec();
+
+    return Object.fromEntries(
+      results.map((result) => [result._id.toString(), result.value]),
+    );
+  }
+
+  private metricQuery(
+    planId: string,
+    metricId: string,
+    period: { from?: Date; to?: Date },
+  ): FilterQuery<MeasurementRecordDocument> {
+    const query: FilterQuery<MeasurementRecordDocument> = {
+      planId: new Types.ObjectId(planId),
+      metricId: new Types.ObjectId(metricId),
+    };
+    if (period.from || period.to) {
+      query.collectedAt = {
+        ...(period.from && { $gte: period.from }),
+        ...(period.to && { $lte: period.to }),
+      };
+    }
+    return query;
+  }
+
+  async update(
+    id: string,
+    record: Partial<MeasurementRecord>,
+  ): Promise<MeasurementRecord | null> {
+    if (!Types.ObjectId.isValid(id)) {
+      return null;
+    }
+    return this.measurementRecordModel
+      .findByIdAndUpdate(id, record, { new: true, runValidators: true })
+      .exec();
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!Types.ObjectId.isValid(id)) {
+      return false;
+    }
+    const result = await this.measurementRecordModel.findByIdAndDelete(id);
+    return !!result;
+  }
+}
@@ -0,0 +1,102 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, Types } from 'mongoose';
+import {
+  MetricAlert,
+  MetricAlertDocument,
+  MetricAlertStatus,
+} from '@domain/measurement-plans/entities/metric-alert.entity';
+import {
+  IMetricAlertRepository,
+  MetricAlertFilters,
+} from '@domain/measurement-plans/interfaces/metric-alert.repository.interface';
+
+@Injectable()
+export class MetricAlertRepository implements IMetricAlertRepository {
+  constructor(
+    @InjectModel(MetricAlert.name)
+    private readonly metricAlertModel: Model<MetricAlertDocument>,
+  ) {}
+
+  async create(alert: Partial<MetricAlert>): Promise<MetricAlert> {
+    const createdAlert = new this.metricAlertModel(alert);
+    return createdAlert.save();
+  }
+
+  async findById(id: string): Promise<MetricAlert | null> {
+    if (!Types.ObjectId.isValid(id)) {
+      return null;
+    }
+    return this.metricAlertModel.findById(id).exec();
+  }
+
+  async findUnresolvedByMetric(
+    planId: string,
+    metricId: string,
+  ): Promise<MetricAlert | null> {
+    return this.metricAlertModel
+      .findOne({
+        planId: new Types.ObjectId(planId),
+        metricId: new Types.ObjectId(metricId),
+        status: { $ne: MetricAlertStatus.RESOLVED },
+      })
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
+  async findWithPagination(
+    organizationId: string,
+    page: number,
+    limit: number,
+    filters: MetricAlertFilters = {},
+  ): Promise<{
+    data: MetricAlert[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const query: FilterQuery<MetricAlertDocument> = {
+      organizationId: new Types.ObjectId(organizationId),
+    };
+    if (filters.status) {
+      query.status = filters.status;
+    }
+    if (filters.planId) {
+      query.planId = new Types.ObjectId(filters.planId);
+    }
+    if (filters.metricId) {
+      query.metricId = new Types.ObjectId(filters.metricId);
+    }
+
+    const [data, total] = await Promise.all([
+      this.metricAlertModel
+        .find(query)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.metricAlertModel.countDocuments(query).exec(),
+    ]);
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async update(
+    id: string,
+    alert: Partial<MetricAlert>,
+  ): Promise<MetricAlert | null> {
+    if (!Types.ObjectId.isValid(id)) {
+      return null;
+    }
+    return this.metricAlertModel
+      .findByIdAndUpdate(id, alert, { new: true, runValidators: true })
+      .exec();
+  }
+}
@@ -0,0 +1,55 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  ProjectVersion,
+  ProjectVersionDocument,
+} from '@domain/projects/entities/project-version.entity';
+import { IProjectVersionRepository } from '@domain/projects/interfaces/project-version.repository.interface';
+
+@Injectable()
+export class ProjectVersionRepository implements IProjectVersionRepository {
+  constructor(
+    @InjectModel(ProjectVersion.name)
+    private readonly projectVersionModel: Model<ProjectVersionDocument>,
+  ) {}
+
+  async create(version: Partial<ProjectVersion>): Promise<ProjectVersion> {
+    const createdVersion = new this.projectVersionModel(version);
+    return createdVersion.save();
+  }
+
+  async findById(id: string): Promise<ProjectVersion | null> {
+    return this.projectVersionModel.findById(id).exec();
+  }
+
+  async findByProject(projectId: string): Promise<ProjectVersion[]> {
+    return this.projectVersionModel
+      .find({ projectId: new Types.ObjectId(projectId) })
+      .sort({ major: -1, minor: -1, patch: -1 })
+      .exec();
+  }
+
+  async findByProjectAndVersion(
+    projectId: string,
+    version: string,
+  ): Promise<ProjectVersion | null> {
+    return this.projectVersionModel
+      .findOne({ projectId: new Types.ObjectId(projectId), version })
+      .exec();
+  }
+
+  async findLatest(projectId: string): Promise<ProjectVersion | null> {
+    return this.projectVersionModel
+      .findOne({ projectId: new Types.ObjectId(projectId) })
+      .sort({ major: -1, minor: -1, patch: -1 })
+      .exec();
+  }
+
+  async deleteByProject(projectId: string): Promise<number> {
+    const result = await this.projectVersionModel
+      .deleteMany({ projectId: new Types.ObjectId(projectId) })
+      .exec();
+    return result.deletedCount;
+  }
+}
@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  AuditEvent,
+  AuditEventSchema,
+} from '@domain/audit/entities/audit-event.entity';
+import { AUDIT_EVENT_REPOSITORY } from '@domain/audit/interfaces/audit-event.repository.interface';
+import { AuditEventRepository } from '@infrastructure/repositories/audit/audit-event.repository';
+import { AuditService } from '@application/audit/use-cases/audit.service';
+import { AuditEventsController } from '@controllers/audit/audit-events.controller';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: AuditEvent.name, schema: AuditEventSchema },
+    ]),
+  ],
+  controllers: [AuditEventsController],
+  providers: [
+    {
+      provide: AUDIT_EVENT_REPOSITORY,
+      useClass: AuditEventRepository,
+    },
+    AuditService,
+  ],
+  exports: [AuditService, AUDIT_EVENT_REPOSITORY],
+})
+export class AuditModule {}
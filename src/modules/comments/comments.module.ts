@@ -0,0 +1,36 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  CommentThread,
+  CommentThreadSchema,
+} from '@domain/comments/entities/comment-thread.entity';
+import { COMMENT_THREAD_REPOSITORY } from '@domain/comments/interfaces/comment-thread.repository.interface';
+import { CommentThreadRepository } from '@infrastructure/repositories/comments/comment-thread.repository';
+import { CommentThreadService } from '@application/comments/use-cases/comment-thread.service';
+import { CommentThreadsController } from '@controllers/comments/comment-threads.controller';
+import { FPAModule } from '@modules/fpa/fpa.module';
+import { MeasurementPlansModule } from '@modules/measurement-plans/measurement-plans.module';
+import { UsersModule } from '@modules/users/users.module';
+import { EmailModule } from '@infrastructure/external-services/email/email.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: CommentThread.name, schema: CommentThreadSchema },
+    ]),
+    FPAModule,
+    MeasurementPlansModule,
+    UsersModule,
+    EmailModule,
+  ],
+  controllers: [CommentThreadsController],
+  providers: [
+    {
+      provide: COMMENT_THREAD_REPOSITORY,
+      useClass: CommentThreadRepository,
+    },
+    CommentThreadService,
+  ],
+  exports: [CommentThreadService, COMMENT_THREAD_REPOSITORY],
+})
+export class CommentsModule {}
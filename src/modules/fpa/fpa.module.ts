@@ -11,6 +11,22 @@ import {
   DocumentEntity,
   DocumentEntitySchema,
 } from '@domain/fpa/entities/document.entity';
+import {
+  ApplicationBaseline,
+  ApplicationBaselineSchema,
+} from '@domain/fpa/entities/application-baseline.entity';
+import {
+  ProductivityModel,
+  ProductivityModelSchema,
+} from '@domain/fpa/entities/productivity-model.entity';
+import {
+  ComponentTemplate,
+  ComponentTemplateSchema,
+} from '@domain/fpa/entities/component-template.entity';
+import {
+  QualityGatePolicy,
+  QualityGatePolicySchema,
+} from '@domain/fpa/entities/quality-gate-policy.entity';
 
 import { ALIRepository } from '@infrastructure/repositories/fpa/ali.repository';
 import { AIERepository } from '@infrastructure/repositories/fpa/aie.repository';
@@ -19,6 +35,10 @@ import { EORepository } from '@infrastructure/repositories/fpa/eo.repository';
 import { EQRepository } from '@infrastructure/repositories/fpa/eq.repository';
 import { EstimateRepository } from '@infrastructure/repositories/fpa/estimate.repository';
 import { DocumentRepository } from '@infrastructure/repositories/fpa/document.repository';
+import { ApplicationBaselineRepository } from '@infrastructure/repositories/fpa/application-baseline.repository';
+import { ProductivityModelRepository } from '@infrastructure/repositories/fpa/productivity-model.repository';
+import { ComponentTemplateRepository } from '@infrastructure/repositories/fpa/component-template.repository';
+import { QualityGatePolicyRepository } from '@infrastructure/repositories/fpa/quality-gate-policy.repository';
 
 import { ALI_REPOSITORY } from '@domain/fpa/interfaces/ali.repository.interface';
 import { AIE_REPOSITORY } from '@domain/fpa/interfaces/aie.repository.interface';
@@ -27,16 +47,41 @@ import { EO_REPOSITORY } from '@domain/fpa/interfaces/eo.repository.interface';
 import { EQ_REPOSITORY } from '@domain/fpa/interfaces/eq.repository.interface';
 import { ESTIMATE_REPOSITORY } from '@domain/fpa/interfaces/estimate.repository.interface';
 import { DOCUMENT_REPOSITORY } from '@domain/fpa/interfaces/document.repository.interface';
+import { APPLICATION_BASELINE_REPOSITORY } from '@domain/fpa/interfaces/application-baseline.repository.interface';
+import { PRODUCTIVITY_MODEL_REPOSITORY } from '@domain/fpa/interfaces/productivity-model.repository.interface';
+import { COMPONENT_TEMPLATE_REPOSITORY } from '@domain/fpa/interfaces/component-template.repository.interface';
+import { QUALITY_GATE_POLICY_REPOSITORY } from '@domain/fpa/interfaces/quality-gate-policy.repository.interface';
 
 import { ComplexityCalculator } from '@domain/fpa/services/complexity-calculator.service';
 import { FunctionPointCalculator } from '@domain/fpa/services/function-point-calculator.service';
+import { EstimateVersionComparator } from '@domain/fpa/services/estimate-version-comparator.service';
+import { EstimationAccuracyCalculator } from '@domain/fpa/services/estimation-accuracy.service';
+import { CocomoIICalculator } from '@domain/fpa/services/cocomo-ii.service';
+import { EffortSimulator } from '@domain/fpa/services/effort-simulator.service';
 import { TrendAnalysisService } from '@domain/fpa/services/trend-analysis.service';
 import { TeamSizeEstimationService } from '@domain/fpa/services/team-size-estimation.service';
 import { ReportGeneratorService } from '@domain/fpa/services/report-generator.service';
 import { DocumentService } from '@domain/fpa/services/document.service';
 import { EstimateDocumentService } from '@domain/fpa/services/estimate-document.service';
 import { EstimateService } from '@application/fpa/use-cases/estimate.service';
+import { EstimateWithPatternsService } from '@application/fpa/use-cases/estimate-with-patterns.service';
+import { ApplicationBaselineService } from '@application/fpa/use-cases/application-baseline.service';
+import { ProductivityModelService } from '@application/fpa/use-cases/productivity-model.service';
+import { ComponentImportService } from '@application/fpa/use-cases/component-import.service';
+import { ComponentCopyService } from '@application/fpa/use-cases/component-copy.service';
+import { ComponentLibraryService } from '@application/fpa/use-cases/component-library.service';
+import { ComponentElementDetailService } from '@application/fpa/use-cases/component-element-detail.service';
+import { QualityGateService } from '@application/fpa/use-cases/quality-gate.service';
+import { EstimateReviewService } from '@application/fpa/use-cases/estimate-review.service';
+import {
+  EmailNotificationObserver,
+  LogObserver,
+  AuditObserver,
+} from '@domain/fpa/observers/email-notification.observer';
 import { ProjectsModule } from '@modules/projects/projects.module';
+import { EmailModule } from '@infrastructure/external-services/email/email.module';
+import { UsersModule } from '@modules/users/users.module';
+import { AuditModule } from '@modules/audit/audit.module';
 
 @Module({
   imports: [
@@ -48,8 +93,15 @@ import { ProjectsModule } from '@modules/projects/projects.module';
       { name: EQ.name, schema: EQSchema },
       { name: Estimate.name, schema: EstimateSchema },
       { name: DocumentEntity.name, schema: DocumentEntitySchema },
+      { name: ApplicationBaseline.name, schema: ApplicationBaselineSchema },
+      { name: ProductivityModel.name, schema: ProductivityModelSchema },
+      { name: ComponentTemplate.name, schema: ComponentTemplateSchema },
+      { name: QualityGatePolicy.name, schema: QualityGatePolicySchema },
     ]),
     ProjectsModule,
+    EmailModule,
+    UsersModule,
+    AuditModule,
   ],
   providers: [
     Logger,
@@ -81,14 +133,46 @@ import { ProjectsModule } from '@modules/projects/projects.module';
       provide: DOCUMENT_REPOSITORY,
       useClass: DocumentRepository,
     },
+    {
+      provide: APPLICATION_BASELINE_REPOSITORY,
+      useClass: ApplicationBaselineRepository,
+    },
+    {
+      provide: PRODUCTIVITY_MODEL_REPOSITORY,
+      useClass: ProductivityModelRepository,
+    },
+    {
+      provide: COMPONENT_TEMPLATE_REPOSITORY,
+      useClass: ComponentTemplateRepository,
+    },
+    {
+      provide: QUALITY_GATE_POLICY_REPOSITORY,
+      useClass: QualityGatePolicyRepository,
+    },
     ComplexityCalculator,
     FunctionPointCalculator,
+    EstimateVersionComparator,
+    EstimationAccuracyCalculator,
+    CocomoIICalculator,
+    EffortSimulator,
     TrendAnalysisService,
     TeamSizeEstimationService,
     ReportGeneratorService,
     DocumentService,
     EstimateDocumentService,
     EstimateService,
+    EmailNotificationObserver,
+    LogObserver,
+    AuditObserver,
+    EstimateWithPatternsService,
+    ApplicationBaselineService,
+    ProductivityModelService,
+    ComponentImportService,
+    ComponentCopyService,
+    ComponentLibraryService,
+    ComponentElementDetailService,
+    QualityGateService,
+    EstimateReviewService,
   ],
   exports: [
     ALI_REPOSITORY,
@@ -98,14 +182,31 @@ import { ProjectsModule } from '@modules/projects/projects.module';
     EQ_REPOSITORY,
     ESTIMATE_REPOSITORY,
     DOCUMENT_REPOSITORY,
+    APPLICATION_BASELINE_REPOSITORY,
+    PRODUCTIVITY_MODEL_REPOSITORY,
+    COMPONENT_TEMPLATE_REPOSITORY,
+    QUALITY_GATE_POLICY_REPOSITORY,
     ComplexityCalculator,
     FunctionPointCalculator,
+    EstimateVersionComparator,
+    EstimationAccuracyCalculator,
+    CocomoIICalculator,
+    EffortSimulator,
     TrendAnalysisService,
     TeamSizeEstimationService,
     ReportGeneratorService,
     DocumentService,
     EstimateDocumentService,
     EstimateService,
+    EstimateWithPatternsService,
+    ApplicationBaselineService,
+    ProductivityModelService,
+    ComponentImportService,
+    ComponentCopyService,
+    ComponentLibraryService,
+    ComponentElementDetailService,
+    QualityGateService,
+    EstimateReviewService,
   ],
 })
 export class FPAModule {}
@@ -4,13 +4,43 @@ import {
   MeasurementPlan,
   MeasurementPlanSchema,
 } from '@domain/measurement-plans/entities/measurement-plan.entity';
+import {
+  MeasurementRecord,
+  MeasurementRecordSchema,
+} from '@domain/measurement-plans/entities/measurement-record.entity';
+import {
+  MetricAlert,
+  MetricAlertSchema,
+} from '@domain/measurement-plans/entities/metric-alert.entity';
+import {
+  CollectionTask,
+  CollectionTaskSchema,
+} from '@domain/measurement-plans/entities/collection-task.entity';
 import { MEASUREMENT_PLAN_REPOSITORY } from '@domain/measurement-plans/interfaces/measurement-plan.repository.interface';
+import { MEASUREMENT_RECORD_REPOSITORY } from '@domain/measurement-plans/interfaces/measurement-record.repository.interface';
+import { METRIC_ALERT_REPOSITORY } from '@domain/measurement-plans/interfaces/metric-alert.repository.interface';
+import { COLLECTION_TASK_REPOSITORY } from '@domain/measurement-plans/interfaces/collection-task.repository.interface';
 import { MeasurementPlanRepository } from '@infrastructure/repositories/measurement-plans/measurement-plan.repository';
+import { MeasurementRecordRepository } from '@infrastructure/repositories/measurement-plans/measurement-record.repository';
+import { MetricAlertRepository } from '@infrastructure/repositories/measurement-plans/metric-alert.repository';
+import { CollectionTaskRepository } from '@infrastructure/repositories/measurement-plans/collection-task.repository';
 import { MeasurementPlanService } from '@application/measurement-plans/use-cases/measurement-plan.service';
 import { ExportService } from '@application/measurement-plans/use-cases/export.service';
+import { MeasurementRecordService } from '@application/measurement-plans/use-cases/measurement-record.service';
+import { MetricAnalysisService } from '@application/measurement-plans/use-cases/metric-analysis.service';
+import { MetricAlertService } from '@application/measurement-plans/use-cases/metric-alert.service';
+import { CollectionTaskService } from '@application/measurement-plans/use-cases/collection-task.service';
+import { CollectionScheduler } from '@application/measurement-plans/use-cases/collection-scheduler.service';
 import { MeasurementPlansController } from '@controllers/measurement-plans/measurement-plans.controller';
 import { MeasurementPlansExportController } from '@controllers/measurement-plans/export.controller';
+import { MeasurementRecordsController } from '@controllers/measurement-plans/measurement-records.controller';
+import { MetricAnalysisController } from '@controllers/measurement-plans/metric-analysis.controller';
+import { MetricAlertsController } from '@controllers/measurement-plans/metric-alerts.controller';
+import { CollectionTasksController } from '@controllers/measurement-plans/collection-tasks.controller';
 import { ProjectsModule } from '@modules/projects/projects.module';
+import { UsersModule } from '@modules/users/users.module';
+import { EmailModule } from '@infrastructure/external-services/email/email.module';
+import { FPAModule } from '@modules/fpa/fpa.module';
 
 @Module({
   imports: [
@@ -19,18 +49,61 @@ import { ProjectsModule } from '@modules/projects/projects.module';
         name: MeasurementPlan.name,
         schema: MeasurementPlanSchema,
       },
+      {
+        name: MeasurementRecord.name,
+        schema: MeasurementRecordSchema,
+      },
+      {
+        name: MetricAlert.name,
+        schema: MetricAlertSchema,
+      },
+      {
+        name: CollectionTask.name,
+        schema: CollectionTaskSchema,
+      },
     ]),
     ProjectsModule,
+    UsersModule,
+    EmailModule,
+    FPAModule,
+  ],
+  controllers: [
+    MeasurementPlansController,
+    MeasurementPlansExportController,
+    MeasurementRecordsController,
+    MetricAnalysisController,
+    MetricAlertsController,
+    CollectionTasksController,
   ],
-  controllers: [MeasurementPlansController, MeasurementPlansExportController],
   providers: [
     {
       provide: MEASUREMENT_PLAN_REPOSITORY,
       useClass: MeasurementPlanRepository,
     },
+    {
+      provide: MEASUREMENT_RECORD_REPOSITORY,
+      useClass: MeasurementRecordRepository,
+    },
+    {
+      provide: METRIC_ALERT_REPOSITORY,
+      useClass: MetricAlertRepository,
+    },
+    {
+      provide: COLLECTION_TASK_REPOSITORY,
+      useClass: CollectionTaskRepository,
+    },
     MeasurementPlanService,
     ExportService,
+    MeasurementRecordService,
+    MetricAnalysisService,
+    MetricAlertService,
+    CollectionTaskService,
+    CollectionScheduler,
+  ],
+  exports: [
+    MeasurementPlanService,
+    MEASUREMENT_PLAN_REPOSITORY,
+    MEASUREMENT_RECORD_REPOSITORY,
   ],
-  exports: [MeasurementPlanService, MEASUREMENT_PLAN_REPOSITORY],
 })
 export class MeasurementPlansModule {}
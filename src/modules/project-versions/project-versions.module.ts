@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ProjectVersionService } from '@application/projects/use-cases/project-version.service';
+import { ProjectsModule } from '@modules/projects/projects.module';
+import { MeasurementPlansModule } from '@modules/measurement-plans/measurement-plans.module';
+import { FPAModule } from '@modules/fpa/fpa.module';
+
+// Versions snapshot the measurement plan and estimate linked to a project, so
+// this lives outside ProjectsModule, which both of those modules import
+@Module({
+  imports: [ProjectsModule, MeasurementPlansModule, FPAModule],
+  providers: [ProjectVersionService],
+  exports: [ProjectVersionService],
+})
+export class ProjectVersionsModule {}
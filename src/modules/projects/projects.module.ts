@@ -4,13 +4,22 @@ import {
   Project,
   ProjectSchema,
 } from '@domain/projects/entities/project.entity';
+import {
+  ProjectVersion,
+  ProjectVersionSchema,
+} from '@domain/projects/entities/project-version.entity';
 import { ProjectRepository } from '@infrastructure/repositories/projects/project.repository';
+import { ProjectVersionRepository } from '@infrastructure/repositories/projects/project-version.repository';
 import { PROJECT_REPOSITORY } from '@domain/projects/interfaces/project.repository.interface';
+import { PROJECT_VERSION_REPOSITORY } from '@domain/projects/interfaces/project-version.repository.interface';
 import { ProjectService } from '@application/projects/use-cases/project.service';
 
 @Module({
   imports: [
-    MongooseModule.forFeature([{ name: Project.name, schema: ProjectSchema }]),
+    MongooseModule.forFeature([
+      { name: Project.name, schema: ProjectSchema },
+      { name: ProjectVersion.name, schema: ProjectVersionSchema },
+    ]),
   ],
   providers: [
     Logger,
@@ -18,8 +27,12 @@ import { ProjectService } from '@application/projects/use-cases/project.service'
       provide: PROJECT_REPOSITORY,
       useClass: ProjectRepository,
     },
+    {
+      provide: PROJECT_VERSION_REPOSITORY,
+      useClass: ProjectVersionRepository,
+    },
     ProjectService,
   ],
-  exports: [PROJECT_REPOSITORY, ProjectService],
+  exports: [PROJECT_REPOSITORY, PROJECT_VERSION_REPOSITORY, ProjectService],
 })
 export class ProjectsModule {}
@@ -2,6 +2,9 @@
 // Server Configuration
 export const PORT = process.env.PORT || '8080';
 export const NODE_ENV = process.env.NODE_ENV || 'development';
+// Proxies whose X-Forwarded-For gives the client address: a number of hops
+// (1 behind Azure App Service) or their addresses; 0 trusts none
+export const TRUST_PROXY = process.env.TRUST_PROXY || '0';
 
 // Database Configuration
 export const MONGODB_URI =
@@ -31,6 +34,10 @@ export const EMAIL_FROM =
   process.env.EMAIL_FROM || 'Measura <no-reply@measura.com>';
 export const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000';
 
+// Collection Scheduler Configuration (0 turns it off)
+export const COLLECTION_SCHEDULER_INTERVAL_MINUTES =
+  process.env.COLLECTION_SCHEDULER_INTERVAL_MINUTES || '60';
+
 // Swagger Configuration
 export const SWAGGER_TITLE = process.env.SWAGGER_TITLE || 'Measura API';
 export const SWAGGER_DESCRIPTION =
@@ -0,0 +1,11 @@
+import { HtmlUtils } from './html.utils';
+
+describe('HtmlUtils', () => {
+  describe('escape', () => {
+    it('should escape markup and quotes', () => {
+      expect(HtmlUtils.escape(`<img src="x" onerror='alert(1)'> & more`)).toBe(
+        '&lt;img src=&quot;x&quot; onerror=&#039;alert(1)&#039;&gt; &amp; more',
+      );
+    });
+  });
+});
@@ -0,0 +1,11 @@
+export class HtmlUtils {
+  // Text placed in HTML (reports, e-mails) is shown as is, never as markup
+  static escape(unsafe: string): string {
+    return unsafe
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#039;');
+  }
+}
@@ -0,0 +1,72 @@
+import { Types } from 'mongoose';
+import { ObjectDiffUtils } from './object-diff.utils';
+
+describe('ObjectDiffUtils', () => {
+  describe('diff', () => {
+    it('should report added, removed and modified fields by path', () => {
+      const changes = ObjectDiffUtils.diff(
+        { project: { name: 'Portal', status: 'PLANNING', notes: 'draft' } },
+        { project: { name: 'Portal v2', status: 'PLANNING', owner: 'Ana' } },
+      );
+
+      expect(changes).toEqual([
+        {
+          path: 'project.name',
+          change: 'modified',
+          before: 'Portal',
+          after: 'Portal v2',
+        },
+        { path: 'project.notes', change: 'removed', before: 'draft' },
+        { path: 'project.owner', change: 'added', after: 'Ana' },
+      ]);
+    });
+
+    it('should match sub-documents by _id regardless of order', () => {
+      const first = new Types.ObjectId();
+      const second = new Types.ObjectId();
+
+      const changes = ObjectDiffUtils.diff(
+        {
+          objectives: [
+            { _id: first, title: 'Reduce defects' },
+            { _id: second, title: 'Improve speed' },
+          ],
+        },
+        {
+          objectives: [
+            { _id: second, title: 'Improve speed' },
+            { _id: first, title: 'Reduce escaped defects' },
+          ],
+        },
+      );
+
+      expect(changes).toEqual([
+        {
+          path: `objectives[${first.toHexString()}].title`,
+          change: 'modified',
+          before: 'Reduce defects',
+          after: 'Reduce escaped defects',
+        },
+      ]);
+    });
+
+    it('should compare dates and ObjectIds by value and skip timestamps', () => {
+      const id = new Types.ObjectId();
+
+      const changes = ObjectDiffUtils.diff(
+        {
+          estimateId: id,
+          startDate: new Date('2025-01-01'),
+          updatedAt: new Date('2025-01-01'),
+        },
+        {
+          estimateId: new Types.ObjectId(id.toHexString()),
+          startDate: new Date('2025-01-01'),
+          updatedAt: new Date('2025-03-01'),
+        },
+      );
+
+      expect(changes).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+export type FieldChangeType = 'added' | 'removed' | 'modified';
+
+export interface FieldChange {
+  path: string;
+  change: FieldChangeType;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface ObjectDiffOptions {
+  ignoreKeys?: string[];
+}
+
+const DEFAULT_IGNORED_KEYS = ['__v', 'createdAt', 'updatedAt'];
+
+export class ObjectDiffUtils {
+  /**
+   * Compare two plain objects field by field.
+   * Arrays of sub-documents are matched by `_id` so reordering them is not
+   * reported as a change; other arrays are compared by position.
+   */
+  static diff(
+    before: unknown,
+    after: unknown,
+    options: ObjectDiffOptions = {},
+  ): FieldChange[] {
+    const ignoreKeys = new Set(options.ignoreKeys ?? DEFAULT_IGNORED_KEYS);
+    const changes: FieldChange[] = [];
+    this.compare(
+      this.normalize(before),
+      this.normalize(after),
+      '',
+      ignoreKeys,
+      changes,
+    );
+    return changes;
+  }
+
+  private static compare(
+    before: unknown,
+    after: unknown,
+    path: string,
+    ignoreKeys: Set<string>,
+    changes: FieldChange[],
+  ): void {
+    if (before === undefined && after === undefined) {
+      return;
+    }
+    if (before === undefined) {
+      changes.push({ path, change: 'added', after });
+      return;
+    }
+    if (after === undefined) {
+      changes.push({ path, change: 'removed', before });
+      return;
+    }
+
+    if (Array.isArray(before) && Array.isArray(after)) {
+      const beforeEntries = this.arrayEntries(before);
+      const afterEntries = this.arrayEntries(after);
+      const keys = new Set([...beforeEntries.keys(), ...afterEntries.keys()]);
+      keys.forEach((key) =>
+        this.compare(
+          beforeEntries.get(key),
+          afterEntries.get(key),
+          `${path}[${key}]`,
+          ignoreKeys,
+          changes,
+        ),
+      );
+      return;
+    }
+
+    if (this.isPlainObject(before) && this.isPlainObject(after)) {
+      const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+      keys.forEach((key) => {
+        if (ignoreKeys.has(key)) {
+          return;
+        }
+        this.compare(
+          before[key],
+          after[key],
+          path ? `${path}.${key}` : key,
+          ignoreKeys,
+          changes,
+        );
+      });
+      return;
+    }
+
+    if (before !== after) {
+      changes.push({ path, change: 'modified', before, after });
+    }
+  }
+
+  private static arrayEntries(values: unknown[]): Map<string, unknown> {
+    const keyedById = values.every(
+      (value) => this.isPlainObject(value) && typeof value._id === 'string',
+    );
+
+    return new Map(
+      values.map((value, index) => [
+        keyedById
+          ? ((value as Record<string, unknown>)._id as string)
+          : String(index),
+        value,
+      ]),
+    );
+  }
+
+  // Reduce ObjectIds and dates to strings so they compare by value
+  private static normalize(value: unknown): unknown {
+    if (value === null || value === undefined) {
+      return value;
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.normalize(item));
+    }
+    if (typeof value === 'object') {
+      if (
+        typeof (value as { toHexString?: unknown }).toHexString === 'function'
+      ) {
+        return (value as { toHexString: () => string }).toHexString();
+      }
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.normalize(item)]),
+      );
+    }
+    return value;
+  }
+
+  private static isPlainObject(
+    value: unknown,
+  ): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
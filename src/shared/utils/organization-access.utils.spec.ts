@@ -0,0 +1,28 @@
+import { ForbiddenException } from '@nestjs/common';
+import { OrganizationAccessUtils } from './organization-access.utils';
+
+describe('OrganizationAccessUtils', () => {
+  describe('validate', () => {
+    it('should allow users of the requested organization', () => {
+      expect(() =>
+        OrganizationAccessUtils.validate('org-1', 'org-1', 'metric alerts'),
+      ).not.toThrow();
+    });
+
+    it('should reject users without an organization', () => {
+      expect(() =>
+        OrganizationAccessUtils.validate(null, 'org-1', 'metric alerts'),
+      ).toThrow(
+        new ForbiddenException(
+          'You must be assigned to an organization to access its metric alerts',
+        ),
+      );
+    });
+
+    it('should reject users of another organization', () => {
+      expect(() =>
+        OrganizationAccessUtils.validate('org-2', 'org-1', 'metric alerts'),
+      ).toThrow(ForbiddenException);
+    });
+  });
+});
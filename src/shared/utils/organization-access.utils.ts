@@ -0,0 +1,23 @@
+import { ForbiddenException } from '@nestjs/common';
+
+export class OrganizationAccessUtils {
+  /**
+   * Users only reach the resources of their own organization, named in the
+   * error raised otherwise (e.g. 'productivity models')
+   * @throws ForbiddenException if the user has no organization or another one
+   */
+  static validate(
+    userOrgId: string | null,
+    requestedOrgId: string,
+    resource: string,
+  ): void {
+    if (!userOrgId) {
+      throw new ForbiddenException(
+        `You must be assigned to an organization to access its ${resource}`,
+      );
+    }
+    if (userOrgId !== requestedOrgId) {
+      throw new ForbiddenException('Access denied to this organization');
+    }
+  }
+}
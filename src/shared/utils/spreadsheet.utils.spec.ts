@@ -0,0 +1,195 @@
+import { deflateRawSync } from 'zlib';
+import { SpreadsheetUtils } from './spreadsheet.utils';
+
+// Builds a ZIP archive with deflated entries (CRCs are not checked on read)
+function buildZip(files: Record<string, string>): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  Object.entries(files).forEach(([name, content]) => {
+    const nameBuffer = Buffer.from(name, 'utf8');
+    const data = deflateRawSync(Buffer.from(content, 'utf8'));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(Buffer.byteLength(content), 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+    localParts.push(local, nameBuffer, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(Buffer.byteLength(content), 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, nameBuffer);
+
+    offset += local.length + nameBuffer.length + data.length;
+  });
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+describe('SpreadsheetUtils', () => {
+  describe('detectFormat', () => {
+    it('should recognize CSV and XLSX files by extension', () => {
+      expect(SpreadsheetUtils.detectFormat('counts.CSV')).toBe('csv');
+      expect(SpreadsheetUtils.detectFormat('counts.xlsx')).toBe('xlsx');
+      expect(SpreadsheetUtils.detectFormat('counts.pdf')).toBeNull();
+    });
+  });
+
+  describe('parse', () => {
+    it('should key CSV rows by lowercased header and skip blank lines', () => {
+      const csv = Buffer.from(
+        '\uFEFFType,Name,DET,RET/FTR,Intent\n' +
+          'ILF,Customer,12,2,"Keeps customers, addresses"\n' +
+          '\n' +
+          'EI, Add customer ,8,1,Registers a customer\n',
+      );
+
+      expect(SpreadsheetUtils.parse(csv, 'csv')).toEqual([
+        {
+          rowNumber: 2,
+          values: {
+            type: 'ILF',
+            name: 'Customer',
+            det: '12',
+            'ret/ftr': '2',
+            intent: 'Keeps customers, addresses',
+          },
+        },
+        {
+          rowNumber: 4,
+          values: {
+            type: 'EI',
+            name: 'Add customer',
+            det: '8',
+            'ret/ftr': '1',
+            intent: 'Registers a customer',
+          },
+        },
+      ]);
+    });
+
+    it('should read shared, inline and numeric cells of the first sheet', () => {
+      const xlsx = buildZip({
+        'xl/workbook.xml':
+          '<workbook><sheets><sheet name="Counts" sheetId="1" r:id="rId1"/></sheets></workbook>',
+        'xl/_rels/workbook.xml.rels':
+          '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+        'xl/sharedStrings.xml':
+          '<sst><si><t>Type</t></si><si><t>Name</t></si><si><t>DET</t></si>' +
+          '<si><r><t>Order </t></r><r><t>&amp; items</t></r></si></sst>',
+        'xl/worksheets/sheet1.xml':
+          '<worksheet><sheetData>' +
+          '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c></row>' +
+          '<row r="2"><c r="A2" t="inlineStr"><is><t>ALI</t></is></c><c r="B2" t="s"><v>3</v></c><c r="C2"><v>25</v></c></row>' +
+          '<row r="4"><c r="A4" t="inlineStr"><is><t>EQ</t></is></c><c r="C4"><v>4</v></c></row>' +
+          '</sheetData></worksheet>',
+      });
+
+      expect(SpreadsheetUtils.parse(xlsx, 'xlsx')).toEqual([
+        {
+          rowNumber: 2,
+          values: { type: 'ALI', name: 'Order & items', det: '25' },
+        },
+        { rowNumber: 4, values: { type: 'EQ', name: '', det: '4' } },
+      ]);
+    });
+
+    it('should reject files that are not ZIP archives as XLSX', () => {
+      expect(() =>
+        SpreadsheetUtils.parse(Buffer.from('not a workbook'), 'xlsx'),
+      ).toThrow('not a ZIP archive');
+    });
+
+    it('should reject archives that inflate beyond the size limit', () => {
+      const bomb = buildZip({
+        'xl/worksheets/sheet1.xml': ' '.repeat(51 * 1024 * 1024),
+      });
+
+      expect(() => SpreadsheetUtils.parse(bomb, 'xlsx')).toThrow(
+        'too large once uncompressed',
+      );
+    });
+
+    it('should reject entries that inflate beyond their declared size', () => {
+      const archive = buildZip({ 'xl/workbook.xml': 'x'.repeat(1024) });
+      // Declare a smaller size in the central directory entry
+      archive.writeUInt32LE(
+        16,
+        archive.indexOf('PK\x01\x02', 0, 'latin1') + 24,
+      );
+
+      expect(() => SpreadsheetUtils.parse(archive, 'xlsx')).toThrow(
+        'larger than declared',
+      );
+    });
+
+    it('should reject truncated archives', () => {
+      const archive = buildZip({ 'xl/workbook.xml': '<workbook/>' });
+      // Point the central directory past the end of the file
+      archive.writeUInt32LE(archive.length, archive.length - 6);
+
+      expect(() => SpreadsheetUtils.parse(archive, 'xlsx')).toThrow(
+        'truncated central directory',
+      );
+    });
+
+    it('should reject ZIP64 archives', () => {
+      const archive = buildZip({ 'xl/workbook.xml': '<workbook/>' });
+      archive.writeUInt32LE(0xffffffff, archive.length - 6);
+
+      expect(() => SpreadsheetUtils.parse(archive, 'xlsx')).toThrow(
+        'ZIP64 archives are not supported',
+      );
+    });
+  });
+
+  describe('writeXlsx', () => {
+    it('should write a workbook that reads back with its values', () => {
+      const workbook = SpreadsheetUtils.writeXlsx([
+        {
+          name: 'Counts',
+          rows: [
+            [
+              { value: 'Name', bold: true },
+              { value: 'FP', bold: true },
+            ],
+            ['Customer <master>', 7],
+            ['Order & items', 10],
+            ['Total', { formula: 'SUM(B2:B3)' }],
+          ],
+        },
+      ]);
+
+      expect(SpreadsheetUtils.parse(workbook, 'xlsx')).toEqual([
+        { rowNumber: 2, values: { name: 'Customer <master>', fp: '7' } },
+        { rowNumber: 3, values: { name: 'Order & items', fp: '10' } },
+        // Formulas carry no cached value until recalculated
+        { rowNumber: 4, values: { name: 'Total', fp: '' } },
+      ]);
+    });
+  });
+
+  describe('columnName', () => {
+    it('should convert column indexes to letters', () => {
+      expect(SpreadsheetUtils.columnName(0)).toBe('A');
+      expect(SpreadsheetUtils.columnName(25)).toBe('Z');
+      expect(SpreadsheetUtils.columnName(26)).toBe('AA');
+    });
+  });
+});
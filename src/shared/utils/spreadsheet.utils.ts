@@ -0,0 +1,570 @@
+import { deflateRawSync, inflateRawSync } from 'zlib';
+import * as Papa from 'papaparse';
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+export interface SpreadsheetRow {
+  rowNumber: number; // 1-based line of the sheet, the header being row 1
+  values: Record<string, string>; // Keyed by lowercased header
+}
+
+export type SpreadsheetValue = string | number | boolean | null;
+
+export interface SpreadsheetFormulaCell {
+  formula: string; // Without the leading "="
+  bold?: boolean;
+}
+
+export interface SpreadsheetStyledCell {
+  value: SpreadsheetValue;
+  bold?: boolean;
+}
+
+export type SpreadsheetCell =
+  | SpreadsheetValue
+  | SpreadsheetFormulaCell
+  | SpreadsheetStyledCell;
+
+export interface SpreadsheetSheet {
+  name: string;
+  rows: SpreadsheetCell[][];
+  columnWidths?: number[]; // In characters
+}
+
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50;
+const ZIP64_END_LOCATOR = 0x07064b50;
+// Values standing for "see the ZIP64 record" in the classic headers
+const ZIP64_MARKER_16 = 0xffff;
+const ZIP64_MARKER_32 = 0xffffffff;
+const ZIP_MAX_COMMENT_LENGTH = 0xffff;
+const ZIP_STORED = 0;
+const ZIP_DEFLATED = 8;
+// Inflated size allowed across the entries of an archive, against zip bombs
+const MAX_UNZIPPED_BYTES = 50 * 1024 * 1024;
+
+const XLSX_CONTENT_TYPE =
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+export class SpreadsheetUtils {
+  static detectFormat(
+    fileName: string,
+    mimeType?: string,
+  ): SpreadsheetFormat | null {
+    const extension = fileName.split('.').pop()?.toLowerCase();
+    if (extension === 'xlsx' || mimeType === XLSX_CONTENT_TYPE) {
+      return 'xlsx';
+    }
+    if (extension === 'csv' || mimeType === 'text/csv') {
+      return 'csv';
+    }
+    return null;
+  }
+
+  /**
+   * Read the first sheet of a CSV or XLSX file. The first row holds the
+   * column names; blank rows are skipped.
+   */
+  static parse(buffer: Buffer, format: SpreadsheetFormat): SpreadsheetRow[] {
+    const rows =
+      format === 'xlsx' ? this.readXlsx(buffer) : this.readCsv(buffer);
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const headers = rows[0].map((header) => header.trim().toLowerCase());
+    const result: SpreadsheetRow[] = [];
+
+    rows.slice(1).forEach((cells, index) => {
+      if (cells.every((cell) => cell.trim() === '')) {
+        return;
+      }
+      const values: Record<string, string> = {};
+      headers.forEach((header, column) => {
+        if (header) {
+          values[header] = (cells[column] ?? '').trim();
+        }
+      });
+      result.push({ rowNumber: index + 2, values });
+    });
+
+    return result;
+  }
+
+  /**
+   * Write an XLSX workbook. Formulas are recalculated by the spreadsheet
+   * application when the file is opened.
+   */
+  static writeXlsx(sheets: SpreadsheetSheet[]): Buffer {
+    const sheetEntries = sheets.map((sheet, index) => ({
+      path: `xl/worksheets/sheet${index + 1}.xml`,
+      content: this.sheetXml(sheet),
+    }));
+
+    const contentTypes =
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      sheetEntries
+        .map(
+          ({ path }) =>
+            `<Override PartName="/${path}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+        )
+        .join('') +
+      '</Types>';
+
+    const rootRelationships =
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>';
+
+    const workbook =
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      '<sheets>' +
+      sheets
+        .map(
+          (sheet, index) =>
+            `<sheet name="${this.encodeXml(sheet.name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`,
+        )
+        .join('') +
+      '</sheets>' +
+      '<calcPr calcId="191029" fullCalcOnLoad="1"/>' +
+      '</workbook>';
+
+    const workbookRelationships =
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      sheetEntries
+        .map(
+          (_, index) =>
+            `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`,
+        )
+        .join('') +
+      `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+      '</Relationships>';
+
+    // Style 0 is the default, style 1 is bold
+    const styles =
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+      '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+      '</styleSheet>';
+
+    return this.writeZip([
+      { path: '[Content_Types].xml', content: contentTypes },
+      { path: '_rels/.rels', content: rootRelationships },
+      { path: 'xl/workbook.xml', content: workbook },
+      { path: 'xl/_rels/workbook.xml.rels', content: workbookRelationships },
+      { path: 'xl/styles.xml', content: styles },
+      ...sheetEntries,
+    ]);
+  }
+
+  // "A" for column 0, "AA" for column 26
+  static columnName(index: number): string {
+    let name = '';
+    for (
+      let column = index + 1;
+      column > 0;
+      column = Math.floor((column - 1) / 26)
+    ) {
+      name = String.fromCharCode(65 + ((column - 1) % 26)) + name;
+    }
+    return name;
+  }
+
+  private static sheetXml(sheet: SpreadsheetSheet): string {
+    const columns = sheet.columnWidths?.length
+      ? '<cols>' +
+        sheet.columnWidths
+          .map(
+            (width, index) =>
+              `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`,
+          )
+          .join('') +
+        '</cols>'
+      : '';
+
+    const rows = sheet.rows
+      .map((cells, rowIndex) => {
+        const rowNumber = rowIndex + 1;
+        const cellXml = cells
+          .map((cell, columnIndex) =>
+            this.cellXml(`${this.columnName(columnIndex)}${rowNumber}`, cell),
+          )
+          .join('');
+        return `<row r="${rowNumber}">${cellXml}</row>`;
+      })
+      .join('');
+
+    return (
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      columns +
+      `<sheetData>${rows}</sheetData>` +
+      '</worksheet>'
+    );
+  }
+
+  private static cellXml(reference: string, cell: SpreadsheetCell): string {
+    const isObject = cell !== null && typeof cell === 'object';
+    const style = isObject && cell.bold ? ' s="1"' : '';
+
+    if (isObject && 'formula' in cell) {
+      return `<c r="${reference}"${style}><f>${this.encodeXml(cell.formula)}</f></c>`;
+    }
+
+    const value = isObject ? cell.value : cell;
+    if (value === null || value === undefined || value === '') {
+      return style ? `<c r="${reference}"${style}/>` : '';
+    }
+    if (typeof value === 'number') {
+      return Number.isFinite(value)
+        ? `<c r="${reference}"${style}><v>${value}</v></c>`
+        : '';
+    }
+    if (typeof value === 'boolean') {
+      return `<c r="${reference}"${style} t="b"><v>${value ? 1 : 0}</v></c>`;
+    }
+    return `<c r="${reference}"${style} t="inlineStr"><is><t xml:space="preserve">${this.encodeXml(value)}</t></is></c>`;
+  }
+
+  private static encodeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  private static readCsv(buffer: Buffer): string[][] {
+    // Strip the byte order mark Excel adds to UTF-8 exports
+    const text = buffer.toString('utf8').replace(/^\uFEFF/, '');
+    const parsed = Papa.parse<string[]>(text);
+    if (parsed.errors.length > 0 && parsed.data.length === 0) {
+      throw new Error(`Invalid CSV file: ${parsed.errors[0].message}`);
+    }
+    return parsed.data;
+  }
+
+  private static readXlsx(buffer: Buffer): string[][] {
+    const entries = this.readZipEntries(buffer);
+    const read = (path: string): string | undefined =>
+      entries.get(path)?.toString('utf8');
+
+    const sheetPath = this.findFirstSheetPath(read);
+    const sheet = sheetPath ? read(sheetPath) : undefined;
+    if (!sheet) {
+      throw new Error('Invalid XLSX file: no worksheet found');
+    }
+
+    const sharedStrings = this.readSharedStrings(read('xl/sharedStrings.xml'));
+    const rows: string[][] = [];
+
+    const rowPattern = /<row\b([^>]*)>([\s\S]*?)<\/row>/g;
+    for (const rowMatch of sheet.matchAll(rowPattern)) {
+      // Empty rows are left out of the sheet XML; keep line numbers aligned
+      const rowNumber = Number(/\br="(\d+)"/.exec(rowMatch[1])?.[1]);
+      while (rowNumber && rows.length < rowNumber - 1) {
+        rows.push([]);
+      }
+
+      const cells: string[] = [];
+      const cellPattern = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g;
+      let nextColumn = 0;
+
+      for (const cellMatch of rowMatch[2].matchAll(cellPattern)) {
+        const attributes = cellMatch[1];
+        const content = cellMatch[2] ?? '';
+        const reference = /\br="([A-Z]+)\d+"/.exec(attributes);
+        const column = reference ? this.columnIndex(reference[1]) : nextColumn;
+        const type = /\bt="([^"]+)"/.exec(attributes)?.[1];
+        const value = /<v>([\s\S]*?)<\/v>/.exec(content)?.[1] ?? '';
+
+        let text: string;
+        if (type === 's') {
+          text = sharedStrings[Number(value)] ?? '';
+        } else if (type === 'inlineStr') {
+          text = this.readText(content);
+        } else if (type === 'b') {
+          text = value === '1' ? 'true' : 'false';
+        } else {
+          text = this.decodeXml(value);
+        }
+
+        while (cells.length < column) {
+          cells.push('');
+        }
+        cells[column] = text;
+        nextColumn = column + 1;
+      }
+
+      rows.push(cells);
+    }
+
+    return rows;
+  }
+
+  private static findFirstSheetPath(
+    read: (path: string) => string | undefined,
+  ): string | undefined {
+    const workbook = read('xl/workbook.xml');
+    const relationships = read('xl/_rels/workbook.xml.rels');
+    const relationshipId = workbook
+      ? /<sheet\b[^>]*\br:id="([^"]+)"/.exec(workbook)?.[1]
+      : undefined;
+
+    if (relationshipId && relationships) {
+      for (const match of relationships.matchAll(/<Relationship\b[^>]*>/g)) {
+        const id = /\bId="([^"]+)"/.exec(match[0])?.[1];
+        const target = /\bTarget="([^"]+)"/.exec(match[0])?.[1];
+        if (id === relationshipId && target) {
+          return target.startsWith('/')
+            ? target.slice(1)
+            : `xl/${target.replace(/^\.\//, '')}`;
+        }
+      }
+    }
+
+    return 'xl/worksheets/sheet1.xml';
+  }
+
+  private static readSharedStrings(xml?: string): string[] {
+    if (!xml) {
+      return [];
+    }
+    return Array.from(xml.matchAll(/<si>([\s\S]*?)<\/si>/g), (match) =>
+      this.readText(match[1]),
+    );
+  }
+
+  // Concatenate the <t> runs of a string item (rich text has several)
+  private static readText(xml: string): string {
+    return Array.from(xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), (match) =>
+      this.decodeXml(match[1]),
+    ).join('');
+  }
+
+  private static decodeXml(text: string): string {
+    return text.replace(
+      /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+      (entity: string, code: string) => {
+        if (code.startsWith('#x') || code.startsWith('#X')) {
+          return String.fromCodePoint(parseInt(code.slice(2), 16));
+        }
+        if (code.startsWith('#')) {
+          return String.fromCodePoint(parseInt(code.slice(1), 10));
+        }
+        return XML_ENTITIES[code] ?? entity;
+      },
+    );
+  }
+
+  // "A" -> 0, "Z" -> 25, "AA" -> 26
+  private static columnIndex(letters: string): number {
+    return (
+      letters
+        .split('')
+        .reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) -
+      1
+    );
+  }
+
+  /**
+   * Minimal ZIP reader for the OOXML container: walks the central directory
+   * and inflates stored or deflated entries, each no larger than its declared
+   * size and up to MAX_UNZIPPED_BYTES in all. Every offset read from the
+   * archive is checked against its length; ZIP64 archives are rejected.
+   */
+  private static readZipEntries(buffer: Buffer): Map<string, Buffer> {
+    const ensure = (start: number, length: number, part: string) => {
+      if (start < 0 || start + length > buffer.length) {
+        throw new Error(`Invalid XLSX file: truncated ${part}`);
+      }
+    };
+
+    // The end record is followed by a comment of at most 64 KiB
+    let endOffset = -1;
+    const searchEnd = Math.max(0, buffer.length - 22 - ZIP_MAX_COMMENT_LENGTH);
+    for (let offset = buffer.length - 22; offset >= searchEnd; offset--) {
+      if (buffer.readUInt32LE(offset) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+        endOffset = offset;
+        break;
+      }
+    }
+    if (endOffset < 0) {
+      throw new Error('Invalid XLSX file: not a ZIP archive');
+    }
+
+    const entryCount = buffer.readUInt16LE(endOffset + 10);
+    let offset = buffer.readUInt32LE(endOffset + 16);
+    if (
+      entryCount === ZIP64_MARKER_16 ||
+      offset === ZIP64_MARKER_32 ||
+      (endOffset >= 20 &&
+        buffer.readUInt32LE(endOffset - 20) === ZIP64_END_LOCATOR)
+    ) {
+      throw new Error('Invalid XLSX file: ZIP64 archives are not supported');
+    }
+
+    const entries = new Map<string, Buffer>();
+    let remainingBytes = MAX_UNZIPPED_BYTES;
+
+    for (let i = 0; i < entryCount; i++) {
+      ensure(offset, 46, 'central directory');
+      if (buffer.readUInt32LE(offset) !== ZIP_CENTRAL_DIRECTORY_ENTRY) {
+        throw new Error('Invalid XLSX file: corrupt central directory');
+      }
+      const method = buffer.readUInt16LE(offset + 10);
+      const compressedSize = buffer.readUInt32LE(offset + 20);
+      const uncompressedSize = buffer.readUInt32LE(offset + 24);
+      const nameLength = buffer.readUInt16LE(offset + 28);
+      const extraLength = buffer.readUInt16LE(offset + 30);
+      const commentLength = buffer.readUInt16LE(offset + 32);
+      const localOffset = buffer.readUInt32LE(offset + 42);
+      ensure(offset + 46, nameLength + extraLength + commentLength, 'entry');
+      const name = buffer.toString(
+        'utf8',
+        offset + 46,
+        offset + 46 + nameLength,
+      );
+
+      if (
+        compressedSize === ZIP64_MARKER_32 ||
+        uncompressedSize === ZIP64_MARKER_32 ||
+        localOffset === ZIP64_MARKER_32
+      ) {
+        throw new Error('Invalid XLSX file: ZIP64 archives are not supported');
+      }
+      if (uncompressedSize > remainingBytes) {
+        throw new Error('Invalid XLSX file: too large once uncompressed');
+      }
+
+      ensure(localOffset, 30, `entry ${name}`);
+      if (buffer.readUInt32LE(localOffset) !== ZIP_LOCAL_FILE_HEADER) {
+        throw new Error(`Invalid XLSX file: corrupt entry ${name}`);
+      }
+      const dataStart =
+        localOffset +
+        30 +
+        buffer.readUInt16LE(localOffset + 26) +
+        buffer.readUInt16LE(localOffset + 28);
+      ensure(dataStart, compressedSize, `entry ${name}`);
+      const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+      let content: Buffer | undefined;
+      if (method === ZIP_STORED) {
+        content = data;
+      } else if (method === ZIP_DEFLATED) {
+        try {
+          content = inflateRawSync(data, {
+            maxOutputLength: Math.max(uncompressedSize, 1),
+          });
+        } catch (error) {
+          if (
+            (error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE'
+          ) {
+            throw new Error(
+              `Invalid XLSX file: entry ${name} is larger than declared`,
+            );
+          }
+          throw error;
+        }
+      }
+      if (content) {
+        if (content.length !== uncompressedSize) {
+          throw new Error(`Invalid XLSX file: corrupt entry ${name}`);
+        }
+        remainingBytes -= content.length;
+        entries.set(name, content);
+      }
+
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+  }
+
+  private static writeZip(files: { path: string; content: string }[]): Buffer {
+    const localParts: Buffer[] = [];
+    const centralParts: Buffer[] = [];
+    let offset = 0;
+
+    files.forEach(({ path, content }) => {
+      const name = Buffer.from(path, 'utf8');
+      const data = Buffer.from(content, 'utf8');
+      const compressed = deflateRawSync(data);
+      const crc = this.crc32(data);
+
+      const local = Buffer.alloc(30);
+      local.writeUInt32LE(ZIP_LOCAL_FILE_HEADER, 0);
+      local.writeUInt16LE(20, 4); // Version needed to extract
+      local.writeUInt16LE(0x0800, 6); // UTF-8 names
+      local.writeUInt16LE(ZIP_DEFLATED, 8);
+      local.writeUInt32LE(crc, 14);
+      local.writeUInt32LE(compressed.length, 18);
+      local.writeUInt32LE(data.length, 22);
+      local.writeUInt16LE(name.length, 26);
+
+      const central = Buffer.alloc(46);
+      central.writeUInt32LE(ZIP_CENTRAL_DIRECTORY_ENTRY, 0);
+      central.writeUInt16LE(20, 4); // Version made by
+      central.writeUInt16LE(20, 6);
+      central.writeUInt16LE(0x0800, 8);
+      central.writeUInt16LE(ZIP_DEFLATED, 10);
+      central.writeUInt32LE(crc, 16);
+      central.writeUInt32LE(compressed.length, 20);
+      central.writeUInt32LE(data.length, 24);
+      central.writeUInt16LE(name.length, 28);
+      central.writeUInt32LE(offset, 42);
+
+      localParts.push(local, name, compressed);
+      centralParts.push(central, name);
+      offset += local.length + name.length + compressed.length;
+    });
+
+    const centralDirectory = Buffer.concat(centralParts);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(ZIP_END_OF_CENTRAL_DIRECTORY, 0);
+    end.writeUInt16LE(files.length, 8);
+    end.writeUInt16LE(files.length, 10);
+    end.writeUInt32LE(centralDirectory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...localParts, centralDirectory, end]);
+  }
+
+  private static crc32(data: Buffer): number {
+    let crc = 0xffffffff;
+    for (const byte of data) {
+      crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+}
@@ -0,0 +1,31 @@
+import {
+  registerDecorator,
+  ValidationOptions,
+  ValidationArguments,
+} from 'class-validator';
+import { CollectionSchedule } from '@domain/measurement-plans/services/collection-schedule.service';
+
+/**
+ * Custom validator to ensure a frequency is a schedule that collection
+ * tasks can be created from (see CollectionSchedule).
+ * @param validationOptions - Standard validation options
+ */
+export function IsCollectionSchedule(validationOptions?: ValidationOptions) {
+  return function (object: object, propertyName: string) {
+    registerDecorator({
+      name: 'isCollectionSchedule',
+      target: object.constructor,
+      propertyName: propertyName,
+      options: validationOptions,
+      validator: {
+        validate(value: unknown) {
+          if (typeof value !== 'string') return true;
+          return CollectionSchedule.validate(value) === null;
+        },
+        defaultMessage(args: ValidationArguments) {
+          return `${args.property}: ${CollectionSchedule.validate(args.value as string)}`;
+        },
+      },
+    });
+  };
+}